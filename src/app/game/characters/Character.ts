@@ -72,7 +72,8 @@ abstract class Character extends BoardItem {
     mappedGraph: Graph
   ): PathResultWithDirection | null {
     const shortestPath = this.getShortestPathToCharacter(targetCell, mappedGraph);
-    if (shortestPath.distance > 0) {
+    // An unreachable target has an infinite distance and an empty path
+    if (shortestPath.distance > 0 && shortestPath.path.length > 1) {
       const direction: Direction | null = targetCell.getDirection(shortestPath.path[1]);
       return validatePathResultWithDirection({
         distance: shortestPath.distance,
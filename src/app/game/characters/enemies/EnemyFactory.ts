@@ -0,0 +1,49 @@
+import type { Direction, EnemiesTypes } from '../../../../schemas/zod.js';
+import type Board from '../../match/boards/Board.js';
+import type Cell from '../../match/boards/CellBoard.js';
+import Cow from './Cow.js';
+import type Enemy from './Enemy.js';
+import LogMan from './LogMan.js';
+import SquidBlue from './SquidBlue.js';
+import SquidGreen from './SquidGreen.js';
+import Troll from './Troll.js';
+
+/**
+ * Creates an enemy of the given type placed in the given cell.
+ *
+ * @param {EnemiesTypes} type The type of the enemy to create.
+ * @param {Cell} cell The cell where the enemy is placed.
+ * @param {Board} board The board the enemy belongs to.
+ * @param {string} id The ID of the enemy, generated if not provided.
+ * @param {Direction} orientation The initial orientation of the enemy.
+ * @returns {Enemy} The enemy instance.
+ */
+const createEnemy = (
+  type: EnemiesTypes,
+  cell: Cell,
+  board: Board,
+  id?: string,
+  orientation?: Direction
+): Enemy => {
+  switch (type) {
+    case 'cow':
+      return new Cow(cell, board, id, undefined, orientation);
+    case 'log-man':
+      return new LogMan(cell, board, id, undefined, orientation);
+    case 'squid-green':
+      return new SquidGreen(cell, board, id, undefined, orientation);
+    case 'squid-blue':
+      return new SquidBlue(cell, board, id, undefined, orientation);
+    default:
+      return new Troll(cell, board, id, undefined, orientation);
+  }
+};
+
+/**
+ * Factory responsible for creating the Enemy implementation that matches a given enemy type.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+const EnemyFactory = { createEnemy };
+export default EnemyFactory;
@@ -3,6 +3,7 @@ import {
   type Direction,
   type EnemiesTypes,
   type PathResultWithDirection,
+  type PlayersPaths,
   validateGameMessageOutput,
   validatePathResultWithDirection,
 } from '../../../../schemas/zod.js';
@@ -20,9 +21,9 @@ import Enemy from './Enemy.js';
 export default class LogMan extends Enemy {
   public async calculateMovement(): Promise<void> {
     const canBreakFrozen = false;
-    const { hostPath, guestPath } = this.board.getPlayersPaths(this.cell, canBreakFrozen);
+    const paths = this.board.getPlayersPaths(this.cell, canBreakFrozen);
 
-    const bestPath = this.calculateBestStraightPath(hostPath, guestPath);
+    const bestPath = this.calculateBestStraightPath(paths);
     if (bestPath) return await this.rollToDirection(bestPath.direction, bestPath.distance);
     await this.rollToDirection(this.orientation);
   }
@@ -59,42 +60,19 @@ export default class LogMan extends Enemy {
   /*
    * This method calculates the best path for the LogMan to follow in stright line.
    */
-  private calculateBestStraightPath(
-    hostPath: PathResultWithDirection | null,
-    guestPath: PathResultWithDirection | null
-  ): PathResultWithDirection | null {
-    if (hostPath && guestPath) {
-      const hostStrightPath = this.calculateCoordinatesStraightPath(hostPath);
-      const guestStraightPath = this.calculateCoordinatesStraightPath(guestPath);
-      const resultHostPath = validatePathResultWithDirection({
-        distance: hostStrightPath.length,
-        path: hostStrightPath,
-        direction: hostPath.direction,
-      });
-      const resultGuestPath = validatePathResultWithDirection({
-        distance: guestStraightPath.length,
-        path: guestStraightPath,
-        direction: guestPath.direction,
-      });
-      return hostStrightPath.length < guestStraightPath.length ? resultHostPath : resultGuestPath;
-    }
-    if (hostPath) {
-      const hostStraightPath = this.calculateCoordinatesStraightPath(hostPath);
-      return validatePathResultWithDirection({
-        distance: hostStraightPath.length,
-        path: hostStraightPath,
-        direction: hostPath.direction,
-      });
-    }
-    if (guestPath) {
-      const guestStraightPath = this.calculateCoordinatesStraightPath(guestPath);
-      return validatePathResultWithDirection({
-        distance: guestStraightPath.length,
-        path: guestStraightPath,
-        direction: guestPath.direction,
+  private calculateBestStraightPath(paths: PlayersPaths): PathResultWithDirection | null {
+    let bestPath: PathResultWithDirection | null = null;
+    for (const playerPath of paths.values()) {
+      const straightPath = this.calculateCoordinatesStraightPath(playerPath);
+      // Ties go to the last player, the same way they went to the guest with two players
+      if (bestPath && straightPath.length > bestPath.distance) continue;
+      bestPath = validatePathResultWithDirection({
+        distance: straightPath.length,
+        path: straightPath,
+        direction: playerPath.direction,
       });
     }
-    return null;
+    return bestPath;
   }
 
   /*
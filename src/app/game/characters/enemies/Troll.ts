@@ -1,4 +1,3 @@
-import { randomInt } from 'node:crypto';
 import type { Direction, EnemiesTypes } from '../../../../schemas/zod.js';
 import { logger } from '../../../../server.js';
 import Enemy from './Enemy.js';
@@ -47,7 +46,7 @@ export default class Troll extends Enemy {
    * @return {Promise<void>} A promise that resolves when the Troll moves in a random direction.
    */
   private async moveRandomDirection(movements: Direction[]): Promise<void> {
-    const random = randomInt(0, movements.length);
+    const random = this.board.getRandom().nextInt(movements.length);
     const direction = movements[random];
     movements.splice(random, 1);
     await this.moveAlongPath(direction);
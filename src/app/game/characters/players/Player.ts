@@ -4,10 +4,12 @@ import {
   type BoardItemDTO,
   type CellDTO,
   type PlayerMove,
+  type PlayerScore,
   type PlayerStorage,
   type UserQueue,
   validatePlayerMove,
 } from '../../../../schemas/zod.js';
+import { config } from '../../../../server.js';
 import type Cell from '../../match/boards/CellBoard.js';
 import Character from '../Character.js';
 
@@ -15,6 +17,8 @@ import Character from '../Character.js';
  * @class Player
  * Represents the behavior and properties of a player in the game "Bad Ice Cream".
  * Extends the `Character` class and implements player-specific methods such as movement and state management.
+ * A player moves at most as many cells per second as its speed, PLAYER_MOVES_PER_SECOND unless it
+ * has its own, measured with the clock of the game loop.
  *
  * @since 18/04/2025
  * @extends Character
@@ -24,8 +28,14 @@ import Character from '../Character.js';
 class Player extends Character {
   private status: 'WAITING' | 'PLAYING' | 'READY' = 'WAITING';
   private name = 'Anonymous';
+  private fruits = 0;
+  private deaths = 0;
+  private scoredAt = 0;
+  private speed?: number;
+  private lastMoveMs: number | null = null;
   /**
    * Retrieves the player's update information, including position, state, and consumed items.
+   * When the player picks an item, the update also carries the fruits picked by the player.
    *
    * @param {string | null} idItem The ID of the item consumed by the player, or null if none.
    * @return {PlayerMove} The player's updated state and position.
@@ -33,6 +43,7 @@ class Player extends Character {
   public getCharacterUpdate(idItem: string | null): PlayerMove {
     const idItemConsumed = idItem ? idItem : undefined;
     const numberOfFruits = idItemConsumed ? this.board.getFruitsNumber() : undefined;
+    const score = idItemConsumed ? this.fruits : undefined;
     return validatePlayerMove({
       id: this.id,
       coordinates: this.getCoordinates(),
@@ -40,6 +51,7 @@ class Player extends Character {
       state: this.getState(),
       idItemConsumed,
       numberOfFruits,
+      score,
     });
   }
 
@@ -56,9 +68,60 @@ class Player extends Character {
       coordinates: this.getCoordinates(),
       direction: this.orientation,
       state: this.getState(),
+      fruits: this.fruits,
+      deaths: this.deaths,
+      scoredAt: this.scoredAt,
+      speed: this.speed,
     };
   }
 
+  /**
+   * Retrieves the speed of the player.
+   *
+   * @return {number} The moves per second the player can make.
+   */
+  public getSpeed(): number {
+    return this.speed ?? config.PLAYER_MOVES_PER_SECOND;
+  }
+
+  /**
+   * Sets a speed of its own for the player.
+   *
+   * @param {number} movesPerSecond The moves per second the player can make.
+   */
+  public setSpeed(movesPerSecond: number): void {
+    this.speed = movesPerSecond;
+  }
+
+  /**
+   * Lets the player move right away, regardless of its last move. Used to replay the moves of a
+   * restored match one after the other.
+   */
+  public resetMoveClock(): void {
+    this.lastMoveMs = null;
+  }
+
+  /**
+   * Retrieves the score of the player: the fruits picked, the times the player died and the
+   * second of the match when the last fruit was picked.
+   *
+   * @return {PlayerScore} The score of the player.
+   */
+  public getScore(): PlayerScore {
+    return { id: this.id, fruits: this.fruits, deaths: this.deaths, scoredAt: this.scoredAt };
+  }
+
+  /**
+   * Restores the score of the player from the storage.
+   *
+   * @param {PlayerStorage} storage The stored state of the player.
+   */
+  public loadScore({ fruits, deaths, scoredAt }: PlayerStorage): void {
+    this.fruits = fruits ?? 0;
+    this.deaths = deaths ?? 0;
+    this.scoredAt = scoredAt ?? 0;
+  }
+
   /**
    * Converts the player into a `BoardItemDTO` object.
    *
@@ -95,6 +158,7 @@ class Player extends Character {
    * @return {boolean} True, indicating the player has died.
    */
   die(): boolean {
+    if (this.alive) this.deaths++;
     this.alive = false;
     return true;
   }
@@ -137,6 +201,7 @@ class Player extends Character {
 
   /**
    * Moves the player to a new cell and handles interactions with items or characters.
+   * The items picked up count as fruits for the score of the player.
    *
    * @param {Cell} cellnew The new cell to move to.
    * @param {Character | null} character The character in the new cell, if any.
@@ -148,7 +213,12 @@ class Player extends Character {
     this.cell.setCharacter(null);
     cellnew.setCharacter(this);
     this.cell = cellnew;
-    const idItem = this.cell.pickItem();
+    this.lastMoveMs = this.board.now();
+    const idItem = await this.cell.pickItem();
+    if (idItem) {
+      this.fruits++;
+      this.scoredAt = this.board.getElapsedSeconds();
+    }
 
     if (character?.kill()) {
       // If it's an enemy, the player dies.
@@ -162,14 +232,26 @@ class Player extends Character {
    *
    * @param {Cell | null} cell The cell to validate.
    * @return {{ character: Character | null; cell: Cell }} An object containing the character in the cell (if any) and the cell itself.
-   * @throws {CharacterError} If the cell is null, blocked, or contains an unkillable character.
+   * @throws {CharacterError} If the player moves too fast, or the cell is null, blocked, or contains an unkillable character.
    */
   protected validateMove(cell: Cell | null): { character: Character | null; cell: Cell } {
+    if (!this.canMoveNow()) throw new CharacterError(CharacterError.TOO_FAST);
     if (!cell) throw new CharacterError(CharacterError.NULL_CELL); // If it's a border, it can't move
     if (cell.blocked() || cell.isFrozen()) throw new CharacterError(CharacterError.BLOCKED_CELL); // If it's a block object, it can't move
     const character = cell.getCharacter();
     if (character && !character.kill()) throw new CharacterError(CharacterError.BLOCKED_CELL); // If it's another player, it can't move
     return { character, cell };
   }
+
+  /**
+   * Checks if the player can move now or moves faster than its speed.
+   *
+   * @return {boolean} True if the player can move now, false otherwise.
+   */
+  public canMoveNow(): boolean {
+    const speed = this.getSpeed();
+    if (this.lastMoveMs === null || !(speed > 0)) return true;
+    return this.board.now() - this.lastMoveMs >= 1000 / speed;
+  }
 }
 export default Player;
@@ -0,0 +1,180 @@
+import BoardError from '../../../../errors/BoardError.js';
+import MatchError from '../../../../errors/MatchError.js';
+import {
+  type CellCoordinates,
+  type Direction,
+  type GameMessageOutput,
+  type PlayerMove,
+  type UpdateEnemy,
+  parseCoordinatesToString,
+  validateGameMessageOutput,
+} from '../../../../schemas/zod.js';
+import type Board from '../../match/boards/Board.js';
+import type Cell from '../../match/boards/CellBoard.js';
+import type Player from './Player.js';
+
+/**
+ * @class PlayerBot
+ * Drives the partner player of a solo match from the server.
+ * On every turn the bot walks towards the closest fruit it can reach, preferring the paths that do
+ * not go next to an enemy, breaks the ice when every path is frozen and runs away when an enemy
+ * gets too close.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class PlayerBot {
+  public static readonly ID_PREFIX = 'bot-';
+  private static readonly FRUITS = ['fruit', 'specialfruit'];
+  private readonly board: Board;
+  private readonly playerId: string;
+
+  /**
+   * Creates a bot that plays as the given player of the board.
+   *
+   * @param {Board} board - The board where the bot plays.
+   * @param {string} playerId - The ID of the player controlled by the bot.
+   */
+  constructor(board: Board, playerId: string) {
+    this.board = board;
+    this.playerId = playerId;
+  }
+
+  /**
+   * Retrieves the ID used by the bot in the given match.
+   *
+   * @param {string} matchId - The ID of the match.
+   * @return {string} The ID of the bot.
+   */
+  public static getBotId(matchId: string): string {
+    return `${PlayerBot.ID_PREFIX}${matchId}`;
+  }
+
+  /**
+   * Checks if the given player ID belongs to a bot.
+   *
+   * @param {string} playerId - The ID of the player.
+   * @return {boolean} True if the player is a bot, false otherwise.
+   */
+  public static isBot(playerId: string): boolean {
+    return playerId.startsWith(PlayerBot.ID_PREFIX);
+  }
+
+  /**
+   * Plays a turn of the bot: moves, rotates towards the ice or breaks it.
+   *
+   * @return {Promise<GameMessageOutput | null>} The update to notify, or null if the bot waits.
+   * @throws {BoardError} If the bot player is not defined.
+   */
+  public async play(): Promise<GameMessageOutput | null> {
+    const player = this.getPlayer();
+    if (!player.isAlive() || this.board.checkWin()) return null;
+    const dangerCells = this.getDangerCells();
+    const nextCell =
+      this.getNextCellToFruit(false, dangerCells) ??
+      this.getNextCellToFruit(true, dangerCells) ??
+      this.getEscapeCell(player, dangerCells);
+    if (!nextCell) return null;
+    const direction = this.getCell(player.getCoordinates()).getDirection(nextCell.getCoordinates());
+    if (!direction) return null;
+    if (!nextCell.isFrozen()) {
+      return { type: 'update-move', payload: await this.move(player, direction) };
+    }
+    if (player.getOrientation() !== direction) {
+      return { type: 'update-move', payload: player.changeOrientation(direction) };
+    }
+    const frozenCells = await player.execPower();
+    return validateGameMessageOutput({
+      type: 'update-frozen-cells',
+      payload: { cells: frozenCells, direction },
+    });
+  }
+
+  private getPlayer(): Player {
+    const player = this.board.getPlayer(this.playerId);
+    if (!player) throw new BoardError(BoardError.USER_NOT_DEFINED);
+    return player;
+  }
+
+  private getCell({ x, y }: CellCoordinates): Cell {
+    return this.board.getBoard()[x][y];
+  }
+
+  /**
+   * Looks for the first step towards the closest fruit.
+   * Paths that stay away from the enemies win over shorter paths that go next to them.
+   */
+  private getNextCellToFruit(canBreakFrozen: boolean, dangerCells: Set<string>): Cell | null {
+    let best: { cell: Cell; safe: boolean; distance: number } | null = null;
+    for (const fruitCell of this.getFruitCells()) {
+      const botPath = this.board.getPlayersPaths(fruitCell, canBreakFrozen).get(this.playerId);
+      // The path goes from the fruit to the bot, so the step is the one before the last cell
+      if (!botPath || botPath.path.length < 2) continue;
+      const nextCell = this.getCell(botPath.path[botPath.path.length - 2]);
+      if (!this.isWalkable(nextCell, canBreakFrozen, dangerCells)) continue;
+      const safe = botPath.path
+        .slice(0, -1)
+        .every((coordinates) => !dangerCells.has(parseCoordinatesToString(coordinates)));
+      const better =
+        !best || (safe && !best.safe) || (safe === best.safe && botPath.distance < best.distance);
+      if (better) best = { cell: nextCell, safe, distance: botPath.distance };
+    }
+    return best?.cell ?? null;
+  }
+
+  private getEscapeCell(player: Player, dangerCells: Set<string>): Cell | null {
+    const currentCell = this.getCell(player.getCoordinates());
+    if (!dangerCells.has(parseCoordinatesToString(currentCell.getCoordinates()))) return null;
+    return (
+      currentCell.getNeighbors().find((cell) => this.isWalkable(cell, false, dangerCells)) ?? null
+    );
+  }
+
+  private isWalkable(cell: Cell, canBreakFrozen: boolean, dangerCells: Set<string>): boolean {
+    return (
+      !cell.blocked() &&
+      (canBreakFrozen || !cell.isFrozen()) &&
+      cell.getCharacter() === null &&
+      !dangerCells.has(parseCoordinatesToString(cell.getCoordinates()))
+    );
+  }
+
+  private getFruitCells(): Cell[] {
+    return this.board
+      .getBoard()
+      .flat()
+      .filter((cell) => {
+        const item = cell.getItem();
+        return item !== null && PlayerBot.FRUITS.includes(item.getDTO().type);
+      });
+  }
+
+  /**
+   * Retrieves the cells occupied by the enemies and the cells around them.
+   */
+  private getDangerCells(): Set<string> {
+    const dangerCells = new Set<string>();
+    for (const cell of this.board.getBoard().flat()) {
+      if (!cell.getCharacter()?.kill()) continue;
+      for (const dangerCell of [cell, ...cell.getNeighbors()]) {
+        dangerCells.add(parseCoordinatesToString(dangerCell.getCoordinates()));
+      }
+    }
+    return dangerCells;
+  }
+
+  private async move(player: Player, direction: Direction): Promise<PlayerMove | UpdateEnemy> {
+    switch (direction) {
+      case 'up':
+        return await player.moveUp();
+      case 'down':
+        return await player.moveDown();
+      case 'left':
+        return await player.moveLeft();
+      case 'right':
+        return await player.moveRight();
+      default:
+        throw new MatchError(MatchError.INVALID_MOVE);
+    }
+  }
+}
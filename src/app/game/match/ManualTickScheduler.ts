@@ -0,0 +1,20 @@
+import TickScheduler from './TickScheduler.js';
+
+/**
+ * @class ManualTickScheduler
+ * @extends TickScheduler
+ * Game loop that never ticks on its own, its ticks are stepped by hand.
+ * Its time is the time simulated by the ticks, so it only moves forward when the loop is stepped.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class ManualTickScheduler extends TickScheduler {
+  public now(): number {
+    return this.elapsedMs;
+  }
+
+  protected start(): void {}
+
+  protected stop(): void {}
+}
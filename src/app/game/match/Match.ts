@@ -1,29 +1,39 @@
-import { dirname, resolve } from 'node:path';
-import { fileURLToPath } from 'node:url';
-import { Worker } from 'node:worker_threads';
 import { Mutex } from 'async-mutex';
 import {
   type BoardStorage,
+  type EndMatch,
   type GameMessageOutput,
   type MatchDTO,
+  type MatchOutcome,
+  type MatchResult,
+  type MatchSettings,
   type MatchStorage,
+  type PauseState,
+  type PlayerRanking,
+  type PlayerScore,
   type PlayerState,
   type PlayerStorage,
   type UpdateAll,
   type UpdateTime,
   type UserQueue,
+  validateEndMatch,
+  validateMatchResult,
+  validatePauseState,
   validatePlayerState,
   validateUpdateAll,
   validateUpdateTime,
 } from '../../../schemas/zod.js';
 import { config, logger } from '../../../server.js';
 import type Player from '../characters/players/Player.js';
+import PlayerBot from '../characters/players/PlayerBot.js';
 import type GameService from '../services/GameService.js';
+import MatchPauses from './MatchPauses.js';
+import Simulation from './Simulation.js';
 import type Board from './boards/Board.js';
 import BoardFactory from './boards/BoardFactory.js';
 /**
  * @class Match
- * Class representing a match between two players.
+ * Class representing a match between one and four players.
  * @since 18/04/2025
  * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
  */
@@ -32,49 +42,67 @@ export default class Match {
   private readonly id: string;
   private readonly level: number;
   private readonly map: string;
-  private readonly host: string;
-  private readonly guest: string;
+  private readonly players: string[];
   private readonly board: Board;
+  private readonly settings: MatchSettings;
   private readonly gameService: GameService;
+  private readonly simulation: Simulation;
   private started: boolean;
   private running: boolean;
   private fruitGenerated: boolean;
   private paused: boolean;
   private timeSeconds: number;
-  private worker: Worker | null = null;
+  private sequence = 0;
+  private clockTask: number | null = null;
+  private botTask: number | null = null;
+  private snapshotTimer: NodeJS.Timeout | null = null;
+  // Countdown task of every disconnected player
+  private readonly disconnections = new Map<string, number>();
+  private pausedByDisconnection = false;
+  private forfeitedBy: string | null = null;
+  private pauses: MatchPauses;
+  private pauseTask: number | null = null;
+  private pauseSecondsLeft: number | null = null;
+  // Inputs replayed from the log are not notified again
+  private replaying = false;
   constructor(
     gameService: GameService,
     id: string,
     level: number,
     map: string,
-    host: string,
-    guest: string,
+    players: string[],
     paused = false,
     fruitGenerated = false,
-    timeSeconds = config.MATCH_TIME_SECONDS
+    timeSeconds = config.MATCH_TIME_SECONDS,
+    settings: MatchSettings = { mode: 'classic' },
+    simulation: Simulation = Simulation.live()
   ) {
     this.gameService = gameService;
     this.id = id;
     this.level = level;
     this.mutex = new Mutex();
     this.map = map;
-    this.host = host;
-    this.guest = guest;
-    this.board = BoardFactory.createBoard(this, this.map, this.level);
+    this.players = players;
+    this.settings = settings;
+    this.simulation = simulation;
+    this.board = BoardFactory.createBoard(
+      this,
+      this.map,
+      this.level,
+      this.settings,
+      this.simulation
+    );
     this.started = false;
     this.paused = paused;
     this.fruitGenerated = false;
     this.fruitGenerated = fruitGenerated;
     this.timeSeconds = timeSeconds; // default time in seconds is 300
     this.running = true;
+    this.pauses = new MatchPauses(this.getHumanPlayers());
   }
 
   public updatePlayer(id: string, userData: Partial<UserQueue>): void {
-    if (id === this.host) {
-      this.board.getHost()?.updatePlayer(userData);
-    } else if (id === this.guest) {
-      this.board.getHost()?.updatePlayer(userData);
-    }
+    this.board.getPlayer(id)?.updatePlayer(userData);
   }
 
   /**
@@ -95,15 +123,58 @@ export default class Match {
     return this.level;
   }
 
+  /**
+   * Retrieves the map of the match.
+   *
+   * @return {string} The map of the match.
+   */
+  public getMap(): string {
+    return this.map;
+  }
+
+  /**
+   * Retrieves the sources of randomness, IDs and time of the match.
+   *
+   * @return {Simulation} The simulation of the match.
+   */
+  public getSimulation(): Simulation {
+    return this.simulation;
+  }
+
+  /**
+   * Retrieves the mode, seed and difficulty of the match.
+   *
+   * @return {MatchSettings} The settings of the match.
+   */
+  public getSettings(): MatchSettings {
+    return this.settings;
+  }
+
   /**
    * Loads the board with the given storage data.
    *
    * @param {BoardStorage} boardStorage The storage data for the board.
-   * @param {PlayerStorage} host The storage data for the host player.
-   * @param {PlayerStorage} guest The storage data for the guest player.
+   * @param {PlayerStorage[]} players The storage data for the players, host first.
    */
-  public loadBoard(boardStorage: BoardStorage, host: PlayerStorage, guest: PlayerStorage): void {
-    this.board.loadBoard(boardStorage, host, guest);
+  public loadBoard(boardStorage: BoardStorage, players: PlayerStorage[]): void {
+    this.board.loadBoard(boardStorage, players);
+  }
+
+  /**
+   * Restores the pauses the players of a restored match already took. The pause of a player that
+   * was running goes on counting down from the seconds it had left.
+   *
+   * @param {Record<string, number>} used The pauses taken by player ID.
+   * @param {string} pausedBy The player whose pause was running, if any.
+   * @param {number} secondsLeft The seconds that were left before the pause ended, if any.
+   */
+  public restorePauses(
+    used: Record<string, number>,
+    pausedBy?: string,
+    secondsLeft?: number
+  ): void {
+    this.pauses = new MatchPauses(this.getHumanPlayers(), used, pausedBy ?? null);
+    if (this.paused && pausedBy) this.startPauseCountdown(secondsLeft);
   }
 
   /**
@@ -112,21 +183,23 @@ export default class Match {
    * @return {Promise<MatchStorage>} A promise that resolves to the match storage data.
    */
   public async getMatchStorage(): Promise<MatchStorage> {
-    const { hostStorage, guestStorage } = this.board.getPlayersStorage() as {
-      hostStorage: PlayerStorage;
-      guestStorage: PlayerStorage;
-    };
+    const players = this.board.getPlayersStorage();
     const boardStorage = await this.board.getBoardStorage();
+    const pausedBy = this.pauses.getPausedBy();
     return {
       id: this.id,
       level: this.level,
       map: this.map,
-      host: hostStorage,
-      guest: guestStorage,
+      players,
       board: boardStorage,
       timeSeconds: this.timeSeconds,
       fruitGenerated: this.fruitGenerated,
       paused: this.paused,
+      sequence: this.sequence,
+      pausesUsed: this.pauses.getUsed(),
+      ...(pausedBy && { pausedBy }),
+      ...(this.pauseSecondsLeft !== null && { pauseSecondsLeft: this.pauseSecondsLeft }),
+      ...this.settings,
     };
   }
 
@@ -149,7 +222,7 @@ export default class Match {
     return this.running;
   }
   /**
-   * Pause the match for both players.
+   * Pause the match for all the players.
    * @returns {Promise<void>} Void promise when the match is paused.
    */
   public async pauseMatch(): Promise<void> {
@@ -168,6 +241,111 @@ export default class Match {
     });
   }
 
+  /**
+   * Pauses the match on behalf of a player, who spends one of its pauses. The pause lasts at most
+   * MAX_PAUSE_SECONDS, then the match resumes by itself. A limit that is not positive lets the
+   * pause last until the players resume the match.
+   *
+   * @param {string} playerId The ID of the player.
+   * @return {Promise<PauseState>} A promise that resolves to the state of the pause.
+   * @throws {GameError} If the player has no pauses left.
+   */
+  public async requestPause(playerId: string): Promise<PauseState> {
+    this.pauses.pause(playerId);
+    await this.pauseMatch();
+    this.startPauseCountdown();
+    return await this.getPauseState();
+  }
+
+  /**
+   * Asks to resume the match on behalf of a player. When the players have to agree, the match is
+   * only resumed once every player asked for it.
+   *
+   * @param {string} playerId The ID of the player.
+   * @return {Promise<PauseState>} A promise that resolves to the state of the pause.
+   */
+  public async requestResume(playerId: string): Promise<PauseState> {
+    if ((await this.isPaused()) && this.pauses.voteResume(playerId)) {
+      this.stopPauseCountdown();
+      this.pauses.resume();
+      await this.resumeMatch();
+    }
+    return await this.getPauseState();
+  }
+
+  /**
+   * Retrieves the state of the pause of the match, sent to the players with every change.
+   *
+   * @return {Promise<PauseState>} A promise that resolves to whether the match is paused, who
+   * paused it, the seconds before it resumes, the pauses left and the votes to resume it.
+   */
+  public async getPauseState(): Promise<PauseState> {
+    return validatePauseState({
+      paused: await this.isPaused(),
+      ...this.pauses.getState(),
+      ...(this.pauseSecondsLeft !== null && { secondsLeft: this.pauseSecondsLeft }),
+    });
+  }
+
+  /**
+   * Gives a player that lost its connection RECONNECT_GRACE_SECONDS to come back.
+   * The match is paused meanwhile and the other players receive the seconds left every second.
+   * When they run out the player forfeits the match. A grace that is not positive disables it, so
+   * the match keeps running without the player.
+   *
+   * @param {string} playerId The ID of the disconnected player.
+   * @return {Promise<void>} A promise that resolves when the other players are notified.
+   */
+  public async disconnectPlayer(playerId: string): Promise<void> {
+    if (!this.running || !(config.RECONNECT_GRACE_SECONDS > 0)) return;
+    if (!this.players.includes(playerId) || this.disconnections.has(playerId)) return;
+    let secondsLeft = config.RECONNECT_GRACE_SECONDS;
+    const task = this.simulation.getScheduler().schedule(
+      1000,
+      async () => {
+        secondsLeft -= 1;
+        if (secondsLeft > 0) await this.notifyDisconnection(playerId, secondsLeft);
+        else await this.forfeit(playerId);
+      },
+      this.id
+    );
+    this.disconnections.set(playerId, task);
+    if (!(await this.isPaused())) {
+      this.pausedByDisconnection = true;
+      await this.pauseMatch();
+      await this.notifyPlayers({ type: 'paused', payload: await this.getPauseState() });
+    }
+    await this.notifyDisconnection(playerId, secondsLeft);
+  }
+
+  /**
+   * Stops the countdown of a player that came back. The match is resumed once every player is
+   * back, unless it was already paused when the first of them left.
+   *
+   * @param {string} playerId The ID of the reconnected player.
+   * @return {Promise<void>} A promise that resolves when the other players are notified.
+   */
+  public async reconnectPlayer(playerId: string): Promise<void> {
+    const task = this.disconnections.get(playerId);
+    if (task === undefined) return;
+    this.simulation.getScheduler().cancel(task);
+    this.disconnections.delete(playerId);
+    await this.notifyPlayers({ type: 'player-reconnected', payload: { id: playerId } });
+    if (this.disconnections.size > 0 || !this.pausedByDisconnection) return;
+    this.pausedByDisconnection = false;
+    await this.resumeMatch();
+    await this.notifyPlayers({ type: 'paused', payload: await this.getPauseState() });
+  }
+
+  /**
+   * Checks if a player of the match is waiting to reconnect.
+   *
+   * @return {boolean} True if a player is disconnected, false otherwise.
+   */
+  public hasDisconnectedPlayers(): boolean {
+    return this.disconnections.size > 0;
+  }
+
   /**
    * Retrieves the current time of the match.
    *
@@ -180,6 +358,87 @@ export default class Match {
     });
   }
 
+  /**
+   * Retrieves the seconds elapsed since the match started.
+   *
+   * @return {number} The elapsed seconds of the match.
+   */
+  public getElapsedSeconds(): number {
+    return Math.max(config.MATCH_TIME_SECONDS - this.timeSeconds, 0);
+  }
+
+  /**
+   * Checks if the players of the match compete against each other.
+   *
+   * @return {boolean} True if the match is a versus match, false otherwise.
+   */
+  public isVersus(): boolean {
+    return this.settings.versus === true;
+  }
+
+  /**
+   * Ranks the players by the fruits they picked.
+   * Ties are broken by the player who reached the score first and then by the fewest deaths,
+   * players that are still tied share the position.
+   *
+   * @return {PlayerRanking[]} The players sorted from the first to the last position.
+   */
+  public getRanking(): PlayerRanking[] {
+    const scores = this.board
+      .getPlayers()
+      .map((player) => player.getScore())
+      .sort(Match.compareScores);
+    let position = 1;
+    return scores.map((score, index) => {
+      if (index > 0 && Match.compareScores(scores[index - 1], score) !== 0) position = index + 1;
+      return { ...score, position };
+    });
+  }
+
+  /**
+   * Retrieves the result of a versus match for the given player.
+   * The winner is the only player in the first position, otherwise the players in the first
+   * position draw.
+   *
+   * @param {string} playerId The ID of the player.
+   * @return {EndMatch} The result of the player with the winner and the ranking of the match.
+   */
+  public getVersusResult(playerId: string): EndMatch {
+    const ranking = this.getRanking();
+    const winner = this.getWinner(ranking);
+    const result = Match.getPlayerOutcome(ranking, winner, playerId);
+    return validateEndMatch({ result, winner, ranking });
+  }
+
+  /**
+   * Builds the result of the finished match to keep it in the history of the players.
+   * A cooperative match is won or lost by every player, a versus match is won by its winner or
+   * drawn when nobody leads alone.
+   *
+   * @return {MatchResult} The result of the match with the score of every player.
+   */
+  public getMatchResult(): MatchResult {
+    const ranking = this.getRanking();
+    const versus = this.isVersus();
+    const winner = versus ? this.getWinner(ranking) : null;
+    const cooperativeResult = this.checkWin() ? 'win' : 'lose';
+    return validateMatchResult({
+      matchId: this.id,
+      level: this.level,
+      map: this.map,
+      mode: this.settings.mode,
+      versus,
+      result: versus ? (winner ? 'win' : 'draw') : cooperativeResult,
+      winner,
+      durationSeconds: this.getElapsedSeconds(),
+      enemiesFaced: this.board.getEnemies().size,
+      players: ranking.map((score) => ({
+        ...score,
+        result: versus ? Match.getPlayerOutcome(ranking, winner, score.id) : cooperativeResult,
+      })),
+    });
+  }
+
   /**
    * Sends updates to the players, such as enemy movement, player movement, or fruit updates.
    *
@@ -187,8 +446,27 @@ export default class Match {
    * @return {Promise<void>} A promise that resolves when the players are notified.
    */
   public async notifyPlayers(data: GameMessageOutput): Promise<void> {
-    if (this.running) {
-      await this.gameService.updatePlayers(this.id, this.host, this.guest, data);
+    if (this.running && this.replaying) {
+      // The update was already sent, it only keeps its sequence number
+      this.nextSequence();
+    } else if (this.running) {
+      await this.gameService.updatePlayers(this.id, this.players, data);
+    }
+  }
+
+  /**
+   * Applies inputs that the players were already notified about, such as the log replayed by a
+   * restore, without notifying the players again. The updates keep their sequence numbers.
+   *
+   * @param {() => Promise<void>} apply The function that applies the inputs.
+   * @return {Promise<void>} A promise that resolves when the inputs are applied.
+   */
+  public async replay(apply: () => Promise<void>): Promise<void> {
+    this.replaying = true;
+    try {
+      await apply();
+    } finally {
+      this.replaying = false;
     }
   }
 
@@ -199,7 +477,7 @@ export default class Match {
    */
   public getMatchUpdate(): UpdateAll {
     const time = this.getUpdateTime();
-    const players = this.getPlayers();
+    const players = this.getPlayersStates();
     const board = this.board.cellsBoardDTO();
     return validateUpdateAll({
       players,
@@ -208,6 +486,35 @@ export default class Match {
     });
   }
 
+  /**
+   * Retrieves the sequence number of the next update broadcast to the match.
+   * The numbers increase by one with every update, so a client that misses one can ask for a resync.
+   *
+   * @return {number} The sequence number of the update.
+   */
+  public nextSequence(): number {
+    this.sequence += 1;
+    return this.sequence;
+  }
+
+  /**
+   * Retrieves the sequence number of the last update broadcast to the match.
+   *
+   * @return {number} The last sequence number, 0 if nothing was broadcast yet.
+   */
+  public getSequence(): number {
+    return this.sequence;
+  }
+
+  /**
+   * Restores the sequence of updates of a match loaded from the storage.
+   *
+   * @param {number} sequence The last sequence number broadcast to the match.
+   */
+  public restoreSequence(sequence: number): void {
+    this.sequence = sequence;
+  }
+
   /**
    * Retrieves the match details as a DTO.
    *
@@ -218,10 +525,11 @@ export default class Match {
       id: this.id,
       level: this.level,
       map: this.map,
-      hostId: this.host,
-      guestId: this.guest,
+      hostId: this.getHost(),
+      playersIds: this.players,
       typeFruits: this.board.getFruitTypes(),
       board: this.board.getBoardDTO(),
+      ...this.settings,
     };
   }
 
@@ -232,8 +540,7 @@ export default class Match {
    * @return {Player | null} The player if found, or null otherwise.
    */
   public getPlayer(id: string): Player | null {
-    const player = id === this.host ? this.board.getHost() : this.board.getGuest();
-    return player;
+    return this.board.getPlayer(id);
   }
 
   /**
@@ -251,16 +558,16 @@ export default class Match {
    * @return {string} The host player's ID.
    */
   public getHost(): string {
-    return this.host;
+    return this.players[0];
   }
 
   /**
-   * Retrieves the ID of the guest player.
+   * Retrieves the IDs of the players of the match, the host first.
    *
-   * @return {string} The guest player's ID.
+   * @return {string[]} The players' IDs.
    */
-  public getGuest(): string {
-    return this.guest;
+  public getPlayersIds(): string[] {
+    return this.players;
   }
 
   /**
@@ -270,8 +577,10 @@ export default class Match {
    */
   public async startGame(): Promise<void> {
     if (this.started) return;
-    await this.board.startGame(this.host, this.guest);
-    await this.startTimeMatch();
+    await this.board.startGame(this.players);
+    this.startTimeMatch();
+    if (this.settings.solo) this.startBot();
+    this.startSnapshots();
     this.started = true;
   }
 
@@ -283,7 +592,12 @@ export default class Match {
   public async stopGame(): Promise<void> {
     if (this.running) {
       this.running = false;
-      await this.stopTime();
+      this.stopTime();
+      this.stopBot();
+      this.stopSnapshots();
+      this.stopCountdowns();
+      // The seconds left of a pause are kept, so a saved match goes on counting them down
+      this.cancelPauseTask();
       await this.board.stopGame();
     }
   }
@@ -294,7 +608,7 @@ export default class Match {
    * @return {boolean} True if the players have won, false otherwise.
    */
   public checkWin(): boolean {
-    return this.board.checkWin();
+    return this.forfeitedBy === null && this.board.checkWin();
   }
 
   /**
@@ -303,7 +617,7 @@ export default class Match {
    * @return {boolean} True if the players have lost, false otherwise.
    */
   public checkLose(): boolean {
-    return this.board.checkLose() || this.timeSeconds <= 0;
+    return this.forfeitedBy !== null || this.board.checkLose() || this.timeSeconds <= 0;
   }
 
   /**
@@ -320,62 +634,226 @@ export default class Match {
   }
 
   /**
-   * Starts the match timer using a worker thread.
+   * Starts the match timer on the game loop.
    *
    * @private
-   * @return {Promise<void>} A promise that resolves when the timer starts.
-   */
-  private async startTimeMatch(): Promise<void> {
-    const __filename = fileURLToPath(import.meta.url);
-    const __dirname = dirname(__filename);
-    const timerSpeed = config.TIMER_SPEED_MS;
-    const fileName =
-      config.NODE_ENV === 'development'
-        ? resolve(__dirname, '../../../../dist/src/workers/clock.js')
-        : resolve(__dirname, '../../../workers/clock.js');
-    this.worker = new Worker(fileName, { workerData: { timerSpeed } });
-
-    this.worker.on('message', async (_message) => {
-      if (await this.isPaused()) return;
-      if (this.timeSeconds <= 0) {
-        await this.stopTime();
-        return;
-      }
-      if (!this.fruitGenerated && this.isTimeToGenerateFruit()) {
-        const coordinates = await this.board.generateSpecialFruit();
-        this.fruitGenerated = coordinates !== null;
-        if (coordinates) {
-          await this.notifyPlayers({
-            type: 'update-special-fruit',
-            payload: coordinates,
-          });
-        }
+   */
+  private startTimeMatch(): void {
+    this.clockTask = this.simulation
+      .getScheduler()
+      .schedule(config.TIMER_SPEED_MS, () => this.handleClockTick(), this.id);
+  }
+
+  /**
+   * Runs a second of the match: generates the special fruit when it is time and updates the time.
+   *
+   * @private
+   * @return {Promise<void>} A promise that resolves when the time is updated.
+   */
+  private async handleClockTick(): Promise<void> {
+    if (await this.isPaused()) return;
+    if (this.timeSeconds <= 0) {
+      this.stopTime();
+      return;
+    }
+    if (!this.fruitGenerated && this.isTimeToGenerateFruit()) {
+      const coordinates = await this.board.generateSpecialFruit();
+      this.fruitGenerated = coordinates !== null;
+      if (coordinates) {
+        await this.notifyPlayers({
+          type: 'update-special-fruit',
+          payload: coordinates,
+        });
       }
-      await this.updateTimeMatch();
-    });
+    }
+    await this.updateTimeMatch();
+  }
+
+  /**
+   * Stops the match timer and removes it from the game loop.
+   *
+   * @private
+   */
+  private stopTime(): void {
+    if (this.clockTask !== null) {
+      this.simulation.getScheduler().cancel(this.clockTask);
+      this.clockTask = null;
+    }
+  }
 
-    this.worker.on('error', (error) => {
-      logger.warn('An error occurred while running the time worker');
+  /**
+   * Starts the bot that plays as the partner in solo matches on the game loop.
+   *
+   * @private
+   */
+  private startBot(): void {
+    const botId = this.players.find((player) => PlayerBot.isBot(player));
+    if (!botId) return;
+    const bot = new PlayerBot(this.board, botId);
+    this.botTask = this.simulation.getScheduler().schedule(
+      config.BOT_SPEED_MS,
+      async () => {
+        if (await this.isPaused()) return;
+        await this.handleBotTurn(bot);
+      },
+      this.id
+    );
+  }
+
+  /**
+   * Plays a turn of the bot and notifies the players about it.
+   *
+   * @private
+   * @param {PlayerBot} bot The bot of the match.
+   * @return {Promise<void>} A promise that resolves when the turn is played.
+   */
+  private async handleBotTurn(bot: PlayerBot): Promise<void> {
+    if (this.checkWin() || this.checkLose()) return;
+    try {
+      const update = await bot.play();
+      if (update) await this.notifyPlayers(update);
+    } catch (error) {
+      // The board may change between the decision and the move, the bot tries again next turn
+      logger.warn(`The bot of the match ${this.id} could not play its turn`);
       logger.error(error);
-    });
+    }
+  }
 
-    this.worker.on('exit', (code) => {
-      if (code !== 0) logger.warn(`Time worker stopped with exit code ${code}`);
-      else logger.info('Time worker finished');
+  /**
+   * Stops the bot and removes it from the game loop.
+   *
+   * @private
+   */
+  private stopBot(): void {
+    if (this.botTask !== null) {
+      this.simulation.getScheduler().cancel(this.botTask);
+      this.botTask = null;
+    }
+  }
+
+  /**
+   * Saves a snapshot of the match on its own timer, so a crash only loses the enemy moves and the
+   * time since the last one. The game loop never waits for the cache, a snapshot that fails is
+   * logged and the next one takes its place. A SNAPSHOT_INTERVAL_MS that is not positive disables
+   * the snapshots.
+   *
+   * @private
+   */
+  private startSnapshots(): void {
+    if (!(config.SNAPSHOT_INTERVAL_MS > 0) || this.snapshotTimer) return;
+    this.snapshotTimer = setInterval(
+      () => this.gameService.snapshotMatch(this.id),
+      config.SNAPSHOT_INTERVAL_MS
+    );
+    this.snapshotTimer.unref();
+  }
+
+  /**
+   * Stops saving snapshots of the match.
+   *
+   * @private
+   */
+  private stopSnapshots(): void {
+    if (!this.snapshotTimer) return;
+    clearInterval(this.snapshotTimer);
+    this.snapshotTimer = null;
+  }
+
+  /**
+   * Tells the players how many seconds a disconnected player has left to come back.
+   *
+   * @private
+   */
+  private async notifyDisconnection(playerId: string, secondsLeft: number): Promise<void> {
+    await this.notifyPlayers({
+      type: 'player-disconnected',
+      payload: { id: playerId, secondsLeft },
     });
   }
 
   /**
-   * Stops the match timer and terminates the worker thread.
+   * Makes a player that did not come back in time forfeit. The last countdown ends the match, a
+   * cooperative match is lost and a versus match is won by the other player.
+   *
+   * @private
+   */
+  private async forfeit(playerId: string): Promise<void> {
+    this.forfeitedBy = playerId;
+    this.stopCountdowns();
+    await this.notifyDisconnection(playerId, 0);
+  }
+
+  /**
+   * Stops the countdowns of the disconnected players.
+   *
+   * @private
+   */
+  private stopCountdowns(): void {
+    for (const task of this.disconnections.values()) this.simulation.getScheduler().cancel(task);
+    this.disconnections.clear();
+  }
+
+  /**
+   * Starts counting down the seconds before a pause of a player ends.
+   *
+   * @private
+   */
+  private startPauseCountdown(from = config.MAX_PAUSE_SECONDS): void {
+    if (!(config.MAX_PAUSE_SECONDS > 0)) return;
+    this.stopPauseCountdown();
+    let secondsLeft = from;
+    this.pauseSecondsLeft = secondsLeft;
+    this.pauseTask = this.simulation.getScheduler().schedule(
+      1000,
+      async () => {
+        secondsLeft -= 1;
+        this.pauseSecondsLeft = secondsLeft;
+        if (secondsLeft <= 0) await this.endPause();
+      },
+      this.id
+    );
+  }
+
+  /**
+   * Stops counting down the seconds of a pause.
    *
    * @private
-   * @return {Promise<void>} A promise that resolves when the timer stops.
    */
-  private async stopTime(): Promise<void> {
-    if (this.worker) {
-      await this.worker.terminate();
-      this.worker = null;
+  private stopPauseCountdown(): void {
+    this.cancelPauseTask();
+    this.pauseSecondsLeft = null;
+  }
+
+  private cancelPauseTask(): void {
+    if (this.pauseTask === null) return;
+    this.simulation.getScheduler().cancel(this.pauseTask);
+    this.pauseTask = null;
+  }
+
+  /**
+   * Resumes a pause that lasted MAX_PAUSE_SECONDS. A match that waits for disconnected players is
+   * resumed when they are back instead.
+   *
+   * @private
+   */
+  private async endPause(): Promise<void> {
+    this.stopPauseCountdown();
+    this.pauses.resume();
+    if (this.hasDisconnectedPlayers()) {
+      this.pausedByDisconnection = true;
+      return;
     }
+    await this.resumeMatch();
+    await this.notifyPlayers({ type: 'paused', payload: await this.getPauseState() });
+  }
+
+  /**
+   * Retrieves the players of the match that are not bots.
+   *
+   * @private
+   */
+  private getHumanPlayers(): string[] {
+    return this.players.filter((player) => !PlayerBot.isBot(player));
   }
 
   /**
@@ -384,17 +862,41 @@ export default class Match {
    * @private
    * @return {PlayerState[]} An array of player states.
    */
-  private getPlayers(): PlayerState[] {
-    return [
-      validatePlayerState({
-        id: this.host,
-        state: this.board.getHost()?.getState(),
-      }),
-      validatePlayerState({
-        id: this.guest,
-        state: this.board.getGuest()?.getState(),
-      }),
-    ];
+  private getPlayersStates(): PlayerState[] {
+    return this.players.map((id) => {
+      const player = this.board.getPlayer(id);
+      return validatePlayerState({
+        id,
+        state: player?.getState(),
+        score: player?.getScore().fruits,
+      });
+    });
+  }
+
+  private getWinner(ranking: PlayerRanking[]): string | null {
+    // The player that forfeits loses whatever its score
+    if (this.forfeitedBy !== null)
+      return ranking.find(({ id }) => id !== this.forfeitedBy)?.id ?? null;
+    const leaders = ranking.filter(({ position }) => position === 1);
+    return leaders.length === 1 ? leaders[0].id : null;
+  }
+
+  private static getPlayerOutcome(
+    ranking: PlayerRanking[],
+    winner: string | null,
+    playerId: string
+  ): MatchOutcome {
+    if (winner === playerId) return 'win';
+    const leading = ranking.some(({ id, position }) => id === playerId && position === 1);
+    return !winner && leading ? 'draw' : 'lose';
+  }
+
+  private static compareScores(first: PlayerScore, second: PlayerScore): number {
+    return (
+      second.fruits - first.fruits ||
+      first.scoredAt - second.scoredAt ||
+      first.deaths - second.deaths
+    );
   }
 
   private isTimeToGenerateFruit(): boolean {
@@ -0,0 +1,57 @@
+import { Mutex } from 'async-mutex';
+
+/**
+ * @class MatchJournal
+ * Orders the inputs applied to a match with the snapshots of the match.
+ * Every input that changes the match is logged with the next index before it is applied, and
+ * every snapshot records the index of the last input it contains, so a match is restored by
+ * replaying the inputs logged after its snapshot. Inputs and snapshots never overlap, otherwise a
+ * snapshot could contain an input without its index and the input would be replayed twice.
+ * The ticks of the game loop are not logged, so the replayed inputs meet the enemies where the
+ * snapshot left them and their outcome can differ from the one the players saw.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class MatchJournal {
+  private readonly mutex = new Mutex();
+  private index: number;
+
+  /**
+   * Creates the journal of a match.
+   *
+   * @param {number} index The index of the last input logged, 0 for a new match.
+   */
+  constructor(index = 0) {
+    this.index = index;
+  }
+
+  /**
+   * Retrieves the index of the last input logged.
+   *
+   * @return {number} The index of the last input, 0 if none was logged.
+   */
+  public getIndex(): number {
+    return this.index;
+  }
+
+  /**
+   * Retrieves the index of the next input logged.
+   *
+   * @return {number} The index of the input.
+   */
+  public nextIndex(): number {
+    this.index += 1;
+    return this.index;
+  }
+
+  /**
+   * Runs an input or a snapshot of the match, one at a time.
+   *
+   * @param {() => Promise<T>} task The input or snapshot.
+   * @return {Promise<T>} A promise that resolves to the result of the task.
+   */
+  public async runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    return await this.mutex.runExclusive(task);
+  }
+}
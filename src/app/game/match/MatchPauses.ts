@@ -0,0 +1,117 @@
+import GameError from '../../../errors/GameError.js';
+import type { PauseState } from '../../../schemas/zod.js';
+import { config } from '../../../server.js';
+
+/**
+ * @class MatchPauses
+ * Pause rules of the players of a match.
+ * Every player can pause the match PAUSES_PER_PLAYER times, a limit that is not positive lets the
+ * players pause as many times as they want. When PAUSE_RESUME_VOTE is set, the match only resumes
+ * once every player asked for it, otherwise any player resumes it.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class MatchPauses {
+  private readonly players: string[];
+  private readonly used: Map<string, number>;
+  private readonly resumeVotes = new Set<string>();
+  private pausedBy: string | null = null;
+
+  /**
+   * Creates the pause rules of a match.
+   *
+   * @param {string[]} players The IDs of the players that can pause the match, without bots.
+   * @param {Record<string, number>} used The pauses each player already took, none by default.
+   * @param {string | null} pausedBy The player whose pause is running, none by default.
+   */
+  constructor(
+    players: string[],
+    used: Record<string, number> = {},
+    pausedBy: string | null = null
+  ) {
+    this.players = players;
+    this.used = new Map(Object.entries(used));
+    this.pausedBy = pausedBy;
+  }
+
+  /**
+   * Spends a pause of a player.
+   *
+   * @param {string} playerId The ID of the player that pauses the match.
+   * @throws {GameError} If the player has no pauses left.
+   */
+  public pause(playerId: string): void {
+    if (this.getPausesLeft(playerId) === 0) throw new GameError(GameError.NO_PAUSES_LEFT);
+    this.used.set(playerId, (this.used.get(playerId) ?? 0) + 1);
+    this.pausedBy = playerId;
+    this.resumeVotes.clear();
+  }
+
+  /**
+   * Records that a player asked to resume the match.
+   *
+   * @param {string} playerId The ID of the player.
+   * @return {boolean} True if the match can resume.
+   */
+  public voteResume(playerId: string): boolean {
+    if (!config.PAUSE_RESUME_VOTE) return true;
+    this.resumeVotes.add(playerId);
+    return this.players.every((id) => this.resumeVotes.has(id));
+  }
+
+  /**
+   * Forgets the player that paused the match and the votes to resume it.
+   */
+  public resume(): void {
+    this.pausedBy = null;
+    this.resumeVotes.clear();
+  }
+
+  /**
+   * Retrieves the pauses a player has left.
+   *
+   * @param {string} playerId The ID of the player.
+   * @return {number | null} The pauses left, null if the pauses are unlimited.
+   */
+  public getPausesLeft(playerId: string): number | null {
+    const limit = config.PAUSES_PER_PLAYER;
+    if (!(limit > 0)) return null;
+    return Math.max(limit - (this.used.get(playerId) ?? 0), 0);
+  }
+
+  /**
+   * Retrieves the pauses each player took, to save them with the match.
+   *
+   * @return {Record<string, number>} The pauses taken by player ID.
+   */
+  public getUsed(): Record<string, number> {
+    return Object.fromEntries(this.used);
+  }
+
+  /**
+   * Retrieves the player whose pause is running, to save it with the match.
+   *
+   * @return {string | null} The ID of the player, null if no player paused the match.
+   */
+  public getPausedBy(): string | null {
+    return this.pausedBy;
+  }
+
+  /**
+   * Retrieves the part of the state of a pause kept by the rules.
+   *
+   * @return {Omit<PauseState, 'paused' | 'secondsLeft'>} Who paused, the pauses left and the votes.
+   */
+  public getState(): Omit<PauseState, 'paused' | 'secondsLeft'> {
+    const pausesLeft = this.players.flatMap((id) => {
+      const left = this.getPausesLeft(id);
+      return left === null ? [] : [[id, left] as const];
+    });
+    return {
+      ...(this.pausedBy && { by: this.pausedBy }),
+      ...(pausesLeft.length > 0 && { pausesLeft: Object.fromEntries(pausesLeft) }),
+      resumeVotes: [...this.resumeVotes],
+    };
+  }
+}
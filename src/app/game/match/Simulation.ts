@@ -0,0 +1,102 @@
+import {
+  type IdGenerator,
+  SequentialIdGenerator,
+  UuidGenerator,
+} from '../../../utils/IdGenerator.js';
+import { CryptoRandom, type RandomGenerator } from '../../../utils/RandomGenerator.js';
+import { SeededRandom } from '../../../utils/SeededRandom.js';
+import ManualTickScheduler from './ManualTickScheduler.js';
+import { type default as TickScheduler, tickScheduler } from './TickScheduler.js';
+
+/**
+ * @class Simulation
+ * Groups the sources of randomness, IDs and time used by a match and its board.
+ * Live matches share the game loop of the process, deterministic simulations use a seeded random
+ * generator, sequential IDs and a game loop stepped by hand, so the same seed and the same inputs
+ * always produce the same match.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class Simulation {
+  private static liveSimulation: Simulation | null = null;
+  private readonly random: RandomGenerator;
+  private readonly ids: IdGenerator;
+  private readonly scheduler: TickScheduler;
+
+  /**
+   * Creates a simulation with the given sources.
+   *
+   * @param {RandomGenerator} random The source of random numbers.
+   * @param {IdGenerator} ids The source of IDs.
+   * @param {TickScheduler} scheduler The game loop.
+   */
+  constructor(random: RandomGenerator, ids: IdGenerator, scheduler: TickScheduler) {
+    this.random = random;
+    this.ids = ids;
+    this.scheduler = scheduler;
+  }
+
+  /**
+   * Retrieves the simulation used by the live matches, shared by the whole process.
+   *
+   * @return {Simulation} The live simulation.
+   */
+  public static live(): Simulation {
+    if (!Simulation.liveSimulation) {
+      Simulation.liveSimulation = new Simulation(
+        new CryptoRandom(),
+        new UuidGenerator(),
+        tickScheduler
+      );
+    }
+    return Simulation.liveSimulation;
+  }
+
+  /**
+   * Creates a deterministic simulation stepped by hand.
+   *
+   * @param {number} seed The seed of the random generator.
+   * @param {number} tickRateMs The time simulated by every tick, TICK_RATE_MS by default.
+   * @return {Simulation} The deterministic simulation.
+   */
+  public static deterministic(seed: number, tickRateMs?: number): Simulation {
+    return new Simulation(
+      new SeededRandom(seed),
+      new SequentialIdGenerator(),
+      new ManualTickScheduler(tickRateMs)
+    );
+  }
+
+  public getRandom(): RandomGenerator {
+    return this.random;
+  }
+
+  public getIds(): IdGenerator {
+    return this.ids;
+  }
+
+  public getScheduler(): TickScheduler {
+    return this.scheduler;
+  }
+
+  /**
+   * Runs the given number of ticks of the game loop one after the other.
+   *
+   * @param {number} ticks The number of ticks to run.
+   * @return {Promise<void>} A promise that resolves when every tick has run.
+   */
+  public async step(ticks = 1): Promise<void> {
+    for (let i = 0; i < ticks; i++) await this.scheduler.tick();
+  }
+
+  /**
+   * Runs the ticks of the game loop that fit in the given time.
+   *
+   * @param {number} ms The simulated time in milliseconds.
+   * @return {Promise<void>} A promise that resolves when every tick has run.
+   */
+  public async advance(ms: number): Promise<void> {
+    await this.step(Math.floor(ms / this.scheduler.getTickRate()));
+  }
+}
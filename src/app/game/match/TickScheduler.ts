@@ -0,0 +1,161 @@
+import { config, logger } from '../../../server.js';
+
+type TickTask = {
+  intervalMs: number;
+  nextRunMs: number;
+  run: () => Promise<void>;
+  group: string;
+};
+
+/**
+ * @class TickScheduler
+ * Fixed-rate game loop shared by every match of the process.
+ * The loop ticks every TICK_RATE_MS and runs the tasks that are due (enemies, timer, bots). The
+ * tasks of a group, the tasks of a match, run one after the other in the order they were
+ * scheduled, so the moves within a tick are deterministic, while every group runs on its own, so a
+ * slow match does not hold the others back. The time of the live loop follows the wall clock, and
+ * the loop only runs while there are tasks scheduled.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class TickScheduler {
+  private readonly tasks = new Map<number, TickTask>();
+  // Groups whose tasks of a previous tick are still running
+  private readonly runningGroups = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  protected elapsedMs = 0;
+  // Wall clock time at which the elapsed time of the loop was zero
+  private originMs = 0;
+  private nextTaskId = 1;
+  private readonly tickRateMs: number | undefined;
+
+  /**
+   * Creates a game loop.
+   *
+   * @param {number} tickRateMs The rate of the loop in milliseconds, TICK_RATE_MS by default.
+   */
+  constructor(tickRateMs?: number) {
+    this.tickRateMs = tickRateMs;
+  }
+
+  /**
+   * Schedules a task that runs every given interval.
+   *
+   * @param {number} intervalMs The interval between two runs of the task, in milliseconds.
+   * @param {() => Promise<void>} run The task to run.
+   * @param {string} group The group of the task, usually its match, the task runs alone without it.
+   * @return {number} The ID of the task, used to cancel it.
+   */
+  public schedule(intervalMs: number, run: () => Promise<void>, group?: string): number {
+    const taskId = this.nextTaskId++;
+    this.tasks.set(taskId, {
+      intervalMs,
+      nextRunMs: this.elapsedMs + intervalMs,
+      run,
+      group: group ?? `task:${taskId}`,
+    });
+    this.start();
+    return taskId;
+  }
+
+  /**
+   * Cancels a scheduled task. The loop stops when no task is left.
+   *
+   * @param {number} taskId The ID of the task.
+   */
+  public cancel(taskId: number): void {
+    this.tasks.delete(taskId);
+    if (this.tasks.size === 0) this.stop();
+  }
+
+  /**
+   * Retrieves the number of scheduled tasks.
+   *
+   * @return {number} The number of tasks.
+   */
+  public size(): number {
+    return this.tasks.size;
+  }
+
+  /**
+   * Advances the loop one tick and runs the tasks that are due.
+   *
+   * @return {Promise<void>} A promise that resolves when the due tasks have run.
+   */
+  public async tick(): Promise<void> {
+    await this.runUntil(this.elapsedMs + this.getTickRate());
+  }
+
+  /**
+   * Advances the loop to the given time and runs the tasks that are due, every group on its own.
+   * A group whose tasks of a previous tick are still running skips the tick, so a slow group
+   * delays its own tasks instead of running them twice at once.
+   */
+  private async runUntil(elapsedMs: number): Promise<void> {
+    this.elapsedMs = Math.max(this.elapsedMs, elapsedMs);
+    const groups = new Map<string, [number, TickTask][]>();
+    for (const [taskId, task] of this.tasks) {
+      if (task.nextRunMs > this.elapsedMs || this.runningGroups.has(task.group)) continue;
+      groups.set(task.group, [...(groups.get(task.group) ?? []), [taskId, task]]);
+    }
+    await Promise.all([...groups].map(([group, tasks]) => this.runGroup(group, tasks)));
+  }
+
+  private async runGroup(group: string, tasks: [number, TickTask][]): Promise<void> {
+    this.runningGroups.add(group);
+    try {
+      for (const [taskId, task] of tasks) {
+        // A previous task of the same tick may have cancelled this one
+        if (!this.tasks.has(taskId)) continue;
+        task.nextRunMs += task.intervalMs;
+        if (task.nextRunMs <= this.elapsedMs) task.nextRunMs = this.elapsedMs + task.intervalMs;
+        await this.runTask(task);
+      }
+    } finally {
+      this.runningGroups.delete(group);
+    }
+  }
+
+  private async runTask(task: TickTask): Promise<void> {
+    try {
+      await task.run();
+    } catch (error) {
+      logger.warn('An error occurred while running a task of the game loop');
+      logger.error(error);
+    }
+  }
+
+  /**
+   * Retrieves the time simulated by every tick.
+   *
+   * @return {number} The rate of the loop in milliseconds.
+   */
+  public getTickRate(): number {
+    return this.tickRateMs ?? config.TICK_RATE_MS;
+  }
+
+  /**
+   * Retrieves the current time of the loop, the wall clock for the live loop.
+   *
+   * @return {number} The current time in milliseconds.
+   */
+  public now(): number {
+    return Date.now();
+  }
+
+  protected start(): void {
+    if (this.timer) return;
+    // The time of the loop carries on from where it stopped
+    this.originMs = this.now() - this.elapsedMs;
+    this.timer = setInterval(() => this.runUntil(this.now() - this.originMs), this.getTickRate());
+  }
+
+  protected stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+export const tickScheduler = new TickScheduler();
@@ -1,9 +1,7 @@
-import { dirname, resolve } from 'node:path';
-import { fileURLToPath } from 'node:url';
-import { Worker } from 'node:worker_threads';
 import { Mutex } from 'async-mutex';
 import BoardError from '../../../../errors/BoardError.js';
 import {
+  type BoardBounds,
   type BoardDTO,
   type BoardItem,
   type BoardItemDTO,
@@ -11,6 +9,7 @@ import {
   type CellCoordinates,
   type CellDTO,
   type Direction,
+  type EnemiesTypes,
   type GameMessageOutput,
   type PathResultWithDirection,
   type PlayerState,
@@ -19,14 +18,17 @@ import {
   type UpdateFruits,
   enemiesConst,
   parseCoordinatesToString,
+  validateCoordinates,
   validateUpdateFruits,
 } from '../../../../schemas/zod.js';
-import { config, logger } from '../../../../server.js';
 import { Graph } from '../../../../utils/Graph.js';
+import type { RandomGenerator } from '../../../../utils/RandomGenerator.js';
 import type Character from '../../characters/Character.js';
 import type Enemy from '../../characters/enemies/Enemy.js';
+import EnemyFactory from '../../characters/enemies/EnemyFactory.js';
 import Player from '../../characters/players/Player.js';
 import type Match from '../Match.js';
+import Simulation from '../Simulation.js';
 import Cell from './CellBoard.js';
 import Fruit from './Fruit.js';
 import Rock from './Rock.js';
@@ -38,13 +40,16 @@ import SpecialFruit from './SpecialFruit.js';
  * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
  */
 abstract class Board {
+  public static readonly DEFAULT_ROWS = 16;
+  public static readonly DEFAULT_COLS = 16;
   protected freezedCells: number[][];
   protected readonly mutex = new Mutex();
-  protected readonly ROWS = 16;
-  protected readonly COLS = 16;
+  protected readonly ROWS: number;
+  protected readonly COLS: number;
   protected readonly map: string;
   protected readonly level: number;
   protected readonly match: Match;
+  protected readonly simulation: Simulation;
   protected readonly board: Cell[][];
   protected readonly enemies: Map<string, Enemy>;
   protected ENEMIES_SPEED = 1000; // Milliseconds
@@ -53,14 +58,14 @@ abstract class Board {
   protected ROCKS = 0;
   protected FRUIT_TYPE: string[] = [];
   protected FRUITS_CONTAINER: string[] = [];
-  protected host: Player | null = null;
-  protected guest: Player | null = null;
+  protected players: Player[] = [];
   protected currentNumberFruits = 0;
   protected remainingFruitRounds = 0;
   protected currentRound = 0;
-  protected workers: Worker[] = [];
+  protected enemiesTask: number | null = null;
   protected currentFruitType: string | undefined;
   protected enemiesCoordinates: number[][] = [];
+  protected enemiesTypes: (EnemiesTypes | null)[] = [];
   protected fruitsCoordinates: number[][] = [];
   protected playersStartCoordinates: number[][] = [];
   protected rocksCoordinates: number[][] = [];
@@ -93,8 +98,7 @@ abstract class Board {
    * @return {PlayerState | null} The state of the revived player or null if no player was revived.
    */
   public revivePlayers(): PlayerState | null {
-    if (!this.host || !this.guest) throw new BoardError(BoardError.USER_NOT_DEFINED);
-    const deadPlayer = !this.host.isAlive() ? this.host : !this.guest.isAlive() ? this.guest : null;
+    const deadPlayer = this.getDefinedPlayers().find((player) => !player.isAlive()) ?? null;
     deadPlayer?.reborn();
     return deadPlayer?.getCharacterState() ?? null;
   }
@@ -105,18 +109,39 @@ abstract class Board {
    * @param {Match} match - The match instance associated with this board.
    * @param {string} map - The map string representing the board layout.
    * @param {number} level - The level of the game.
+   * @param {number} rows - The number of rows of the board.
+   * @param {number} cols - The number of columns of the board.
+   * @param {Simulation} simulation - The sources of randomness, IDs and time of the match.
    */
-  constructor(match: Match, map: string, level: number) {
+  constructor(
+    match: Match,
+    map: string,
+    level: number,
+    rows = Board.DEFAULT_ROWS,
+    cols = Board.DEFAULT_COLS,
+    simulation: Simulation = Simulation.live()
+  ) {
     this.match = match;
+    this.simulation = simulation;
+    this.ROWS = rows;
+    this.COLS = cols;
     this.board = [];
     this.freezedCells = [];
     this.enemies = new Map();
     this.map = map;
     this.level = level;
   }
-  public loadBoard(boardStorage: BoardStorage, host: PlayerStorage, guest: PlayerStorage): void {
+  public loadBoard(boardStorage: BoardStorage, players: PlayerStorage[]): void {
+    const bounds = this.getBounds();
+    for (const player of players) validateCoordinates(player.coordinates, bounds);
+    for (const cell of boardStorage.board) validateCoordinates(cell.coordinates, bounds);
+    // The context rebuilds the layout data that is not stored, such as the start coordinates
+    this.loadContext();
     this.generateBoard();
-    this.setUpPlayers(host.id, guest.id, host, guest);
+    this.setUpPlayers(
+      players.map((player) => player.id),
+      players
+    );
     this.FRUIT_TYPE = boardStorage.fruitType;
     this.FRUITS_CONTAINER = boardStorage.fruitsContainer;
     this.currentNumberFruits = boardStorage.fruitsNumber;
@@ -139,15 +164,12 @@ abstract class Board {
     this.setUpInmovableObjects();
   }
 
-  public getPlayersStorage(): { hostStorage: PlayerStorage; guestStorage: PlayerStorage } {
-    if (!this.host || !this.guest) throw new BoardError(BoardError.USER_NOT_DEFINED);
-    const hostStorage: PlayerStorage = this.host.getPlayerStorage();
-    const guestStorage: PlayerStorage = this.guest.getPlayerStorage();
-    return { hostStorage, guestStorage };
+  public getPlayersStorage(): PlayerStorage[] {
+    return this.getDefinedPlayers().map((player) => player.getPlayerStorage());
   }
 
   public async getBoardStorage(): Promise<BoardStorage> {
-    if (!this.host || !this.guest) throw new BoardError(BoardError.USER_NOT_DEFINED);
+    this.getDefinedPlayers();
     return this.mutex.runExclusive(() => {
       return {
         fruitType: this.FRUIT_TYPE,
@@ -201,20 +223,21 @@ abstract class Board {
    * @returns True if the game is over
    */
   public checkLose(): boolean {
-    if (!this.host || !this.guest) throw new BoardError(BoardError.USER_NOT_DEFINED);
-    return !this.host.isAlive() && !this.guest.isAlive();
+    return this.getDefinedPlayers().every((player) => !player.isAlive());
   }
 
   /**
    * This method returns a Data Transfer Object with the preliminar information
    * of the Board. It sends redundant data such as the array of coordinates of elements and the matrix
    * of the board, we might delete those arrays in the future.
-   * @returns The Board DTO with the number of enemies, an array with the enemies coordinates,
+   * @returns The Board DTO with its dimensions, the number of enemies, an array with the enemies coordinates,
    * the fruits number, the fruits coordinates, the start coordinates of the players and the matrix
    * of the board.
    */
   public getBoardDTO(): BoardDTO {
     return {
+      rows: this.ROWS,
+      cols: this.COLS,
       enemiesNumber: this.NUMENEMIES,
       fruitsNumber: this.FRUITS,
       playersStartCoordinates: this.playersStartCoordinates,
@@ -227,11 +250,11 @@ abstract class Board {
    * @returns True if the players complete the fruits and the rounds. False Otherwise.
    */
   public checkWin(): boolean {
-    if (!this.host || !this.guest) throw new BoardError(BoardError.USER_NOT_DEFINED);
+    const players = this.getDefinedPlayers();
     return (
       this.currentNumberFruits === 0 &&
       this.remainingFruitRounds === 0 &&
-      (this.host.isAlive() || this.guest.isAlive())
+      players.some((player) => player.isAlive())
     );
   }
 
@@ -255,15 +278,21 @@ abstract class Board {
 
   /**
    * Retrieves the updated information about the fruits on the board.
+   * Only the cells where the fruits of the new round were placed are sent.
    *
    * @return {UpdateFruits} An object containing the updated fruit information.
    */
   protected getUpdateFruits(): UpdateFruits {
     const nextFruitType = this.FRUIT_TYPE[0] ? this.FRUIT_TYPE[0] : null;
+    const cells = this.fruitsCoordinates
+      .map(([x, y]) => this.board[x][y])
+      .filter((cell) => cell.getItem() instanceof Fruit)
+      .map((cell) => cell.getCellDTO())
+      .filter((cellDTO): cellDTO is CellDTO => cellDTO !== null);
     return validateUpdateFruits({
       fruitType: this.currentFruitType,
       fruitsNumber: this.currentNumberFruits,
-      cells: this.cellsBoardDTO().filter((cell: CellDTO) => cell.item !== null),
+      cells,
       currentRound: this.currentRound,
       nextFruitType: nextFruitType,
     });
@@ -273,6 +302,24 @@ abstract class Board {
     this.match.notifyPlayers(data);
   }
 
+  /**
+   * Retrieves the seconds elapsed since the match started.
+   *
+   * @return {number} The elapsed seconds of the match.
+   */
+  public getElapsedSeconds(): number {
+    return this.match.getElapsedSeconds();
+  }
+
+  /**
+   * Retrieves the current time of the game loop of the board.
+   *
+   * @return {number} The current time in milliseconds.
+   */
+  public now(): number {
+    return this.simulation.getScheduler().now();
+  }
+
   /**
    * Returns the matrix of cells representing the board.
    *
@@ -282,6 +329,15 @@ abstract class Board {
     return this.board;
   }
 
+  /**
+   * Retrieves the dimensions of the board.
+   *
+   * @return {BoardBounds} The number of rows and columns of the board.
+   */
+  public getBounds(): BoardBounds {
+    return { rows: this.ROWS, cols: this.COLS };
+  }
+
   /**
    * Retrieves the types of fruits available on the board.
    *
@@ -323,25 +379,25 @@ abstract class Board {
     return this.enemies;
   }
   /**
-   * Retrieves the host player of the match.
+   * Retrieves the players of the match, the host is the first one.
    *
-   * @return {Player | null} The host player, or null if not set.
+   * @return {Player[]} The players of the match, empty if they are not set.
    */
-  public getHost(): Player | null {
-    return this.host;
+  public getPlayers(): Player[] {
+    return this.players;
   }
 
   /**
-   * Retrieves the guest player of the match.
+   * Retrieves the player with the given ID.
    *
-   * @return {Player | null} The guest player, or null if not set.
+   * @param {string} id The ID of the player.
+   * @return {Player | null} The player, or null if it is not in the board.
    */
-  public getGuest(): Player | null {
-    return this.guest;
+  public getPlayer(id: string): Player | null {
+    return this.players.find((player) => player.getId() === id) ?? null;
   }
 
   public getBestDirectionToPlayers(targetCell: Cell, canBreakFrozen: boolean): Direction | null {
-    if (!this.host || !this.guest) throw new BoardError(BoardError.USER_NOT_DEFINED);
     // Certainly, the enemies can kill
     const bestPath = this.getBestPathToPlayers(targetCell, canBreakFrozen);
     if (bestPath) return bestPath.direction;
@@ -352,33 +408,35 @@ abstract class Board {
     targetCell: Cell,
     canBreakFrozen: boolean
   ): PathResultWithDirection | null {
-    if (!this.host || !this.guest) throw new BoardError(BoardError.USER_NOT_DEFINED);
-    const { hostPath, guestPath } = this.getPlayersPaths(targetCell, canBreakFrozen);
-    if (hostPath && guestPath) {
-      return hostPath.distance < guestPath.distance ? hostPath : guestPath;
-    }
-    if (hostPath) {
-      return hostPath;
-    }
-    if (guestPath) {
-      return guestPath;
+    let bestPath: PathResultWithDirection | null = null;
+    for (const path of this.getPlayersPaths(targetCell, canBreakFrozen).values()) {
+      if (!bestPath || path.distance < bestPath.distance) bestPath = path;
     }
-    return null;
+    return bestPath;
   }
 
+  /**
+   * Retrieves the shortest path from the target cell to every alive player that can be reached.
+   *
+   * @param {Cell} targetCell The cell where the paths start.
+   * @param {boolean} canBreakFrozen Whether the frozen cells can be crossed.
+   * @return {PlayersPaths} The paths indexed by the ID of the player.
+   */
   public getPlayersPaths(targetCell: Cell, canBreakFrozen: boolean): PlayersPaths {
-    if (!this.host || !this.guest) throw new BoardError(BoardError.USER_NOT_DEFINED);
+    const players = this.getDefinedPlayers();
     const mappedGraph = this.getMappedGraph(true, canBreakFrozen);
-    const hostPath = this.host.isAlive()
-      ? this.host.getShortestDirectionToCharacter(targetCell, mappedGraph)
-      : null;
-    const guestPath = this.guest.isAlive()
-      ? this.guest.getShortestDirectionToCharacter(targetCell, mappedGraph)
-      : null;
-    return {
-      hostPath,
-      guestPath,
-    };
+    const paths: PlayersPaths = new Map();
+    for (const player of players) {
+      if (!player.isAlive()) continue;
+      const path = player.getShortestDirectionToCharacter(targetCell, mappedGraph);
+      if (path) paths.set(player.getId(), path);
+    }
+    return paths;
+  }
+
+  private getDefinedPlayers(): Player[] {
+    if (this.players.length === 0) throw new BoardError(BoardError.USER_NOT_DEFINED);
+    return this.players;
   }
 
   private getMappedGraph(canWalkOverPlayers: boolean, canBreakFrozen: boolean): Graph {
@@ -433,12 +491,11 @@ abstract class Board {
   /**
    * Starts the game by setting up players and initializing enemies.
    *
-   * @param {string} host The ID of the host player.
-   * @param {string} guest The ID of the guest player.
+   * @param {string[]} players The IDs of the players, the host is the first one.
    * @return {Promise<void>} A promise that resolves when the game starts.
    */
-  public async startGame(host: string, guest: string): Promise<void> {
-    if (!this.host || !this.guest) this.setUpPlayers(host, guest);
+  public async startGame(players: string[]): Promise<void> {
+    if (this.players.length === 0) this.setUpPlayers(players);
     await this.startEnemies();
   }
 
@@ -448,10 +505,10 @@ abstract class Board {
    * @return {Promise<void>} A promise that resolves when the game stops.
    */
   public async stopGame(): Promise<void> {
-    for (const worker of this.workers) {
-      await worker.terminate();
+    if (this.enemiesTask !== null) {
+      this.simulation.getScheduler().cancel(this.enemiesTask);
+      this.enemiesTask = null;
     }
-    this.workers = [];
   }
 
   protected createBoard(): void {
@@ -480,33 +537,42 @@ abstract class Board {
   }
 
   /**
-   * This method starts the enemies in the board
+   * Generates the ID of a new item or character of the board.
+   *
+   * @return {string} The generated ID.
+   */
+  public generateId(): string {
+    return this.simulation.getIds().next();
+  }
+
+  /**
+   * Retrieves the source of random numbers of the board.
+   *
+   * @return {RandomGenerator} The random generator of the match.
+   */
+  public getRandom(): RandomGenerator {
+    return this.simulation.getRandom();
+  }
+
+  /**
+   * This method starts the enemies in the board on the game loop
    */
   protected async startEnemies(): Promise<void> {
-    const __filename = fileURLToPath(import.meta.url);
-    const __dirname = dirname(__filename);
-    const enemiesSpeed = this.ENEMIES_SPEED;
-    const fileName =
-      config.NODE_ENV === 'development'
-        ? resolve(__dirname, '../../../../../dist/src/workers/Enemies.worker.js')
-        : resolve(__dirname, '../../../../workers/Enemies.worker.js');
-    for (const enemy of this.enemies.values()) {
-      const worker = new Worker(fileName, { workerData: { enemiesSpeed } });
-      this.workers.push(worker);
-      worker.on('message', async (_message) => {
-        const isPaused = await this.match.isPaused();
-        if (isPaused) return;
-        await this.handleEnemyMovement(enemy);
-      });
-
-      worker.on('error', (error) => {
-        logger.warn('An error occurred while running the enemies worker');
-        logger.error(error);
-      });
-      worker.on('exit', (code) => {
-        if (code !== 0) logger.warn(`Enemies worker stopped with exit code ${code}`);
-        else logger.info('Enemies worker finished');
-      });
+    this.enemiesTask = this.simulation
+      .getScheduler()
+      .schedule(this.ENEMIES_SPEED, () => this.moveEnemies(), this.match.getId());
+  }
+
+  /**
+   * Moves every enemy once, sorted by ID so the moves of a tick always happen in the same order.
+   */
+  protected async moveEnemies(): Promise<void> {
+    if (await this.match.isPaused()) return;
+    const enemies = [...this.enemies.values()].sort((a, b) => a.getId().localeCompare(b.getId()));
+    for (const enemy of enemies) {
+      // The previous move may have ended the game
+      if (this.enemiesTask === null) return;
+      await this.handleEnemyMovement(enemy);
     }
   }
 
@@ -521,43 +587,35 @@ abstract class Board {
   }
 
   /**
-   * Method to set up the players in the board
+   * Method to set up the players in the board.
+   * Each player takes the start coordinates of its position, unless it is restored from the storage.
+   *
+   * @param {string[]} ids The IDs of the players, the host is the first one.
+   * @param {PlayerStorage[]} storages The stored state of the players, in the same order.
+   * @throws {BoardError} If the board does not have enough start coordinates for the players.
    */
-  protected setUpPlayers(
-    host: string,
-    guest: string,
-    hostStorage?: PlayerStorage,
-    guestStorage?: PlayerStorage
-  ): void {
-    const [hostPositions, guestPositions] =
-      hostStorage === undefined || guestStorage === undefined
-        ? this.playersStartCoordinates
-        : [
-            [hostStorage.coordinates.x, hostStorage.coordinates.y],
-            [guestStorage.coordinates.x, guestStorage.coordinates.y],
-          ];
-    const hostState = hostStorage ? hostStorage.state === 'alive' : true;
-    const guestState = guestStorage ? guestStorage.state === 'alive' : true;
-    const hostPlayer = new Player(
-      this.board[hostPositions[0]][hostPositions[1]],
-      this,
-      host,
-      hostStorage?.color,
-      hostStorage?.direction,
-      hostState
-    );
-    const guestPlayer = new Player(
-      this.board[guestPositions[0]][guestPositions[1]],
-      this,
-      guest,
-      guestStorage?.color,
-      guestStorage?.direction,
-      guestState
-    );
-    this.host = hostPlayer;
-    this.guest = guestPlayer;
-    this.board[hostPositions[0]][hostPositions[1]].setCharacter(this.host);
-    this.board[guestPositions[0]][guestPositions[1]].setCharacter(this.guest);
+  protected setUpPlayers(ids: string[], storages?: PlayerStorage[]): void {
+    if (!storages && ids.length > this.playersStartCoordinates.length) {
+      throw new BoardError(BoardError.NOT_ENOUGH_START_COORDINATES);
+    }
+    this.players = ids.map((id, index) => {
+      const storage = storages?.[index];
+      const [x, y] = storage
+        ? [storage.coordinates.x, storage.coordinates.y]
+        : this.playersStartCoordinates[index];
+      const player = new Player(
+        this.board[x][y],
+        this,
+        id,
+        storage?.color,
+        storage?.direction,
+        storage ? storage.state === 'alive' : true
+      );
+      if (storage) player.loadScore(storage);
+      if (storage?.speed) player.setSpeed(storage.speed);
+      this.board[x][y].setCharacter(player);
+      return player;
+    });
   }
 
   /**
@@ -595,25 +653,35 @@ abstract class Board {
 
   private characterFactory(boardItemDTO: BoardItemDTO, cell: Cell): Character {
     if (enemiesConst.includes(boardItemDTO.type)) {
-      const enemy = this.getBoardEnemy(cell, boardItemDTO.id, boardItemDTO.orientation);
+      const enemy = EnemyFactory.createEnemy(
+        boardItemDTO.type,
+        cell,
+        this,
+        boardItemDTO.id,
+        boardItemDTO.orientation
+      );
       this.enemies.set(enemy.getId(), enemy);
       return enemy;
     }
-    if (!this.host || !this.guest) throw new BoardError(BoardError.USER_NOT_DEFINED);
-    const character = boardItemDTO.id === this.host.getId() ? this.host : this.guest;
-    return character;
+    const player = this.getPlayer(boardItemDTO.id);
+    if (!player) throw new BoardError(BoardError.USER_NOT_DEFINED);
+    return player;
   }
 
   /**
-   * This method sets up the enemies in the board
+   * This method sets up the enemies in the board.
+   * Spawns without a type use the default enemy of the board.
    */
   protected setUpEnemies(): void {
     for (let i = 0; i < this.NUMENEMIES; i++) {
       const x = this.enemiesCoordinates[i][0];
       const y = this.enemiesCoordinates[i][1];
-      const troll = this.getBoardEnemy(this.board[x][y]);
-      this.enemies.set(troll.getId(), troll);
-      this.board[x][y].setCharacter(troll);
+      const type = this.enemiesTypes[i];
+      const enemy = type
+        ? EnemyFactory.createEnemy(type, this.board[x][y], this)
+        : this.getBoardEnemy(this.board[x][y]);
+      this.enemies.set(enemy.getId(), enemy);
+      this.board[x][y].setCharacter(enemy);
     }
   }
 
@@ -1,10 +1,11 @@
+import BoardError from '../../../../errors/BoardError.js';
+import type { MatchSettings } from '../../../../schemas/zod.js';
 import type Match from '../Match.js';
+import type Simulation from '../Simulation.js';
 import type Board from './Board.js';
-import Level1Board from './levels/Level1Board.js';
-import Level2Board from './levels/Level2Board.js';
-import Level3Board from './levels/Level3Board.js';
-import Level4Board from './levels/Level4Board.js';
-import Level5Board from './levels/Level5Board.js';
+import LevelBoard from './LevelBoard.js';
+import LevelRegistry from './LevelRegistry.js';
+import ProceduralBoard from './ProceduralBoard.js';
 /**
  * @class BoardFactory
  *
@@ -17,34 +18,42 @@ import Level5Board from './levels/Level5Board.js';
 class BoardFactory {
   /**
    * Creates a Board instance based on the provided level and map.
+   * Procedural and endless matches with a seed generate their layout from it,
+   * using the level only as the theme of the board, so their unknown levels fall back
+   * to the first level of the map.
    *
    * @param match The match this board belongs to
    * @param map The map data
    * @param level The difficulty level
+   * @param settings The mode, seed and difficulty of the match
+   * @param simulation The sources of randomness, IDs and time of the match
    * @returns A Board instance appropriate for the level and map
+   * @throws {BoardError} If the map is not registered, or the level is not registered for a classic board
    */
-  public static createBoard(match: Match, map: string, level: number): Board {
-    let board: Board;
-    switch (level) {
-      case 1:
-        board = new Level1Board(match, map, level);
-        break;
-      case 2:
-        board = new Level2Board(match, map, level);
-        break;
-      case 3:
-        board = new Level3Board(match, map, level);
-        break;
-      case 4:
-        board = new Level4Board(match, map, level);
-        break;
-      case 5:
-        board = new Level5Board(match, map, level);
-        break;
-      default:
-        board = new Level1Board(match, map, level);
+  public static createBoard(
+    match: Match,
+    map: string,
+    level: number,
+    settings: MatchSettings = { mode: 'classic' },
+    simulation?: Simulation
+  ): Board {
+    if (!LevelRegistry.hasMap(map)) throw new BoardError(BoardError.MAP_NOT_FOUND);
+    if (settings.mode !== 'classic' && settings.seed !== undefined) {
+      const theme = LevelRegistry.getLevel(map, level) ?? LevelRegistry.getLevel(map, 1);
+      if (!theme) throw new BoardError(BoardError.LEVEL_NOT_FOUND);
+      return new ProceduralBoard(
+        match,
+        map,
+        level,
+        theme,
+        settings.seed,
+        settings.difficulty ?? 'normal',
+        simulation
+      );
     }
-    return board;
+    const definition = LevelRegistry.getLevel(map, level);
+    if (!definition) throw new BoardError(BoardError.LEVEL_NOT_FOUND);
+    return new LevelBoard(match, map, level, definition, simulation);
   }
 }
 export default BoardFactory;
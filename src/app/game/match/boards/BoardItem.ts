@@ -1,4 +1,3 @@
-import { v4 as uuidv4 } from 'uuid';
 import type { BoardItemDTO } from '../../../../schemas/zod.js';
 import type Board from './Board.js';
 import type Cell from './CellBoard.js';
@@ -13,7 +12,7 @@ export abstract class BoardItem {
   constructor(cell: Cell, board: Board, id?: string) {
     this.cell = cell;
     this.board = board;
-    this.id = id || uuidv4();
+    this.id = id || board.generateId();
   }
   /**
    * Retrieves the id of the board item.
@@ -0,0 +1,58 @@
+import type { Direction, LevelDefinition } from '../../../../schemas/zod.js';
+import { config } from '../../../../server.js';
+import type Enemy from '../../characters/enemies/Enemy.js';
+import EnemyFactory from '../../characters/enemies/EnemyFactory.js';
+import type Match from '../Match.js';
+import type Simulation from '../Simulation.js';
+import Board from './Board.js';
+import type Cell from './CellBoard.js';
+import LevelGrid from './LevelGrid.js';
+
+/**
+ * @class LevelBoard
+ * @extends Board
+ * Class representing a board built from a declarative level definition.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class LevelBoard extends Board {
+  private readonly definition: LevelDefinition;
+
+  /**
+   * Creates a board for the given level definition.
+   *
+   * @param {Match} match - The match instance associated with this board.
+   * @param {string} map - The map of the board.
+   * @param {number} level - The level of the game.
+   * @param {LevelDefinition} definition - The definition describing the layout of the level.
+   * @param {Simulation} simulation - The sources of randomness, IDs and time of the match.
+   */
+  constructor(
+    match: Match,
+    map: string,
+    level: number,
+    definition: LevelDefinition,
+    simulation?: Simulation
+  ) {
+    super(match, map, level, definition.grid.length, definition.grid[0].length, simulation);
+    this.definition = definition;
+  }
+
+  protected getBoardEnemy(cell: Cell, id?: string, orientation?: Direction): Enemy {
+    return EnemyFactory.createEnemy(this.definition.enemy, cell, this, id, orientation);
+  }
+
+  protected loadContext(): void {
+    const layout = LevelGrid.toLayout(this.definition.grid);
+    this.playersStartCoordinates = layout.playersStartCoordinates;
+    this.enemiesCoordinates = layout.enemiesCoordinates;
+    this.enemiesTypes = layout.enemiesTypes ?? [];
+    this.fruitsCoordinates = layout.fruitsCoordinates;
+    this.freezedCells = layout.freezedCells;
+    this.rocksCoordinates = layout.rocksCoordinates;
+    this.FRUIT_TYPE = [...this.definition.fruits];
+    this.ENEMIES_SPEED = config.ENEMIES_SPEED_MS + (this.definition.enemiesSpeedOffsetMs ?? 0);
+    this.loadConstants();
+  }
+}
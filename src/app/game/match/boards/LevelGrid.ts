@@ -0,0 +1,131 @@
+import {
+  type BoardBounds,
+  type CustomLevel,
+  type EnemiesTypes,
+  type LevelDefinition,
+  type LevelLayout,
+  enemySymbolsConst,
+  levelSymbolsConst,
+} from '../../../../schemas/zod.js';
+
+/**
+ * Parses the grid of a level into the coordinates of each element.
+ * Generic enemy cells spawn the level enemy, so their type is null.
+ *
+ * @param {string[]} grid The rows of the level grid.
+ * @returns {LevelLayout} The coordinates of every element of the level, in row-major order.
+ */
+const toLayout = (grid: string[]): LevelLayout => {
+  const layout: Required<LevelLayout> = {
+    playersStartCoordinates: [],
+    enemiesCoordinates: [],
+    enemiesTypes: [],
+    fruitsCoordinates: [],
+    freezedCells: [],
+    rocksCoordinates: [],
+  };
+  grid.forEach((row, x) => {
+    [...row].forEach((symbol, y) => {
+      const coordinates = [x, y];
+      switch (symbol) {
+        case levelSymbolsConst.player:
+          layout.playersStartCoordinates.push(coordinates);
+          break;
+        case levelSymbolsConst.enemy:
+          layout.enemiesCoordinates.push(coordinates);
+          layout.enemiesTypes.push(null);
+          break;
+        case levelSymbolsConst.fruit:
+          layout.fruitsCoordinates.push(coordinates);
+          break;
+        case levelSymbolsConst.frozen:
+          layout.freezedCells.push(coordinates);
+          break;
+        case levelSymbolsConst.rock:
+          layout.rocksCoordinates.push(coordinates);
+          break;
+        default:
+          if (symbol in enemySymbolsConst) {
+            layout.enemiesCoordinates.push(coordinates);
+            layout.enemiesTypes.push(enemySymbolsConst[symbol]);
+          }
+      }
+    });
+  });
+  return layout;
+};
+
+/**
+ * Draws the coordinates of a level into a grid with the given dimensions.
+ *
+ * @param {LevelLayout} layout The coordinates of every element of the level.
+ * @param {BoardBounds} bounds The number of rows and columns of the grid.
+ * @returns {string[]} The rows of the level grid.
+ */
+const toGrid = (layout: LevelLayout, { rows, cols }: BoardBounds): string[] => {
+  const grid = Array.from({ length: rows }, () =>
+    Array.from({ length: cols }, () => levelSymbolsConst.empty as string)
+  );
+  const draw = (coordinates: number[][], symbol: string) => {
+    for (const [x, y] of coordinates) grid[x][y] = symbol;
+  };
+  draw(layout.rocksCoordinates, levelSymbolsConst.rock);
+  draw(layout.freezedCells, levelSymbolsConst.frozen);
+  draw(layout.fruitsCoordinates, levelSymbolsConst.fruit);
+  layout.enemiesCoordinates.forEach(([x, y], i) => {
+    grid[x][y] = getEnemySymbol(layout.enemiesTypes?.[i] ?? null);
+  });
+  draw(layout.playersStartCoordinates, levelSymbolsConst.player);
+  return grid.map((row) => row.join(''));
+};
+
+/**
+ * Builds the level definition of a custom level.
+ *
+ * @param {CustomLevel} level The custom level.
+ * @returns {LevelDefinition} The level definition with its grid.
+ */
+const toDefinition = (level: CustomLevel): LevelDefinition => {
+  const {
+    playersStartCoordinates,
+    enemiesCoordinates,
+    enemiesTypes,
+    fruitsCoordinates,
+    freezedCells,
+    rocksCoordinates,
+    rows,
+    cols,
+    ...metadata
+  } = level;
+  const grid = toGrid(
+    {
+      playersStartCoordinates,
+      enemiesCoordinates,
+      enemiesTypes,
+      fruitsCoordinates,
+      freezedCells,
+      rocksCoordinates,
+    },
+    { rows, cols }
+  );
+  return { ...metadata, grid };
+};
+
+const getEnemySymbol = (type: EnemiesTypes | null): string => {
+  const symbol = Object.keys(enemySymbolsConst).find((key) => enemySymbolsConst[key] === type);
+  return symbol ?? levelSymbolsConst.enemy;
+};
+
+/**
+ * Converts levels between the ASCII grid used by the level definitions
+ * and the coordinate lists used by the boards and the level editor.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+const LevelGrid = {
+  toLayout,
+  toGrid,
+  toDefinition,
+};
+export default LevelGrid;
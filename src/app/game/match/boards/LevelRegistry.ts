@@ -0,0 +1,171 @@
+import { readFileSync, readdirSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import BoardError from '../../../../errors/BoardError.js';
+import { type LevelDefinition, validateLevelDefinition } from '../../../../schemas/zod.js';
+import LevelGrid from './LevelGrid.js';
+
+// Loaded the first time a level is requested
+let definitions: Map<string, LevelDefinition> | null = null;
+const builtInLevels = new Set<string>();
+
+/**
+ * Registers a custom level definition, replacing a previous custom definition of the same level.
+ *
+ * @param {LevelDefinition} definition The level definition to register.
+ * @throws {BoardError} If the level is one of the bundled levels.
+ */
+const register = (definition: LevelDefinition): void => {
+  if (isBuiltIn(definition.map, definition.level)) {
+    throw new BoardError(BoardError.DUPLICATED_LEVEL);
+  }
+  getDefinitions().set(getKey(definition.map, definition.level), definition);
+};
+
+/**
+ * Removes a custom level definition from the registry.
+ *
+ * @param {string} map The map of the level.
+ * @param {number} level The level to remove.
+ */
+const unregister = (map: string, level: number): void => {
+  if (isBuiltIn(map, level)) return;
+  getDefinitions().delete(getKey(map, level));
+};
+
+/**
+ * Checks if the given level is one of the levels bundled with the server.
+ *
+ * @param {string} map The map of the level.
+ * @param {number} level The level to check.
+ * @returns {boolean} True if the level is bundled, false otherwise.
+ */
+const isBuiltIn = (map: string, level: number): boolean => {
+  getDefinitions();
+  return builtInLevels.has(getKey(map, level));
+};
+
+/**
+ * Retrieves the definition of the given level for the given map.
+ *
+ * @param {string} map The map of the level.
+ * @param {number} level The level to retrieve.
+ * @returns {LevelDefinition | undefined} The level definition, or undefined if it is not registered.
+ */
+const getLevel = (map: string, level: number): LevelDefinition | undefined => {
+  return getDefinitions().get(getKey(map, level));
+};
+
+/**
+ * Checks if the given level is registered for the given map.
+ *
+ * @param {string} map The map of the level.
+ * @param {number} level The level to check.
+ * @returns {boolean} True if the level is registered, false otherwise.
+ */
+const hasLevel = (map: string, level: number): boolean => {
+  return getDefinitions().has(getKey(map, level));
+};
+
+/**
+ * Checks if the given map has at least one registered level.
+ *
+ * @param {string} map The map to check.
+ * @returns {boolean} True if the map is registered, false otherwise.
+ */
+const hasMap = (map: string): boolean => {
+  return getMaps().includes(map);
+};
+
+/**
+ * Retrieves the maps that have at least one registered level.
+ *
+ * @returns {string[]} The registered maps sorted alphabetically.
+ */
+const getMaps = (): string[] => {
+  const maps = new Set([...getDefinitions().values()].map(({ map }) => map));
+  return [...maps].sort();
+};
+
+/**
+ * Retrieves how many players can play a level, one for each start cell of its grid.
+ *
+ * @param {string} map The map of the level.
+ * @param {number} level The number of the level.
+ * @returns {number} The number of start cells, zero if the level does not exist.
+ */
+const getPlayersCapacity = (map: string, level: number): number => {
+  const definition = getLevel(map, level);
+  if (!definition) return 0;
+  return LevelGrid.toLayout(definition.grid).playersStartCoordinates.length;
+};
+
+/**
+ * Retrieves the registered level definitions of a map sorted by level.
+ *
+ * @param {string} map The map of the levels.
+ * @returns {LevelDefinition[]} The registered level definitions.
+ */
+const getLevels = (map: string): LevelDefinition[] => {
+  return [...getDefinitions().values()]
+    .filter((definition) => definition.map === map)
+    .sort((a, b) => a.level - b.level);
+};
+
+/**
+ * Loads the level definitions from the levels directory the first time they are requested.
+ *
+ * @returns {Map<string, LevelDefinition>} The level definitions by map and level.
+ */
+const getDefinitions = (): Map<string, LevelDefinition> => {
+  if (!definitions) {
+    definitions = loadDirectory(getLevelsDirectory());
+  }
+  return definitions;
+};
+
+const loadDirectory = (directory: string): Map<string, LevelDefinition> => {
+  const levels = new Map<string, LevelDefinition>();
+  const files = readdirSync(directory, { recursive: true, encoding: 'utf-8' }).filter((file) =>
+    file.endsWith('.json')
+  );
+  for (const file of files) {
+    const content = JSON.parse(readFileSync(resolve(directory, file), 'utf-8'));
+    const definition = validateLevelDefinition(content);
+    const key = getKey(definition.map, definition.level);
+    if (levels.has(key)) throw new BoardError(BoardError.DUPLICATED_LEVEL);
+    levels.set(key, definition);
+    builtInLevels.add(key);
+  }
+  return levels;
+};
+
+const getKey = (map: string, level: number): string => {
+  return `${map}:${level}`;
+};
+
+const getLevelsDirectory = (): string => {
+  const __filename = fileURLToPath(import.meta.url);
+  const __dirname = dirname(__filename);
+  return resolve(__dirname, 'levels');
+};
+
+/**
+ * Registry holding the level definitions available to build boards, grouped by map.
+ * The definitions are loaded lazily from the JSON files of the levels directory.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+const LevelRegistry = {
+  register,
+  unregister,
+  isBuiltIn,
+  getLevel,
+  hasLevel,
+  hasMap,
+  getMaps,
+  getPlayersCapacity,
+  getLevels,
+};
+export default LevelRegistry;
@@ -0,0 +1,98 @@
+import LevelError from '../../../../errors/LevelError.js';
+import {
+  type BoardBounds,
+  type LevelLayout,
+  parseCoordinatesToString,
+} from '../../../../schemas/zod.js';
+import { Graph } from '../../../../utils/Graph.js';
+
+/**
+ * Validates the given level layout.
+ *
+ * @param {LevelLayout} layout The coordinates of every element of the level.
+ * @param {BoardBounds} bounds The dimensions of the board of the level.
+ * @throws {LevelError} If the level is out of the board, has overlapping cells or is not playable.
+ */
+const validate = (layout: LevelLayout, bounds: BoardBounds): void => {
+  validateBounds(layout, bounds);
+  validateOverlaps(layout);
+  validateReachability(layout, bounds);
+};
+
+const validateBounds = (layout: LevelLayout, { rows, cols }: BoardBounds): void => {
+  const inBounds = getCoordinates(layout).every(
+    ([x, y]) => x >= 0 && x < rows && y >= 0 && y < cols
+  );
+  if (!inBounds) throw new LevelError(LevelError.OUT_OF_BOUNDS);
+};
+
+const validateOverlaps = (layout: LevelLayout): void => {
+  const rocks = new Set(layout.rocksCoordinates.map(getKey));
+  if (layout.enemiesCoordinates.some((coordinates) => rocks.has(getKey(coordinates)))) {
+    throw new LevelError(LevelError.ENEMY_ON_ROCK);
+  }
+  const cells = getCoordinates(layout).map(getKey);
+  if (new Set(cells).size !== cells.length) throw new LevelError(LevelError.OVERLAPPING_CELLS);
+};
+
+const validateReachability = (layout: LevelLayout, bounds: BoardBounds): void => {
+  const graph = getWalkableGraph(layout, bounds);
+  const players = layout.playersStartCoordinates.map(getKey);
+  const [host, ...others] = players;
+  if (!others.every((player) => isReachable(graph, host, player))) {
+    throw new LevelError(LevelError.PLAYER_START_UNREACHABLE);
+  }
+  for (const fruit of layout.fruitsCoordinates.map(getKey)) {
+    const reachable = players.some((player) => isReachable(graph, player, fruit));
+    if (!reachable) throw new LevelError(LevelError.FRUIT_UNREACHABLE);
+  }
+};
+
+const getWalkableGraph = (layout: LevelLayout, { rows, cols }: BoardBounds): Graph => {
+  const rocks = new Set(layout.rocksCoordinates.map(getKey));
+  const walkable = (x: number, y: number) => !rocks.has(getKey([x, y]));
+  const graph = new Graph();
+  for (let x = 0; x < rows; x++) {
+    for (let y = 0; y < cols; y++) {
+      if (!walkable(x, y)) continue;
+      graph.addNode(getKey([x, y]));
+      if (x + 1 < rows && walkable(x + 1, y)) {
+        graph.addEdge(getKey([x, y]), getKey([x + 1, y]));
+      }
+      if (y + 1 < cols && walkable(x, y + 1)) {
+        graph.addEdge(getKey([x, y]), getKey([x, y + 1]));
+      }
+    }
+  }
+  return graph;
+};
+
+const isReachable = (graph: Graph, from: string, to: string): boolean => {
+  return Number.isFinite(graph.shortestPathDijkstra(from, to).distance);
+};
+
+const getCoordinates = (layout: LevelLayout): number[][] => {
+  return [
+    ...layout.playersStartCoordinates,
+    ...layout.enemiesCoordinates,
+    ...layout.fruitsCoordinates,
+    ...layout.freezedCells,
+    ...layout.rocksCoordinates,
+  ];
+};
+
+const getKey = ([x, y]: number[]): string => {
+  return parseCoordinatesToString({ x, y });
+};
+
+/**
+ * Validates that a level layout is playable before it is stored.
+ * Players can break frozen cells, so only rocks block their paths.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+const LevelValidator = {
+  validate,
+};
+export default LevelValidator;
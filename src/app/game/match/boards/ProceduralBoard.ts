@@ -0,0 +1,78 @@
+import type { Difficulty, Direction, LevelDefinition } from '../../../../schemas/zod.js';
+import { config } from '../../../../server.js';
+import type Enemy from '../../characters/enemies/Enemy.js';
+import EnemyFactory from '../../characters/enemies/EnemyFactory.js';
+import type Match from '../Match.js';
+import type Simulation from '../Simulation.js';
+import Board from './Board.js';
+import type Cell from './CellBoard.js';
+import ProceduralGenerator from './ProceduralGenerator.js';
+
+/**
+ * @class ProceduralBoard
+ * @extends Board
+ * Class representing a board whose layout is generated from a seed.
+ * The theme of the board (fruits, enemy and dimensions) comes from a level definition.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class ProceduralBoard extends Board {
+  private readonly theme: LevelDefinition;
+  private readonly seed: number;
+  private readonly difficulty: Difficulty;
+
+  /**
+   * Creates a procedural board for the given seed.
+   *
+   * @param {Match} match - The match instance associated with this board.
+   * @param {string} map - The map of the board.
+   * @param {number} level - The level of the game.
+   * @param {LevelDefinition} theme - The level definition providing the fruits, enemy and dimensions.
+   * @param {number} seed - The seed used to generate the layout.
+   * @param {Difficulty} difficulty - The difficulty used to generate the layout.
+   * @param {Simulation} simulation - The sources of randomness, IDs and time of the match.
+   */
+  constructor(
+    match: Match,
+    map: string,
+    level: number,
+    theme: LevelDefinition,
+    seed: number,
+    difficulty: Difficulty,
+    simulation?: Simulation
+  ) {
+    super(match, map, level, theme.grid.length, theme.grid[0].length, simulation);
+    this.theme = theme;
+    this.seed = seed;
+    this.difficulty = difficulty;
+  }
+
+  /**
+   * Retrieves the seed used to generate the layout of the board.
+   *
+   * @return {number} The seed of the board.
+   */
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  protected getBoardEnemy(cell: Cell, id?: string, orientation?: Direction): Enemy {
+    return EnemyFactory.createEnemy(this.theme.enemy, cell, this, id, orientation);
+  }
+
+  protected loadContext(): void {
+    const layout = ProceduralGenerator.generate(this.seed, this.difficulty, this.getBounds());
+    this.playersStartCoordinates = layout.playersStartCoordinates;
+    this.enemiesCoordinates = layout.enemiesCoordinates;
+    this.fruitsCoordinates = layout.fruitsCoordinates;
+    this.freezedCells = layout.freezedCells;
+    this.rocksCoordinates = layout.rocksCoordinates;
+    this.FRUIT_TYPE = [...this.theme.fruits];
+    this.ENEMIES_SPEED =
+      config.ENEMIES_SPEED_MS +
+      (this.theme.enemiesSpeedOffsetMs ?? 0) +
+      ProceduralGenerator.DIFFICULTIES[this.difficulty].enemiesSpeedOffsetMs;
+    this.loadConstants();
+  }
+}
@@ -0,0 +1,208 @@
+import {
+  type BoardBounds,
+  type Difficulty,
+  type LevelLayout,
+  parseCoordinatesToString,
+} from '../../../../schemas/zod.js';
+import { Graph } from '../../../../utils/Graph.js';
+import { SeededRandom } from '../../../../utils/SeededRandom.js';
+
+interface DifficultySettings {
+  rocksDensity: number;
+  frozenDensity: number;
+  enemies: number;
+  fruitClusters: number;
+  clusterSize: number;
+  enemiesSpeedOffsetMs: number;
+}
+
+const DIFFICULTIES: Record<Difficulty, DifficultySettings> = {
+  easy: {
+    rocksDensity: 0.08,
+    frozenDensity: 0.08,
+    enemies: 2,
+    fruitClusters: 3,
+    clusterSize: 4,
+    enemiesSpeedOffsetMs: 200,
+  },
+  normal: {
+    rocksDensity: 0.12,
+    frozenDensity: 0.12,
+    enemies: 4,
+    fruitClusters: 4,
+    clusterSize: 4,
+    enemiesSpeedOffsetMs: 0,
+  },
+  hard: {
+    rocksDensity: 0.16,
+    frozenDensity: 0.18,
+    enemies: 6,
+    fruitClusters: 5,
+    clusterSize: 3,
+    enemiesSpeedOffsetMs: -200,
+  },
+};
+const MAX_ATTEMPTS = 10;
+const SAFE_DISTANCE = 2;
+const ENEMY_SAFE_DISTANCE = 4;
+
+/**
+ * Generates the layout of a board.
+ *
+ * @param {number} seed The seed of the layout.
+ * @param {Difficulty} difficulty The difficulty of the layout.
+ * @param {BoardBounds} bounds The dimensions of the board.
+ * @returns {LevelLayout} The coordinates of every element of the board.
+ */
+const generate = (seed: number, difficulty: Difficulty, bounds: BoardBounds): LevelLayout => {
+  const settings = DIFFICULTIES[difficulty];
+  const random = new SeededRandom(seed);
+  const players = getPlayersStart(bounds);
+  const rocks = generateRocks(random, settings, bounds, players);
+  const used = new Set([...rocks, ...players].map(getKey));
+  const free = getCells(bounds).filter((cell) => !used.has(getKey(cell)));
+  const enemies = random
+    .shuffle(free)
+    .filter((cell) => players.every((player) => distance(cell, player) >= ENEMY_SAFE_DISTANCE))
+    .slice(0, settings.enemies);
+  markUsed(used, enemies);
+  const fruits = generateFruits(random, settings, bounds, used);
+  markUsed(used, fruits);
+  const frozenCandidates = free.filter((cell) => !used.has(getKey(cell)) && !isSafe(cell, players));
+  const freezedCells = random
+    .shuffle(frozenCandidates)
+    .slice(0, Math.round(frozenCandidates.length * settings.frozenDensity));
+  return {
+    playersStartCoordinates: players,
+    enemiesCoordinates: enemies,
+    fruitsCoordinates: fruits,
+    freezedCells,
+    rocksCoordinates: rocks,
+  };
+};
+
+/**
+ * Places the rocks of the board. Free cells enclosed by rocks are filled with rocks,
+ * so every remaining free cell is connected to the players.
+ */
+const generateRocks = (
+  random: SeededRandom,
+  settings: DifficultySettings,
+  bounds: BoardBounds,
+  players: number[][]
+): number[][] => {
+  const candidates = getCells(bounds).filter((cell) => !isSafe(cell, players));
+  const total = Math.round(bounds.rows * bounds.cols * settings.rocksDensity);
+  const [host, ...others] = players.map(getKey);
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const rocks = random.shuffle(candidates).slice(0, total);
+    const reachable = getWalkableGraph(rocks, bounds).getReachableNodes(host);
+    if (!others.every((player) => reachable.has(player))) continue;
+    const placed = new Set(rocks.map(getKey));
+    const enclosed = getCells(bounds).filter((cell) => {
+      const key = getKey(cell);
+      return !reachable.has(key) && !placed.has(key);
+    });
+    return [...rocks, ...enclosed];
+  }
+  return [];
+};
+
+/**
+ * Places the fruits of the board in clusters of adjacent free cells.
+ */
+const generateFruits = (
+  random: SeededRandom,
+  settings: DifficultySettings,
+  bounds: BoardBounds,
+  used: Set<string>
+): number[][] => {
+  const fruits: number[][] = [];
+  const taken = new Set(used);
+  for (let i = 0; i < settings.fruitClusters; i++) {
+    const free = getCells(bounds).filter((cell) => !taken.has(getKey(cell)));
+    if (free.length === 0) break;
+    const cluster = [free[random.nextInt(free.length)]];
+    markUsed(taken, cluster);
+    while (cluster.length < settings.clusterSize) {
+      const neighbors = cluster
+        .flatMap((cell) => getNeighbors(cell, bounds))
+        .filter((cell) => !taken.has(getKey(cell)));
+      if (neighbors.length === 0) break;
+      const next = neighbors[random.nextInt(neighbors.length)];
+      cluster.push(next);
+      markUsed(taken, [next]);
+    }
+    fruits.push(...cluster);
+  }
+  return fruits;
+};
+
+const getWalkableGraph = (rocks: number[][], bounds: BoardBounds): Graph => {
+  const blocked = new Set(rocks.map(getKey));
+  const graph = new Graph();
+  for (const cell of getCells(bounds)) {
+    const key = getKey(cell);
+    if (blocked.has(key)) continue;
+    graph.addNode(key);
+    for (const neighbor of getNeighbors(cell, bounds)) {
+      const neighborKey = getKey(neighbor);
+      if (!blocked.has(neighborKey)) graph.addEdge(key, neighborKey, 1, false);
+    }
+  }
+  return graph;
+};
+
+const getPlayersStart = ({ rows, cols }: BoardBounds): number[][] => {
+  const row = Math.floor(rows / 2);
+  const col = Math.floor(cols / 2);
+  return [
+    [row, Math.min(1, cols - 1)],
+    [row, Math.max(cols - 2, 0)],
+    [Math.min(1, rows - 1), col],
+    [Math.max(rows - 2, 0), col],
+  ];
+};
+
+const getCells = ({ rows, cols }: BoardBounds): number[][] => {
+  return Array.from({ length: rows * cols }, (_, i) => [Math.floor(i / cols), i % cols]);
+};
+
+const getNeighbors = ([x, y]: number[], { rows, cols }: BoardBounds): number[][] => {
+  return [
+    [x - 1, y],
+    [x + 1, y],
+    [x, y - 1],
+    [x, y + 1],
+  ].filter(([i, j]) => i >= 0 && i < rows && j >= 0 && j < cols);
+};
+
+const isSafe = (cell: number[], players: number[][]): boolean => {
+  return players.some((player) => distance(cell, player) <= SAFE_DISTANCE);
+};
+
+const distance = ([x1, y1]: number[], [x2, y2]: number[]): number => {
+  return Math.abs(x1 - x2) + Math.abs(y1 - y2);
+};
+
+const markUsed = (used: Set<string>, cells: number[][]): void => {
+  for (const cell of cells) used.add(getKey(cell));
+};
+
+const getKey = ([x, y]: number[]): string => {
+  return parseCoordinatesToString({ x, y });
+};
+
+/**
+ * Generates level layouts from a seed and a difficulty. The same seed, difficulty
+ * and bounds always produce the same layout, and every free cell of the layout
+ * can be reached by the players.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+const ProceduralGenerator = {
+  DIFFICULTIES,
+  generate,
+};
+export default ProceduralGenerator;
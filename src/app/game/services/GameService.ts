@@ -1,4 +1,3 @@
-import type { WebSocket } from 'ws';
 import type {
   GameMessageOutput,
   MatchDetails,
@@ -6,31 +5,30 @@ import type {
   UpdateAll,
   UpdateTime,
 } from '../../../schemas/zod.js';
+import type ClientSocket from '../../shared/ClientSocket.js';
 import type Match from '../match/Match.js';
 
 export default interface GameService {
   startMatch(matchId: string): Promise<void>;
   createMatch(match: MatchDetails): Promise<Match>;
-  registerConnection(user: string, socket: WebSocket): boolean;
+  registerConnection(user: string, socket: ClientSocket): boolean;
   removeConnection(user: string): void;
+  disconnectPlayer(matchId: string, userId: string, socket: ClientSocket): Promise<void>;
+  reconnectPlayer(matchId: string, userId: string): Promise<void>;
   handleGameMessage(userId: string, matchId: string, message: Buffer): Promise<void>;
   getMatch(matchId: string): Promise<Match | undefined>;
+  hasMatch(matchId: string): boolean;
   checkMatchDetails(matchDetails: MatchDetails): void;
   getMatchUpdate(matchId: string): Promise<UpdateAll>;
   extendUsersSession(userId: string): Promise<void>;
   extendMatchSession(matchId: string): Promise<void>;
   updateTimeMatch(matchId: string, time: UpdateTime): Promise<void>;
-  updatePlayers(
-    matchId: string,
-    hostId: string,
-    guestId: string,
-    data: GameMessageOutput
-  ): Promise<void>;
+  updatePlayers(matchId: string, players: string[], data: GameMessageOutput): Promise<void>;
   saveMatch(matchId: string, matchStorage: MatchStorage): Promise<void>;
+  snapshotMatch(matchId: string): Promise<void>;
+  drainMatches(): Promise<void>;
   getMatchStorage(matchId: string): Promise<MatchStorage | null>;
-  notifyPlayers(
-    socketP1: WebSocket | undefined,
-    socketP2: WebSocket | undefined,
-    dataDTO: GameMessageOutput
-  ): void;
+  notifyPlayers(sockets: (ClientSocket | undefined)[], dataDTO: GameMessageOutput): void;
+  addSpectator(matchId: string, socket: ClientSocket): Promise<void>;
+  removeSpectator(matchId: string, socket: ClientSocket): void;
 }
@@ -1,14 +1,23 @@
 import { WebSocket } from 'ws';
+import CharacterError from '../../../errors/CharacterError.js';
 import GameError from '../../../errors/GameError.js';
 import MatchError from '../../../errors/MatchError.js';
+import type LeaderboardRepository from '../../../schemas/LeaderboardRepository.js';
 import type MatchRepository from '../../../schemas/MatchRepository.js';
+import type MatchResultRepository from '../../../schemas/MatchResultRepository.js';
+import type ReplayRepository from '../../../schemas/ReplayRepository.js';
 import type UserRepository from '../../../schemas/UserRepository.js';
 import type GameCache from '../../../schemas/repositories/GameCache.js';
 import {
+  type GameMessageInput,
   type GameMessageOutput,
+  type InputRejectReason,
   type MatchDetails,
+  type MatchLogEvent,
+  type MatchSettings,
   type MatchStorage,
   type PlayerMove,
+  type ReplayEvent,
   type UpdateAll,
   type UpdateEnemy,
   type UpdateTime,
@@ -16,13 +25,32 @@ import {
   validateErrorMatch,
   validateGameMessageOutput,
   validateGameMesssageInput,
+  validatePlayerMove,
   validatePlayerState,
 } from '../../../schemas/zod.js';
 import { config, logger } from '../../../server.js';
+import { SeededRandom } from '../../../utils/SeededRandom.js';
 import Match from '../../game/match/Match.js';
+import MatchJournal from '../../game/match/MatchJournal.js';
 import type GameService from '../../game/services/GameService.js';
+import type ClientSocket from '../../shared/ClientSocket.js';
 import type SocketConnectionsService from '../../shared/SocketConnectionService.js';
+import type MatchOwnership from '../../shared/cluster/MatchOwnership.js';
+import { messageCodecs } from '../../shared/codecs/MessageCodecs.js';
 import type Player from '../characters/players/Player.js';
+import PlayerBot from '../characters/players/PlayerBot.js';
+import LevelRegistry from '../match/boards/LevelRegistry.js';
+
+type GameInput = {
+  type: GameMessageInput['type'];
+  payload: string;
+  seq: number | undefined;
+  gameMatch: Match;
+  player: Player;
+  socket: ClientSocket;
+  sockets: (ClientSocket | undefined)[];
+};
+
 /**
  * @class GameServiceImpl
  * Class that implements the GameService interface
@@ -30,11 +58,23 @@ import type Player from '../characters/players/Player.js';
  * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
  */
 class GameServiceImpl implements GameService {
+  // Inputs acknowledged or rejected when they carry a sequence number, used for client prediction
+  private static readonly ACKNOWLEDGED_INPUTS: GameMessageInput['type'][] = [
+    'movement',
+    'rotate',
+    'exec-power',
+  ];
   private readonly userRepository: UserRepository;
   private readonly matchRepository: MatchRepository;
+  private readonly matchResultRepository: MatchResultRepository;
+  private readonly leaderboardRepository: LeaderboardRepository;
+  private readonly replayRepository: ReplayRepository;
   private readonly matches: Map<string, Match>;
+  private readonly spectators: Map<string, Set<ClientSocket>>;
+  private readonly journals: Map<string, MatchJournal>;
   private readonly connections: SocketConnectionsService;
   private readonly gameCache: GameCache;
+  private readonly matchOwnership: MatchOwnership;
 
   /**
    * Updates the time of a match and notifies the players.
@@ -46,32 +86,33 @@ class GameServiceImpl implements GameService {
   public async updateTimeMatch(matchId: string, time: UpdateTime): Promise<void> {
     const match = await this.getMatch(matchId);
     if (!match) throw new MatchError(MatchError.MATCH_NOT_FOUND);
-    const socketP1 = this.connections.getConnection(match.getHost());
-    const socketP2 = this.connections.getConnection(match.getGuest());
-    this.notifyPlayers(socketP1, socketP2, { type: 'update-time', payload: time });
-    if (match.checkWin())
-      return this.notifyPlayers(socketP1, socketP2, {
-        type: 'end',
-        payload: validateEndMatch({ result: 'win' }),
-      });
-    if (match.checkLose())
-      return this.notifyPlayers(socketP1, socketP2, {
-        type: 'end',
-        payload: validateEndMatch({ result: 'lose' }),
-      });
+    const sockets = this.getSockets(match.getPlayersIds());
+    this.notifyMatch(match, sockets, { type: 'update-time', payload: time });
+    if (match.checkWin() || match.checkLose()) this.notifyEndGame(match, sockets);
   }
 
   constructor(
     matchRepository: MatchRepository,
     userRepository: UserRepository,
     gameCache: GameCache,
-    connections: SocketConnectionsService
+    connections: SocketConnectionsService,
+    matchResultRepository: MatchResultRepository,
+    leaderboardRepository: LeaderboardRepository,
+    replayRepository: ReplayRepository,
+    matchOwnership: MatchOwnership
   ) {
     this.matchRepository = matchRepository;
+    this.matchResultRepository = matchResultRepository;
+    this.leaderboardRepository = leaderboardRepository;
+    this.replayRepository = replayRepository;
     this.userRepository = userRepository;
     this.matches = new Map<string, Match>();
+    this.spectators = new Map<string, Set<ClientSocket>>();
+    this.journals = new Map<string, MatchJournal>();
     this.connections = connections;
     this.gameCache = gameCache;
+    this.matchOwnership = matchOwnership;
+    this.matchOwnership.onLost((matchId) => this.abandonMatch(matchId));
   }
   public async saveMatch(matchId: string, matchStorage: MatchStorage): Promise<void> {
     return await this.gameCache.saveMatch(matchId, matchStorage);
@@ -80,6 +121,102 @@ class GameServiceImpl implements GameService {
     return await this.gameCache.getMatch(matchId);
   }
 
+  /**
+   * Saves a snapshot of a running match in the cache, with the index of the last input of its log
+   * that the snapshot contains. A failure only makes a restore replay more inputs.
+   *
+   * @param {string} matchId The ID of the match.
+   * @return {Promise<void>} A promise that resolves when the snapshot is saved.
+   */
+  public async snapshotMatch(matchId: string): Promise<void> {
+    const gameMatch = this.matches.get(matchId);
+    if (!gameMatch?.isRunning()) return;
+    const journal = this.getJournal(matchId);
+    try {
+      await journal.runExclusive(async () => {
+        // A match handed off while the snapshot waited was already saved
+        if (!gameMatch.isRunning()) return;
+        const matchStorage = await gameMatch.getMatchStorage();
+        await this.gameCache.saveMatch(matchId, { ...matchStorage, logIndex: journal.getIndex() });
+      });
+    } catch (error) {
+      logger.warn(`Error trying to save match ${matchId} in cache`);
+      logger.error(error);
+    }
+  }
+
+  /**
+   * Hands off the running matches of this node before it shuts down.
+   * Every match is paused, stopped and saved with the inputs it already applied, its players are
+   * told to reconnect, and its lease is released so the node they reconnect to restores it.
+   *
+   * @return {Promise<void>} A promise that resolves when every match is saved.
+   */
+  public async drainMatches(): Promise<void> {
+    const running = [...this.matches.values()].filter((gameMatch) => gameMatch.isRunning());
+    await Promise.all(running.map((gameMatch) => this.drainMatch(gameMatch)));
+    logger.info(`${running.length} matches were handed off`);
+  }
+
+  /**
+   * Stops a match whose lease was taken by another node, which restores it from the cache instead.
+   * Its players and spectators are told to reconnect and their sockets are closed, so they reach
+   * the new owner.
+   */
+  private async abandonMatch(matchId: string): Promise<void> {
+    const gameMatch = this.matches.get(matchId);
+    if (!gameMatch) return;
+    try {
+      // Waits for the input or snapshot in progress, nothing is logged or saved afterwards
+      await this.getJournal(matchId).runExclusive(() => gameMatch.stopGame());
+    } catch (error) {
+      logger.warn(`Error stopping match ${matchId} owned by another node`);
+      logger.error(error);
+    } finally {
+      this.matches.delete(matchId);
+      this.journals.delete(matchId);
+    }
+    const sockets = [
+      ...this.getSockets(gameMatch.getPlayersIds()),
+      ...(this.spectators.get(matchId) ?? []),
+    ];
+    this.spectators.delete(matchId);
+    this.notifyPlayers(
+      sockets,
+      validateGameMessageOutput({ type: 'server-restarting', payload: { reconnectInMs: 0 } })
+    );
+    for (const socket of sockets) socket?.close(1012, MatchError.MATCH_OWNED_BY_ANOTHER_NODE);
+  }
+
+  private async drainMatch(gameMatch: Match): Promise<void> {
+    const matchId = gameMatch.getId();
+    const journal = this.getJournal(matchId);
+    try {
+      // Waits for the input or snapshot in progress, nothing changes the match afterwards
+      await journal.runExclusive(async () => {
+        await gameMatch.pauseMatch();
+        await gameMatch.stopGame();
+        const matchStorage = await gameMatch.getMatchStorage();
+        await this.gameCache.saveMatch(matchId, { ...matchStorage, logIndex: journal.getIndex() });
+      });
+      // Not an update of the match, so it does not take a sequence number from the restored match
+      this.notifyPlayers(
+        [...this.getSockets(gameMatch.getPlayersIds()), ...(this.spectators.get(matchId) ?? [])],
+        validateGameMessageOutput({
+          type: 'server-restarting',
+          payload: { reconnectInMs: config.SHUTDOWN_RECONNECT_MS },
+        })
+      );
+      await this.matchOwnership.release(matchId);
+    } catch (error) {
+      logger.warn(`Error handing off match ${matchId}`);
+      logger.error(error);
+    } finally {
+      this.matches.delete(matchId);
+      this.journals.delete(matchId);
+    }
+  }
+
   /**
    * Retrieves the match update for the given match ID.
    *
@@ -98,26 +235,102 @@ class GameServiceImpl implements GameService {
       matchStorage.id,
       matchStorage.level,
       matchStorage.map,
-      matchStorage.host.id,
-      matchStorage.guest.id,
+      matchStorage.players.map(({ id }) => id),
       matchStorage.paused,
       matchStorage.fruitGenerated,
-      matchStorage.timeSeconds
+      matchStorage.timeSeconds,
+      {
+        mode: matchStorage.mode,
+        seed: matchStorage.seed,
+        difficulty: matchStorage.difficulty,
+        solo: matchStorage.solo,
+        versus: matchStorage.versus,
+      }
     );
-    match.loadBoard(matchStorage.board, matchStorage.host, matchStorage.guest);
+    match.loadBoard(matchStorage.board, matchStorage.players);
+    match.restoreSequence(matchStorage.sequence ?? 0);
+    match.restorePauses(
+      matchStorage.pausesUsed ?? {},
+      matchStorage.pausedBy,
+      matchStorage.pauseSecondsLeft
+    );
+    await this.replayLog(match, matchStorage.logIndex ?? 0);
     await match.startGame();
     return match;
   }
 
+  /**
+   * Replays on a restored match the inputs logged after its snapshot, before its game loop starts.
+   * Nobody is notified, so the match is not looked up again while it is restored, and the players
+   * receive the whole match when they connect again. Every input starts from the sequence number
+   * it was logged with and counts the updates it was broadcast with.
+   */
+  private async replayLog(match: Match, logIndex: number): Promise<void> {
+    const events = await this.gameCache.getEvents(match.getId(), logIndex);
+    await match.replay(async () => {
+      for (const event of events) {
+        match.restoreSequence(Math.max(event.sequence, match.getSequence()));
+        await this.replayInput(match, event);
+      }
+    });
+    const lastEvent = events[events.length - 1];
+    this.journals.set(match.getId(), new MatchJournal(lastEvent?.index ?? logIndex));
+  }
+
+  private async replayInput(
+    match: Match,
+    { index, userId, type, payload }: MatchLogEvent
+  ): Promise<void> {
+    try {
+      const player = match.getPlayer(userId);
+      if (!player) throw new MatchError(MatchError.PLAYER_NOT_FOUND);
+      switch (type) {
+        case 'movement':
+          // The moves were already throttled when they were received
+          player.resetMoveClock();
+          await this.movePlayer(player, payload);
+          break;
+        case 'rotate':
+          this.rotatePlayer(player, payload);
+          break;
+        case 'exec-power':
+          await player.execPower();
+          break;
+        case 'pause':
+          await match.requestPause(userId);
+          break;
+        case 'resume':
+          await match.requestResume(userId);
+          break;
+        case 'set-color':
+          player.setColor(payload);
+          match.updatePlayer(userId, { color: payload });
+          break;
+        default:
+          throw new MatchError(MatchError.INVALID_MESSAGE_TYPE);
+      }
+      // The update the input was broadcast with
+      match.nextSequence();
+    } catch (error) {
+      // The log is written ahead, so the inputs the match rejected are rejected again
+      if (error instanceof CharacterError || error instanceof GameError) return;
+      logger.warn(`The input ${index} of the match ${match.getId()} could not be replayed`);
+      logger.error(error);
+    }
+  }
+
   /**
    * Validates the match details.
+   * The match needs as many different players as it was created for, the bot of a solo match
+   * joins it when the match is created.
    *
    * @param {MatchDetails} matchDetails The match details to validate.
    * @throws {GameError} If the match details are invalid.
    */
   public checkMatchDetails(matchDetails: MatchDetails): void {
-    if (matchDetails.host === matchDetails.guest) throw new GameError(GameError.MATCH_CANNOT_START);
-    if (!matchDetails.host || !matchDetails.guest)
+    const { host, players, playersNumber } = matchDetails;
+    if (new Set(players).size !== players.length) throw new GameError(GameError.MATCH_CANNOT_START);
+    if (!host || players[0] !== host || players.length < playersNumber)
       throw new GameError(GameError.MATCH_CANNOT_START);
     if (!matchDetails.started) throw new GameError(GameError.MATCH_CANNOT_START);
   }
@@ -135,18 +348,69 @@ class GameServiceImpl implements GameService {
         `Match ${matchId}  found in memory, trying to restore from cache: ${JSON.stringify(matchStorage)}`
       );
       if (!matchStorage) return undefined;
+      // Only one node of the cluster restores a match, the others relay its sockets to that node
+      if (!(await this.matchOwnership.acquire(matchId))) return undefined;
       try {
         const match = await this.restoreMatch(matchStorage);
         this.matches.set(matchId, match);
       } catch (error) {
         logger.warn(`Error restoring match ${matchId}`);
         logger.error(error);
+        // Another node can try to restore the match instead of waiting for the lease to expire
+        await this.matchOwnership.release(matchId);
         return undefined;
       }
     }
     return this.matches.get(matchId);
   }
 
+  /**
+   * Checks if this node holds a match in memory, without restoring it from the cache.
+   *
+   * @param {string} matchId The ID of the match.
+   * @return {boolean} True if this node created or restored the match, false otherwise.
+   */
+  public hasMatch(matchId: string): boolean {
+    return this.matches.has(matchId);
+  }
+
+  /**
+   * Adds a read-only spectator to a running match, sending it the current state of the match.
+   * Spectators receive every message broadcast to the players, but are not players themselves.
+   * A match saved in the cache is only restored by its players, so a spectator never starts it.
+   *
+   * @param {string} matchId The ID of the match to watch.
+   * @param {ClientSocket} socket The WebSocket connection of the spectator.
+   * @return {Promise<void>} A promise that resolves when the spectator is added.
+   * @throws {MatchError} If the match is not running, or waits in the cache for its players.
+   */
+  public async addSpectator(matchId: string, socket: ClientSocket): Promise<void> {
+    const gameMatch = this.matches.get(matchId);
+    if (!gameMatch) {
+      const matchStorage = await this.getMatchStorage(matchId);
+      if (matchStorage) throw new MatchError(MatchError.MATCH_WAITING_FOR_PLAYERS);
+      throw new MatchError(MatchError.MATCH_NOT_FOUND);
+    }
+    // The snapshot is sent before adding the spectator so no update can arrive ahead of it
+    this.send(socket, this.getSnapshot(gameMatch));
+    const spectators = this.spectators.get(matchId) ?? new Set<ClientSocket>();
+    spectators.add(socket);
+    this.spectators.set(matchId, spectators);
+  }
+
+  /**
+   * Removes a spectator from a match.
+   *
+   * @param {string} matchId The ID of the watched match.
+   * @param {ClientSocket} socket The WebSocket connection of the spectator.
+   */
+  public removeSpectator(matchId: string, socket: ClientSocket): void {
+    const spectators = this.spectators.get(matchId);
+    if (!spectators) return;
+    spectators.delete(socket);
+    if (spectators.size === 0) this.spectators.delete(matchId);
+  }
+
   /**
    * Removes the connection for the given user ID.
    *
@@ -156,6 +420,36 @@ class GameServiceImpl implements GameService {
     this.connections.removeConnection(user);
   }
 
+  /**
+   * Handles the closed game socket of a player. A socket replaced by a newer connection of the
+   * player is ignored, otherwise the player has the grace period of its match to reconnect.
+   *
+   * @param {string} matchId The ID of the match of the player.
+   * @param {string} userId The ID of the player.
+   * @param {ClientSocket} socket The closed WebSocket connection.
+   * @return {Promise<void>} A promise that resolves when the match is paused.
+   */
+  public async disconnectPlayer(
+    matchId: string,
+    userId: string,
+    socket: ClientSocket
+  ): Promise<void> {
+    if (this.connections.getConnection(userId) !== socket) return;
+    this.removeConnection(userId);
+    await this.matches.get(matchId)?.disconnectPlayer(userId);
+  }
+
+  /**
+   * Ends the grace period of a player that connected again to its match.
+   *
+   * @param {string} matchId The ID of the match of the player.
+   * @param {string} userId The ID of the player.
+   * @return {Promise<void>} A promise that resolves when the match is resumed.
+   */
+  public async reconnectPlayer(matchId: string, userId: string): Promise<void> {
+    await this.matches.get(matchId)?.reconnectPlayer(userId);
+  }
+
   /**
    * Handles a game message from a user.
    *
@@ -166,74 +460,114 @@ class GameServiceImpl implements GameService {
    * @throws {GameError} If the match or player is not found.
    */
   public async handleGameMessage(userId: string, matchId: string, message: Buffer): Promise<void> {
-    const { type, payload, player, gameMatch, socketP1, socketP2 } = await this.validateMessage(
-      userId,
-      matchId,
-      message
-    );
-    if (await this.gameFinished(gameMatch, socketP1, socketP2)) return;
-    if (await this.isPaused(socketP1, socketP2, gameMatch, type)) return;
-    if (this.playerDead(player, socketP1)) return;
+    const input = await this.validateMessage(userId, matchId, message);
+    const { type, payload, seq, player, gameMatch, socket, sockets } = input;
+    this.recordEvent(matchId, { source: 'input', userId, message: { type, payload, seq } });
+    if (await this.gameFinished(gameMatch, sockets)) return;
+    if (type === 'resync') {
+      // Only the player that missed an update receives the snapshot, even if paused or dead
+      this.send(socket, this.getSnapshot(gameMatch));
+      return;
+    }
+    if (await this.isPaused(sockets, gameMatch, type)) {
+      this.rejectInput(socket, player, type, seq, 'paused');
+      return;
+    }
+    if (this.playerDead(player, socket, type, seq)) return;
+    await this.getJournal(matchId).runExclusive(async () => {
+      // A match abandoned while the input waited is no longer run by this node
+      if (this.matches.get(matchId) === gameMatch) await this.applyInput(userId, input);
+    });
+    await this.gameFinished(gameMatch, sockets);
+  }
 
+  /**
+   * Applies an input of a player to the match and notifies the match about it. The inputs that
+   * change the match are logged before they are applied, so a crash while one is applied or
+   * broadcast does not lose it.
+   */
+  private async applyInput(userId: string, input: GameInput): Promise<void> {
+    const { type, payload, seq, player, gameMatch, socket, sockets } = input;
     switch (type) {
       case 'movement': {
         try {
+          // The moves are replayed one after the other, so a throttled move is not logged
+          if (!player.canMoveNow()) throw new CharacterError(CharacterError.TOO_FAST);
+          await this.logInput(gameMatch, userId, type, payload);
           const playerUpdate = await this.movePlayer(player, payload);
-          this.notifyPlayers(socketP1, socketP2, { type: 'update-move', payload: playerUpdate });
+          this.notifyMatch(gameMatch, sockets, { type: 'update-move', payload: playerUpdate });
+          this.acknowledgeInput(socket, player, type, seq, playerUpdate);
         } catch (error) {
-          socketP1.send(
-            this.parseToString({
+          const reason = this.getRejectReason(error);
+          if (!this.rejectInput(socket, player, type, seq, reason)) {
+            this.send(socket, {
               type: 'error',
               payload: validateErrorMatch({ error: 'Invalid move' }),
-            })
-          );
-          logger.warn(`An error occurred while trying to move player ${userId} ${payload}`);
-          logger.error(error);
+            });
+          }
+          // Moves faster than the speed of the player are expected from flooding clients
+          if (reason !== 'throttled') {
+            logger.warn(`An error occurred while trying to move player ${userId} ${payload}`);
+            logger.error(error);
+          }
         }
         break;
       }
       case 'pause': {
-        await gameMatch.pauseMatch();
-        this.notifyPlayers(
-          socketP1,
-          socketP2,
-          validateGameMessageOutput({ type: 'paused', payload: true })
+        await this.logInput(gameMatch, userId, type, payload);
+        const pauseState = await gameMatch.requestPause(userId);
+        this.notifyMatch(
+          gameMatch,
+          sockets,
+          validateGameMessageOutput({ type: 'paused', payload: pauseState })
         );
         break;
       }
       case 'resume': {
-        await gameMatch.resumeMatch();
-        this.notifyPlayers(
-          socketP1,
-          socketP2,
-          validateGameMessageOutput({ type: 'paused', payload: false })
+        await this.logInput(gameMatch, userId, type, payload);
+        const pauseState = await gameMatch.requestResume(userId);
+        this.notifyMatch(
+          gameMatch,
+          sockets,
+          validateGameMessageOutput({ type: 'paused', payload: pauseState })
         );
         break;
       }
       case 'rotate': {
-        const rotatedPlayer = this.rotatePlayer(player, payload);
-        this.notifyPlayers(
-          socketP1,
-          socketP2,
+        await this.logInput(gameMatch, userId, type, payload);
+        let rotatedPlayer: PlayerMove | UpdateEnemy;
+        try {
+          rotatedPlayer = this.rotatePlayer(player, payload);
+        } catch (error) {
+          if (this.rejectInput(socket, player, type, seq, 'invalid')) return;
+          throw error;
+        }
+        this.notifyMatch(
+          gameMatch,
+          sockets,
           validateGameMessageOutput({ type: 'update-move', payload: rotatedPlayer })
         );
+        this.acknowledgeInput(socket, player, type, seq, rotatedPlayer);
         break;
       }
       case 'exec-power': {
+        await this.logInput(gameMatch, userId, type, payload);
         const frozenCells = await player.execPower();
         const playerDirection = player.getOrientation();
         const messageFrozens = validateGameMessageOutput({
           type: 'update-frozen-cells',
           payload: { cells: frozenCells, direction: playerDirection },
         });
-        this.notifyPlayers(socketP1, socketP2, messageFrozens);
+        this.notifyMatch(gameMatch, sockets, messageFrozens);
+        this.acknowledgeInput(socket, player, type, seq);
         break;
       }
       case 'set-color': {
+        await this.logInput(gameMatch, userId, type, payload);
         player.setColor(payload);
         await this.userRepository.updateUser(userId, { color: payload });
         gameMatch.updatePlayer(player.getId(), { color: payload });
-        this.notifyPlayers(socketP1, socketP2, {
+        this.notifyMatch(gameMatch, sockets, {
           type: 'update-state',
           payload: validatePlayerState({ id: player.getId(), state: 'alive', color: payload }),
         });
@@ -241,7 +575,7 @@ class GameServiceImpl implements GameService {
       }
       case 'update-all': {
         const updateAll = gameMatch.getMatchUpdate();
-        this.notifyPlayers(socketP1, socketP2, {
+        this.notifyMatch(gameMatch, sockets, {
           type: 'update-all',
           payload: updateAll,
         });
@@ -251,53 +585,72 @@ class GameServiceImpl implements GameService {
         throw new MatchError(MatchError.INVALID_MESSAGE_TYPE);
       }
     }
-    gameMatch
-      ?.getMatchStorage()
-      .then((matchStorage) => {
-        if (matchStorage) {
-          this.gameCache.saveMatch(matchId, matchStorage);
-        }
-      })
-      .catch((error) => {
-        logger.warn(`Error trying to save match ${matchId} in cache`);
-        logger.error(error);
+  }
+
+  /**
+   * Logs an input of a match before it is applied, with the sequence number of the last update
+   * broadcast, so it is replayed if the match is restored from its last snapshot. A failure only
+   * loses the input on a restore.
+   */
+  private async logInput(
+    gameMatch: Match,
+    userId: string,
+    type: GameMessageInput['type'],
+    payload: string
+  ): Promise<void> {
+    const matchId = gameMatch.getId();
+    try {
+      await this.gameCache.appendEvent(matchId, {
+        index: this.getJournal(matchId).nextIndex(),
+        timestamp: Date.now(),
+        userId,
+        type,
+        payload,
+        sequence: gameMatch.getSequence(),
       });
+    } catch (error) {
+      logger.warn(`Error logging an input of match ${matchId}`);
+      logger.error(error);
+    }
+  }
 
-    if (await this.gameFinished(gameMatch, socketP1, socketP2)) return;
+  private getJournal(matchId: string): MatchJournal {
+    let journal = this.journals.get(matchId);
+    if (!journal) {
+      journal = new MatchJournal();
+      this.journals.set(matchId, journal);
+    }
+    return journal;
   }
 
   /**
    * Updates the players in the match with the given data.
    *
    * @param {string} matchId The ID of the match to update.
-   * @param {string} hostId The ID of the host player.
-   * @param {string} guestId The ID of the guest player.
+   * @param {string[]} players The IDs of the players to update.
    * @param {GameMessageOutput} data The data to update the players with.
    * @return {Promise<void>} A promise that resolves when the players are updated.
    */
   public async updatePlayers(
     matchId: string,
-    hostId: string,
-    guestId: string,
+    players: string[],
     data: GameMessageOutput
   ): Promise<void> {
     const gameMatch = await this.getMatch(matchId);
     if (!gameMatch) throw new MatchError(MatchError.MATCH_NOT_FOUND);
-    const socketP1 = this.connections.getConnection(hostId);
-    const socketP2 = this.connections.getConnection(guestId);
-    if (socketP1 && socketP1.readyState === WebSocket.OPEN) socketP1.send(this.parseToString(data));
-    if (socketP2 && socketP2.readyState === WebSocket.OPEN) socketP2.send(this.parseToString(data));
-    await this.gameFinished(gameMatch, socketP1, socketP2);
+    const sockets = this.getSockets(players);
+    this.notifyMatch(gameMatch, sockets, data);
+    await this.gameFinished(gameMatch, sockets);
   }
 
   /**
    * Registers a connection for a user.
    *
    * @param {string} user The ID of the user to register.
-   * @param {WebSocket} socket The WebSocket connection of the user.
+   * @param {ClientSocket} socket The WebSocket connection of the user.
    * @return {boolean} True if the user was already connected, false otherwise.
    */
-  public registerConnection(user: string, socket: WebSocket): boolean {
+  public registerConnection(user: string, socket: ClientSocket): boolean {
     const existingSocket = this.connections.isConnected(user);
     this.connections.registerConnection(user, socket);
     return existingSocket;
@@ -305,24 +658,43 @@ class GameServiceImpl implements GameService {
 
   /**
    * Creates a match with the given details.
+   * In solo matches the partner of the host is played by a bot. The node takes the lease of the
+   * match before creating it, so a match is only run by one node of the cluster.
    *
    * @param {MatchDetails} matchDetails The details of the match to create.
    * @return {Promise<Match>} A promise that resolves to the created match.
+   * @throws {MatchError} If the match cannot be created or another node runs it.
    */
   public async createMatch(matchDetails: MatchDetails): Promise<Match> {
-    if (!matchDetails.guest) throw new MatchError(MatchError.MATCH_CANNOT_BE_CREATED);
-    const gameMatch = new Match(
-      this,
-      matchDetails.id,
-      matchDetails.level,
-      matchDetails.map,
-      matchDetails.host,
-      matchDetails.guest
-    );
-    gameMatch.initialize();
+    if (matchDetails.players.length < matchDetails.playersNumber)
+      throw new MatchError(MatchError.MATCH_CANNOT_BE_CREATED);
+    if (!(await this.matchOwnership.acquire(matchDetails.id)))
+      throw new MatchError(MatchError.MATCH_OWNED_BY_ANOTHER_NODE);
+    const players = matchDetails.solo
+      ? [...matchDetails.players, PlayerBot.getBotId(matchDetails.id)]
+      : matchDetails.players;
+    let gameMatch: Match;
+    try {
+      gameMatch = new Match(
+        this,
+        matchDetails.id,
+        matchDetails.level,
+        matchDetails.map,
+        players,
+        undefined,
+        undefined,
+        undefined,
+        this.getMatchSettings(matchDetails)
+      );
+      gameMatch.initialize();
+    } catch (error) {
+      await this.matchOwnership.release(matchDetails.id);
+      throw error;
+    }
     this.matches.set(matchDetails.id, gameMatch);
-    await this.userRepository.updateUser(matchDetails.host, { matchId: matchDetails.id });
-    await this.userRepository.updateUser(matchDetails.guest, { matchId: matchDetails.id });
+    for (const player of matchDetails.players) {
+      await this.userRepository.updateUser(player, { matchId: matchDetails.id });
+    }
     return gameMatch;
   }
 
@@ -335,7 +707,10 @@ class GameServiceImpl implements GameService {
   public async startMatch(matchId: string): Promise<void> {
     const gameMatch = await this.getMatch(matchId);
     if (!gameMatch) throw new MatchError(MatchError.MATCH_NOT_FOUND);
+    await this.startReplayRound(matchId);
     await gameMatch.startGame();
+    this.recordEvent(matchId, { source: 'output', message: this.getSnapshot(gameMatch) });
+    await this.snapshotMatch(matchId);
   }
 
   /**
@@ -360,29 +735,58 @@ class GameServiceImpl implements GameService {
 
   private async gameFinished(
     gameMatch: Match,
-    socketP1: WebSocket | undefined,
-    socketP2: WebSocket | undefined
+    sockets: (ClientSocket | undefined)[]
   ): Promise<boolean> {
     if (!gameMatch.isRunning()) return true;
     if (gameMatch.checkWin() || gameMatch.checkLose()) {
-      const result = gameMatch.checkWin() ? 'win' : 'lose';
-      this.notifyEndGame(socketP1, socketP2, result);
+      const cleared = gameMatch.checkWin();
+      this.notifyEndGame(gameMatch, sockets);
       await gameMatch.stopGame();
+      await this.saveMatchResult(gameMatch);
       await this.matchRepository.updateMatch(gameMatch.getId(), { started: false });
-      if (result === 'win') {
+      if (cleared) {
+        const { mode, seed } = gameMatch.getSettings();
+        const endless = mode === 'endless';
+        const procedural = mode !== 'classic' && seed !== undefined;
+        const next = gameMatch.getLevel() + 1;
+        // After the last level of the map a classic match starts over from the first one
+        const wraps = !procedural && !LevelRegistry.hasLevel(gameMatch.getMap(), next);
         await this.matchRepository.updateMatch(gameMatch.getId(), {
-          level: gameMatch.getLevel() + 1,
+          level: wraps ? 1 : next,
+          ...(endless && { seed: SeededRandom.randomSeed() }),
         });
       }
-      await this.endSession(gameMatch, socketP1, socketP2);
+      await this.endSession(gameMatch, sockets);
       this.matches.delete(gameMatch.getId());
+      this.journals.delete(gameMatch.getId());
       await this.gameCache.removeMatch(gameMatch.getId());
+      await this.matchOwnership.release(gameMatch.getId());
       this.removeMatchAfterDelay(gameMatch.getId(), config.MATCH_TIME_OUT_SECONDS);
       return true;
     }
     return false;
   }
 
+  /**
+   * Builds the settings of a match, generating a seed for the procedural modes without one.
+   *
+   * @param {MatchDetails} matchDetails The details of the match.
+   * @return {MatchSettings} The mode, seed, difficulty, solo and versus flags of the match.
+   */
+  private getMatchSettings(matchDetails: MatchDetails): MatchSettings {
+    const mode = matchDetails.mode ?? 'classic';
+    const solo = matchDetails.solo ? { solo: true } : {};
+    const versus = matchDetails.versus ? { versus: true } : {};
+    if (mode === 'classic') return { mode, ...solo, ...versus };
+    return {
+      ...solo,
+      ...versus,
+      mode,
+      seed: matchDetails.seed ?? SeededRandom.randomSeed(),
+      difficulty: matchDetails.difficulty ?? 'normal',
+    };
+  }
+
   private removeMatchAfterDelay(matchId: string, timeSeconds: number): void {
     setTimeout(async () => {
       try {
@@ -390,11 +794,8 @@ class GameServiceImpl implements GameService {
         if (match.started) return;
         await this.removeMatch(match);
 
-        const socketP1 = this.connections.getConnection(match.host);
-        const socketP2 = match.guest ? this.connections.getConnection(match.guest) : undefined;
         this.notifyPlayers(
-          socketP1,
-          socketP2,
+          this.getSockets(match.players),
           validateGameMessageOutput({
             type: 'timeout',
             payload: { message: 'Match timed out, return to lobby...' },
@@ -407,36 +808,62 @@ class GameServiceImpl implements GameService {
     }, timeSeconds * 1000);
   }
 
-  private notifyEndGame(
-    socketP1: WebSocket | undefined,
-    socketP2: WebSocket | undefined,
-    result: string
-  ): void {
-    this.notifyPlayers(socketP1, socketP2, {
-      type: 'end',
-      payload: validateEndMatch({ result }),
-    });
+  /**
+   * Notifies the result of the match. The players of a versus match receive their own result
+   * together with the winner and the ranking of the match.
+   */
+  private notifyEndGame(gameMatch: Match, sockets: (ClientSocket | undefined)[]): void {
+    if (!gameMatch.isVersus()) {
+      this.notifyMatch(gameMatch, sockets, {
+        type: 'end',
+        payload: validateEndMatch({ result: gameMatch.checkWin() ? 'win' : 'lose' }),
+      });
+      return;
+    }
+    // Every player receives its own result, all of them under the same sequence number
+    const seq = gameMatch.nextSequence();
+    for (const player of gameMatch.getPlayersIds()) {
+      const message: GameMessageOutput = {
+        type: 'end',
+        payload: gameMatch.getVersusResult(player),
+        seq,
+      };
+      this.recordEvent(gameMatch.getId(), { source: 'output', userId: player, message });
+      this.notifyPlayers([this.connections.getConnection(player)], message);
+    }
   }
 
-  private async endSession(
-    gameMatch: Match,
-    socketP1: WebSocket | undefined,
-    socketP2: WebSocket | undefined
-  ): Promise<void> {
-    this.notifyPlayers(socketP1, socketP2, {
+  /**
+   * Saves the result of a finished match and adds it to the leaderboards.
+   * The leaderboards are only updated once the result is saved, as they are rebuilt from it.
+   */
+  private async saveMatchResult(gameMatch: Match): Promise<void> {
+    try {
+      const result = gameMatch.getMatchResult();
+      await this.matchResultRepository.saveResult(result);
+      await this.leaderboardRepository.recordResult(result);
+    } catch (error) {
+      logger.warn(`The result of the match ${gameMatch.getId()} could not be saved`);
+      logger.error(error);
+    }
+  }
+
+  private async endSession(gameMatch: Match, sockets: (ClientSocket | undefined)[]): Promise<void> {
+    this.notifyMatch(gameMatch, sockets, {
       type: 'end',
       payload: validateEndMatch({ result: 'end game' }),
     });
-    socketP1?.close();
-    socketP2?.close();
-    this.removeConnection(gameMatch.getHost());
-    this.removeConnection(gameMatch.getGuest());
+    for (const socket of sockets) socket?.close();
+    for (const player of gameMatch.getPlayersIds()) this.removeConnection(player);
+    for (const spectator of this.spectators.get(gameMatch.getId()) ?? []) spectator.close();
+    this.spectators.delete(gameMatch.getId());
   }
 
   private async removeMatch(gameMatch: MatchDetails): Promise<void> {
-    if (!gameMatch.guest) throw new MatchError(MatchError.PLAYER_NOT_FOUND);
-    await this.userRepository.updateUser(gameMatch.host, { matchId: null, role: 'HOST' });
-    await this.userRepository.updateUser(gameMatch.guest, { matchId: null, role: 'HOST' });
+    if (gameMatch.players.length === 0) throw new MatchError(MatchError.PLAYER_NOT_FOUND);
+    for (const player of gameMatch.players) {
+      await this.userRepository.updateUser(player, { matchId: null, role: 'HOST' });
+    }
     await this.matchRepository.removeMatch(gameMatch.id);
   }
 
@@ -444,32 +871,29 @@ class GameServiceImpl implements GameService {
     userId: string,
     matchId: string,
     message: Buffer
-  ): Promise<{
-    type: string;
-    payload: string;
-    gameMatch: Match;
-    player: Player;
-    socketP1: WebSocket;
-    socketP2: WebSocket | undefined;
-  }> {
-    const { type, payload } = validateGameMesssageInput(JSON.parse(message.toString()));
+  ): Promise<GameInput> {
+    const { type, payload, seq } = validateGameMesssageInput(
+      messageCodecs.decode(this.connections.getConnection(userId), message)
+    );
 
     const gameMatch = await this.getMatch(matchId);
     if (!gameMatch) throw new MatchError(MatchError.MATCH_NOT_FOUND); // Not found in the matches map
-    const socketP1 = this.connections.getConnection(userId);
-    const otherPlayeId =
-      gameMatch.getHost() === userId ? gameMatch.getGuest() : gameMatch.getHost();
-    const socketP2 = this.connections.getConnection(otherPlayeId);
-    if (!socketP1) throw new MatchError(MatchError.PLAYER_NOT_FOUND); // Not found in the socketP1 connections
-    this.validateConnections(socketP1); // Check the sockets are open
+    const socket = this.connections.getConnection(userId);
+    const sockets = this.getSockets(gameMatch.getPlayersIds());
+    if (!socket) throw new MatchError(MatchError.PLAYER_NOT_FOUND); // Not found in the socket connections
+    this.validateConnections(socket); // Check the sockets are open
     const player = gameMatch.getPlayer(userId);
     if (!player) throw new MatchError(MatchError.PLAYER_NOT_FOUND); // Not found in the match asocieated with the matchId
 
-    return { type, payload, gameMatch, player, socketP1, socketP2 };
+    return { type, payload, seq, gameMatch, player, socket, sockets };
+  }
+
+  private getSockets(players: string[]): (ClientSocket | undefined)[] {
+    return players.map((player) => this.connections.getConnection(player));
   }
 
-  private validateConnections(socketP1: WebSocket): void {
-    if (socketP1.readyState !== WebSocket.OPEN) {
+  private validateConnections(socket: ClientSocket): void {
+    if (socket.readyState !== WebSocket.OPEN) {
       throw new MatchError(MatchError.SOCKET_CLOSED);
     }
   }
@@ -508,47 +932,150 @@ class GameServiceImpl implements GameService {
     }
   }
 
-  public notifyPlayers(
-    socketP1: WebSocket | undefined,
-    socketP2: WebSocket | undefined,
+  /**
+   * Notifies the players and the spectators of a match and records the message in its replay.
+   * Every message carries the next sequence number of the match.
+   */
+  private notifyMatch(
+    gameMatch: Match,
+    sockets: (ClientSocket | undefined)[],
     dataDTO: GameMessageOutput
   ): void {
-    if (socketP1 && socketP1.readyState === WebSocket.OPEN)
-      socketP1.send(this.parseToString(dataDTO));
-    if (socketP2 && socketP2.readyState === WebSocket.OPEN)
-      socketP2.send(this.parseToString(dataDTO));
+    const matchId = gameMatch.getId();
+    const message = { ...dataDTO, seq: gameMatch.nextSequence() };
+    this.recordEvent(matchId, { source: 'output', message });
+    this.notifyPlayers([...sockets, ...(this.spectators.get(matchId) ?? [])], message);
+  }
+
+  /**
+   * Records an event in the replay of a match, a failure only loses the event.
+   * Events sent to a single player carry their ID, the rest were broadcast to the whole match.
+   */
+  private async recordEvent(matchId: string, event: Omit<ReplayEvent, 'timestamp'>): Promise<void> {
+    try {
+      await this.replayRepository.appendEvent(matchId, { ...event, timestamp: Date.now() });
+    } catch (error) {
+      logger.warn(`Error recording an event in the replay of match ${matchId}`);
+      logger.error(error);
+    }
+  }
+
+  /**
+   * Starts a new round in the replay of a match, which keeps the ID of its previous rounds.
+   * A failure only mixes the new round with the previous one.
+   */
+  private async startReplayRound(matchId: string): Promise<void> {
+    try {
+      await this.replayRepository.startRound(matchId);
+    } catch (error) {
+      logger.warn(`Error starting a new round in the replay of match ${matchId}`);
+      logger.error(error);
+    }
+  }
+
+  public notifyPlayers(sockets: (ClientSocket | undefined)[], dataDTO: GameMessageOutput): void {
+    messageCodecs.broadcast(sockets, dataDTO);
+  }
+
+  /**
+   * Retrieves the whole state of a match tagged with its last sequence number, the updates that
+   * follow the snapshot start at the next number.
+   */
+  private getSnapshot(gameMatch: Match): GameMessageOutput {
+    return {
+      type: 'update-all',
+      payload: gameMatch.getMatchUpdate(),
+      seq: gameMatch.getSequence(),
+    };
   }
 
-  private parseToString(data: GameMessageOutput): string {
-    return JSON.stringify(data);
+  private send(socket: ClientSocket, data: GameMessageOutput): void {
+    messageCodecs.send(socket, data);
   }
 
   private async isPaused(
-    socketP1: WebSocket | undefined,
-    socketP2: WebSocket | undefined,
+    sockets: (ClientSocket | undefined)[],
     gameMatch: Match,
     type: string
   ): Promise<boolean> {
-    const paused = (await gameMatch.isPaused()) && type !== 'resume';
-    if (paused)
-      this.notifyPlayers(
-        socketP1,
-        socketP2,
-        validateGameMessageOutput({ type: 'paused', payload: true })
+    // The match resumes by itself once the disconnected players are back
+    const paused =
+      (await gameMatch.isPaused()) && (type !== 'resume' || gameMatch.hasDisconnectedPlayers());
+    if (paused) {
+      const pauseState = await gameMatch.getPauseState();
+      this.notifyMatch(
+        gameMatch,
+        sockets,
+        validateGameMessageOutput({ type: 'paused', payload: pauseState })
       );
+    }
     return paused;
   }
 
-  private playerDead(player: Player, socketP1: WebSocket): boolean {
+  private playerDead(
+    player: Player,
+    socket: ClientSocket,
+    type: GameMessageInput['type'],
+    seq: number | undefined
+  ): boolean {
     const alive = player.isAlive();
-    if (!alive)
-      socketP1.send(
-        this.parseToString({
-          type: 'update-state',
-          payload: validatePlayerState({ id: player.getId(), state: 'dead' }),
-        })
-      );
+    if (!alive && !this.rejectInput(socket, player, type, seq, 'dead'))
+      this.send(socket, {
+        type: 'update-state',
+        payload: validatePlayerState({ id: player.getId(), state: 'dead' }),
+      });
     return !alive;
   }
+
+  /**
+   * Acknowledges an input of the player that carried a sequence number, with the state of the
+   * player the server ended up with, so the client can reconcile its prediction.
+   */
+  private acknowledgeInput(
+    socket: ClientSocket,
+    player: Player,
+    type: GameMessageInput['type'],
+    seq: number | undefined,
+    update?: PlayerMove | UpdateEnemy
+  ): void {
+    if (seq === undefined || !GameServiceImpl.ACKNOWLEDGED_INPUTS.includes(type)) return;
+    const move = update ? validatePlayerMove(update) : player.getCharacterUpdate(null);
+    this.send(socket, { type: 'ack', payload: { inputSeq: seq, move } });
+  }
+
+  /**
+   * Rejects an input of the player that carried a sequence number with the reason and the state
+   * of the player, the inputs without a number keep the previous messages.
+   *
+   * @return {boolean} True if the rejection was sent.
+   */
+  private rejectInput(
+    socket: ClientSocket,
+    player: Player,
+    type: GameMessageInput['type'],
+    seq: number | undefined,
+    reason: InputRejectReason
+  ): boolean {
+    if (seq === undefined || !GameServiceImpl.ACKNOWLEDGED_INPUTS.includes(type)) return false;
+    this.send(socket, {
+      type: 'reject',
+      payload: {
+        inputSeq: seq,
+        reason,
+        move: player.getCharacterUpdate(null),
+      },
+    });
+    return true;
+  }
+
+  private getRejectReason(error: unknown): InputRejectReason {
+    if (error instanceof CharacterError && error.message === CharacterError.BLOCKED_CELL)
+      return 'blocked';
+    if (error instanceof CharacterError && error.message === CharacterError.NULL_CELL)
+      return 'border';
+    if (error instanceof CharacterError && error.message === CharacterError.TOO_FAST)
+      return 'throttled';
+    return 'invalid';
+  }
 }
 export default GameServiceImpl;
@@ -1,14 +1,13 @@
-import type WebSocket from 'ws';
 import type { MatchDTO, MatchDetails, UserQueue } from '../../../schemas/zod.js';
+import type ClientSocket from '../../shared/ClientSocket.js';
 
 interface MatchMakingService {
   searchMatch: (match: MatchDetails) => Promise<void>;
   keepPlaying: (match: MatchDetails, userId: string) => Promise<void>;
-  joinMatch: (matchId: MatchDetails, guestId: string) => Promise<MatchDTO>;
+  joinMatch: (matchId: MatchDetails, guestId: string) => Promise<MatchDTO | null>;
   updatePlayer(matchId: string, userId: string, userData: Partial<UserQueue>): Promise<void>;
   notifyPlayerUpdate: (
-    host: WebSocket | undefined,
-    guest: WebSocket | undefined,
+    sockets: (ClientSocket | undefined)[],
     userData: Partial<UserQueue>
   ) => Promise<void>;
 }
@@ -1,4 +1,3 @@
-import type WebSocket from 'ws';
 import MatchError from '../../../errors/MatchError.js';
 import type MatchRepository from '../../../schemas/MatchRepository.js';
 import type UserRepository from '../../../schemas/UserRepository.js';
@@ -17,6 +16,7 @@ import type CustomUserQueueMapInterface from '../../../utils/CustomUserQueueMapI
 import type Match from '../../game/match/Match.js';
 import type GameService from '../../game/services/GameService.js';
 import type MatchMakingService from '../../lobbies/services/MatchMakingService.js';
+import type ClientSocket from '../../shared/ClientSocket.js';
 import type WebSocketService from './WebSocketService.js';
 /**
  * @class MatchMaking
@@ -47,11 +47,10 @@ class MatchMaking implements MatchMakingService {
     this.webSocketService = webSocketService;
   }
   public async notifyPlayerUpdate(
-    host: WebSocket | undefined,
-    guest: WebSocket | undefined,
+    sockets: (ClientSocket | undefined)[],
     userData: Partial<UserQueue>
   ): Promise<void> {
-    this.gameService.notifyPlayers(host, guest, { type: 'player-update', payload: userData });
+    this.gameService.notifyPlayers(sockets, { type: 'player-update', payload: userData });
   }
   public async updatePlayer(
     matchId: string,
@@ -65,12 +64,19 @@ class MatchMaking implements MatchMakingService {
 
   /**
    * This method is used to search for a match with the given match details.
+   * The users wait in a queue for each map, level, number of players and versus flag. The match
+   * starts when enough users are waiting, the first of them hosts it and the others join as guests.
    * @param matchDetails The match details to find matchmaking
    */
   public async searchMatch(matchDetails: MatchDetails): Promise<void> {
-    const key: CustomMapKey = { map: matchDetails.map, level: matchDetails.level };
+    const key: CustomMapKey = {
+      map: matchDetails.map,
+      level: matchDetails.level,
+      playersNumber: matchDetails.playersNumber,
+      versus: matchDetails.versus === true,
+    };
     const queue = this.queue.get(key);
-    if (queue === undefined) {
+    if (queue === undefined && matchDetails.playersNumber > 1) {
       const newQueue = new AsyncQueue<UserQueue>();
       await newQueue.enqueue({
         id: matchDetails.host,
@@ -83,30 +89,40 @@ class MatchMaking implements MatchMakingService {
       );
       return;
     }
-    const host = await queue.dequeue();
-    const guest = matchDetails.host;
+    const user = matchDetails.host;
+    const waiting = queue
+      ? await this.dequeueUsers(queue, user, matchDetails.playersNumber - 1)
+      : [];
 
-    if (host === undefined || host.id === guest) {
+    if (queue && waiting.length < matchDetails.playersNumber - 1) {
       logger.info(
-        `Match not found for ${guest} so it was enqueued for match: ${JSON.stringify(matchDetails)}`
+        `Match not found for ${user} so it was enqueued for match: ${JSON.stringify(matchDetails)}`
       );
-      await queue.enqueue({ id: guest, matchId: matchDetails.id, status: 'WAITING' });
+      for (const waitingUser of waiting) await queue.enqueue(waitingUser);
+      await queue.enqueue({ id: user, matchId: matchDetails.id, status: 'WAITING' });
       return;
     }
-    const { id: hostId, matchId } = validateUserQueue(host);
+    const [host, ...guests] = [
+      ...waiting.map((waitingUser) => validateUserQueue(waitingUser)),
+      { id: user, matchId: matchDetails.id },
+    ];
+    const matchId = host.matchId;
     if (!matchId) throw new MatchError(MatchError.MATCH_NOT_FOUND);
+    const guestsIds = guests.map(({ id }) => id);
     logger.info(
-      `Match found for guest:${guest} host: ${hostId} for map: ${matchDetails.map} level: ${matchDetails.level}`
+      `Match found for guests:${guestsIds.join(',')} host: ${host.id} for map: ${matchDetails.map} level: ${matchDetails.level}`
     );
-    const ghostMatch = matchDetails.id;
-    matchDetails.host = hostId;
-    matchDetails.guest = guest;
+    const ghostMatches = guests.map((guest) => guest.matchId).filter((id) => id && id !== matchId);
+    matchDetails.host = host.id;
+    matchDetails.players = [host.id, ...guestsIds];
     matchDetails.id = matchId;
     const match = await this.createMatch(matchDetails);
-    await this.updateUser(hostId, matchId);
-    await this.updateMatch(matchId, hostId, guest);
+    for (const guest of guestsIds) await this.updateUser(guest, matchId);
+    await this.updateMatch(matchId, matchDetails.players);
     await this.webSocketService.notifyMatchFound(match);
-    await this.matchRepository.removeMatch(ghostMatch);
+    for (const ghostMatch of ghostMatches) {
+      if (ghostMatch) await this.matchRepository.removeMatch(ghostMatch);
+    }
   }
 
   /**
@@ -117,30 +133,54 @@ class MatchMaking implements MatchMakingService {
    */
   public async keepPlaying(match: MatchDetails, userId: string): Promise<void> {
     if (match.started) throw new MatchError(MatchError.MATCH_ALREADY_STARTED);
-    const guest = match.guest;
-    const host = match.host;
-    if (guest === null || guest === undefined) throw new MatchError(MatchError.PLAYER_NOT_FOUND);
-    if (host !== userId && guest !== userId) throw new MatchError(MatchError.PLAYER_NOT_FOUND);
-    if (this.webSocketService.isConnected(guest) && this.webSocketService.isConnected(host)) {
-      // Ambos estan conectados
+    if (match.players.length < match.playersNumber)
+      throw new MatchError(MatchError.PLAYER_NOT_FOUND);
+    if (!match.players.includes(userId)) throw new MatchError(MatchError.PLAYER_NOT_FOUND);
+    if (match.players.every((player) => this.webSocketService.isConnected(player))) {
+      // Todos estan conectados
       logger.info(
-        `Match found for guest:${guest} host: ${host} for map: ${match.map} level: ${match.level}`
+        `Match found for players:${match.players.join(',')} for map: ${match.map} level: ${match.level}`
       );
       const matchGame = await this.createMatch(match);
       await this.webSocketService.notifyMatchFound(matchGame);
     }
   }
 
-  public async joinMatch(matchDetails: MatchDetails, guestId: string): Promise<MatchDTO> {
-    matchDetails.guest = guestId;
-    const match = await this.createMatch(matchDetails);
+  /**
+   * This method is used to join a guest to a published match.
+   * @param {MatchDetails} matchDetails The match details to join
+   * @param {string} guestId The ID of the guest joining the match
+   * @returns {Promise<MatchDTO | null>} The created match, or null while the match waits for more players
+   */
+  public async joinMatch(matchDetails: MatchDetails, guestId: string): Promise<MatchDTO | null> {
+    if (!matchDetails.players.includes(guestId)) matchDetails.players.push(guestId);
     await this.updateUser(guestId, matchDetails.id);
-    await this.updateMatch(matchDetails.id, matchDetails.host, guestId);
+    await this.updateMatch(matchDetails.id, matchDetails.players);
+    if (matchDetails.players.length < matchDetails.playersNumber) return null;
+    const match = await this.createMatch(matchDetails);
     return match.getMatchDTO();
   }
 
-  private async updateMatch(matchId: string, host: string, guest: string): Promise<void> {
-    await this.matchRepository.updateMatch(matchId, { guest, host });
+  /**
+   * Takes from the queue the given number of users, it stops at the old entry of the user who is
+   * searching because that user is enqueued again when there are not enough users.
+   */
+  private async dequeueUsers(
+    queue: AsyncQueueInterface<UserQueue>,
+    userId: string,
+    count: number
+  ): Promise<UserQueue[]> {
+    const users: UserQueue[] = [];
+    while (users.length < count) {
+      const waitingUser = await queue.dequeue();
+      if (waitingUser === undefined || waitingUser.id === userId) break;
+      users.push(waitingUser);
+    }
+    return users;
+  }
+
+  private async updateMatch(matchId: string, players: string[]): Promise<void> {
+    await this.matchRepository.updateMatch(matchId, { players });
     await this.matchRepository.extendSession(matchId, 10);
   }
 
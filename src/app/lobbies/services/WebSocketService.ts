@@ -1,10 +1,10 @@
-import type { WebSocket } from 'ws';
 import type { MatchDetails } from '../../../schemas/zod.js';
 import type Match from '../../game/match/Match.js';
+import type ClientSocket from '../../shared/ClientSocket.js';
 import type MatchMakingService from './MatchMakingService.js';
 
 export default interface WebSocketService {
-  registerConnection: (userId: string, socket: WebSocket) => void;
+  registerConnection: (userId: string, socket: ClientSocket) => void;
   removeConnection: (userId: string) => void;
   matchMaking: (match: MatchDetails) => Promise<void>;
   keepPlaying: (match: MatchDetails, userId: string) => Promise<void>;
@@ -12,9 +12,13 @@ export default interface WebSocketService {
   notifyMatchFound: (match: Match) => Promise<void>;
   setMatchMakingService(matchMakingService: MatchMakingService): void;
   validateMatchToJoin: (matchId: string, guestId: string) => Promise<void>;
-  joinGame: (matchDetails: MatchDetails, guestId: string, guestSocket: WebSocket) => Promise<void>;
+  joinGame: (
+    matchDetails: MatchDetails,
+    guestId: string,
+    guestSocket: ClientSocket
+  ) => Promise<void>;
   validateMatchToPublish: (matchId: string, hostId: string) => Promise<void>;
-  publishMatch: (matchId: string, hostSocket: WebSocket) => void;
+  publishMatch: (matchId: string, hostSocket: ClientSocket) => void;
   removePublishedMatch: (matchId: string) => void;
   handleJoinGameMessage: (
     matchDetails: MatchDetails,
@@ -9,7 +9,9 @@ import {
 } from '../../../schemas/zod.js';
 import { logger } from '../../../server.js';
 import type Match from '../../game/match/Match.js';
+import type ClientSocket from '../../shared/ClientSocket.js';
 import type SocketConnectionsService from '../../shared/SocketConnectionService.js';
+import { messageCodecs } from '../../shared/codecs/MessageCodecs.js';
 import type MatchMakingService from './MatchMakingService.js';
 import type WebsocketService from './WebSocketService.js';
 
@@ -23,7 +25,7 @@ import type WebsocketService from './WebSocketService.js';
 export default class WebsocketServiceImpl implements WebsocketService {
   private readonly matchRepository: MatchRepository;
   private readonly connections: SocketConnectionsService;
-  private readonly matchesHosted: Map<string, WebSocket>;
+  private readonly matchesHosted: Map<string, ClientSocket>;
   private matchMakingService?: MatchMakingService;
 
   /**
@@ -49,9 +51,9 @@ export default class WebsocketServiceImpl implements WebsocketService {
    * This method is used to register a new WebSocket connection for a user.
    *
    * @param {string} userId The ID of the user to register.
-   * @param {WebSocket} socket The WebSocket connection to register.
+   * @param {ClientSocket} socket The WebSocket connection to register.
    */
-  public registerConnection(userId: string, socket: WebSocket): void {
+  public registerConnection(userId: string, socket: ClientSocket): void {
     this.connections.registerConnection(userId, socket);
   }
 
@@ -111,20 +113,16 @@ export default class WebsocketServiceImpl implements WebsocketService {
    */
   public async notifyMatchFound(match: Match): Promise<void> {
     try {
-      const hostSocket = this.connections.getConnection(match.getHost());
-      const guestSocket = this.connections.getConnection(match.getGuest());
-      if (!(hostSocket && guestSocket))
+      const players = match.getPlayersIds();
+      const sockets = players.map((player) => this.connections.getConnection(player));
+      if (sockets.some((socket) => !socket))
         throw new WebSocketError(WebSocketError.PLAYER_NOT_CONNECTED);
+      // The match is started before the sockets close, so closing them does not release it
+      await this.matchRepository.updateMatch(match.getId(), { started: true });
       const message = { message: 'match-found', match: match.getMatchDTO() };
-      hostSocket.send(JSON.stringify(message));
-      guestSocket.send(JSON.stringify(message));
-      this.connections.getConnection(match.getGuest())?.close();
-      this.connections.getConnection(match.getHost())?.close();
-      this.removeConnection(match.getHost());
-      this.removeConnection(match.getGuest());
-      this.matchRepository.updateMatch(match.getId(), {
-        started: true,
-      });
+      for (const socket of sockets) if (socket) messageCodecs.send(socket, message);
+      for (const socket of sockets) socket?.close();
+      for (const player of players) this.removeConnection(player);
     } catch (error) {
       logger.warn('An error occurred on Web Socket Service While trying to notify match...');
       logger.error(error);
@@ -144,10 +142,8 @@ export default class WebsocketServiceImpl implements WebsocketService {
     if (match.host === guestId) {
       throw new WebSocketError(WebSocketError.PLAYER_ALREADY_IN_MATCH);
     }
-    if (
-      match.started &&
-      (match.guest !== guestId || match.guest === null || match.guest === undefined)
-    )
+    const full = match.players.length >= match.playersNumber;
+    if ((match.started || full) && !match.players.includes(guestId))
       throw new WebSocketError(WebSocketError.MATCH_ALREADY_STARTED);
     if (hostWebSocket === undefined || hostWebSocket.readyState !== WebSocket.OPEN) {
       throw new WebSocketError(WebSocketError.PLAYER_NOT_CONNECTED);
@@ -174,13 +170,14 @@ export default class WebsocketServiceImpl implements WebsocketService {
     if (match.host !== hostId) {
       throw new WebSocketError(WebSocketError.PLAYER_NOT_CONNECTED);
     }
-    if (match.guest || match.started) {
+    if (match.players.length > 1 || match.started) {
       throw new WebSocketError(WebSocketError.MATCH_ALREADY_STARTED);
     }
   }
 
   /**
    * This method is used to join a match published by a host.
+   * The match starts once the last guest joins, until then the players are told who joined.
    *
    * @param {MatchDetails} matchDetails The match details to join.
    * @param {string} guestId The ID of the guest player.
@@ -188,7 +185,7 @@ export default class WebsocketServiceImpl implements WebsocketService {
   public async joinGame(
     matchDetails: MatchDetails,
     guestId: string,
-    guestSocket: WebSocket
+    guestSocket: ClientSocket
   ): Promise<void> {
     const hostSocket = this.matchesHosted.get(matchDetails.id);
     if (
@@ -202,18 +199,24 @@ export default class WebsocketServiceImpl implements WebsocketService {
       throw new WebSocketError(WebSocketError.MATCHMAKING_SERVICE_NOT_INITIALIZED);
     }
     const matchDTO = await this.matchMakingService.joinMatch(matchDetails, guestId);
-    this.matchRepository.updateMatch(matchDetails.id, {
-      guest: guestId,
-      started: true,
-    });
-    hostSocket.send(JSON.stringify({ message: 'match-found', match: matchDTO }));
-    guestSocket.send(JSON.stringify({ message: 'match-found', match: matchDTO }));
+    const guestsSockets = matchDetails.players
+      .filter((player) => player !== matchDetails.host && player !== guestId)
+      .map((player) => this.connections.getConnection(player));
+    const message = matchDTO
+      ? { message: 'match-found', match: matchDTO }
+      : { message: 'player-joined', players: matchDetails.players };
+    if (matchDTO) await this.matchRepository.updateMatch(matchDetails.id, { started: true });
+    for (const socket of [hostSocket, ...guestsSockets, guestSocket]) {
+      if (socket) messageCodecs.send(socket, message);
+    }
     // It's not a good idea let socket open, but it was required not to close it
     //this.closeSessionWithDelay(hostSocket, guestSocket, 360);
   }
 
-  private async handleMessage(message: Buffer): Promise<Partial<UserQueue>> {
-    const { type, payload } = validateGameMesssageInput(JSON.parse(message.toString()));
+  private async handleMessage(userId: string, message: Buffer): Promise<Partial<UserQueue>> {
+    const { type, payload } = validateGameMesssageInput(
+      messageCodecs.decode(this.connections.getConnection(userId), message)
+    );
     if (!this.matchMakingService) {
       throw new WebSocketError(WebSocketError.MATCHMAKING_SERVICE_NOT_INITIALIZED);
     }
@@ -251,15 +254,14 @@ export default class WebsocketServiceImpl implements WebsocketService {
     if (!this.matchMakingService) {
       throw new WebSocketError(WebSocketError.MATCHMAKING_SERVICE_NOT_INITIALIZED);
     }
-    const changes = await this.handleMessage(message);
+    const changes = await this.handleMessage(hostId, message);
     changes.matchId = matchDetails.id;
     changes.id = hostId;
     await this.matchMakingService.updatePlayer(matchDetails.id, hostId, changes);
-    const guestSocket = matchDetails.guest
-      ? this.connections.getConnection(matchDetails.guest)
-      : undefined;
-    const hostSocket = undefined;
-    await this.matchMakingService.notifyPlayerUpdate(hostSocket, guestSocket, changes);
+    await this.matchMakingService.notifyPlayerUpdate(
+      this.getOtherPlayersSockets(matchDetails, hostId),
+      changes
+    );
   }
 
   public async handleJoinGameMessage(
@@ -270,16 +272,30 @@ export default class WebsocketServiceImpl implements WebsocketService {
     if (!this.matchMakingService) {
       throw new WebSocketError(WebSocketError.MATCHMAKING_SERVICE_NOT_INITIALIZED);
     }
-    const changes = await this.handleMessage(message);
+    const changes = await this.handleMessage(guestId, message);
     changes.matchId = matchDetails.id;
     changes.id = guestId;
     await this.matchMakingService.updatePlayer(matchDetails.id, guestId, changes);
-    const hostSocket = this.connections.getConnection(matchDetails.host);
-    const guestSocket = undefined;
-    await this.matchMakingService.notifyPlayerUpdate(hostSocket, guestSocket, changes);
+    await this.matchMakingService.notifyPlayerUpdate(
+      this.getOtherPlayersSockets(matchDetails, guestId),
+      changes
+    );
+  }
+
+  private getOtherPlayersSockets(
+    matchDetails: MatchDetails,
+    userId: string
+  ): (ClientSocket | undefined)[] {
+    return matchDetails.players
+      .filter((player) => player !== userId)
+      .map((player) => this.connections.getConnection(player));
   }
 
-  private closeSessionWithDelay(hostSocket: WebSocket, guestSocket: WebSocket, time: number): void {
+  private closeSessionWithDelay(
+    hostSocket: ClientSocket,
+    guestSocket: ClientSocket,
+    time: number
+  ): void {
     setTimeout(() => {
       hostSocket.close();
       guestSocket.close();
@@ -290,10 +306,10 @@ export default class WebsocketServiceImpl implements WebsocketService {
    * This method is used to publish a match to be published for hosting.
    *
    * @param {string} matchId The match details to publish.
-   * @param {WebSocket} socket The WebSocket connection to publish the match.
+   * @param {ClientSocket} socket The WebSocket connection to publish the match.
    * @returns {void}
    */
-  public publishMatch(matchId: string, socket: WebSocket): void {
+  public publishMatch(matchId: string, socket: ClientSocket): void {
     this.matchesHosted.set(matchId, socket);
   }
 
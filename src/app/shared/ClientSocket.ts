@@ -0,0 +1,16 @@
+/**
+ * Socket of a client as the controllers and the services use it.
+ * The WebSockets of the clients connected to this node implement it, and so do the sockets
+ * relayed from the clients of other nodes of the cluster, so only what both support is used.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default interface ClientSocket {
+  readonly readyState: number;
+  send(data: string | Buffer): void;
+  close(code?: number, reason?: string): void;
+  on(event: 'message', listener: (data: Buffer, binary: boolean) => void): this;
+  on(event: 'close', listener: (code: number, reason: Buffer) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+}
@@ -0,0 +1,73 @@
+import { config } from '../../server.js';
+
+type RateLimitResult = 'accepted' | 'dropped' | 'disconnect';
+
+/**
+ * @class MessageRateLimiter
+ * Token bucket that limits the messages a single socket can send.
+ * The bucket holds up to a burst of messages and refills at the sustained rate. The messages that
+ * find it empty are dropped, and once too many messages have been dropped the socket has to be
+ * disconnected. The count of dropped messages starts over when the bucket is full again, so a
+ * client that slows down is forgiven.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class MessageRateLimiter {
+  private readonly messagesPerSecond: number;
+  private readonly burst: number;
+  private readonly maxDropped: number;
+  private readonly now: () => number;
+  private tokens: number;
+  private dropped = 0;
+  private lastRefillMs: number;
+
+  /**
+   * Creates the rate limiter of a socket.
+   *
+   * @param {number} messagesPerSecond The sustained rate, WS_MESSAGES_PER_SECOND by default.
+   * @param {number} burst The messages that can be sent at once, WS_MESSAGES_BURST by default.
+   * @param {number} maxDropped The dropped messages tolerated, WS_MAX_DROPPED_MESSAGES by default.
+   * @param {() => number} now The clock in milliseconds, the wall clock by default.
+   */
+  constructor(
+    messagesPerSecond: number = config.WS_MESSAGES_PER_SECOND,
+    burst: number = config.WS_MESSAGES_BURST,
+    maxDropped: number = config.WS_MAX_DROPPED_MESSAGES,
+    now: () => number = Date.now
+  ) {
+    this.messagesPerSecond = messagesPerSecond;
+    this.burst = Math.max(burst, 1);
+    this.maxDropped = maxDropped;
+    this.now = now;
+    this.tokens = this.burst;
+    this.lastRefillMs = now();
+  }
+
+  /**
+   * Takes a message from the bucket.
+   * A limiter without a positive rate accepts every message.
+   *
+   * @return {RateLimitResult} Whether the message is accepted, dropped or the socket has to be disconnected.
+   */
+  public consume(): RateLimitResult {
+    if (!(this.messagesPerSecond > 0)) return 'accepted';
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens--;
+      return 'accepted';
+    }
+    this.dropped++;
+    return this.dropped > this.maxDropped ? 'disconnect' : 'dropped';
+  }
+
+  private refill(): void {
+    const nowMs = this.now();
+    const refilled = ((nowMs - this.lastRefillMs) * this.messagesPerSecond) / 1000;
+    this.tokens = Math.min(this.burst, this.tokens + refilled);
+    this.lastRefillMs = nowMs;
+    if (this.tokens === this.burst) this.dropped = 0;
+  }
+}
+
+export type { RateLimitResult };
@@ -0,0 +1,196 @@
+import type { IncomingMessage } from 'node:http';
+import WebSocketError from '../../errors/WebSocketError.js';
+import {
+  type GameMessageOutput,
+  type MessageEncoding,
+  messageEncodingsConst,
+  protocolSchemasConst,
+  validateHandshakeQuery,
+} from '../../schemas/zod.js';
+import ZodJsonSchema, { type JsonSchema } from '../../utils/ZodJsonSchema.js';
+
+type ChannelDefinition = {
+  path: string;
+  description: string;
+  receivesCommands: boolean;
+};
+
+const VERSION = 1;
+const SUPPORTED_VERSIONS = [1];
+const CHANNELS: ChannelDefinition[] = [
+  {
+    path: '/ws/game/{userId}/{matchId}',
+    description: 'Plays a match: the player sends commands and receives every update of it.',
+    receivesCommands: true,
+  },
+  {
+    path: '/ws/matchmaking/{matchId}',
+    description: 'Waits in the matchmaking queue until a match is found.',
+    receivesCommands: false,
+  },
+  {
+    path: '/ws/keep-playing/{userId}/{matchId}',
+    description: 'Waits for the next match after a match ends.',
+    receivesCommands: false,
+  },
+  {
+    path: '/ws/publish-match/{userId}/{matchId}',
+    description: 'Publishes a match and lets the host set its name and color.',
+    receivesCommands: true,
+  },
+  {
+    path: '/ws/join-game/{userId}/{matchId}',
+    description: 'Joins a published match and lets the guest set its name and color.',
+    receivesCommands: true,
+  },
+  {
+    path: '/ws/spectate/{matchId}',
+    description: 'Watches a live match, every command is rejected.',
+    receivesCommands: false,
+  },
+  {
+    path: '/ws/replay/{matchId}',
+    description: 'Plays the replay of a finished match.',
+    receivesCommands: false,
+  },
+];
+let jsonSchema: JsonSchema | null = null;
+let asyncApi: JsonSchema | null = null;
+
+/**
+ * Retrieves the version of the protocol requested by the handshake of a connection.
+ *
+ * @param {IncomingMessage} request The upgrade request of the connection.
+ * @return {number} The requested version, the current one if none was requested.
+ * @throws {WebSocketError} If the version is not supported.
+ */
+const negotiateVersion = (request: IncomingMessage): number => {
+  const query = new URL(request.url ?? '/', 'http://localhost').searchParams;
+  const { protocol } = validateHandshakeQuery({ protocol: query.get('protocol') ?? undefined });
+  const version = protocol ?? VERSION;
+  if (!SUPPORTED_VERSIONS.includes(version)) {
+    throw new WebSocketError(WebSocketError.UNSUPPORTED_PROTOCOL_VERSION);
+  }
+  return version;
+};
+
+/**
+ * Builds the first message of a connection.
+ *
+ * @param {number} version The version of the protocol of the connection.
+ * @param {MessageEncoding} encoding The encoding of the connection.
+ * @return {GameMessageOutput} The hello message.
+ */
+const getHello = (version: number, encoding: MessageEncoding): GameMessageOutput => {
+  return {
+    type: 'hello',
+    payload: {
+      protocolVersion: version,
+      supportedVersions: SUPPORTED_VERSIONS,
+      encoding,
+    },
+  };
+};
+
+/**
+ * Retrieves the JSON Schema of the messages of the protocol.
+ *
+ * @return {JsonSchema} The JSON Schema document, with a definition per message.
+ */
+const getJsonSchema = (): JsonSchema => {
+  if (!jsonSchema) {
+    jsonSchema = {
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      $id: `bad-ice-cream/protocol/v${VERSION}`,
+      title: 'Bad Ice Cream WebSocket messages',
+      protocolVersion: VERSION,
+      definitions: getDefinitions(),
+    };
+  }
+  return jsonSchema;
+};
+
+/**
+ * Retrieves the AsyncAPI document of the WebSocket endpoints.
+ *
+ * @return {JsonSchema} The AsyncAPI 2.6 document.
+ */
+const getAsyncApi = (): JsonSchema => {
+  if (!asyncApi) {
+    const definitions = getDefinitions();
+    asyncApi = {
+      asyncapi: '2.6.0',
+      info: {
+        title: 'Bad Ice Cream WebSocket API',
+        version: `${VERSION}.0.0`,
+        description: `Connect with ?protocol=${VERSION} and optionally ?encoding=${messageEncodingsConst.join('|')}, the first message is always a hello.`,
+      },
+      defaultContentType: 'application/json',
+      channels: Object.fromEntries(CHANNELS.map((channel) => [channel.path, getChannel(channel)])),
+      components: {
+        schemas: definitions,
+        messages: Object.fromEntries(
+          Object.keys(definitions)
+            .filter((name) => name !== 'HandshakeQuery' && name !== 'Hello')
+            .map((name) => [name, { name, payload: { $ref: `#/components/schemas/${name}` } }])
+        ),
+      },
+    };
+  }
+  return asyncApi;
+};
+
+const getDefinitions = (): Record<string, JsonSchema> => {
+  return Object.fromEntries(
+    Object.entries(protocolSchemasConst).map(([name, schema]) => [
+      name,
+      ZodJsonSchema.convert(schema),
+    ])
+  );
+};
+
+/**
+ * Builds a channel of the AsyncAPI document. In AsyncAPI 2 the messages the server receives
+ * are published by the clients, while the messages it sends are subscribed to.
+ */
+const getChannel = ({ path, description, receivesCommands }: ChannelDefinition) => {
+  const parameters = [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => [
+    name,
+    { schema: { type: 'string' } },
+  ]);
+  const subscribe = {
+    message: {
+      oneOf: ['GameMessageOutput', 'Info'].map((name) => ({
+        $ref: `#/components/messages/${name}`,
+      })),
+    },
+  };
+  const publish = { message: { $ref: '#/components/messages/GameMessageInput' } };
+  return {
+    description,
+    parameters: Object.fromEntries(parameters),
+    bindings: { ws: { query: { $ref: '#/components/schemas/HandshakeQuery' } } },
+    subscribe,
+    ...(receivesCommands ? { publish } : {}),
+  };
+};
+
+/**
+ * Version of the WebSocket protocol and the documents that describe it.
+ * Clients state the version they speak with the protocol query parameter when they connect, the
+ * connection is rejected if the server does not support it, and the first message of every
+ * connection is a hello with the version and the encoding in use. The JSON Schema and AsyncAPI
+ * documents are generated from the same zod schemas that validate the messages.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+const Protocol = {
+  VERSION,
+  SUPPORTED_VERSIONS,
+  negotiateVersion,
+  getHello,
+  getJsonSchema,
+  getAsyncApi,
+};
+export default Protocol;
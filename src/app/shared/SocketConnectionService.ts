@@ -1,8 +1,9 @@
-import type WebSocket from 'ws';
+import type ClientSocket from './ClientSocket.js';
+
 export default interface SocketConnectionsService {
-  registerConnection: (userId: string, socket: WebSocket) => Map<string, WebSocket>;
+  registerConnection: (userId: string, socket: ClientSocket) => Map<string, ClientSocket>;
   removeConnection: (userId: string) => boolean;
-  getConnection: (userId: string) => WebSocket | undefined;
+  getConnection: (userId: string) => ClientSocket | undefined;
   isConnected: (userId: string) => boolean;
   clearConnections: () => void;
 }
@@ -1,4 +1,5 @@
 import WebSocket from 'ws';
+import type ClientSocket from './ClientSocket.js';
 import type SocketConnectionsService from './SocketConnectionService.js';
 
 /**
@@ -10,13 +11,13 @@ import type SocketConnectionsService from './SocketConnectionService.js';
  * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
  */
 export default class SocketConnections implements SocketConnectionsService {
-  private readonly connections: Map<string, WebSocket>;
+  private readonly connections: Map<string, ClientSocket>;
 
-  constructor(map: Map<string, WebSocket> = new Map()) {
+  constructor(map: Map<string, ClientSocket> = new Map()) {
     this.connections = map;
   }
 
-  public registerConnection(userId: string, socket: WebSocket): Map<string, WebSocket> {
+  public registerConnection(userId: string, socket: ClientSocket): Map<string, ClientSocket> {
     const oldSocket = this.connections.get(userId);
     if (oldSocket && oldSocket.readyState === WebSocket.OPEN) oldSocket.close();
     return this.connections.set(userId, socket);
@@ -26,7 +27,7 @@ export default class SocketConnections implements SocketConnectionsService {
     return this.connections.delete(userId);
   }
 
-  public getConnection(userId: string): WebSocket | undefined {
+  public getConnection(userId: string): ClientSocket | undefined {
     return this.connections.get(userId);
   }
 
@@ -0,0 +1,90 @@
+import type { FastifyRedis } from '@fastify/redis';
+import LevelError from '../../../errors/LevelError.js';
+import type LevelRepository from '../../../schemas/LevelRepository.js';
+import { type CustomMapKey, validateCustomMapKey } from '../../../schemas/zod.js';
+import { logger } from '../../../server.js';
+import LevelGrid from '../../game/match/boards/LevelGrid.js';
+import LevelRegistry from '../../game/match/boards/LevelRegistry.js';
+
+/**
+ * @class ClusterLevels
+ * Keeps the custom levels registered by the nodes of the cluster in sync.
+ * A node that creates, updates or deletes a custom level announces it on the channel shared by
+ * every node, and each of them loads the level again from the repository, so all of them build
+ * the same board for it.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class ClusterLevels {
+  private static readonly CHANNEL = 'cluster:levels';
+  private readonly redis: FastifyRedis;
+  private readonly levelRepository: LevelRepository;
+  private subscriber: ReturnType<FastifyRedis['duplicate']> | null = null;
+
+  constructor(redis: FastifyRedis, levelRepository: LevelRepository) {
+    this.redis = redis;
+    this.levelRepository = levelRepository;
+  }
+
+  /**
+   * Subscribes to the changes of the custom levels made by any node.
+   *
+   * @return {Promise<void>} A promise that resolves when the node receives the changes.
+   */
+  public async start(): Promise<void> {
+    if (this.subscriber) return;
+    this.subscriber = this.redis.duplicate();
+    this.subscriber.on('message', (_channel: string, message: string) => {
+      this.reload(validateCustomMapKey(JSON.parse(message))).catch((error) => {
+        logger.warn('An error occurred while reloading a custom level');
+        logger.error(error);
+      });
+    });
+    await this.subscriber.subscribe(ClusterLevels.CHANNEL);
+  }
+
+  /**
+   * Unsubscribes from the changes of the custom levels.
+   *
+   * @return {Promise<void>} A promise that resolves when the node no longer receives the changes.
+   */
+  public async stop(): Promise<void> {
+    await this.subscriber?.quit();
+    this.subscriber = null;
+  }
+
+  /**
+   * Tells every node of the cluster that a custom level changed, a failure only leaves the other
+   * nodes with the previous level until they restart.
+   *
+   * @param {CustomMapKey} key The map and the number of the level.
+   * @return {Promise<void>} A promise that resolves when the change is announced.
+   */
+  public async announce(key: CustomMapKey): Promise<void> {
+    try {
+      await this.redis.publish(ClusterLevels.CHANNEL, JSON.stringify(key));
+    } catch (error) {
+      logger.warn(`Error announcing the change of the level ${key.level} of ${key.map}`);
+      logger.error(error);
+    }
+  }
+
+  /**
+   * Loads a custom level again from the repository, unregistering it if it was deleted.
+   *
+   * @param {CustomMapKey} key The map and the number of the level.
+   * @return {Promise<void>} A promise that resolves when the level is up to date.
+   */
+  public async reload({ map, level }: CustomMapKey): Promise<void> {
+    try {
+      const customLevel = await this.levelRepository.getLevel(map, level);
+      LevelRegistry.register(LevelGrid.toDefinition(customLevel));
+    } catch (error) {
+      if (!(error instanceof LevelError) || error.message !== LevelError.LEVEL_NOT_FOUND) {
+        throw error;
+      }
+      LevelRegistry.unregister(map, level);
+    }
+  }
+}
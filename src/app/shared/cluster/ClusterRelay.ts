@@ -0,0 +1,224 @@
+import { randomUUID } from 'node:crypto';
+import type { FastifyRedis } from '@fastify/redis';
+import type { FastifyRequest } from 'fastify';
+import WebSocketError from '../../../errors/WebSocketError.js';
+import {
+  type RelayMessage,
+  type RelayOpen,
+  validateRelayMessage,
+  validateString,
+} from '../../../schemas/zod.js';
+import { logger } from '../../../server.js';
+import type ClientSocket from '../ClientSocket.js';
+import { messageCodecs } from '../codecs/MessageCodecs.js';
+import type MatchOwnership from './MatchOwnership.js';
+import RelayedSocket from './RelayedSocket.js';
+
+type RouteRequest = Pick<FastifyRequest, 'params'>;
+type RouteHandler = (socket: ClientSocket, request: RouteRequest) => Promise<void>;
+
+/**
+ * @class ClusterRelay
+ * Routes the sockets of a match to the node of the cluster that runs it.
+ * A socket connected to the owner of its match, or to a match without owner, is handled by this
+ * node. Otherwise this node only proxies it: the owner is told to open a relayed socket, and the
+ * frames in both directions travel through the Redis channel of each node, already encoded, so
+ * the codec negotiated by the client is kept. When nobody listens on the channel of the owner the
+ * node is gone, its match is evicted and handled by this node, which restores it from the cache.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class ClusterRelay {
+  private readonly redis: FastifyRedis;
+  private readonly matchOwnership: MatchOwnership;
+  private readonly routes = new Map<string, RouteHandler>();
+  // Sockets of the clients of this node whose match runs on another node
+  private readonly proxied = new Map<string, ClientSocket>();
+  // Sockets of the clients of other nodes whose match runs on this node
+  private readonly relayed = new Map<string, RelayedSocket>();
+  private subscriber: ReturnType<FastifyRedis['duplicate']> | null = null;
+
+  constructor(redis: FastifyRedis, matchOwnership: MatchOwnership) {
+    this.redis = redis;
+    this.matchOwnership = matchOwnership;
+  }
+
+  /**
+   * Registers the handler of a route, used for its sockets whether they are connected to this
+   * node or relayed from another one.
+   *
+   * @param {string} route The name of the route.
+   * @param {RouteHandler} handler The handler of the sockets of the route.
+   */
+  public registerRoute(route: string, handler: RouteHandler): void {
+    this.routes.set(route, handler);
+  }
+
+  /**
+   * Subscribes to the channel of this node.
+   *
+   * @return {Promise<void>} A promise that resolves when the node receives relayed messages.
+   */
+  public async start(): Promise<void> {
+    if (this.subscriber) return;
+    this.subscriber = this.redis.duplicate();
+    this.subscriber.on('message', (_channel: string, message: string) => {
+      this.handleRelayMessage(message).catch((error) => {
+        logger.warn('An error occurred while handling a relayed message');
+        logger.error(error);
+      });
+    });
+    await this.subscriber.subscribe(this.getChannel(this.matchOwnership.getNodeId()));
+  }
+
+  /**
+   * Closes every relayed and proxied socket and unsubscribes from the channel of this node.
+   *
+   * @return {Promise<void>} A promise that resolves when the node no longer relays messages.
+   */
+  public async stop(): Promise<void> {
+    for (const socket of this.relayed.values()) socket.closed(1001, 'The node is shutting down');
+    for (const socket of this.proxied.values()) socket.close(1001, 'The node is shutting down');
+    this.relayed.clear();
+    this.proxied.clear();
+    await this.subscriber?.quit();
+    this.subscriber = null;
+  }
+
+  /**
+   * Handles a socket of a route with a match ID, on this node or on the node that runs the match.
+   *
+   * @param {string} route The name of the route.
+   * @param {ClientSocket} socket The WebSocket connection of the client.
+   * @param {RouteRequest} request The HTTP request with the params of the route.
+   * @return {Promise<void>} A promise that resolves when the socket is handled or proxied.
+   */
+  public async route(route: string, socket: ClientSocket, request: RouteRequest): Promise<void> {
+    const handler = this.getHandler(route);
+    const params = request.params as Record<string, string>;
+    const matchId = validateString(params.matchId);
+    const owner = await this.matchOwnership.getOwner(matchId);
+    if (!owner || owner === this.matchOwnership.getNodeId()) {
+      await handler(socket, request);
+      return;
+    }
+    if (!(await this.proxy(route, socket, params, owner))) {
+      await this.matchOwnership.evict(matchId, owner);
+      await handler(socket, request);
+    }
+  }
+
+  /**
+   * Proxies a socket to the node that runs its match.
+   * The frames of the client are held until the owner answers, since its hello may arrive first.
+   *
+   * @return {Promise<boolean>} A promise that resolves to false if the owner is not running.
+   */
+  private async proxy(
+    route: string,
+    socket: ClientSocket,
+    params: Record<string, string>,
+    owner: string
+  ): Promise<boolean> {
+    const connectionId = randomUUID();
+    let pending: RelayMessage[] | null = [];
+    const forward = (message: RelayMessage) => {
+      if (pending) pending.push(message);
+      else this.publish(owner, message);
+    };
+    this.proxied.set(connectionId, socket);
+    socket.on('message', (data: Buffer, binary: boolean) => {
+      if (!this.proxied.has(connectionId)) return;
+      forward({
+        kind: 'frame',
+        connectionId,
+        data: data.toString(binary ? 'base64' : 'utf-8'),
+        binary,
+      });
+    });
+    socket.on('close', (code: number, reason: Buffer) => {
+      // The socket was closed by the owner if it is no longer proxied
+      if (!this.proxied.delete(connectionId)) return;
+      forward({ kind: 'close', connectionId, code, reason: reason.toString() });
+    });
+    const receivers = await this.publish(owner, {
+      kind: 'open',
+      connectionId,
+      nodeId: this.matchOwnership.getNodeId(),
+      route,
+      params,
+      encoding: messageCodecs.get(socket).encoding,
+    });
+    const held = pending;
+    pending = null;
+    if (receivers === 0) {
+      this.proxied.delete(connectionId);
+      return false;
+    }
+    for (const message of held) this.publish(owner, message);
+    return true;
+  }
+
+  private async handleRelayMessage(raw: string): Promise<void> {
+    const message = validateRelayMessage(JSON.parse(raw));
+    switch (message.kind) {
+      case 'open':
+        await this.openRelayedSocket(message);
+        break;
+      case 'frame':
+        this.relayed.get(message.connectionId)?.receive(message.data, message.binary);
+        this.proxied
+          .get(message.connectionId)
+          ?.send(message.binary ? Buffer.from(message.data, 'base64') : message.data);
+        break;
+      case 'close': {
+        this.relayed.get(message.connectionId)?.closed(message.code, message.reason);
+        const socket = this.proxied.get(message.connectionId);
+        this.proxied.delete(message.connectionId);
+        socket?.close(message.code, message.reason);
+        break;
+      }
+    }
+  }
+
+  private async openRelayedSocket({
+    connectionId,
+    nodeId,
+    route,
+    params,
+    encoding,
+  }: RelayOpen): Promise<void> {
+    const socket = new RelayedSocket(connectionId, (message) => this.publish(nodeId, message));
+    this.relayed.set(connectionId, socket);
+    socket.on('close', () => this.relayed.delete(connectionId));
+    messageCodecs.use(socket, encoding);
+    try {
+      await this.getHandler(route)(socket, { params });
+    } catch (error) {
+      logger.warn(`An error occurred while opening a socket relayed from the node ${nodeId}`);
+      logger.error(error);
+      socket.close();
+    } finally {
+      socket.ready();
+    }
+  }
+
+  private getHandler(route: string): RouteHandler {
+    const handler = this.routes.get(route);
+    if (!handler) throw new WebSocketError(WebSocketError.BAD_WEB_SOCKET_REQUEST);
+    return handler;
+  }
+
+  private publish(nodeId: string, message: RelayMessage): Promise<number> {
+    return this.redis.publish(this.getChannel(nodeId), JSON.stringify(message)).catch((error) => {
+      logger.warn(`Error relaying a message to the node ${nodeId}`);
+      logger.error(error);
+      return 0;
+    });
+  }
+
+  private getChannel(nodeId: string): string {
+    return `cluster:node:${nodeId}`;
+  }
+}
@@ -0,0 +1,133 @@
+import { hostname } from 'node:os';
+import type MatchOwnerRepository from '../../../schemas/MatchOwnerRepository.js';
+import { config, logger } from '../../../server.js';
+
+/**
+ * @class MatchOwnership
+ * Tracks which node of the cluster runs each match.
+ * A node owns the matches it creates or restores, and renews their leases while it runs them, so
+ * the matches of a node that stops are free again once their leases expire. Only the owner keeps
+ * a match in memory, the other nodes relay its sockets to the owner.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class MatchOwnership {
+  private readonly matchOwnerRepository: MatchOwnerRepository;
+  private readonly nodeId: string;
+  private readonly owned = new Set<string>();
+  private readonly lostListeners: ((matchId: string) => Promise<void>)[] = [];
+  private renewTimer: NodeJS.Timeout | null = null;
+
+  constructor(matchOwnerRepository: MatchOwnerRepository) {
+    this.matchOwnerRepository = matchOwnerRepository;
+    this.nodeId = config.NODE_ID || `${hostname()}-${process.pid}`;
+  }
+
+  /**
+   * Retrieves the ID of this node.
+   *
+   * @return {string} The ID of the node.
+   */
+  public getNodeId(): string {
+    return this.nodeId;
+  }
+
+  /**
+   * Claims a match for this node, unless another node owns it.
+   *
+   * @param {string} matchId The ID of the match.
+   * @return {Promise<boolean>} A promise that resolves to true if this node owns the match.
+   */
+  public async acquire(matchId: string): Promise<boolean> {
+    const owner = await this.matchOwnerRepository.claim(matchId, this.nodeId, this.getTtl());
+    if (owner !== this.nodeId) return false;
+    this.owned.add(matchId);
+    return true;
+  }
+
+  /**
+   * Releases a match owned by this node.
+   *
+   * @param {string} matchId The ID of the match.
+   * @return {Promise<void>} A promise that resolves when the match is released.
+   */
+  public async release(matchId: string): Promise<void> {
+    this.owned.delete(matchId);
+    await this.matchOwnerRepository.release(matchId, this.nodeId);
+  }
+
+  /**
+   * Frees a match owned by a node that is no longer running, so another node can restore it.
+   *
+   * @param {string} matchId The ID of the match.
+   * @param {string} nodeId The ID of the node that stopped.
+   * @return {Promise<void>} A promise that resolves when the match is free.
+   */
+  public async evict(matchId: string, nodeId: string): Promise<void> {
+    logger.warn(`The node ${nodeId} that runs the match ${matchId} is not running`);
+    await this.matchOwnerRepository.release(matchId, nodeId);
+  }
+
+  /**
+   * Retrieves the node that owns a match.
+   *
+   * @param {string} matchId The ID of the match.
+   * @return {Promise<string | null>} A promise that resolves to the owner, or null if there is none.
+   */
+  public async getOwner(matchId: string): Promise<string | null> {
+    return await this.matchOwnerRepository.getOwner(matchId);
+  }
+
+  /**
+   * Registers a listener for the matches of this node whose lease was taken by another node.
+   *
+   * @param {(matchId: string) => Promise<void>} listener Stops running the lost match.
+   */
+  public onLost(listener: (matchId: string) => Promise<void>): void {
+    this.lostListeners.push(listener);
+  }
+
+  /**
+   * Starts renewing the leases of the matches of this node, three times per lease.
+   */
+  public start(): void {
+    if (this.renewTimer) return;
+    this.renewTimer = setInterval(() => this.renew(), (this.getTtl() * 1000) / 3);
+    this.renewTimer.unref();
+  }
+
+  /**
+   * Stops renewing the leases, they expire unless the matches are released.
+   */
+  public stop(): void {
+    if (!this.renewTimer) return;
+    clearInterval(this.renewTimer);
+    this.renewTimer = null;
+  }
+
+  /**
+   * Renews the lease of every match of this node. The ones taken by other nodes are forgotten and
+   * their listeners stop running them, so two nodes never run the same match.
+   *
+   * @return {Promise<void>} A promise that resolves when every lease is renewed.
+   */
+  public async renew(): Promise<void> {
+    for (const matchId of [...this.owned]) {
+      try {
+        const renewed = await this.matchOwnerRepository.renew(matchId, this.nodeId, this.getTtl());
+        if (renewed) continue;
+        this.owned.delete(matchId);
+        logger.warn(`The match ${matchId} is no longer owned by the node ${this.nodeId}`);
+        await Promise.all(this.lostListeners.map((listener) => listener(matchId)));
+      } catch (error) {
+        logger.warn(`Error renewing the lease of the match ${matchId}`);
+        logger.error(error);
+      }
+    }
+  }
+
+  private getTtl(): number {
+    return config.MATCH_OWNER_TTL_SECONDS;
+  }
+}
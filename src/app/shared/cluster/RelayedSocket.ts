@@ -0,0 +1,110 @@
+import { EventEmitter } from 'node:events';
+import WebSocket from 'ws';
+import type { RelayMessage } from '../../../schemas/zod.js';
+import type ClientSocket from '../ClientSocket.js';
+
+/**
+ * @class RelayedSocket
+ * Socket of a client connected to another node of the cluster.
+ * It stands in for the WebSocket of the client on the node that runs its match: the frames sent
+ * to it are relayed to the node of the client, and the frames of the client are emitted as its
+ * messages, so the controllers handle it like any other socket. The frames and the close of the
+ * client are held until the controller is ready, as it may still be setting up its listeners.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class RelayedSocket extends EventEmitter implements ClientSocket {
+  public readyState: number = WebSocket.OPEN;
+  private readonly connectionId: string;
+  private readonly relay: (message: RelayMessage) => void;
+  private held: (() => void)[] | null = [];
+
+  /**
+   * Creates the socket of a relayed client.
+   *
+   * @param {string} connectionId The ID of the connection of the client.
+   * @param {(message: RelayMessage) => void} relay Sends a message to the node of the client.
+   */
+  constructor(connectionId: string, relay: (message: RelayMessage) => void) {
+    super();
+    this.connectionId = connectionId;
+    this.relay = relay;
+  }
+
+  public getConnectionId(): string {
+    return this.connectionId;
+  }
+
+  /**
+   * Sends an encoded frame to the client, text frames as they are and binary ones in base64.
+   *
+   * @param {string | Buffer} data The encoded frame.
+   */
+  public send(data: string | Buffer): void {
+    if (this.readyState !== WebSocket.OPEN) return;
+    const binary = typeof data !== 'string';
+    this.relay({
+      kind: 'frame',
+      connectionId: this.connectionId,
+      data: binary ? data.toString('base64') : data,
+      binary,
+    });
+  }
+
+  /**
+   * Closes the connection of the client.
+   *
+   * @param {number} code The close code.
+   * @param {string} reason The close reason.
+   */
+  public close(code?: number, reason?: string): void {
+    if (this.readyState === WebSocket.CLOSED) return;
+    this.relay({ kind: 'close', connectionId: this.connectionId, code, reason });
+    this.markClosed(code ?? 1000, reason ?? '');
+  }
+
+  /**
+   * Emits a frame received from the client, or holds it until the controller is ready.
+   *
+   * @param {string} data The frame, in base64 if it is binary.
+   * @param {boolean} binary Whether the frame is binary.
+   */
+  public receive(data: string, binary: boolean): void {
+    if (this.held) {
+      this.held.push(() => this.receive(data, binary));
+      return;
+    }
+    if (this.readyState !== WebSocket.OPEN) return;
+    this.emit('message', Buffer.from(data, binary ? 'base64' : 'utf-8'), binary);
+  }
+
+  /**
+   * Marks the connection as closed by the client, or holds the close until the controller is ready.
+   *
+   * @param {number} code The close code.
+   * @param {string} reason The close reason.
+   */
+  public closed(code = 1005, reason = ''): void {
+    if (this.held) {
+      this.held.push(() => this.closed(code, reason));
+      return;
+    }
+    this.markClosed(code, reason);
+  }
+
+  /**
+   * Emits the frames and the close of the client held while the controller set up its listeners.
+   */
+  public ready(): void {
+    const held = this.held ?? [];
+    this.held = null;
+    for (const replay of held) replay();
+  }
+
+  private markClosed(code: number, reason: string): void {
+    if (this.readyState === WebSocket.CLOSED) return;
+    this.readyState = WebSocket.CLOSED;
+    this.emit('close', code, Buffer.from(reason));
+  }
+}
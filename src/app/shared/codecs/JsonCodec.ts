@@ -0,0 +1,21 @@
+import type MessageCodec from './MessageCodec.js';
+
+/**
+ * @class JsonCodec
+ * Encodes the WebSocket messages as JSON text frames, the encoding used when the client does not
+ * ask for another one.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class JsonCodec implements MessageCodec {
+  public readonly encoding = 'json';
+
+  public encode(data: unknown): string {
+    return JSON.stringify(data);
+  }
+
+  public decode(message: Buffer): unknown {
+    return JSON.parse(message.toString());
+  }
+}
@@ -0,0 +1,6 @@
+import type { MessageEncoding } from '../../../schemas/zod.js';
+export default interface MessageCodec {
+  encoding: MessageEncoding;
+  encode: (data: unknown) => string | Buffer;
+  decode: (message: Buffer) => unknown;
+}
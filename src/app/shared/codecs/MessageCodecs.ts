@@ -0,0 +1,133 @@
+import type { IncomingMessage } from 'node:http';
+import WebSocket from 'ws';
+import {
+  type MessageEncoding,
+  messageEncodingsConst,
+  validateHandshakeQuery,
+} from '../../../schemas/zod.js';
+import type ClientSocket from '../ClientSocket.js';
+import JsonCodec from './JsonCodec.js';
+import type MessageCodec from './MessageCodec.js';
+import MessagePackCodec from './MessagePackCodec.js';
+
+/**
+ * @class MessageCodecs
+ * Single codec layer of the WebSocket connections.
+ * Every connection negotiates its encoding when it is opened, with the encoding query parameter
+ * or with the encoding as one of its subprotocols, and every message sent to or received from
+ * the connection goes through the codec of that encoding. Connections that do not negotiate an
+ * encoding use JSON.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class MessageCodecs {
+  private readonly codecs: Record<MessageEncoding, MessageCodec> = {
+    json: new JsonCodec(),
+    msgpack: new MessagePackCodec(),
+  };
+  private readonly sockets = new WeakMap<ClientSocket, MessageCodec>();
+
+  /**
+   * Checks whether a subprotocol of the handshake names an encoding.
+   *
+   * @param {string} protocol The subprotocol.
+   * @return {boolean} True if the subprotocol is an encoding.
+   */
+  public isEncoding(protocol: string): protocol is MessageEncoding {
+    return (messageEncodingsConst as readonly string[]).includes(protocol);
+  }
+
+  /**
+   * Retrieves the encoding requested by the handshake of a connection.
+   * The query parameter takes precedence over the subprotocols.
+   *
+   * @param {IncomingMessage} request The upgrade request of the connection.
+   * @return {MessageEncoding} The requested encoding, JSON if none was requested.
+   * @throws {ZodError} If the query parameter is not a known encoding.
+   */
+  public negotiate(request: IncomingMessage): MessageEncoding {
+    const query = new URL(request.url ?? '/', 'http://localhost').searchParams;
+    const { encoding } = validateHandshakeQuery({
+      encoding: query.get('encoding') ?? undefined,
+    });
+    if (encoding) return encoding;
+    const protocols = request.headers['sec-websocket-protocol']?.toString().split(',') ?? [];
+    return protocols.map((protocol) => protocol.trim()).find((p) => this.isEncoding(p)) ?? 'json';
+  }
+
+  /**
+   * Binds a connection to the codec of the encoding requested by its handshake.
+   *
+   * @param {ClientSocket} socket The opened connection.
+   * @param {IncomingMessage} request The upgrade request of the connection.
+   * @return {MessageCodec} The codec of the connection.
+   */
+  public bind(socket: ClientSocket, request: IncomingMessage): MessageCodec {
+    return this.use(socket, this.negotiate(request));
+  }
+
+  /**
+   * Binds a connection to the codec of an encoding that was already negotiated, like the one of a
+   * connection relayed from another node.
+   *
+   * @param {ClientSocket} socket The connection.
+   * @param {MessageEncoding} encoding The encoding of the connection.
+   * @return {MessageCodec} The codec of the connection.
+   */
+  public use(socket: ClientSocket, encoding: MessageEncoding): MessageCodec {
+    const codec = this.codecs[encoding];
+    this.sockets.set(socket, codec);
+    return codec;
+  }
+
+  /**
+   * Retrieves the codec of a connection.
+   *
+   * @param {ClientSocket | undefined} socket The connection.
+   * @return {MessageCodec} The codec bound to the connection, JSON if there is none.
+   */
+  public get(socket: ClientSocket | undefined): MessageCodec {
+    return (socket && this.sockets.get(socket)) || this.codecs.json;
+  }
+
+  /**
+   * Encodes a message with the codec of a connection and sends it.
+   *
+   * @param {ClientSocket} socket The connection.
+   * @param {unknown} data The message to send.
+   */
+  public send(socket: ClientSocket, data: unknown): void {
+    socket.send(this.get(socket).encode(data));
+  }
+
+  /**
+   * Sends a message to every open connection, encoding it once per codec.
+   *
+   * @param {(ClientSocket | undefined)[]} sockets The connections.
+   * @param {unknown} data The message to send.
+   */
+  public broadcast(sockets: (ClientSocket | undefined)[], data: unknown): void {
+    const encoded = new Map<MessageCodec, string | Buffer>();
+    for (const socket of sockets) {
+      if (!socket || socket.readyState !== WebSocket.OPEN) continue;
+      const codec = this.get(socket);
+      if (!encoded.has(codec)) encoded.set(codec, codec.encode(data));
+      socket.send(encoded.get(codec) as string | Buffer);
+    }
+  }
+
+  /**
+   * Decodes a message received from a connection with its codec, the result still has to be
+   * validated.
+   *
+   * @param {ClientSocket | undefined} socket The connection.
+   * @param {Buffer} message The received message.
+   * @return {unknown} The decoded message.
+   */
+  public decode(socket: ClientSocket | undefined, message: Buffer): unknown {
+    return this.get(socket).decode(message);
+  }
+}
+
+export const messageCodecs = new MessageCodecs();
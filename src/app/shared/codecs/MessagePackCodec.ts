@@ -0,0 +1,22 @@
+import MessagePack from '../../../utils/MessagePack.js';
+import type MessageCodec from './MessageCodec.js';
+
+/**
+ * @class MessagePackCodec
+ * Encodes the WebSocket messages as MessagePack binary frames, which are smaller and faster to
+ * parse than JSON for the boards and the coordinates of the updates.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class MessagePackCodec implements MessageCodec {
+  public readonly encoding = 'msgpack';
+
+  public encode(data: unknown): Buffer {
+    return MessagePack.encode(data);
+  }
+
+  public decode(message: Buffer): unknown {
+    return MessagePack.decode(message);
+  }
+}
@@ -0,0 +1,30 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type LeaderboardRepository from '../../schemas/LeaderboardRepository.js';
+import { validateLeaderboardQuery } from '../../schemas/zod.js';
+/**
+ * @class LeaderboardController
+ * This class handles the leaderboards of the levels.
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class LeaderboardController {
+  private readonly leaderboardRepository: LeaderboardRepository;
+  constructor(leaderboardRepository: LeaderboardRepository) {
+    this.leaderboardRepository = leaderboardRepository;
+  }
+
+  /**
+   * Handles the request to retrieve the leaderboards of a level, filtered by map, time window
+   * (daily, weekly or all-time) and scope (individual or team).
+   *
+   * @param {FastifyRequest} req The request from the client.
+   * @param {FastifyReply} res The response to be sent to the client.
+   * @return {Promise<void>} A promise that resolves when the leaderboards are sent.
+   */
+  public async handleGetLeaderboard(req: FastifyRequest, res: FastifyReply): Promise<void> {
+    const { level } = req.params as { level: string };
+    const query = validateLeaderboardQuery({ ...(req.query as object), level });
+    const leaderboard = await this.leaderboardRepository.getLeaderboard(query);
+    return res.send(leaderboard);
+  }
+}
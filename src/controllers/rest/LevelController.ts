@@ -0,0 +1,122 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import LevelGrid from '../../app/game/match/boards/LevelGrid.js';
+import LevelRegistry from '../../app/game/match/boards/LevelRegistry.js';
+import LevelValidator from '../../app/game/match/boards/LevelValidator.js';
+import type ClusterLevels from '../../app/shared/cluster/ClusterLevels.js';
+import LevelError from '../../errors/LevelError.js';
+import type LevelRepository from '../../schemas/LevelRepository.js';
+import {
+  type CustomMapKey,
+  validateCustomLevel,
+  validateCustomMapKey,
+  validateString,
+} from '../../schemas/zod.js';
+/**
+ * @class LevelController
+ * This class handles the custom levels authored with the level editor.
+ * Every change is announced to the other nodes of the cluster, which load the level again.
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class LevelController {
+  private readonly levelRepository: LevelRepository;
+  private readonly clusterLevels: ClusterLevels;
+  constructor(levelRepository: LevelRepository, clusterLevels: ClusterLevels) {
+    this.levelRepository = levelRepository;
+    this.clusterLevels = clusterLevels;
+  }
+
+  /**
+   * Registers the stored custom levels so matches can be played on them.
+   *
+   * @return {Promise<void>} A promise that resolves when the levels are registered.
+   */
+  public async loadCustomLevels(): Promise<void> {
+    const levels = await this.levelRepository.getLevels();
+    for (const level of levels) LevelRegistry.register(LevelGrid.toDefinition(level));
+  }
+
+  /**
+   * Handles the request to list the custom levels, optionally filtered by map.
+   *
+   * @param {FastifyRequest} req The request from the client.
+   * @param {FastifyReply} res The response to be sent to the client.
+   * @return {Promise<void>} A promise that resolves when the levels are sent.
+   */
+  public async handleGetLevels(req: FastifyRequest, res: FastifyReply): Promise<void> {
+    const { map } = req.query as { map?: string };
+    const levels = await this.levelRepository.getLevels(map ? validateString(map) : undefined);
+    return res.send(levels);
+  }
+
+  /**
+   * Handles the request to retrieve a custom level.
+   *
+   * @param {FastifyRequest} req The request from the client.
+   * @param {FastifyReply} res The response to be sent to the client.
+   * @return {Promise<void>} A promise that resolves when the level is sent.
+   */
+  public async handleGetLevel(req: FastifyRequest, res: FastifyReply): Promise<void> {
+    const { map, level } = this.getLevelKey(req);
+    const customLevel = await this.levelRepository.getLevel(map, level);
+    return res.send(customLevel);
+  }
+
+  /**
+   * Handles the request to create a custom level.
+   *
+   * @param {FastifyRequest} req The request from the client.
+   * @param {FastifyReply} res The response to be sent to the client.
+   * @return {Promise<void>} A promise that resolves when the level is created.
+   * @throws {LevelError} If the level already exists or is not playable.
+   */
+  public async handleCreateLevel(req: FastifyRequest, res: FastifyReply): Promise<void> {
+    const customLevel = validateCustomLevel(req.body);
+    if (LevelRegistry.hasLevel(customLevel.map, customLevel.level)) {
+      throw new LevelError(LevelError.LEVEL_ALREADY_EXISTS);
+    }
+    LevelValidator.validate(customLevel, customLevel);
+    await this.levelRepository.createLevel(customLevel);
+    LevelRegistry.register(LevelGrid.toDefinition(customLevel));
+    await this.clusterLevels.announce({ map: customLevel.map, level: customLevel.level });
+    return res.status(201).send({ map: customLevel.map, level: customLevel.level });
+  }
+
+  /**
+   * Handles the request to update a custom level.
+   *
+   * @param {FastifyRequest} req The request from the client.
+   * @param {FastifyReply} res The response to be sent to the client.
+   * @return {Promise<void>} A promise that resolves when the level is updated.
+   * @throws {LevelError} If the level does not exist or is not playable.
+   */
+  public async handleUpdateLevel(req: FastifyRequest, res: FastifyReply): Promise<void> {
+    const { map, level } = this.getLevelKey(req);
+    const customLevel = validateCustomLevel({ ...(req.body as object), map, level });
+    LevelValidator.validate(customLevel, customLevel);
+    await this.levelRepository.updateLevel(customLevel);
+    LevelRegistry.register(LevelGrid.toDefinition(customLevel));
+    await this.clusterLevels.announce({ map, level });
+    return res.send({ message: 'Level updated successfully' });
+  }
+
+  /**
+   * Handles the request to delete a custom level.
+   *
+   * @param {FastifyRequest} req The request from the client.
+   * @param {FastifyReply} res The response to be sent to the client.
+   * @return {Promise<void>} A promise that resolves when the level is deleted.
+   */
+  public async handleDeleteLevel(req: FastifyRequest, res: FastifyReply): Promise<void> {
+    const { map, level } = this.getLevelKey(req);
+    await this.levelRepository.removeLevel(map, level);
+    LevelRegistry.unregister(map, level);
+    await this.clusterLevels.announce({ map, level });
+    return res.send({ message: 'Level deleted successfully' });
+  }
+
+  private getLevelKey(req: FastifyRequest): CustomMapKey {
+    const { map, level } = req.params as { map: string; level: string };
+    return validateCustomMapKey({ map, level: Number(level) });
+  }
+}
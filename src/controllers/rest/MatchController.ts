@@ -1,9 +1,11 @@
 import type { FastifyReply, FastifyRequest } from 'fastify';
 import { v4 as uuidv4 } from 'uuid';
+import LevelRegistry from '../../app/game/match/boards/LevelRegistry.js';
 import MatchError from '../../errors/MatchError.js';
 import type MatchRepository from '../../schemas/MatchRepository.js';
 import type UserRepository from '../../schemas/UserRepository.js';
 import { type MatchDetails, validateMatchInputDTO, validateString } from '../../schemas/zod.js';
+import { SeededRandom } from '../../utils/SeededRandom.js';
 /**
  * @class MatchController
  * This class handles the match creation and retrieval.
@@ -33,11 +35,16 @@ export default class MatchController {
 
   /**
    * Handles the request to create a match.
+   * Procedural and endless matches only require the map to exist, the level is used as the theme
+   * and a seed is generated when the client does not send one.
+   * Matches wait for the requested number of players, from one to four, before they start.
+   * Solo matches start right away, the partner is played by a bot once the host connects.
+   * In versus matches the players compete for the fruits, so they need at least one rival.
    *
    * @param {FastifyRequest} req The request from the client.
    * @param {FastifyReply} res The response to be sent to the client.
    * @return {Promise<void>} A promise that resolves when the match is created and its ID is sent.
-   * @throws {MatchError} If the user is not found or is already in a match.
+   * @throws {MatchError} If the user is not found, is already in a match, the map/level combination is invalid, the level does not fit the players or a versus match has no rivals.
    */
   public async handleCreateMatch(req: FastifyRequest, res: FastifyReply): Promise<void> {
     const { userId } = req.params as { userId: string };
@@ -47,11 +54,33 @@ export default class MatchController {
       throw new MatchError(MatchError.PLAYER_ALREADY_IN_MATCH);
     }
     const matchInputDTO = validateMatchInputDTO(req.body as string);
+    if (!LevelRegistry.hasMap(matchInputDTO.map)) throw new MatchError(MatchError.INVALID_MAP);
+    const mode = matchInputDTO.mode ?? 'classic';
+    if (mode === 'classic' && !LevelRegistry.hasLevel(matchInputDTO.map, matchInputDTO.level)) {
+      throw new MatchError(MatchError.INVALID_LEVEL);
+    }
+    const playersNumber = matchInputDTO.solo ? 1 : (matchInputDTO.playersNumber ?? 2);
+    // The bot of a solo match also needs a start cell
+    const seats = matchInputDTO.solo ? 2 : playersNumber;
+    if (matchInputDTO.versus && seats < 2) throw new MatchError(MatchError.VERSUS_WITHOUT_RIVALS);
+    if (
+      mode === 'classic' &&
+      LevelRegistry.getPlayersCapacity(matchInputDTO.map, matchInputDTO.level) < seats
+    ) {
+      throw new MatchError(MatchError.INVALID_PLAYERS_NUMBER);
+    }
     const matchDetails: MatchDetails = {
       id: uuidv4().replace(/-/g, '').slice(0, 8),
       host: userIdParsed,
       ...matchInputDTO,
+      players: [userIdParsed],
+      playersNumber,
     };
+    if (mode !== 'classic') {
+      matchDetails.seed = matchInputDTO.seed ?? SeededRandom.randomSeed();
+      matchDetails.difficulty = matchInputDTO.difficulty ?? 'normal';
+    }
+    if (playersNumber === 1) matchDetails.started = true;
     await this.matchRepository.createMatch(matchDetails);
     await this.userRepository.updateUser(userIdParsed, { matchId: matchDetails.id });
     return res.send({ matchId: matchDetails.id });
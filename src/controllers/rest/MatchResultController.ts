@@ -0,0 +1,42 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type MatchResultRepository from '../../schemas/MatchResultRepository.js';
+import { validatePagination, validateString } from '../../schemas/zod.js';
+/**
+ * @class MatchResultController
+ * This class handles the history and the statistics of the matches played by the users.
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class MatchResultController {
+  private readonly matchResultRepository: MatchResultRepository;
+  constructor(matchResultRepository: MatchResultRepository) {
+    this.matchResultRepository = matchResultRepository;
+  }
+
+  /**
+   * Handles the request to retrieve a page of the matches played by a user.
+   *
+   * @param {FastifyRequest} req The request from the client.
+   * @param {FastifyReply} res The response to be sent to the client.
+   * @return {Promise<void>} A promise that resolves when the history is sent.
+   */
+  public async handleGetHistory(req: FastifyRequest, res: FastifyReply): Promise<void> {
+    const { userId } = req.params as { userId: string };
+    const pagination = validatePagination(req.query ?? {});
+    const history = await this.matchResultRepository.getHistory(validateString(userId), pagination);
+    return res.send(history);
+  }
+
+  /**
+   * Handles the request to retrieve the statistics of a user.
+   *
+   * @param {FastifyRequest} req The request from the client.
+   * @param {FastifyReply} res The response to be sent to the client.
+   * @return {Promise<void>} A promise that resolves when the statistics are sent.
+   */
+  public async handleGetStats(req: FastifyRequest, res: FastifyReply): Promise<void> {
+    const { userId } = req.params as { userId: string };
+    const stats = await this.matchResultRepository.getStats(validateString(userId));
+    return res.send(stats);
+  }
+}
@@ -0,0 +1,32 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import Protocol from '../../app/shared/Protocol.js';
+/**
+ * @class ProtocolController
+ * This class publishes the contract of the WebSocket messages, so the clients can validate and
+ * generate code against the version the server speaks.
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class ProtocolController {
+  /**
+   * Handles the request to retrieve the JSON Schema of the WebSocket messages.
+   *
+   * @param {FastifyRequest} _req The request from the client.
+   * @param {FastifyReply} res The response to be sent to the client.
+   * @return {Promise<void>} A promise that resolves when the schema is sent.
+   */
+  public async handleGetJsonSchema(_req: FastifyRequest, res: FastifyReply): Promise<void> {
+    return res.send(Protocol.getJsonSchema());
+  }
+
+  /**
+   * Handles the request to retrieve the AsyncAPI document of the WebSocket endpoints.
+   *
+   * @param {FastifyRequest} _req The request from the client.
+   * @param {FastifyReply} res The response to be sent to the client.
+   * @return {Promise<void>} A promise that resolves when the document is sent.
+   */
+  public async handleGetAsyncApi(_req: FastifyRequest, res: FastifyReply): Promise<void> {
+    return res.send(Protocol.getAsyncApi());
+  }
+}
@@ -0,0 +1,33 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import ReplayError from '../../errors/ReplayError.js';
+import type ReplayRepository from '../../schemas/ReplayRepository.js';
+import { validateReplayQuery, validateString } from '../../schemas/zod.js';
+/**
+ * @class ReplayController
+ * This class handles the replays recorded during the matches.
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class ReplayController {
+  private readonly replayRepository: ReplayRepository;
+  constructor(replayRepository: ReplayRepository) {
+    this.replayRepository = replayRepository;
+  }
+
+  /**
+   * Handles the request to retrieve the timeline of the messages received and sent in a round of
+   * a match, the last round unless the round query is given.
+   *
+   * @param {FastifyRequest} req The request from the client.
+   * @param {FastifyReply} res The response to be sent to the client.
+   * @return {Promise<void>} A promise that resolves when the replay is sent.
+   * @throws {ReplayError} If nothing was recorded for the match.
+   */
+  public async handleGetReplay(req: FastifyRequest, res: FastifyReply): Promise<void> {
+    const { matchId } = req.params as { matchId: string };
+    const { round } = validateReplayQuery(req.query ?? {});
+    const replay = await this.replayRepository.getReplay(validateString(matchId), round);
+    if (!replay) throw new ReplayError(ReplayError.REPLAY_NOT_FOUND);
+    return res.send(replay);
+  }
+}
@@ -1,8 +1,11 @@
 import type { FastifyRequest } from 'fastify';
-import type { WebSocket } from 'ws';
 import { ZodError } from 'zod';
 import type GameService from '../../app/game/services/GameService.js';
+import type ClientSocket from '../../app/shared/ClientSocket.js';
+import MessageRateLimiter from '../../app/shared/MessageRateLimiter.js';
+import { messageCodecs } from '../../app/shared/codecs/MessageCodecs.js';
 import GameError from '../../errors/GameError.js';
+import WebSocketError from '../../errors/WebSocketError.js';
 import type MatchRepository from '../../schemas/MatchRepository.js';
 import type UserRepository from '../../schemas/UserRepository.js';
 import { type MatchDetails, validateErrorMatch, validateString } from '../../schemas/zod.js';
@@ -35,11 +38,14 @@ export default class GameController {
    * Handles a WebSocket connection for a game.
    * Validates the user and match, registers the connection, and starts or reconnects the match.
    *
-   * @param {WebSocket} socket The WebSocket connection for the user.
+   * @param {ClientSocket} socket The WebSocket connection for the user.
    * @param {FastifyRequest} request The HTTP request containing user and match details.
    * @return {Promise<void>} A promise that resolves when the connection is handled.
    */
-  public async handleGameConnection(socket: WebSocket, request: FastifyRequest): Promise<void> {
+  public async handleGameConnection(
+    socket: ClientSocket,
+    request: Pick<FastifyRequest, 'params'>
+  ): Promise<void> {
     try {
       const {
         matchId: matchIdParsed,
@@ -52,9 +58,12 @@ export default class GameController {
       } else {
         await this.startMatch(matchDetails, userIdParsed, socket);
       }
+      await this.gameService.reconnectPlayer(matchIdParsed, userIdParsed);
       await this.extendSession(userIdParsed, matchIdParsed);
 
+      const rateLimiter = new MessageRateLimiter();
       socket.on('message', async (message: Buffer) => {
+        if (!this.acceptMessage(socket, rateLimiter, userIdParsed)) return;
         try {
           await this.gameService.handleGameMessage(userIdParsed, matchIdParsed, message);
           await this.extendSession(userIdParsed, matchIdParsed);
@@ -63,8 +72,13 @@ export default class GameController {
         }
       });
 
-      socket.on('close', () => {
-        this.gameService.removeConnection(userIdParsed);
+      socket.on('close', async () => {
+        try {
+          await this.gameService.disconnectPlayer(matchIdParsed, userIdParsed, socket);
+        } catch (error) {
+          logger.warn(`An error occurred while disconnecting the User: ${userIdParsed}`);
+          logger.error(error);
+        }
       });
 
       socket.on('error', (error: Error) => {
@@ -90,50 +104,78 @@ export default class GameController {
     await this.validateUserExists(userIdParsed);
     await this.validateMatchExists(matchIdParsed);
     const matchDetails = await this.matchRepository.getMatchById(matchIdParsed);
-    if (matchDetails.host !== userIdParsed && matchDetails.guest !== userIdParsed)
+    if (!matchDetails.players.includes(userIdParsed))
       throw new GameError(GameError.USER_NOT_IN_MATCH);
     this.gameService.checkMatchDetails(matchDetails);
     return { matchId: matchIdParsed, userId: userIdParsed, matchDetails };
   }
 
-  private parseToString(data: unknown): string {
-    return JSON.stringify(data);
+  private send(socket: ClientSocket, data: unknown): void {
+    messageCodecs.send(socket, data);
   }
 
   private async startMatch(
     matchDetails: MatchDetails,
     userIdParsed: string,
-    socket: WebSocket
+    socket: ClientSocket
   ): Promise<void> {
+    // Single player and solo matches skip the matchmaking, so the match is created when the player connects
+    if (matchDetails.playersNumber === 1 && !(await this.gameService.getMatch(matchDetails.id))) {
+      await this.gameService.createMatch(matchDetails);
+    }
     await this.gameService.startMatch(matchDetails.id);
     const updateMatch = await this.gameService.getMatchUpdate(matchDetails.id);
-    socket.send(this.parseToString(updateMatch));
+    this.send(socket, updateMatch);
     logger.info(`The User: ${userIdParsed} is connected to the match ${matchDetails.id}`);
   }
 
-  private handleError(error: unknown, socket: WebSocket): void {
+  /**
+   * Checks the rate of messages of a socket before its message is handled.
+   * A dropped message is answered with an error, and a socket that keeps flooding is closed with
+   * the policy violation code.
+   */
+  private acceptMessage(
+    socket: ClientSocket,
+    rateLimiter: MessageRateLimiter,
+    userId: string
+  ): boolean {
+    const result = rateLimiter.consume();
+    if (result === 'accepted') return true;
+    if (result === 'dropped') {
+      this.sendError(socket, new WebSocketError(WebSocketError.MESSAGE_RATE_LIMITED));
+      return false;
+    }
+    logger.warn(`The User: ${userId} sent too many messages and was disconnected`);
+    this.sendError(socket, new WebSocketError(WebSocketError.CONNECTION_RATE_LIMITED));
+    socket.close(1008, WebSocketError.CONNECTION_RATE_LIMITED);
+    return false;
+  }
+
+  private sendError(socket: ClientSocket, error: GameError | WebSocketError): void {
+    this.send(socket, validateErrorMatch({ error: `${error.code}, ${error.message}` }));
+  }
+
+  private handleError(error: unknown, socket: ClientSocket): void {
     logger.warn('An error occurred on Socket message request...');
     logger.error(error);
-    if (error instanceof GameError) {
-      socket.send(
-        this.parseToString(validateErrorMatch({ error: `${error.code}, ${error.message}` }))
-      );
+    if (error instanceof GameError || error instanceof WebSocketError) {
+      this.sendError(socket, error);
     } else if (error instanceof ZodError) {
-      socket.send(this.parseToString(validateErrorMatch({ error: 'Bad Request' })));
+      this.send(socket, validateErrorMatch({ error: 'Bad Request' }));
     } else {
-      socket.send(this.parseToString(validateErrorMatch({ error: 'Internal server error' })));
+      this.send(socket, validateErrorMatch({ error: 'Internal server error' }));
     }
   }
 
   private async reconnectMatch(
     matchDetails: MatchDetails,
     userIdParsed: string,
-    socket: WebSocket
+    socket: ClientSocket
   ): Promise<void> {
     const updateMatch = await this.gameService.getMatchUpdate(matchDetails.id);
-    socket.send(this.parseToString(updateMatch));
+    this.send(socket, updateMatch);
     logger.info(
-      `Player ${userIdParsed} reconnected to match ${matchDetails.id} \nHost: ${matchDetails.host} \nGuest: ${matchDetails.guest}\n`
+      `Player ${userIdParsed} reconnected to match ${matchDetails.id} \nHost: ${matchDetails.host} \nPlayers: ${matchDetails.players.join(', ')}\n`
     );
   }
 
@@ -1,6 +1,9 @@
 import type { FastifyRequest } from 'fastify';
-import type { WebSocket } from 'ws';
+import type GameService from '../../app/game/services/GameService.js';
 import type WebSocketService from '../../app/lobbies/services/WebSocketService.js';
+import type ClientSocket from '../../app/shared/ClientSocket.js';
+import type MatchOwnership from '../../app/shared/cluster/MatchOwnership.js';
+import { messageCodecs } from '../../app/shared/codecs/MessageCodecs.js';
 import MatchError from '../../errors/MatchError.js';
 import type MatchRepository from '../../schemas/MatchRepository.js';
 import type UserRepository from '../../schemas/UserRepository.js';
@@ -26,24 +29,30 @@ export default class MatchMakingController {
   private readonly websocketService: WebSocketService;
   private readonly matchRepository: MatchRepository;
   private readonly userRepository: UserRepository;
+  private readonly matchOwnership: MatchOwnership;
+  private readonly gameService: GameService;
   constructor(
     webSocketService: WebSocketService,
     matchRepository: MatchRepository,
-    userRepository: UserRepository
+    userRepository: UserRepository,
+    matchOwnership: MatchOwnership,
+    gameService: GameService
   ) {
     this.websocketService = webSocketService;
     this.matchRepository = matchRepository;
     this.userRepository = userRepository;
+    this.matchOwnership = matchOwnership;
+    this.gameService = gameService;
   }
 
   /**
    * This method handles the matchmaking process for a player.
-   * @param {WebSocket} socket The socket connection to the client
+   * @param {ClientSocket} socket The socket connection to the client
    * @param {FastifyRequest} request The request object containing the match details
    * @returns {Promise<void>} A promise that resolves when the matchmaking process is complete
    * @throws {MatchError} if the match is already started or if there is an internal server error
    */
-  public async handleMatchMaking(socket: WebSocket, request: FastifyRequest): Promise<void> {
+  public async handleMatchMaking(socket: ClientSocket, request: FastifyRequest): Promise<void> {
     try {
       const match = await this.validateMatch(request.params);
       if (match.started) throw new MatchError(MatchError.MATCH_ALREADY_STARTED);
@@ -73,21 +82,20 @@ export default class MatchMakingController {
   /**
    * This method handles the request to keep playing.
    *
-   * @param {WebSocket} socket The socket connection to the client
+   * @param {ClientSocket} socket The socket connection to the client
    * @param {FastifyRequest} request The request object containing the match details
    * @returns {Promise<void>} A promise that resolves when the keep playing process is complete
    */
-  public async handleKeepPlaying(socket: WebSocket, request: FastifyRequest): Promise<void> {
+  public async handleKeepPlaying(socket: ClientSocket, request: FastifyRequest): Promise<void> {
     try {
       const match = await this.validateMatch(request.params);
       const userId = await this.validateUserId(request.params);
-      if (match.host !== userId || match.guest !== userId)
-        throw new MatchError(MatchError.PLAYER_NOT_FOUND);
+      if (!match.players.includes(userId)) throw new MatchError(MatchError.PLAYER_NOT_FOUND);
       this.websocketService.registerConnection(userId, socket);
       await this.websocketService.keepPlaying(match, userId);
       this.sendMessage(
         socket,
-        validateInfo({ message: 'Connected and waiting for other player...' })
+        validateInfo({ message: 'Connected and waiting for the other players...' })
       );
       await this.extendExpiration(match.id, match.host);
       setTimeout(() => {}, 1000 * config.MATCH_TIME_OUT_SECONDS);
@@ -109,17 +117,22 @@ export default class MatchMakingController {
 
   /**
    * This method publishes a match to be hosted.
+   * The node that publishes the match owns it, so the guests join it and play it on this node.
    *
-   * @param {WebSocket} socket The socket connection to the client hosting the match
+   * @param {ClientSocket} socket The socket connection to the client hosting the match
    * @param {FastifyRequest} request The request object containing the match details
    * @return {Promise<void>} A promise that resolves when the match is published
    */
-  public async handlePublishMatch(socket: WebSocket, request: FastifyRequest): Promise<void> {
+  public async handlePublishMatch(
+    socket: ClientSocket,
+    request: Pick<FastifyRequest, 'params'>
+  ): Promise<void> {
     try {
       const matchDetails = await this.validateMatch(request.params);
       const hostId = await this.validateUserId(request.params);
       if (matchDetails.host !== hostId) throw new MatchError(MatchError.PLAYER_ALREADY_IN_MATCH);
       await this.websocketService.validateMatchToPublish(matchDetails.id, hostId);
+      await this.matchOwnership.acquire(matchDetails.id);
       this.websocketService.publishMatch(matchDetails.id, socket);
       this.websocketService.registerConnection(hostId, socket);
       this.sendMessage(
@@ -140,6 +153,7 @@ export default class MatchMakingController {
       socket.on('close', () => {
         this.websocketService.removePublishedMatch(matchDetails.id);
         this.websocketService.removeConnection(hostId);
+        this.releaseUnstartedMatch(matchDetails.id).catch((error) => this.logError(error));
       });
 
       socket.on('error', (error: Error) => {
@@ -153,11 +167,14 @@ export default class MatchMakingController {
   /**
    * This method handles the request to join a game.
    *
-   * @param {WebSocket} guestSocket The socket connection to the client
+   * @param {ClientSocket} guestSocket The socket connection to the client
    * @param {FastifyRequest} request The request object containing the match details
    * @returns {Promise<void>} A promise that resolves when the join game process is complete
    */
-  public async handleJoinGame(guestSocket: WebSocket, request: FastifyRequest): Promise<void> {
+  public async handleJoinGame(
+    guestSocket: ClientSocket,
+    request: Pick<FastifyRequest, 'params'>
+  ): Promise<void> {
     try {
       const matchDetails = await this.validateMatch(request.params);
       const guestId = await this.validateUserId(request.params);
@@ -170,7 +187,8 @@ export default class MatchMakingController {
       });
       guestSocket.on('message', async (message: Buffer) => {
         try {
-          await this.websocketService.handleJoinGameMessage(matchDetails, guestId, message);
+          const matchDetailsUpdated = await this.matchRepository.getMatchById(matchDetails.id);
+          await this.websocketService.handleJoinGameMessage(matchDetailsUpdated, guestId, message);
           this.extendExpiration(matchDetails.id, guestId);
         } catch (error) {
           this.handleError(error, guestSocket);
@@ -189,13 +207,24 @@ export default class MatchMakingController {
     await this.userRepository.extendSession(userId, 10);
   }
 
+  /**
+   * Releases a published match that the host left before it started, a started match is released
+   * by the game when it finishes. A match this node already created counts as started, even if the
+   * database does not say so yet.
+   */
+  private async releaseUnstartedMatch(matchId: string): Promise<void> {
+    if (this.gameService.hasMatch(matchId)) return;
+    const match = await this.matchRepository.getMatchById(matchId).catch(() => undefined);
+    if (!match?.started) await this.matchOwnership.release(matchId);
+  }
+
   private logError(error: unknown): void {
     logger.warn('An error occurred on web scoket controller...');
     logger.error(error);
   }
 
-  private sendMessage(socket: WebSocket, message: GameMessageOutput | Info): void {
-    socket.send(JSON.stringify(message));
+  private sendMessage(socket: ClientSocket, message: GameMessageOutput | Info): void {
+    messageCodecs.send(socket, message);
   }
 
   private async validateMatch(data: unknown): Promise<MatchDetails> {
@@ -211,7 +240,7 @@ export default class MatchMakingController {
     return user.id;
   }
 
-  private handleError(error: unknown, socket: WebSocket): void {
+  private handleError(error: unknown, socket: ClientSocket): void {
     this.logError(error);
     const errorMatch = validateErrorMatch({ error: 'Internal server error' });
     const messageOutput = validateGameMessageOutput({ type: 'error', payload: errorMatch });
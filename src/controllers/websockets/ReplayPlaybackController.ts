@@ -0,0 +1,85 @@
+import type { FastifyRequest } from 'fastify';
+import { WebSocket } from 'ws';
+import { ZodError } from 'zod';
+import { messageCodecs } from '../../app/shared/codecs/MessageCodecs.js';
+import ReplayError from '../../errors/ReplayError.js';
+import type ReplayRepository from '../../schemas/ReplayRepository.js';
+import {
+  type ReplayTimelineEvent,
+  validateErrorMatch,
+  validateReplayStreamQuery,
+  validateString,
+} from '../../schemas/zod.js';
+import { logger } from '../../server.js';
+/**
+ * @class ReplayPlaybackController
+ * Streams the replay of a match through a WebSocket, sending the recorded messages with the same
+ * format and pace the players received them, sped up 2x or 4x when requested.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class ReplayPlaybackController {
+  private readonly replayRepository: ReplayRepository;
+
+  constructor(replayRepository: ReplayRepository) {
+    this.replayRepository = replayRepository;
+  }
+
+  /**
+   * Handles a WebSocket connection that plays a replay, the socket is closed once it ends.
+   *
+   * @param {WebSocket} socket The WebSocket connection of the viewer.
+   * @param {FastifyRequest} request The HTTP request with the match ID, the speed and the round.
+   * @return {Promise<void>} A promise that resolves when the replay ends or the viewer leaves.
+   */
+  public async handleReplayConnection(socket: WebSocket, request: FastifyRequest): Promise<void> {
+    try {
+      const { matchId } = request.params as { matchId: string };
+      const { speed, round } = validateReplayStreamQuery(request.query ?? {});
+      const replay = await this.replayRepository.getReplay(validateString(matchId), round);
+      if (!replay) throw new ReplayError(ReplayError.REPLAY_NOT_FOUND);
+      logger.info(`Playing the round ${replay.round} of the match ${matchId} at ${speed}x`);
+
+      let offsetMs = 0;
+      for (const event of this.getBroadcastEvents(replay.events)) {
+        await this.wait((event.offsetMs - offsetMs) / speed);
+        offsetMs = event.offsetMs;
+        if (socket.readyState !== WebSocket.OPEN) return;
+        this.send(socket, event.message);
+      }
+      socket.close();
+    } catch (error) {
+      this.handleError(error, socket);
+      socket.close();
+    }
+  }
+
+  /**
+   * Keeps the messages the whole match received, leaving out the commands of the players and
+   * the messages sent to a single player.
+   */
+  private getBroadcastEvents(events: ReplayTimelineEvent[]): ReplayTimelineEvent[] {
+    return events.filter(({ source, userId }) => source === 'output' && !userId);
+  }
+
+  private wait(timeMs: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, timeMs));
+  }
+
+  private send(socket: WebSocket, data: unknown): void {
+    messageCodecs.send(socket, data);
+  }
+
+  private handleError(error: unknown, socket: WebSocket): void {
+    logger.warn('An error occurred while playing a replay...');
+    logger.error(error);
+    if (error instanceof ReplayError) {
+      this.send(socket, validateErrorMatch({ error: `${error.code}, ${error.message}` }));
+    } else if (error instanceof ZodError) {
+      this.send(socket, validateErrorMatch({ error: 'Bad Request' }));
+    } else {
+      this.send(socket, validateErrorMatch({ error: 'Internal server error' }));
+    }
+  }
+}
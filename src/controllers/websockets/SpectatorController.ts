@@ -0,0 +1,74 @@
+import type { FastifyRequest } from 'fastify';
+import { ZodError } from 'zod';
+import type GameService from '../../app/game/services/GameService.js';
+import type ClientSocket from '../../app/shared/ClientSocket.js';
+import { messageCodecs } from '../../app/shared/codecs/MessageCodecs.js';
+import ErrorTemplate from '../../errors/ErrorTemplate.js';
+import GameError from '../../errors/GameError.js';
+import { validateErrorMatch, validateString } from '../../schemas/zod.js';
+import { logger } from '../../server.js';
+/**
+ * @class SpectatorController
+ * Handles the WebSocket connections of the spectators of a live match.
+ * Spectators receive the same updates as the players but cannot send game commands.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class SpectatorController {
+  private readonly gameService: GameService;
+
+  constructor(gameService: GameService) {
+    this.gameService = gameService;
+  }
+
+  /**
+   * Handles the WebSocket connection of a spectator, starting with a snapshot of the match.
+   *
+   * @param {ClientSocket} socket The WebSocket connection of the spectator.
+   * @param {FastifyRequest} request The HTTP request containing the match ID.
+   * @return {Promise<void>} A promise that resolves when the spectator is watching the match.
+   */
+  public async handleSpectatorConnection(
+    socket: ClientSocket,
+    request: Pick<FastifyRequest, 'params'>
+  ): Promise<void> {
+    try {
+      const { matchId } = request.params as { matchId: string };
+      const matchIdParsed = validateString(matchId);
+      await this.gameService.addSpectator(matchIdParsed, socket);
+      logger.info(`A spectator is watching the match ${matchIdParsed}`);
+
+      socket.on('message', () => {
+        this.handleError(new GameError(GameError.SPECTATOR_READ_ONLY), socket);
+      });
+
+      socket.on('close', () => {
+        this.gameService.removeSpectator(matchIdParsed, socket);
+      });
+
+      socket.on('error', (error: Error) => {
+        this.handleError(error, socket);
+      });
+    } catch (error) {
+      this.handleError(error, socket);
+      socket.close();
+    }
+  }
+
+  private send(socket: ClientSocket, data: unknown): void {
+    messageCodecs.send(socket, data);
+  }
+
+  private handleError(error: unknown, socket: ClientSocket): void {
+    logger.warn('An error occurred on a spectator socket...');
+    logger.error(error);
+    if (error instanceof ErrorTemplate) {
+      this.send(socket, validateErrorMatch({ error: `${error.code}, ${error.message}` }));
+    } else if (error instanceof ZodError) {
+      this.send(socket, validateErrorMatch({ error: 'Bad Request' }));
+    } else {
+      this.send(socket, validateErrorMatch({ error: 'Internal server error' }));
+    }
+  }
+}
@@ -4,18 +4,32 @@ const errors = {
   FREEZE_DIRECTION_ERROR: 400,
   INVALID_ITEM_TYPE: 400,
   FRUIT_TYPE_NOT_DEFINED: 400,
+  LEVEL_NOT_FOUND: 404,
+  MAP_NOT_FOUND: 404,
+  DUPLICATED_LEVEL: 409,
+  NOT_ENOUGH_START_COORDINATES: 400,
 };
 const messageToErrorKey: Record<string, keyof typeof errors> = {
   'The user is not defined': 'USER_NOT_DEFINED',
   'Not supported direction for freeze': 'FREEZE_DIRECTION_ERROR',
   'Invalid item type': 'INVALID_ITEM_TYPE',
   'Fruit type not defined': 'FRUIT_TYPE_NOT_DEFINED',
+  'The requested level was not found': 'LEVEL_NOT_FOUND',
+  'The requested map was not found': 'MAP_NOT_FOUND',
+  'The level is already defined': 'DUPLICATED_LEVEL',
+  'The board does not have enough start coordinates for the players':
+    'NOT_ENOUGH_START_COORDINATES',
 };
 export default class BoardError extends ErrorTemplate {
   public static readonly USER_NOT_DEFINED = 'The user is not defined';
   public static readonly FREEZE_DIRECTION_ERROR = 'Not supported direction for freeze';
   public static readonly INVALID_ITEM_TYPE = 'Invalid item type';
   public static readonly FRUIT_TYPE_NOT_DEFINED = 'Fruit type not defined';
+  public static readonly LEVEL_NOT_FOUND = 'The requested level was not found';
+  public static readonly MAP_NOT_FOUND = 'The requested map was not found';
+  public static readonly DUPLICATED_LEVEL = 'The level is already defined';
+  public static readonly NOT_ENOUGH_START_COORDINATES =
+    'The board does not have enough start coordinates for the players';
   constructor(message: string) {
     super(message, errors[messageToErrorKey[message]]);
   }
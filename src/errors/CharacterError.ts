@@ -7,6 +7,7 @@ const errors = {
   OUT_OF_BOUNDS: 400,
   NULL_CELL: 400,
   NOT_FOUND: 404,
+  TOO_FAST: 429,
 };
 
 const messageToErrorKey: Record<string, keyof typeof errors> = {
@@ -16,6 +17,7 @@ const messageToErrorKey: Record<string, keyof typeof errors> = {
   'The movement is invalid': 'INVALID_MOVEMENT',
   'The movement is out of bounds': 'OUT_OF_BOUNDS',
   'The cell is blocked': 'BLOCKED_CELL',
+  'The player is moving too fast': 'TOO_FAST',
 };
 
 export default class CharacterError extends ErrorTemplate {
@@ -25,6 +27,7 @@ export default class CharacterError extends ErrorTemplate {
   public static readonly INVALID_MOVEMENT = 'The movement is invalid';
   public static readonly OUT_OF_BOUNDS = 'The movement is out of bounds';
   public static readonly BLOCKED_CELL = 'The cell is blocked';
+  public static readonly TOO_FAST = 'The player is moving too fast';
   constructor(message: string) {
     super(message, errors[messageToErrorKey[message]]);
   }
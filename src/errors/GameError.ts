@@ -6,6 +6,8 @@ const errors = {
   USER_NOT_FOUND: 404,
   MATCH_WON: 400,
   USER_NOT_IN_MATCH: 400,
+  SPECTATOR_READ_ONLY: 403,
+  NO_PAUSES_LEFT: 403,
 };
 
 const messageToErrorKey: Record<string, keyof typeof errors> = {
@@ -15,6 +17,8 @@ const messageToErrorKey: Record<string, keyof typeof errors> = {
   'The requested user was not found': 'MATCH_NOT_FOUND',
   'The match was won': 'MATCH_WON',
   'The user is not in the match': 'USER_NOT_IN_MATCH',
+  'Spectators cannot send game commands': 'SPECTATOR_READ_ONLY',
+  'The player has no pauses left': 'NO_PAUSES_LEFT',
 };
 
 export default class GameError extends ErrorTemplate {
@@ -24,6 +28,8 @@ export default class GameError extends ErrorTemplate {
   public static readonly USER_NOT_FOUND = 'The requested user was not found';
   public static readonly MATCH_WON = 'The match was won';
   public static readonly USER_NOT_IN_MATCH = 'The user is not in the match';
+  public static readonly SPECTATOR_READ_ONLY = 'Spectators cannot send game commands';
+  public static readonly NO_PAUSES_LEFT = 'The player has no pauses left';
 
   constructor(message: string) {
     super(message, errors[messageToErrorKey[message]]);
@@ -0,0 +1,37 @@
+import ErrorTemplate from './ErrorTemplate.js';
+
+const errors = {
+  LEVEL_NOT_FOUND: 404,
+  LEVEL_ALREADY_EXISTS: 409,
+  OUT_OF_BOUNDS: 400,
+  ENEMY_ON_ROCK: 400,
+  OVERLAPPING_CELLS: 400,
+  PLAYER_START_UNREACHABLE: 400,
+  FRUIT_UNREACHABLE: 400,
+};
+
+const messageToErrorKey: Record<string, keyof typeof errors> = {
+  'The requested level was not found': 'LEVEL_NOT_FOUND',
+  'The level already exists': 'LEVEL_ALREADY_EXISTS',
+  'The level has coordinates out of the board': 'OUT_OF_BOUNDS',
+  'An enemy cannot spawn on a rock': 'ENEMY_ON_ROCK',
+  'The level has overlapping cells': 'OVERLAPPING_CELLS',
+  'The players cannot reach each other': 'PLAYER_START_UNREACHABLE',
+  'There is a fruit that no player can reach': 'FRUIT_UNREACHABLE',
+};
+
+export default class LevelError extends ErrorTemplate {
+  public static readonly LEVEL_NOT_FOUND = 'The requested level was not found';
+  public static readonly LEVEL_ALREADY_EXISTS = 'The level already exists';
+  public static readonly OUT_OF_BOUNDS = 'The level has coordinates out of the board';
+  public static readonly ENEMY_ON_ROCK = 'An enemy cannot spawn on a rock';
+  public static readonly OVERLAPPING_CELLS = 'The level has overlapping cells';
+  public static readonly PLAYER_START_UNREACHABLE = 'The players cannot reach each other';
+  public static readonly FRUIT_UNREACHABLE = 'There is a fruit that no player can reach';
+
+  constructor(message: string) {
+    const errorKey = messageToErrorKey[message];
+    const errorCode = errors[errorKey];
+    super(message, errorCode);
+  }
+}
@@ -11,6 +11,12 @@ const errors = {
   MATCH_ALREADY_STARTED: 409,
   SOCKET_CLOSED: 499,
   INVALID_ROTATION: 400,
+  INVALID_MAP: 400,
+  INVALID_LEVEL: 400,
+  INVALID_PLAYERS_NUMBER: 400,
+  VERSUS_WITHOUT_RIVALS: 400,
+  MATCH_OWNED_BY_ANOTHER_NODE: 409,
+  MATCH_WAITING_FOR_PLAYERS: 409,
 };
 
 const messageToErrorKey: Record<string, keyof typeof errors> = {
@@ -24,6 +30,12 @@ const messageToErrorKey: Record<string, keyof typeof errors> = {
   'The match has already started': 'MATCH_ALREADY_STARTED',
   'The socket was closed': 'SOCKET_CLOSED',
   'The rotation is invalid': 'INVALID_ROTATION',
+  'The map is invalid': 'INVALID_MAP',
+  'The level is not available for the map': 'INVALID_LEVEL',
+  'The level does not have enough start cells for the players': 'INVALID_PLAYERS_NUMBER',
+  'A versus match needs at least two players': 'VERSUS_WITHOUT_RIVALS',
+  'The match is run by another node': 'MATCH_OWNED_BY_ANOTHER_NODE',
+  'The match is waiting for its players to reconnect': 'MATCH_WAITING_FOR_PLAYERS',
 };
 
 export default class MatchError extends ErrorTemplate {
@@ -37,6 +49,14 @@ export default class MatchError extends ErrorTemplate {
   public static readonly PLAYER_ALREADY_IN_MATCH = 'The player is already in a match';
   public static readonly MATCH_ALREADY_STARTED = 'The match has already started';
   public static readonly INVALID_ROTATION = 'The rotation is invalid';
+  public static readonly INVALID_MAP = 'The map is invalid';
+  public static readonly INVALID_LEVEL = 'The level is not available for the map';
+  public static readonly INVALID_PLAYERS_NUMBER =
+    'The level does not have enough start cells for the players';
+  public static readonly VERSUS_WITHOUT_RIVALS = 'A versus match needs at least two players';
+  public static readonly MATCH_OWNED_BY_ANOTHER_NODE = 'The match is run by another node';
+  public static readonly MATCH_WAITING_FOR_PLAYERS =
+    'The match is waiting for its players to reconnect';
 
   constructor(message: string) {
     const errorKey = messageToErrorKey[message];
@@ -0,0 +1,19 @@
+import ErrorTemplate from './ErrorTemplate.js';
+
+const errors = {
+  REPLAY_NOT_FOUND: 404,
+};
+
+const messageToErrorKey: Record<string, keyof typeof errors> = {
+  'The requested replay was not found': 'REPLAY_NOT_FOUND',
+};
+
+export default class ReplayError extends ErrorTemplate {
+  public static readonly REPLAY_NOT_FOUND = 'The requested replay was not found';
+
+  constructor(message: string) {
+    const errorKey = messageToErrorKey[message];
+    const errorCode = errors[errorKey];
+    super(message, errorCode);
+  }
+}
@@ -8,6 +8,9 @@ const errors = {
   PLAYER_NOT_CONNECTED: 409,
   MATCH_ALREADY_BEEN_HOSTED: 409,
   PLAYER_ALREADY_IN_MATCHMAKING: 409,
+  UNSUPPORTED_PROTOCOL_VERSION: 400,
+  MESSAGE_RATE_LIMITED: 429,
+  CONNECTION_RATE_LIMITED: 429,
 };
 
 const messageToErrorKey: Record<string, keyof typeof errors> = {
@@ -19,6 +22,9 @@ const messageToErrorKey: Record<string, keyof typeof errors> = {
   'The player is not connected': 'PLAYER_NOT_CONNECTED',
   'The match has already been published': 'MATCH_ALREADY_BEEN_HOSTED',
   'The player is already in matchmaking': 'PLAYER_ALREADY_IN_MATCHMAKING',
+  'The protocol version is not supported': 'UNSUPPORTED_PROTOCOL_VERSION',
+  'Too many messages were sent, the message was dropped': 'MESSAGE_RATE_LIMITED',
+  'Too many messages were sent, the connection was closed': 'CONNECTION_RATE_LIMITED',
 };
 export default class WebSocketError extends ErrorTemplate {
   public static readonly BAD_WEB_SOCKET_REQUEST = 'The provided WebSocket request is invalid';
@@ -30,6 +36,11 @@ export default class WebSocketError extends ErrorTemplate {
   public static readonly PLAYER_NOT_CONNECTED = 'The player is not connected';
   public static readonly MATCH_ALREADY_BEEN_HOSTED = 'The match has already been published';
   public static readonly PLAYER_ALREADY_IN_MATCHMAKING = 'The player is already in matchmaking';
+  public static readonly UNSUPPORTED_PROTOCOL_VERSION = 'The protocol version is not supported';
+  public static readonly MESSAGE_RATE_LIMITED =
+    'Too many messages were sent, the message was dropped';
+  public static readonly CONNECTION_RATE_LIMITED =
+    'Too many messages were sent, the connection was closed';
   constructor(message: string) {
     super(message, errors[messageToErrorKey[message]]);
   }
@@ -8,12 +8,27 @@ import MatchMaking from '../app/lobbies/services/MatchmakingImpl.js';
 import type WebSocketService from '../app/lobbies/services/WebSocketService.js';
 import WebsocketServiceImpl from '../app/lobbies/services/WebSocketServiceImpl.js';
 import SocketConnections from '../app/shared/SocketConnectionsServiceImpl.js';
+import ClusterLevels from '../app/shared/cluster/ClusterLevels.js';
+import ClusterRelay from '../app/shared/cluster/ClusterRelay.js';
+import MatchOwnership from '../app/shared/cluster/MatchOwnership.js';
+import LeaderboardController from '../controllers/rest/LeaderboardController.js';
+import LevelController from '../controllers/rest/LevelController.js';
 import MatchController from '../controllers/rest/MatchController.js';
+import MatchResultController from '../controllers/rest/MatchResultController.js';
+import ProtocolController from '../controllers/rest/ProtocolController.js';
+import ReplayController from '../controllers/rest/ReplayController.js';
 import UserController from '../controllers/rest/UserController.js';
 import GameController from '../controllers/websockets/GameController.js';
 import MatchMakingController from '../controllers/websockets/MatchMakingController.js';
+import ReplayPlaybackController from '../controllers/websockets/ReplayPlaybackController.js';
+import SpectatorController from '../controllers/websockets/SpectatorController.js';
 import GameCacheRedis from '../schemas/repositories/GameCacheRedis.js';
+import LeaderboardRepositoryRedis from '../schemas/repositories/LeaderboardRepositoryRedis.js';
+import LevelRepositoryPostgres from '../schemas/repositories/LevelRepositoryPostgres.js';
+import MatchOwnerRepositoryRedis from '../schemas/repositories/MatchOwnerRepositoryRedis.js';
 import MatchRepositoryPostgres from '../schemas/repositories/MatchRepositoryPostgres.js';
+import MatchResultRepositoryPostgres from '../schemas/repositories/MatchResultRepositoryPostgres.js';
+import ReplayRepositoryRedis from '../schemas/repositories/ReplayRepositoryRedis.js';
 import UserRepositoryPostgres from '../schemas/repositories/UserRepositoryPostgres.js';
 import LoggerService from '../utils/LoggerService.js';
 import { container } from './diContainer.js';
@@ -29,13 +44,28 @@ const registerDependencies = (server: FastifyInstance) => {
     gameCache: asClass(GameCacheRedis, { lifetime: Lifetime.SINGLETON }),
     userRepository: asClass(UserRepositoryPostgres, { lifetime: Lifetime.SINGLETON }),
     matchRepository: asClass(MatchRepositoryPostgres, { lifetime: Lifetime.SINGLETON }),
+    levelRepository: asClass(LevelRepositoryPostgres, { lifetime: Lifetime.SINGLETON }),
+    matchResultRepository: asClass(MatchResultRepositoryPostgres, { lifetime: Lifetime.SINGLETON }),
+    leaderboardRepository: asClass(LeaderboardRepositoryRedis, { lifetime: Lifetime.SINGLETON }),
+    replayRepository: asClass(ReplayRepositoryRedis, { lifetime: Lifetime.SINGLETON }),
+    matchOwnerRepository: asClass(MatchOwnerRepositoryRedis, { lifetime: Lifetime.SINGLETON }),
+    matchOwnership: asClass(MatchOwnership, { lifetime: Lifetime.SINGLETON }),
+    clusterRelay: asClass(ClusterRelay, { lifetime: Lifetime.SINGLETON }),
+    clusterLevels: asClass(ClusterLevels, { lifetime: Lifetime.SINGLETON }),
     webSocketService: asClass(WebsocketServiceImpl, { lifetime: Lifetime.SINGLETON }),
     matchMakingService: asClass(MatchMaking, { lifetime: Lifetime.SINGLETON }),
     gameService: asClass(GameServiceImpl, { lifetime: Lifetime.SINGLETON }),
     gameController: asClass(GameController, { lifetime: Lifetime.SINGLETON }),
     matchController: asClass(MatchController, { lifetime: Lifetime.SINGLETON }),
     userController: asClass(UserController, { lifetime: Lifetime.SINGLETON }),
+    levelController: asClass(LevelController, { lifetime: Lifetime.SINGLETON }),
+    matchResultController: asClass(MatchResultController, { lifetime: Lifetime.SINGLETON }),
+    leaderboardController: asClass(LeaderboardController, { lifetime: Lifetime.SINGLETON }),
+    replayController: asClass(ReplayController, { lifetime: Lifetime.SINGLETON }),
+    protocolController: asClass(ProtocolController, { lifetime: Lifetime.SINGLETON }),
     matchMakingController: asClass(MatchMakingController, { lifetime: Lifetime.SINGLETON }),
+    replayPlaybackController: asClass(ReplayPlaybackController, { lifetime: Lifetime.SINGLETON }),
+    spectatorController: asClass(SpectatorController, { lifetime: Lifetime.SINGLETON }),
   });
 };
 const setupCircularDeps = () => {
@@ -43,9 +73,34 @@ const setupCircularDeps = () => {
   const matchMaking = container.resolve<MatchMakingService>('matchMakingService');
   webSocketService.setMatchMakingService(matchMaking);
 };
+const loadCustomLevels = async (server: FastifyInstance) => {
+  const levelController = container.resolve<LevelController>('levelController');
+  try {
+    await levelController.loadCustomLevels();
+  } catch (error) {
+    server.log.warn('The custom levels could not be loaded');
+    server.log.error(error);
+  }
+};
+const startCluster = async (server: FastifyInstance) => {
+  const matchOwnership = container.resolve<MatchOwnership>('matchOwnership');
+  const clusterRelay = container.resolve<ClusterRelay>('clusterRelay');
+  const clusterLevels = container.resolve<ClusterLevels>('clusterLevels');
+  matchOwnership.start();
+  await clusterRelay.start();
+  await clusterLevels.start();
+  server.log.info(`The node ${matchOwnership.getNodeId()} joined the cluster`);
+  server.addHook('onClose', async () => {
+    matchOwnership.stop();
+    await clusterRelay.stop();
+    await clusterLevels.stop();
+  });
+};
 export async function configureDI(server: FastifyInstance): Promise<void> {
   registerDependencies(server);
   setupCircularDeps();
+  await loadCustomLevels(server);
+  await startCluster(server);
   server.register(fastifyAwilixPlugin, {
     container,
     disposeOnClose: true,
@@ -8,6 +8,10 @@ const schema = {
   type: 'object',
   required: ['PORT', 'HOST'],
   properties: {
+    TICK_RATE_MS: {
+      type: 'number',
+      default: 50, // Base rate of the game loop
+    },
     TIMER_SPEED_MS: {
       type: 'number',
       default: 1000, // 1 second
@@ -16,10 +20,34 @@ const schema = {
       type: 'number',
       default: 1000, // 1 second
     },
+    BOT_SPEED_MS: {
+      type: 'number',
+      default: 500, // half a second
+    },
+    SNAPSHOT_INTERVAL_MS: {
+      type: 'number',
+      default: 1000, // Time between two snapshots of a running match
+    },
     MATCH_TIME_SECONDS: {
       type: 'number',
       default: 300, // 5 minutes
     },
+    PLAYER_MOVES_PER_SECOND: {
+      type: 'number',
+      default: 8, // Fastest a player can move
+    },
+    WS_MESSAGES_PER_SECOND: {
+      type: 'number',
+      default: 20, // Sustained rate of messages of a game socket
+    },
+    WS_MESSAGES_BURST: {
+      type: 'number',
+      default: 40, // Messages a game socket can send at once
+    },
+    WS_MAX_DROPPED_MESSAGES: {
+      type: 'number',
+      default: 40, // Dropped messages before the game socket is closed
+    },
     PORT: {
       type: 'string',
       default: '3000',
@@ -80,6 +108,34 @@ const schema = {
       type: 'number',
       default: 60, // 1 minute
     },
+    NODE_ID: {
+      type: 'string',
+      default: '', // The host name and the process ID when it is empty
+    },
+    MATCH_OWNER_TTL_SECONDS: {
+      type: 'number',
+      default: 15, // Lease of the matches run by a node
+    },
+    SHUTDOWN_RECONNECT_MS: {
+      type: 'number',
+      default: 2000, // Time the players of a node that shuts down wait before reconnecting
+    },
+    RECONNECT_GRACE_SECONDS: {
+      type: 'number',
+      default: 30, // Time a disconnected player has to reconnect before forfeiting the match
+    },
+    PAUSES_PER_PLAYER: {
+      type: 'number',
+      default: 3, // Pauses a player can take in a match, unlimited when it is not positive
+    },
+    MAX_PAUSE_SECONDS: {
+      type: 'number',
+      default: 60, // Longest pause before the match resumes by itself, unlimited when not positive
+    },
+    PAUSE_RESUME_VOTE: {
+      type: 'boolean',
+      default: false, // Every player has to ask to resume a paused match
+    },
     SERVICE_BUS_CONNECTION_STRING: {
       type: 'string',
       default: '',
@@ -104,9 +160,16 @@ export async function configureEnv(server: FastifyInstance): Promise<void> {
 
 // Definir tipos importados
 export type EnvConfig = {
+  TICK_RATE_MS: number;
   TIMER_SPEED_MS: number;
   ENEMIES_SPEED_MS: number;
+  BOT_SPEED_MS: number;
+  SNAPSHOT_INTERVAL_MS: number;
   MATCH_TIME_SECONDS: number;
+  PLAYER_MOVES_PER_SECOND: number;
+  WS_MESSAGES_PER_SECOND: number;
+  WS_MESSAGES_BURST: number;
+  WS_MAX_DROPPED_MESSAGES: number;
   PORT: number;
   HOST: string;
   NODE_ENV: string;
@@ -122,6 +185,13 @@ export type EnvConfig = {
   MATCH_TIME_OUT_SECONDS: number;
   REDIRECT_URL: string;
   LOGOUT_REDIRECT_URL: string;
+  NODE_ID: string;
+  MATCH_OWNER_TTL_SECONDS: number;
+  SHUTDOWN_RECONNECT_MS: number;
+  RECONNECT_GRACE_SECONDS: number;
+  PAUSES_PER_PLAYER: number;
+  MAX_PAUSE_SECONDS: number;
+  PAUSE_RESUME_VOTE: boolean;
   SERVICE_BUS_CONNECTION_STRING: string;
   SERVICE_BUS_QUEUE_NAME: string;
 };
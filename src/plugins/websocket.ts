@@ -1,5 +1,7 @@
 import fastifyWebsocket from '@fastify/websocket';
 import type { FastifyInstance } from 'fastify';
+import Protocol from '../app/shared/Protocol.js';
+import { messageCodecs } from '../app/shared/codecs/MessageCodecs.js';
 
 export async function configureWebSocket(server: FastifyInstance): Promise<void> {
   // await server.register(fastifyWebsocket, {
@@ -11,15 +13,39 @@ export async function configureWebSocket(server: FastifyInstance): Promise<void>
       verifyClient: async (info, next) => {
         try {
           // Puedes enviar el token en headers o en Sec-WebSocket-Protocol
-          const token = info.req.headers['sec-websocket-protocol']?.toString();
+          // The encoding can be requested as another subprotocol, so it is not part of the token
+          const token = info.req.headers['sec-websocket-protocol']
+            ?.toString()
+            .split(',')
+            .map((protocol) => protocol.trim())
+            .find((protocol) => !messageCodecs.isEncoding(protocol));
           if (!token) throw new Error('Token missing');
           await server.verifyToken(token);
+        } catch {
+          return next(false, 401, 'Unauthorized'); // rechaza
+        }
+        try {
+          Protocol.negotiateVersion(info.req);
+          messageCodecs.negotiate(info.req);
           next(true); // acepta
         } catch {
-          next(false, 401, 'Unauthorized'); // rechaza
+          next(false, 400, 'Unsupported protocol version or encoding');
         }
       },
+      // The server answers with the requested encoding, or with the first subprotocol as before
+      handleProtocols: (protocols) =>
+        [...protocols].find((protocol) => messageCodecs.isEncoding(protocol)) ??
+        [...protocols][0] ??
+        false,
       maxPayload: 1048576,
     },
   });
+  // Every connection is bound to its codec and greeted before the handler of its route runs
+  server.websocketServer.on('connection', (socket, request) => {
+    const codec = messageCodecs.bind(socket, request);
+    messageCodecs.send(
+      socket,
+      Protocol.getHello(Protocol.negotiateVersion(request), codec.encoding)
+    );
+  });
 }
@@ -1,11 +1,23 @@
 import type { FastifyInstance } from 'fastify';
 import type LoggerService from 'src/utils/LoggerService.js';
+import type LeaderboardController from '../controllers/rest/LeaderboardController.js';
+import type LevelController from '../controllers/rest/LevelController.js';
 import type MatchController from '../controllers/rest/MatchController.js';
+import type MatchResultController from '../controllers/rest/MatchResultController.js';
+import type ProtocolController from '../controllers/rest/ProtocolController.js';
+import type ReplayController from '../controllers/rest/ReplayController.js';
 import type UserController from '../controllers/rest/UserController.js';
 import type { Log } from '../schemas/zod.js';
 export async function restRoutes(fastify: FastifyInstance): Promise<void> {
   const userController = fastify.diContainer.resolve<UserController>('userController');
   const matchController = fastify.diContainer.resolve<MatchController>('matchController');
+  const levelController = fastify.diContainer.resolve<LevelController>('levelController');
+  const matchResultController =
+    fastify.diContainer.resolve<MatchResultController>('matchResultController');
+  const leaderboardController =
+    fastify.diContainer.resolve<LeaderboardController>('leaderboardController');
+  const replayController = fastify.diContainer.resolve<ReplayController>('replayController');
+  const protocolController = fastify.diContainer.resolve<ProtocolController>('protocolController');
   const loggerService = fastify.diContainer.resolve<LoggerService>('loggerService');
 
   fastify.get('/health', async (_req, res) => {
@@ -62,7 +74,7 @@ export async function restRoutes(fastify: FastifyInstance): Promise<void> {
 
     await loggerService.registerLog(logObject);
 
-    const publicPaths = ['health', 'login', 'redirect', 'logout'];
+    const publicPaths = ['health', 'login', 'redirect', 'logout', 'protocol'];
     if (
       publicPaths.includes(req.url.split('/')[2]) ||
       publicPaths.includes(req.url.split('/')[2].split('?')[0])
@@ -80,6 +92,14 @@ export async function restRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
+  fastify.get('/protocol/schema', async (req, res) => {
+    await protocolController.handleGetJsonSchema(req, res);
+  });
+
+  fastify.get('/protocol/asyncapi', async (req, res) => {
+    await protocolController.handleGetAsyncApi(req, res);
+  });
+
   fastify.post('/users', async (req, res) => {
     await userController.handleCreateUser(req, res);
   });
@@ -99,4 +119,40 @@ export async function restRoutes(fastify: FastifyInstance): Promise<void> {
   fastify.put('/users/:userId/matches/:matchId', async (req, res) => {
     await matchController.handleUpdateMatch(req, res);
   });
+
+  fastify.get('/users/:userId/history', async (req, res) => {
+    await matchResultController.handleGetHistory(req, res);
+  });
+
+  fastify.get('/users/:userId/stats', async (req, res) => {
+    await matchResultController.handleGetStats(req, res);
+  });
+
+  fastify.get('/matches/:matchId/replay', async (req, res) => {
+    await replayController.handleGetReplay(req, res);
+  });
+
+  fastify.get('/leaderboards/:level', async (req, res) => {
+    await leaderboardController.handleGetLeaderboard(req, res);
+  });
+
+  fastify.get('/levels', async (req, res) => {
+    await levelController.handleGetLevels(req, res);
+  });
+
+  fastify.post('/levels', async (req, res) => {
+    await levelController.handleCreateLevel(req, res);
+  });
+
+  fastify.get('/levels/:map/:level', async (req, res) => {
+    await levelController.handleGetLevel(req, res);
+  });
+
+  fastify.put('/levels/:map/:level', async (req, res) => {
+    await levelController.handleUpdateLevel(req, res);
+  });
+
+  fastify.delete('/levels/:map/:level', async (req, res) => {
+    await levelController.handleDeleteLevel(req, res);
+  });
 }
@@ -1,7 +1,11 @@
 import type { FastifyBaseLogger, FastifyInstance } from 'fastify';
 import type WebSocket from 'ws';
+import type ClusterRelay from '../app/shared/cluster/ClusterRelay.js';
+import { messageCodecs } from '../app/shared/codecs/MessageCodecs.js';
 import type GameController from '../controllers/websockets/GameController.js';
 import type MatchMakingController from '../controllers/websockets/MatchMakingController.js';
+import type ReplayPlaybackController from '../controllers/websockets/ReplayPlaybackController.js';
+import type SpectatorController from '../controllers/websockets/SpectatorController.js';
 import { container } from '../plugins/diContainer.js';
 import { validateErrorMatch } from '../schemas/zod.js';
 
@@ -9,13 +13,32 @@ const errorHandler = (error: unknown, connection: WebSocket, logger: FastifyBase
   logger.warn('There was an error in the websocket connection');
   logger.error(error);
   const errorMessage = validateErrorMatch({ message: 'Internal server error' });
-  connection.send(JSON.stringify(errorMessage));
+  messageCodecs.send(connection, errorMessage);
 };
 
 export async function websocketRoutes(fastify: FastifyInstance): Promise<void> {
   const matchMakingController: MatchMakingController =
     fastify.diContainer.resolve<MatchMakingController>('matchMakingController');
   const gameController: GameController = container.resolve<GameController>('gameController');
+  const replayPlaybackController: ReplayPlaybackController =
+    container.resolve<ReplayPlaybackController>('replayPlaybackController');
+  const spectatorController: SpectatorController =
+    container.resolve<SpectatorController>('spectatorController');
+  const clusterRelay: ClusterRelay = container.resolve<ClusterRelay>('clusterRelay');
+  // The sockets of a published or running match are handled by the node that owns it, wherever
+  // they are connected
+  clusterRelay.registerRoute('game', (connection, req) =>
+    gameController.handleGameConnection(connection, req)
+  );
+  clusterRelay.registerRoute('publish-match', (connection, req) =>
+    matchMakingController.handlePublishMatch(connection, req)
+  );
+  clusterRelay.registerRoute('join-game', (connection, req) =>
+    matchMakingController.handleJoinGame(connection, req)
+  );
+  clusterRelay.registerRoute('spectate', (connection, req) =>
+    spectatorController.handleSpectatorConnection(connection, req)
+  );
   /**
    * This method works then i am looking for a matchmaking (no teamate)
    */
@@ -35,19 +58,38 @@ export async function websocketRoutes(fastify: FastifyInstance): Promise<void> {
    * This route works then i am looking for a game (with teamate) (the match is already created and I know it's id)
    */
   fastify.get('/game/:userId/:matchId', { websocket: true }, (connection, req) => {
-    gameController.handleGameConnection(connection, req).catch((error) => {
+    clusterRelay.route('game', connection, req).catch((error) => {
       errorHandler(error, connection, fastify.log);
     });
   });
 
   fastify.get('/publish-match/:userId/:matchId', { websocket: true }, (connection, req) => {
-    matchMakingController.handlePublishMatch(connection, req).catch((error) => {
+    clusterRelay.route('publish-match', connection, req).catch((error) => {
       errorHandler(error, connection, fastify.log);
     });
   });
 
   fastify.get('/join-game/:userId/:matchId', { websocket: true }, (connection, req) => {
-    matchMakingController.handleJoinGame(connection, req).catch((error) => {
+    clusterRelay.route('join-game', connection, req).catch((error) => {
+      errorHandler(error, connection, fastify.log);
+    });
+  });
+
+  /**
+   * This route lets anyone watch a live match without playing it
+   */
+  fastify.get('/spectate/:matchId', { websocket: true }, (connection, req) => {
+    clusterRelay.route('spectate', connection, req).catch((error) => {
+      errorHandler(error, connection, fastify.log);
+    });
+  });
+
+  /**
+   * Streams the replay of a round of a match, the speed query (1, 2 or 4) sets how fast it plays
+   * and the round query which round is played, the last one by default
+   */
+  fastify.get('/replay/:matchId', { websocket: true }, (connection, req) => {
+    replayPlaybackController.handleReplayConnection(connection, req).catch((error) => {
       errorHandler(error, connection, fastify.log);
     });
   });
@@ -0,0 +1,25 @@
+import type { Leaderboard, LeaderboardQuery, MatchResult } from './zod.js';
+/**
+ * @interface LeaderboardRepository
+ * Defines the contract for a repository of the leaderboards of the levels.
+ * @since 19/10/2026
+ * @author
+ * Santiago Avellaneda, Andres Serrato, and Miguel Motta
+ */
+export default interface LeaderboardRepository {
+  /**
+   * Adds the result of a finished match to the leaderboards of its level.
+   *
+   * @param {MatchResult} result - The result of the match.
+   * @return {Promise<void>} A promise that resolves when the leaderboards are updated.
+   */
+  recordResult(result: MatchResult): Promise<void>;
+
+  /**
+   * Retrieves the fastest clears, the most fruits and the longest win streaks of a level.
+   *
+   * @param {LeaderboardQuery} query - The level, map, time window, scope and size of the boards.
+   * @return {Promise<Leaderboard>} A promise that resolves to the leaderboards of the level.
+   */
+  getLeaderboard(query: LeaderboardQuery): Promise<Leaderboard>;
+}
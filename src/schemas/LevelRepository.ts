@@ -0,0 +1,51 @@
+import type { CustomLevel } from './zod.js';
+/**
+ * @interface LevelRepository
+ * Defines the contract for a repository of the custom levels authored with the level editor.
+ * @since 19/10/2026
+ * @author
+ * Santiago Avellaneda, Andres Serrato, and Miguel Motta
+ */
+export default interface LevelRepository {
+  /**
+   * Retrieves the custom levels, optionally filtered by map.
+   *
+   * @param {string} map - The map of the levels to retrieve.
+   * @return {Promise<CustomLevel[]>} A promise that resolves to the custom levels sorted by map and level.
+   */
+  getLevels(map?: string): Promise<CustomLevel[]>;
+
+  /**
+   * Retrieves the custom level of a map.
+   *
+   * @param {string} map - The map of the level.
+   * @param {number} level - The level to retrieve.
+   * @return {Promise<CustomLevel>} A promise that resolves to the custom level.
+   */
+  getLevel(map: string, level: number): Promise<CustomLevel>;
+
+  /**
+   * Creates a new custom level.
+   *
+   * @param {CustomLevel} level - The custom level to create.
+   * @return {Promise<void>} A promise that resolves when the level is created.
+   */
+  createLevel(level: CustomLevel): Promise<void>;
+
+  /**
+   * Replaces the custom level of a map.
+   *
+   * @param {CustomLevel} level - The new content of the custom level.
+   * @return {Promise<void>} A promise that resolves when the level is updated.
+   */
+  updateLevel(level: CustomLevel): Promise<void>;
+
+  /**
+   * Deletes the custom level of a map.
+   *
+   * @param {string} map - The map of the level.
+   * @param {number} level - The level to delete.
+   * @return {Promise<void>} A promise that resolves when the level is deleted.
+   */
+  removeLevel(map: string, level: number): Promise<void>;
+}
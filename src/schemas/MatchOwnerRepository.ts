@@ -0,0 +1,47 @@
+/**
+ * @interface MatchOwnerRepository
+ * Defines the contract for a repository of the nodes that run the matches.
+ * Ownership is a lease: it expires unless the owner renews it, so the matches of a node that
+ * stops can be taken by another node.
+ * @since 19/10/2026
+ * @author
+ * Santiago Avellaneda, Andres Serrato, and Miguel Motta
+ */
+export default interface MatchOwnerRepository {
+  /**
+   * Claims a match for a node, unless another node owns it.
+   *
+   * @param {string} matchId - The ID of the match.
+   * @param {string} nodeId - The ID of the node.
+   * @param {number} ttlSeconds - The duration of the lease.
+   * @return {Promise<string>} A promise that resolves to the owner of the match after the claim.
+   */
+  claim(matchId: string, nodeId: string, ttlSeconds: number): Promise<string>;
+
+  /**
+   * Extends the lease of a match owned by a node.
+   *
+   * @param {string} matchId - The ID of the match.
+   * @param {string} nodeId - The ID of the node.
+   * @param {number} ttlSeconds - The duration of the lease.
+   * @return {Promise<boolean>} A promise that resolves to false if the node no longer owns the match.
+   */
+  renew(matchId: string, nodeId: string, ttlSeconds: number): Promise<boolean>;
+
+  /**
+   * Releases a match, only if it is owned by the given node.
+   *
+   * @param {string} matchId - The ID of the match.
+   * @param {string} nodeId - The ID of the node.
+   * @return {Promise<void>} A promise that resolves when the match is released.
+   */
+  release(matchId: string, nodeId: string): Promise<void>;
+
+  /**
+   * Retrieves the node that owns a match.
+   *
+   * @param {string} matchId - The ID of the match.
+   * @return {Promise<string | null>} A promise that resolves to the owner, or null if there is none.
+   */
+  getOwner(matchId: string): Promise<string | null>;
+}
@@ -0,0 +1,44 @@
+import type { MatchHistory, MatchResult, Pagination, PlayerStats } from './zod.js';
+/**
+ * @interface MatchResultRepository
+ * Defines the contract for a repository of the results of the finished matches.
+ * @since 19/10/2026
+ * @author
+ * Santiago Avellaneda, Andres Serrato, and Miguel Motta
+ */
+export default interface MatchResultRepository {
+  /**
+   * Saves the result of a finished match.
+   *
+   * @param {MatchResult} result - The result of the match.
+   * @return {Promise<void>} A promise that resolves when the result is saved.
+   */
+  saveResult(result: MatchResult): Promise<void>;
+
+  /**
+   * Retrieves a page of the matches played by a user, the most recent first.
+   *
+   * @param {string} userId - The ID of the user.
+   * @param {Pagination} pagination - The page and the number of results per page.
+   * @return {Promise<MatchHistory>} A promise that resolves to the page of results and the total.
+   */
+  getHistory(userId: string, pagination: Pagination): Promise<MatchHistory>;
+
+  /**
+   * Retrieves the results of a level, the oldest first.
+   *
+   * @param {number} level - The level of the matches.
+   * @param {string} map - The map of the matches, every map if it is not given.
+   * @param {Date} since - The date of the oldest match to retrieve, every match if it is not given.
+   * @return {Promise<MatchResult[]>} A promise that resolves to the results of the level.
+   */
+  getLevelResults(level: number, map?: string, since?: Date): Promise<MatchResult[]>;
+
+  /**
+   * Retrieves the statistics of a user over all the matches they played.
+   *
+   * @param {string} userId - The ID of the user.
+   * @return {Promise<PlayerStats>} A promise that resolves to the statistics of the user.
+   */
+  getStats(userId: string): Promise<PlayerStats>;
+}
@@ -0,0 +1,36 @@
+import type { Replay, ReplayEvent } from './zod.js';
+/**
+ * @interface ReplayRepository
+ * Defines the contract for a repository of the events recorded during the matches.
+ * @since 19/10/2026
+ * @author
+ * Santiago Avellaneda, Andres Serrato, and Miguel Motta
+ */
+export default interface ReplayRepository {
+  /**
+   * Appends an event at the end of the replay of a match.
+   *
+   * @param {string} matchId - The ID of the match.
+   * @param {ReplayEvent} event - The message received or sent, with the time it happened.
+   * @return {Promise<void>} A promise that resolves when the event is recorded.
+   */
+  appendEvent(matchId: string, event: ReplayEvent): Promise<void>;
+
+  /**
+   * Starts a new round of a match, keeping the events recorded so far as the replay of the
+   * previous round. The next rounds of a match keep its ID.
+   *
+   * @param {string} matchId - The ID of the match.
+   * @return {Promise<void>} A promise that resolves when the new round is recorded on its own.
+   */
+  startRound(matchId: string): Promise<void>;
+
+  /**
+   * Retrieves the timeline of a round of a match, with every event relative to the first one.
+   *
+   * @param {string} matchId - The ID of the match.
+   * @param {number} [round] - The round, starting at 1. The last round when omitted.
+   * @return {Promise<Replay | null>} A promise that resolves to the replay, or null if nothing was recorded.
+   */
+  getReplay(matchId: string, round?: number): Promise<Replay | null>;
+}
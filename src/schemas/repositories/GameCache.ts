@@ -1,7 +1,9 @@
-import type { MatchStorage } from '../zod.js';
+import type { MatchLogEvent, MatchStorage } from '../zod.js';
 /**
  * @interface GameCache
  * Interface for a game cache that handles match storage and retrieval.
+ * A match is kept as its last snapshot and the log of the events that changed it afterwards, so
+ * it can be restored by replaying the log on top of the snapshot.
  *
  * @since 07/05/2025
  * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
@@ -10,4 +12,6 @@ export default interface GameCache {
   saveMatch: (matchId: string, matchStorage: MatchStorage) => Promise<void>;
   getMatch: (matchId: string) => Promise<MatchStorage | null>;
   removeMatch: (matchId: string) => Promise<void>;
+  appendEvent: (matchId: string, event: MatchLogEvent) => Promise<void>;
+  getEvents: (matchId: string, afterIndex: number) => Promise<MatchLogEvent[]>;
 }
@@ -1,11 +1,18 @@
 import type { FastifyRedis } from '@fastify/redis';
 import { logger } from '../../server.js';
-import { type MatchStorage, validateMatchStorage } from '../zod.js';
+import {
+  type MatchLogEvent,
+  type MatchStorage,
+  validateMatchLogEvent,
+  validateMatchStorage,
+} from '../zod.js';
 import type GameCache from './GameCache.js';
 
 /**
  * This class implements the GameCache interface using Redis as the storage backend.
  * It provides methods to save and retrieve match data.
+ * The log of a match is a sorted set scored by the index of its events, so saving a snapshot drops
+ * the events it already contains.
  * @class GameCacheRedis
  *
  * @since 9/05/2025
@@ -19,7 +26,7 @@ export default class GameCacheRedis implements GameCache {
   }
   public async removeMatch(matchId: string): Promise<void> {
     const key = `match:${matchId}`;
-    await this.redis.del(key).catch((error) => {
+    await this.redis.del(key, this.getLogKey(matchId)).catch((error) => {
       logger.warn(`Error deleting match: ${matchId}`);
       logger.error(error);
     });
@@ -43,16 +50,22 @@ export default class GameCacheRedis implements GameCache {
       level: Number(flat.level),
       map: flat.map,
       timeSeconds: Number(flat.timeSeconds),
-      host: JSON.parse(flat.host),
-      guest: JSON.parse(flat.guest),
+      players: JSON.parse(flat.players),
       board: JSON.parse(flat.board),
       fruitGenerated: JSON.parse(flat.fruitGenerated),
       paused: JSON.parse(flat.paused),
+      ...(flat.settings && JSON.parse(flat.settings)),
+      ...(flat.sequence && { sequence: Number(flat.sequence) }),
+      ...(flat.logIndex && { logIndex: Number(flat.logIndex) }),
+      ...(flat.pausesUsed && { pausesUsed: JSON.parse(flat.pausesUsed) }),
+      ...(flat.pausedBy && { pausedBy: flat.pausedBy }),
+      ...(flat.pauseSecondsLeft && { pauseSecondsLeft: Number(flat.pauseSecondsLeft) }),
     });
   }
   /**
    * This method saves a match to the Redis cache.
    * It uses a hash to store the match data, with the key being the match ID.
+   * The events of the log up to the index of the snapshot are dropped.
    * @param {string} matchId The ID of the match to save.
    * @param {MatchStorage} matchStorage
    */
@@ -63,11 +76,23 @@ export default class GameCacheRedis implements GameCache {
       level: String(matchStorage.level),
       map: matchStorage.map,
       timeSeconds: String(matchStorage.timeSeconds),
-      host: JSON.stringify(matchStorage.host),
-      guest: JSON.stringify(matchStorage.guest),
+      players: JSON.stringify(matchStorage.players),
       board: JSON.stringify(matchStorage.board),
       fruitGenerated: JSON.stringify(matchStorage.fruitGenerated),
       paused: JSON.stringify(matchStorage.paused),
+      settings: JSON.stringify({
+        mode: matchStorage.mode,
+        seed: matchStorage.seed,
+        difficulty: matchStorage.difficulty,
+        solo: matchStorage.solo,
+        versus: matchStorage.versus,
+      }),
+      sequence: String(matchStorage.sequence ?? 0),
+      logIndex: String(matchStorage.logIndex ?? 0),
+      pausesUsed: JSON.stringify(matchStorage.pausesUsed ?? {}),
+      // Written empty when no pause is running, so the one of an older snapshot is overwritten
+      pausedBy: matchStorage.pausedBy ?? '',
+      pauseSecondsLeft: String(matchStorage.pauseSecondsLeft ?? ''),
     };
     const entries: string[] = Object.entries(flat).flat();
     await this.redis.hset(key, entries);
@@ -75,5 +100,41 @@ export default class GameCacheRedis implements GameCache {
       logger.warn(`Error setting expiration for match: ${matchId}`);
       logger.error(error);
     });
+    if (matchStorage.logIndex) {
+      await this.redis.zremrangebyscore(this.getLogKey(matchId), '-inf', matchStorage.logIndex);
+    }
+  }
+
+  /**
+   * This method appends an event to the log of a match, the log expires with the match.
+   * @param {string} matchId The ID of the match.
+   * @param {MatchLogEvent} event The event, scored by its index.
+   */
+  public async appendEvent(matchId: string, event: MatchLogEvent): Promise<void> {
+    const key = this.getLogKey(matchId);
+    await this.redis.zadd(key, event.index, JSON.stringify(event));
+    this.redis.expire(key, 15 * 60).catch((error) => {
+      logger.warn(`Error setting expiration for the log of match: ${matchId}`);
+      logger.error(error);
+    });
+  }
+
+  /**
+   * This method retrieves the events of the log of a match that follow an index, in order.
+   * @param {string} matchId The ID of the match.
+   * @param {number} afterIndex The index of the last event already applied.
+   * @returns {Promise<MatchLogEvent[]>} The events after the index.
+   */
+  public async getEvents(matchId: string, afterIndex: number): Promise<MatchLogEvent[]> {
+    const events = await this.redis.zrangebyscore(
+      this.getLogKey(matchId),
+      `(${afterIndex}`,
+      '+inf'
+    );
+    return events.map((event) => validateMatchLogEvent(JSON.parse(event)));
+  }
+
+  private getLogKey(matchId: string): string {
+    return `match-log:${matchId}`;
   }
 }
@@ -0,0 +1,232 @@
+import { randomUUID } from 'node:crypto';
+import type { FastifyRedis } from '@fastify/redis';
+import PlayerBot from '../../app/game/characters/players/PlayerBot.js';
+import type LeaderboardRepository from '../LeaderboardRepository.js';
+import type MatchResultRepository from '../MatchResultRepository.js';
+import {
+  type Leaderboard,
+  type LeaderboardEntry,
+  type LeaderboardQuery,
+  type LeaderboardScope,
+  type LeaderboardWindow,
+  type MatchResult,
+  validateLeaderboard,
+} from '../zod.js';
+
+type Metric = 'fastest-clear' | 'most-fruits' | 'win-streak' | 'current-streak';
+
+interface LeaderboardTarget {
+  level: number;
+  map: string;
+  window: LeaderboardWindow;
+  since?: Date;
+  // Set while the board is rebuilt under temporary keys
+  rebuild?: string;
+}
+
+interface LeaderboardMember {
+  member: string;
+  fruits: number;
+  won: boolean;
+}
+
+/**
+ * This class implements the LeaderboardRepository interface using Redis sorted sets.
+ * Every level keeps a board per map, plus one for all the maps, in a daily, a weekly and an
+ * all-time window. The results stored in Postgres are the source of truth: a board that is not
+ * in Redis, because it expired or Redis was flushed, is rebuilt from them when it is requested.
+ * @class LeaderboardRepositoryRedis
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class LeaderboardRepositoryRedis implements LeaderboardRepository {
+  private static readonly ALL_MAPS = '*';
+  private static readonly DAY_SECONDS = 24 * 60 * 60;
+  private static readonly WINDOWS_TTL: Record<LeaderboardWindow, number | null> = {
+    daily: 2 * LeaderboardRepositoryRedis.DAY_SECONDS,
+    weekly: 8 * LeaderboardRepositoryRedis.DAY_SECONDS,
+    'all-time': null,
+  };
+  private static readonly METRICS: Metric[] = [
+    'fastest-clear',
+    'most-fruits',
+    'win-streak',
+    'current-streak',
+  ];
+  private static readonly SCOPES: LeaderboardScope[] = ['individual', 'team'];
+  private readonly redis: FastifyRedis;
+  private readonly matchResultRepository: MatchResultRepository;
+
+  constructor(redis: FastifyRedis, matchResultRepository: MatchResultRepository) {
+    this.redis = redis;
+    this.matchResultRepository = matchResultRepository;
+  }
+
+  public async recordResult(result: MatchResult): Promise<void> {
+    const now = new Date();
+    const targets = [result.map, LeaderboardRepositoryRedis.ALL_MAPS].flatMap((map) =>
+      (Object.keys(LeaderboardRepositoryRedis.WINDOWS_TTL) as LeaderboardWindow[]).map((window) =>
+        this.getTarget(result.level, map, window, now)
+      )
+    );
+    await Promise.all(targets.map((target) => this.addResult(target, result)));
+  }
+
+  public async getLeaderboard(query: LeaderboardQuery): Promise<Leaderboard> {
+    const { level, map, window, scope, limit } = query;
+    const target = this.getTarget(
+      level,
+      map ?? LeaderboardRepositoryRedis.ALL_MAPS,
+      window,
+      new Date()
+    );
+    if (!(await this.redis.exists(this.getBuiltKey(target)))) await this.rebuild(target);
+    const [fastestClear, mostFruits, longestStreak] = await Promise.all([
+      this.getEntries(this.getKey(target, scope, 'fastest-clear'), limit, true),
+      this.getEntries(this.getKey(target, scope, 'most-fruits'), limit, false),
+      this.getEntries(this.getKey(target, scope, 'win-streak'), limit, false),
+    ]);
+    return validateLeaderboard({
+      level,
+      map: map ?? null,
+      window,
+      scope,
+      fastestClear,
+      mostFruits,
+      longestStreak,
+    });
+  }
+
+  /**
+   * Replaces a board with the one computed from the results stored in Postgres.
+   * The board is built under temporary keys and swapped in at once, so neither a concurrent
+   * rebuild nor a result recorded meanwhile is counted twice.
+   */
+  private async rebuild(target: LeaderboardTarget): Promise<void> {
+    const map = target.map === LeaderboardRepositoryRedis.ALL_MAPS ? undefined : target.map;
+    const results = await this.matchResultRepository.getLevelResults(
+      target.level,
+      map,
+      target.since
+    );
+    const building = { ...target, rebuild: randomUUID() };
+    // The streaks depend on the order of the results, so they are added one at a time
+    for (const result of results) await this.addResult(building, result);
+    const swap = this.redis.multi();
+    for (const scope of LeaderboardRepositoryRedis.SCOPES) {
+      for (const metric of LeaderboardRepositoryRedis.METRICS) {
+        const key = this.getKey(target, scope, metric);
+        const built = this.getKey(building, scope, metric);
+        // A metric without results has no key to rename, its board is emptied instead
+        if (await this.redis.exists(built)) swap.rename(built, key);
+        else swap.del(key);
+      }
+    }
+    const ttl = LeaderboardRepositoryRedis.WINDOWS_TTL[target.window];
+    if (ttl) swap.set(this.getBuiltKey(target), '1', 'EX', ttl);
+    else swap.set(this.getBuiltKey(target), '1');
+    await swap.exec();
+  }
+
+  private async addResult(target: LeaderboardTarget, result: MatchResult): Promise<void> {
+    const cleared = !result.versus && result.result === 'win';
+    for (const scope of LeaderboardRepositoryRedis.SCOPES) {
+      for (const { member, fruits, won } of this.getMembers(result, scope)) {
+        if (cleared) {
+          const key = this.getKey(target, scope, 'fastest-clear');
+          await this.redis.zadd(key, 'LT', result.durationSeconds, member);
+        }
+        await this.redis.zincrby(this.getKey(target, scope, 'most-fruits'), fruits, member);
+        const streaksKey = this.getKey(target, scope, 'current-streak');
+        if (won) {
+          const streak = await this.redis.hincrby(streaksKey, member, 1);
+          await this.redis.zadd(this.getKey(target, scope, 'win-streak'), 'GT', streak, member);
+        } else {
+          await this.redis.hset(streaksKey, member, 0);
+        }
+      }
+      await this.expire(target, scope);
+    }
+  }
+
+  /**
+   * Retrieves who competes in each scope: every player on their own, or the players of a
+   * cooperative match together as a team.
+   */
+  private getMembers(result: MatchResult, scope: LeaderboardScope): LeaderboardMember[] {
+    const players = result.players.filter(({ id }) => !PlayerBot.isBot(id));
+    if (players.length === 0) return [];
+    if (scope === 'individual') {
+      return players.map(({ id, fruits, result: outcome }) => ({
+        member: id,
+        fruits,
+        won: outcome === 'win',
+      }));
+    }
+    if (result.versus) return [];
+    return [
+      {
+        member: players
+          .map(({ id }) => id)
+          .sort()
+          .join(','),
+        fruits: players.reduce((total, { fruits }) => total + fruits, 0),
+        won: result.result === 'win',
+      },
+    ];
+  }
+
+  private async getEntries(
+    key: string,
+    limit: number,
+    ascending: boolean
+  ): Promise<LeaderboardEntry[]> {
+    const flat = ascending
+      ? await this.redis.zrange(key, 0, limit - 1, 'WITHSCORES')
+      : await this.redis.zrevrange(key, 0, limit - 1, 'WITHSCORES');
+    const entries: LeaderboardEntry[] = [];
+    for (let i = 0; i < flat.length; i += 2) {
+      entries.push({ rank: i / 2 + 1, players: flat[i].split(','), score: Number(flat[i + 1]) });
+    }
+    return entries;
+  }
+
+  private async expire(target: LeaderboardTarget, scope: LeaderboardScope): Promise<void> {
+    const ttl = LeaderboardRepositoryRedis.WINDOWS_TTL[target.window];
+    if (!ttl) return;
+    for (const metric of LeaderboardRepositoryRedis.METRICS) {
+      await this.redis.expire(this.getKey(target, scope, metric), ttl);
+    }
+  }
+
+  /**
+   * Builds the board of a time window, the daily and weekly windows start at midnight UTC of the
+   * current day and of the last Monday.
+   */
+  private getTarget(
+    level: number,
+    map: string,
+    window: LeaderboardWindow,
+    now: Date
+  ): LeaderboardTarget {
+    if (window === 'all-time') return { level, map, window };
+    const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    if (window === 'weekly') since.setUTCDate(since.getUTCDate() - ((since.getUTCDay() + 6) % 7));
+    return { level, map, window, since };
+  }
+
+  private getKey(target: LeaderboardTarget, scope: LeaderboardScope, metric: Metric): string {
+    return `${this.getBoardKey(target)}:${scope}:${metric}`;
+  }
+
+  private getBuiltKey(target: LeaderboardTarget): string {
+    return `${this.getBoardKey(target)}:built`;
+  }
+
+  private getBoardKey({ level, map, window, since, rebuild }: LeaderboardTarget): string {
+    const start = since ? `:${since.toISOString().slice(0, 10)}` : '';
+    const temporary = rebuild ? `:rebuild:${rebuild}` : '';
+    return `leaderboard:${level}:${map}:${window}${start}${temporary}`;
+  }
+}
@@ -0,0 +1,84 @@
+import type { CustomLevel as CustomLevelModel, PrismaClient } from '@prisma/client';
+import LevelError from '../../errors/LevelError.js';
+import type LevelRepository from '../LevelRepository.js';
+import { type CustomLevel, validateCustomLevel } from '../zod.js';
+
+export default class LevelRepositoryPostgres implements LevelRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  public async getLevels(map?: string): Promise<CustomLevel[]> {
+    const levels = await this.prisma.customLevel.findMany({
+      where: map ? { map } : undefined,
+      orderBy: [{ map: 'asc' }, { level: 'asc' }],
+    });
+    return levels.map((level) => this.toCustomLevel(level));
+  }
+
+  public async getLevel(map: string, level: number): Promise<CustomLevel> {
+    const customLevel = await this.prisma.customLevel.findUnique({
+      where: { map_level: { map, level } },
+    });
+    if (!customLevel) throw new LevelError(LevelError.LEVEL_NOT_FOUND);
+    return this.toCustomLevel(customLevel);
+  }
+
+  public async createLevel(level: CustomLevel): Promise<void> {
+    await this.prisma.customLevel.create({ data: level });
+  }
+
+  public async updateLevel(level: CustomLevel): Promise<void> {
+    const { map, level: levelNumber } = level;
+    const count = await this.prisma.customLevel.count({ where: { map, level: levelNumber } });
+    if (count === 0) throw new LevelError(LevelError.LEVEL_NOT_FOUND);
+
+    await this.prisma.customLevel.update({
+      where: { map_level: { map, level: levelNumber } },
+      data: {
+        name: level.name ?? null,
+        fruits: level.fruits,
+        enemy: level.enemy,
+        enemiesSpeedOffsetMs: level.enemiesSpeedOffsetMs ?? null,
+        rows: level.rows,
+        cols: level.cols,
+        playersStartCoordinates: level.playersStartCoordinates,
+        enemiesCoordinates: level.enemiesCoordinates,
+        enemiesTypes: level.enemiesTypes ?? [],
+        fruitsCoordinates: level.fruitsCoordinates,
+        freezedCells: level.freezedCells,
+        rocksCoordinates: level.rocksCoordinates,
+      },
+    });
+  }
+
+  public async removeLevel(map: string, level: number): Promise<void> {
+    const count = await this.prisma.customLevel.count({ where: { map, level } });
+    if (count === 0) throw new LevelError(LevelError.LEVEL_NOT_FOUND);
+
+    await this.prisma.customLevel.delete({
+      where: { map_level: { map, level } },
+    });
+  }
+
+  private toCustomLevel(level: CustomLevelModel): CustomLevel {
+    return validateCustomLevel({
+      level: level.level,
+      map: level.map,
+      name: level.name ?? undefined,
+      fruits: level.fruits,
+      enemy: level.enemy,
+      enemiesSpeedOffsetMs: level.enemiesSpeedOffsetMs ?? undefined,
+      rows: level.rows,
+      cols: level.cols,
+      playersStartCoordinates: level.playersStartCoordinates,
+      enemiesCoordinates: level.enemiesCoordinates,
+      enemiesTypes: level.enemiesTypes ?? undefined,
+      fruitsCoordinates: level.fruitsCoordinates,
+      freezedCells: level.freezedCells,
+      rocksCoordinates: level.rocksCoordinates,
+    });
+  }
+}
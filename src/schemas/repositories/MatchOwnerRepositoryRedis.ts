@@ -0,0 +1,72 @@
+import type { FastifyRedis } from '@fastify/redis';
+import type MatchOwnerRepository from '../MatchOwnerRepository.js';
+
+/**
+ * This class implements the MatchOwnerRepository interface using Redis as the storage backend.
+ * The owner of a match is a key that expires with the lease, it is only changed with scripts that
+ * check the current owner, so two nodes can never overwrite each other.
+ * @class MatchOwnerRepositoryRedis
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class MatchOwnerRepositoryRedis implements MatchOwnerRepository {
+  private static readonly CLAIM_SCRIPT = `
+    local owner = redis.call('GET', KEYS[1])
+    if not owner then
+      redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+      return ARGV[1]
+    end
+    if owner == ARGV[1] then redis.call('EXPIRE', KEYS[1], ARGV[2]) end
+    return owner`;
+  private static readonly RENEW_SCRIPT = `
+    if redis.call('GET', KEYS[1]) ~= ARGV[1] then return 0 end
+    return redis.call('EXPIRE', KEYS[1], ARGV[2])`;
+  private static readonly RELEASE_SCRIPT = `
+    if redis.call('GET', KEYS[1]) ~= ARGV[1] then return 0 end
+    return redis.call('DEL', KEYS[1])`;
+  private readonly redis: FastifyRedis;
+
+  constructor(redis: FastifyRedis) {
+    this.redis = redis;
+  }
+
+  public async claim(matchId: string, nodeId: string, ttlSeconds: number): Promise<string> {
+    const owner = await this.redis.eval(
+      MatchOwnerRepositoryRedis.CLAIM_SCRIPT,
+      1,
+      this.getKey(matchId),
+      nodeId,
+      ttlSeconds
+    );
+    return String(owner);
+  }
+
+  public async renew(matchId: string, nodeId: string, ttlSeconds: number): Promise<boolean> {
+    const renewed = await this.redis.eval(
+      MatchOwnerRepositoryRedis.RENEW_SCRIPT,
+      1,
+      this.getKey(matchId),
+      nodeId,
+      ttlSeconds
+    );
+    return renewed === 1;
+  }
+
+  public async release(matchId: string, nodeId: string): Promise<void> {
+    await this.redis.eval(
+      MatchOwnerRepositoryRedis.RELEASE_SCRIPT,
+      1,
+      this.getKey(matchId),
+      nodeId
+    );
+  }
+
+  public async getOwner(matchId: string): Promise<string | null> {
+    return await this.redis.get(this.getKey(matchId));
+  }
+
+  private getKey(matchId: string): string {
+    return `match-owner:${matchId}`;
+  }
+}
@@ -20,17 +20,25 @@ export default class MatchRepositoryPostgres implements MatchRepository {
     if (!match) throw new MatchError(MatchError.MATCH_NOT_FOUND);
 
     const host = match.players.find((player) => player.playerRole === 'HOST')?.id;
-    const guest = match.players.find((player) => player.playerRole === 'GUEST')?.id;
+    const guests = match.players
+      .filter((player) => player.playerRole === 'GUEST')
+      .map((player) => player.id);
 
     if (!host) throw new MatchError(MatchError.PLAYER_NOT_FOUND);
 
     const matchDetails = validateMatchDetails({
       id: match.id,
       host,
-      guest: guest ?? null,
+      players: [host, ...guests],
+      playersNumber: match.playersNumber,
       level: match.level,
       map: match.map,
       started: match.started,
+      mode: match.mode,
+      seed: match.seed,
+      difficulty: match.difficulty,
+      solo: match.solo,
+      versus: match.versus,
     });
     return matchDetails;
   }
@@ -66,6 +74,12 @@ export default class MatchRepositoryPostgres implements MatchRepository {
         level: matchData.level,
         map: matchData.map,
         started: matchData.started,
+        mode: matchData.mode,
+        seed: matchData.seed,
+        difficulty: matchData.difficulty,
+        solo: matchData.solo,
+        versus: matchData.versus,
+        playersNumber: matchData.playersNumber,
       },
     });
   }
@@ -77,6 +91,12 @@ export default class MatchRepositoryPostgres implements MatchRepository {
         level: match.level,
         map: match.map,
         started: match.started ?? false,
+        mode: match.mode,
+        seed: match.seed,
+        difficulty: match.difficulty,
+        solo: match.solo ?? false,
+        versus: match.versus ?? false,
+        playersNumber: match.playersNumber,
         // no tocamos players aquí
         expiredAt: new Date(Date.now() + 20 * 60 * 1000),
       },
@@ -18,7 +18,11 @@ export default class MatchRepositoryRedis implements MatchRepository {
     if (Object.keys(match).length === 0) {
       throw new MatchError(MatchError.MATCH_NOT_FOUND);
     }
-    await redis.hset(`matches:${matchId}`, matchData);
+    const { players, ...data } = matchData;
+    await redis.hset(`matches:${matchId}`, {
+      ...data,
+      ...(players && { players: JSON.stringify(players) }),
+    });
     await redis.expire(`matches:${matchId}`, 10 * 60);
   }
   public async matchExists(matchId: string): Promise<boolean> {
@@ -32,13 +36,27 @@ export default class MatchRepositoryRedis implements MatchRepository {
       matchId,
       'host',
       match.host,
-      'guest',
-      match.guest ?? '',
+      'players',
+      JSON.stringify(match.players),
+      'playersNumber',
+      match.playersNumber,
       'level',
       match.level,
       'map',
       match.map
     );
+    const settings = {
+      mode: match.mode,
+      seed: match.seed,
+      difficulty: match.difficulty,
+      solo: match.solo,
+      versus: match.versus,
+      started: match.started,
+    };
+    const definedSettings = Object.entries(settings).filter(([, value]) => value !== undefined);
+    if (definedSettings.length > 0) {
+      await redis.hset(`matches:${matchId}`, Object.fromEntries(definedSettings));
+    }
     await redis.expire(`matches:${matchId}`, 10 * 60);
   }
 }
@@ -0,0 +1,110 @@
+import type { MatchResult as MatchResultModel, PrismaClient } from '@prisma/client';
+import type MatchResultRepository from '../MatchResultRepository.js';
+import {
+  type MatchHistory,
+  type MatchResult,
+  type Pagination,
+  type PlayerStats,
+  validateMatchResult,
+} from '../zod.js';
+
+export default class MatchResultRepositoryPostgres implements MatchResultRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  public async saveResult(result: MatchResult): Promise<void> {
+    await this.prisma.matchResult.create({
+      data: {
+        matchId: result.matchId,
+        level: result.level,
+        map: result.map,
+        mode: result.mode,
+        versus: result.versus,
+        result: result.result,
+        winner: result.winner,
+        durationSeconds: result.durationSeconds,
+        enemiesFaced: result.enemiesFaced,
+        players: result.players.map(({ id }) => id),
+        scores: result.players,
+      },
+    });
+  }
+
+  public async getHistory(userId: string, pagination: Pagination): Promise<MatchHistory> {
+    const { page, pageSize } = pagination;
+    const where = { players: { has: userId } };
+    const [results, total] = await Promise.all([
+      this.prisma.matchResult.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      this.prisma.matchResult.count({ where }),
+    ]);
+    return { results: results.map((result) => this.toMatchResult(result)), page, pageSize, total };
+  }
+
+  public async getLevelResults(level: number, map?: string, since?: Date): Promise<MatchResult[]> {
+    const results = await this.prisma.matchResult.findMany({
+      where: {
+        level,
+        ...(map && { map }),
+        ...(since && { createdAt: { gte: since } }),
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+    return results.map((result) => this.toMatchResult(result));
+  }
+
+  public async getStats(userId: string): Promise<PlayerStats> {
+    const models = await this.prisma.matchResult.findMany({
+      where: { players: { has: userId } },
+    });
+    const results: MatchResult[] = models.map((model) => this.toMatchResult(model));
+    const stats: PlayerStats = {
+      userId,
+      matches: 0,
+      wins: 0,
+      losses: 0,
+      draws: 0,
+      fruits: 0,
+      deaths: 0,
+      playedSeconds: 0,
+      highestLevel: 0,
+    };
+    for (const result of results) {
+      const player = result.players.find(({ id }) => id === userId);
+      if (!player) continue;
+      stats.matches++;
+      if (player.result === 'win') stats.wins++;
+      if (player.result === 'lose') stats.losses++;
+      if (player.result === 'draw') stats.draws++;
+      stats.fruits += player.fruits;
+      stats.deaths += player.deaths;
+      stats.playedSeconds += result.durationSeconds;
+      stats.highestLevel = Math.max(stats.highestLevel, result.level);
+    }
+    return stats;
+  }
+
+  private toMatchResult(result: MatchResultModel): MatchResult {
+    return validateMatchResult({
+      id: result.id,
+      matchId: result.matchId,
+      level: result.level,
+      map: result.map,
+      mode: result.mode,
+      versus: result.versus,
+      result: result.result,
+      winner: result.winner,
+      durationSeconds: result.durationSeconds,
+      enemiesFaced: result.enemiesFaced,
+      players: result.scores,
+      playedAt: result.createdAt.toISOString(),
+    });
+  }
+}
@@ -0,0 +1,70 @@
+import type { FastifyRedis } from '@fastify/redis';
+import type ReplayRepository from '../ReplayRepository.js';
+import { type Replay, type ReplayEvent, validateReplayEvent } from '../zod.js';
+
+/**
+ * This class implements the ReplayRepository interface using Redis as the storage backend.
+ * The events of the round being played are kept in order in the list `replay:<matchId>`, which
+ * is renamed to `replay:<matchId>:<round>` when the next round starts, and every list expires a
+ * week after its last event.
+ * @class ReplayRepositoryRedis
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export default class ReplayRepositoryRedis implements ReplayRepository {
+  private static readonly REPLAY_TTL_SECONDS = 7 * 24 * 60 * 60;
+  private readonly redis: FastifyRedis;
+
+  constructor(redis: FastifyRedis) {
+    this.redis = redis;
+  }
+
+  public async appendEvent(matchId: string, event: ReplayEvent): Promise<void> {
+    const key = this.getKey(matchId);
+    await this.redis.rpush(key, JSON.stringify(event));
+    await this.redis.expire(key, ReplayRepositoryRedis.REPLAY_TTL_SECONDS);
+  }
+
+  public async startRound(matchId: string): Promise<void> {
+    const key = this.getKey(matchId);
+    if (!(await this.redis.exists(key))) return;
+    const round = await this.redis.incr(this.getRoundsKey(matchId));
+    await this.redis
+      .multi()
+      .rename(key, this.getKey(matchId, round))
+      .expire(this.getRoundsKey(matchId), ReplayRepositoryRedis.REPLAY_TTL_SECONDS)
+      .exec();
+  }
+
+  public async getReplay(matchId: string, round?: number): Promise<Replay | null> {
+    const current = Number((await this.redis.get(this.getRoundsKey(matchId))) ?? 0) + 1;
+    const requested = round ?? current;
+    const key = requested === current ? this.getKey(matchId) : this.getKey(matchId, requested);
+    const flat = await this.redis.lrange(key, 0, -1);
+    if (flat.length === 0) return null;
+    const events = flat.map((event) => validateReplayEvent(JSON.parse(event)));
+    const start = events[0].timestamp;
+    return {
+      matchId,
+      round: requested,
+      startedAt: new Date(start).toISOString(),
+      durationMs: events[events.length - 1].timestamp - start,
+      events: events.map(({ timestamp, ...event }) => ({ ...event, offsetMs: timestamp - start })),
+    };
+  }
+
+  /**
+   * Retrieves the key of the round being played, or of a finished round when given.
+   */
+  private getKey(matchId: string, round?: number): string {
+    return round === undefined ? `replay:${matchId}` : `replay:${matchId}:${round}`;
+  }
+
+  /**
+   * Retrieves the key that counts the finished rounds of a match.
+   */
+  private getRoundsKey(matchId: string): string {
+    return `replay:${matchId}:rounds`;
+  }
+}
@@ -5,9 +5,19 @@ const infoSchema = z.object({
 });
 const playersTypeSchema = z.enum(['HOST', 'GUEST']);
 const directionSchema = z.enum(['up', 'down', 'left', 'right']);
+const gameModeSchema = z.enum(['classic', 'procedural', 'endless']);
+const difficultySchema = z.enum(['easy', 'normal', 'hard']);
+const seedSchema = z.number().int().nonnegative().max(2147483647);
+const playersNumberSchema = z.number().int().min(1).max(4);
 const matchInputDTOSchema = z.object({
   level: z.number().nonnegative(),
   map: z.string().nonempty(),
+  mode: gameModeSchema.optional(),
+  seed: seedSchema.optional(),
+  difficulty: difficultySchema.optional(),
+  solo: z.boolean().optional(),
+  versus: z.boolean().optional(),
+  playersNumber: playersNumberSchema.optional(),
 });
 const enemiesTypesSchema = z.enum(['troll', 'cow', 'log-man', 'squid-blue', 'squid-green']);
 const itemsTypesSchema = z.enum(['rock', 'fruit', 'specialfruit']);
@@ -22,6 +32,12 @@ const cellCordinatesSchema = z.object({
   y: z.number().nonnegative(),
 });
 
+const boundedCellCordinatesSchema = (rows: number, cols: number) =>
+  cellCordinatesSchema.extend({
+    x: z.number().int().nonnegative().lt(rows),
+    y: z.number().int().nonnegative().lt(cols),
+  });
+
 const cellDTOSchema = z.object({
   coordinates: cellCordinatesSchema,
   item: boardItemSchema.nullable(),
@@ -33,6 +49,18 @@ const playerStateSchema = z.object({
   id: z.string().nonempty(),
   state: z.enum(['dead', 'alive']),
   color: z.string().optional(),
+  score: z.number().int().nonnegative().optional(),
+});
+
+const playerScoreSchema = z.object({
+  id: z.string().nonempty(),
+  fruits: z.number().int().nonnegative(),
+  deaths: z.number().int().nonnegative(),
+  scoredAt: z.number().nonnegative(),
+});
+
+const playerRankingSchema = playerScoreSchema.extend({
+  position: z.number().int().positive(),
 });
 
 const fruitsSchema = z.object({
@@ -44,7 +72,9 @@ const fruitsSchema = z.object({
 });
 
 const EndMatchSchema = z.object({
-  result: z.enum(['win', 'lose', 'end game']),
+  result: z.enum(['win', 'lose', 'draw', 'end game']),
+  winner: z.string().nullable().optional(),
+  ranking: z.array(playerRankingSchema).optional(),
 });
 
 const enemyStateSchema = z.enum(['walking', 'roling', 'stopped']);
@@ -66,6 +96,7 @@ const playerMoveSchema = z.object({
   state: z.enum(['alive', 'dead']),
   idItemConsumed: z.string().optional(),
   numberOfFruits: z.number().optional(),
+  score: z.number().int().nonnegative().optional(),
 });
 
 const updateTimeSchema = z.object({
@@ -94,8 +125,10 @@ const gameMessageInputSchema = z.object({
     'update-all',
     'set-name',
     'set-state',
+    'resync',
   ]),
   payload: z.union([directionSchema, z.string()]),
+  seq: z.number().int().nonnegative().optional(),
 });
 
 const updateFrozenCellsSchema = z.object({
@@ -111,6 +144,53 @@ const partialUserQueueSchema = z.object({
   status: z.enum(['WAITING', 'PLAYING', 'READY']).optional(),
 });
 
+const messageEncodingSchema = z.enum(['json', 'msgpack']);
+
+const protocolVersionSchema = z.number().int().positive();
+
+const helloSchema = z.object({
+  protocolVersion: protocolVersionSchema,
+  supportedVersions: z.array(protocolVersionSchema).nonempty(),
+  encoding: messageEncodingSchema,
+});
+
+const inputRejectReasonSchema = z.enum([
+  'blocked',
+  'border',
+  'dead',
+  'paused',
+  'throttled',
+  'invalid',
+]);
+
+const inputAckSchema = z.object({
+  inputSeq: z.number().int().nonnegative(),
+  move: playerMoveSchema,
+});
+
+const inputRejectSchema = inputAckSchema.extend({
+  reason: inputRejectReasonSchema,
+});
+
+const serverRestartingSchema = z.object({
+  reconnectInMs: z.number().int().nonnegative(),
+});
+
+const playerDisconnectedSchema = z.object({
+  id: z.string().nonempty(),
+  secondsLeft: z.number().int().nonnegative(),
+});
+
+const playerReconnectedSchema = playerDisconnectedSchema.pick({ id: true });
+
+const pauseStateSchema = z.object({
+  paused: z.boolean(),
+  by: z.string().nonempty().optional(),
+  secondsLeft: z.number().int().nonnegative().optional(),
+  pausesLeft: z.record(z.string(), z.number().int().nonnegative()).optional(),
+  resumeVotes: z.array(z.string()),
+});
+
 const gameMessageOutputSchema = z.object({
   type: z.enum([
     'update-state',
@@ -126,6 +206,12 @@ const gameMessageOutputSchema = z.object({
     'update-special-fruit',
     'timeout',
     'player-update',
+    'hello',
+    'ack',
+    'reject',
+    'server-restarting',
+    'player-disconnected',
+    'player-reconnected',
   ]),
   payload: z.union([
     playerStateSchema,
@@ -140,14 +226,32 @@ const gameMessageOutputSchema = z.object({
     z.boolean(),
     cellDTOSchema,
     infoSchema,
+    helloSchema,
+    inputRejectSchema,
+    inputAckSchema,
+    serverRestartingSchema,
+    playerDisconnectedSchema,
+    playerReconnectedSchema,
+    pauseStateSchema,
     partialUserQueueSchema,
   ]),
+  seq: z.number().int().nonnegative().optional(),
 });
 
 const matchDetailsSchema = z.object({
   id: z.string().nonempty(),
   host: z.string().nonempty(),
-  guest: z.string().nullable(),
+  players: z.preprocess(
+    (val) => (typeof val === 'string' ? JSON.parse(val) : val),
+    z.array(z.string().nonempty())
+  ),
+  playersNumber: z.preprocess((val) => {
+    if (typeof val === 'string') {
+      const parsed = Number.parseInt(val, 10);
+      return Number.isNaN(parsed) ? undefined : parsed;
+    }
+    return val ?? undefined;
+  }, playersNumberSchema.default(2)),
   level: z.preprocess((val) => {
     if (typeof val === 'string') {
       const parsed = Number.parseInt(val, 10);
@@ -163,6 +267,23 @@ const matchDetailsSchema = z.object({
     }
     return val;
   }, z.boolean().optional()),
+  mode: gameModeSchema.optional(),
+  seed: z.preprocess((val) => {
+    if (typeof val === 'string') {
+      const parsed = Number.parseInt(val, 10);
+      return Number.isNaN(parsed) ? undefined : parsed;
+    }
+    return val ?? undefined;
+  }, seedSchema.optional()),
+  difficulty: difficultySchema.optional(),
+  solo: z.preprocess((val) => {
+    if (typeof val === 'string') return val === 'true';
+    return val ?? undefined;
+  }, z.boolean().optional()),
+  versus: z.preprocess((val) => {
+    if (typeof val === 'string') return val === 'true';
+    return val ?? undefined;
+  }, z.boolean().optional()),
 });
 
 const userQueueSchema = z.object({
@@ -177,6 +298,8 @@ const userQueueSchema = z.object({
 const customMapKeySchema = z.object({
   map: z.string().nonempty(),
   level: z.number().nonnegative(),
+  playersNumber: playersNumberSchema.optional(),
+  versus: z.boolean().optional(),
 });
 
 const pathResultSchema = z.object({
@@ -194,6 +317,10 @@ const PlayerStorageSchema = z.object({
   coordinates: cellCordinatesSchema,
   direction: directionSchema,
   state: z.enum(['dead', 'alive']),
+  fruits: z.number().int().nonnegative().optional(),
+  deaths: z.number().int().nonnegative().optional(),
+  scoredAt: z.number().nonnegative().optional(),
+  speed: z.number().positive().optional(),
 });
 
 const BoardStorageSchema = z.object({
@@ -213,16 +340,188 @@ const MatchStorageSchema = z.object({
   level: z.number().nonnegative(),
   map: z.string().nonempty(),
   timeSeconds: z.number().nonnegative(),
-  host: PlayerStorageSchema,
-  guest: PlayerStorageSchema,
+  players: z.array(PlayerStorageSchema).min(1),
   board: BoardStorageSchema,
   fruitGenerated: z.boolean(),
   paused: z.boolean(),
+  mode: gameModeSchema.default('classic'),
+  seed: seedSchema.optional(),
+  difficulty: difficultySchema.optional(),
+  solo: z.boolean().optional(),
+  versus: z.boolean().optional(),
+  sequence: z.number().int().nonnegative().optional(),
+  logIndex: z.number().int().nonnegative().optional(),
+  pausesUsed: z.record(z.string(), z.number().int().nonnegative()).optional(),
+  pausedBy: z.string().nonempty().optional(),
+  pauseSecondsLeft: z.number().int().nonnegative().optional(),
+});
+
+const matchLogEventSchema = z.object({
+  index: z.number().int().positive(),
+  timestamp: z.number().int().nonnegative(),
+  userId: z.string().nonempty(),
+  type: gameMessageInputSchema.shape.type,
+  payload: z.string(),
+  sequence: z.number().int().nonnegative(),
 });
+
+const levelGridSchema = z
+  .array(z.string().regex(/^[.RF#EPTCLBG]+$/, 'Unknown symbol in level grid'))
+  .nonempty()
+  .refine(
+    (rows) => rows.every((row) => row.length === rows[0].length),
+    'Every grid row must have the same number of cells'
+  )
+  .refine((rows) => {
+    const starts = rows.join('').split('P').length - 1;
+    return starts >= 1 && starts <= 4;
+  }, 'The grid must have between one and four player start cells');
+
+const levelDefinitionSchema = z.object({
+  level: z.number().int().positive(),
+  map: z.string().nonempty(),
+  name: z.string().nonempty().optional(),
+  fruits: z.array(z.string().nonempty()).nonempty(),
+  enemy: enemiesTypesSchema,
+  enemiesSpeedOffsetMs: z.number().optional(),
+  grid: levelGridSchema,
+});
+const levelCoordinatesSchema = z.array(z.array(z.number().int()).length(2));
+
+const customLevelSchema = levelDefinitionSchema
+  .omit({ grid: true })
+  .extend({
+    rows: z.number().int().positive().default(16),
+    cols: z.number().int().positive().default(16),
+    playersStartCoordinates: levelCoordinatesSchema.min(1).max(4),
+    enemiesCoordinates: levelCoordinatesSchema,
+    enemiesTypes: z.array(enemiesTypesSchema.nullable()).optional(),
+    fruitsCoordinates: levelCoordinatesSchema.nonempty(),
+    freezedCells: levelCoordinatesSchema,
+    rocksCoordinates: levelCoordinatesSchema,
+  })
+  .refine(
+    (level) => !level.enemiesTypes || level.enemiesTypes.length === level.enemiesCoordinates.length,
+    'Every enemy spawn must have a type'
+  );
+const matchOutcomeSchema = z.enum(['win', 'lose', 'draw']);
+
+const playerResultSchema = playerRankingSchema.extend({
+  result: matchOutcomeSchema,
+});
+
+const matchResultSchema = z.object({
+  id: z.string().nonempty().optional(),
+  matchId: z.string().nonempty(),
+  level: z.number().int().nonnegative(),
+  map: z.string().nonempty(),
+  mode: gameModeSchema.default('classic'),
+  versus: z.boolean().default(false),
+  result: matchOutcomeSchema,
+  winner: z.string().nullable(),
+  durationSeconds: z.number().int().nonnegative(),
+  enemiesFaced: z.number().int().nonnegative(),
+  players: z.array(playerResultSchema).min(1),
+  playedAt: z.string().datetime().optional(),
+});
+
+const paginationSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const leaderboardQuerySchema = z.object({
+  level: z.coerce.number().int().nonnegative(),
+  map: z.string().nonempty().optional(),
+  window: z.enum(['daily', 'weekly', 'all-time']).default('all-time'),
+  scope: z.enum(['individual', 'team']).default('individual'),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+});
+
+const leaderboardEntrySchema = z.object({
+  rank: z.number().int().positive(),
+  players: z.array(z.string().nonempty()).min(1),
+  score: z.number().nonnegative(),
+});
+
+const leaderboardSchema = leaderboardQuerySchema.omit({ limit: true, map: true }).extend({
+  map: z.string().nonempty().nullable(),
+  fastestClear: z.array(leaderboardEntrySchema),
+  mostFruits: z.array(leaderboardEntrySchema),
+  longestStreak: z.array(leaderboardEntrySchema),
+});
+
+const replaySourceSchema = z.enum(['input', 'output']);
+
+const replayMessageSchema = z.custom<
+  z.infer<typeof gameMessageInputSchema> | z.infer<typeof gameMessageOutputSchema>
+>(
+  (val) =>
+    typeof val === 'object' && val !== null && typeof (val as { type?: unknown }).type === 'string',
+  'A replay message must have a type'
+);
+
+const replayEventSchema = z.object({
+  timestamp: z.number().int().nonnegative(),
+  source: replaySourceSchema,
+  userId: z.string().nonempty().optional(),
+  message: replayMessageSchema,
+});
+
+const replayQuerySchema = z.object({
+  round: z.coerce.number().int().min(1).optional(),
+});
+
+const replayStreamQuerySchema = replayQuerySchema.extend({
+  speed: z.preprocess(
+    (val) => (typeof val === 'string' ? Number(val) : val),
+    z.union([z.literal(1), z.literal(2), z.literal(4)]).default(1)
+  ),
+});
+
+const handshakeQuerySchema = z.object({
+  encoding: messageEncodingSchema.optional(),
+  protocol: z.preprocess(
+    (val) => (typeof val === 'string' ? Number(val) : val),
+    protocolVersionSchema.optional()
+  ),
+});
+
+// Messages relayed between the nodes for the sockets connected to a node that does not run the match
+const relayOpenSchema = z.object({
+  kind: z.literal('open'),
+  connectionId: z.string().nonempty(),
+  nodeId: z.string().nonempty(),
+  route: z.string().nonempty(),
+  params: z.record(z.string()),
+  encoding: messageEncodingSchema,
+});
+
+const relayFrameSchema = z.object({
+  kind: z.literal('frame'),
+  connectionId: z.string().nonempty(),
+  data: z.string(),
+  binary: z.boolean(),
+});
+
+const relayCloseSchema = z.object({
+  kind: z.literal('close'),
+  connectionId: z.string().nonempty(),
+  code: z.number().int().optional(),
+  reason: z.string().optional(),
+});
+
+const relayMessageSchema = z.discriminatedUnion('kind', [
+  relayOpenSchema,
+  relayFrameSchema,
+  relayCloseSchema,
+]);
+
 export {
   stringSchema,
   matchInputDTOSchema,
   cellCordinatesSchema,
+  boundedCellCordinatesSchema,
   matchDetailsSchema,
   cellDTOSchema,
   boardItemSchema,
@@ -243,4 +542,25 @@ export {
   PathResultWithDirectionSchema,
   BoardStorageSchema,
   MatchStorageSchema,
+  matchLogEventSchema,
+  levelDefinitionSchema,
+  customLevelSchema,
+  matchResultSchema,
+  paginationSchema,
+  leaderboardQuerySchema,
+  leaderboardSchema,
+  replayEventSchema,
+  replayQuerySchema,
+  replayStreamQuerySchema,
+  messageEncodingSchema,
+  protocolVersionSchema,
+  inputAckSchema,
+  inputRejectSchema,
+  serverRestartingSchema,
+  playerDisconnectedSchema,
+  playerReconnectedSchema,
+  pauseStateSchema,
+  handshakeQuerySchema,
+  helloSchema,
+  relayMessageSchema,
 };
@@ -64,8 +64,10 @@ const validateBoardItemDTO = (data: unknown): BoardItemDTO => {
   return schema.parse(data);
 };
 
-const validateCoordinates = (data: unknown): CellCoordinates => {
-  const schema = objects.cellCordinatesSchema;
+const validateCoordinates = (data: unknown, bounds?: BoardBounds): CellCoordinates => {
+  const schema = bounds
+    ? objects.boundedCellCordinatesSchema(bounds.rows, bounds.cols)
+    : objects.cellCordinatesSchema;
   return schema.parse(data);
 };
 
@@ -123,19 +125,95 @@ const validateMatchStorage = (data: unknown): MatchStorage => {
   return schema.parse(data);
 };
 
-interface MatchInputDTO {
+const validateMatchLogEvent = (data: unknown): MatchLogEvent => {
+  const schema = objects.matchLogEventSchema;
+  return schema.parse(data);
+};
+
+const validatePauseState = (data: unknown): PauseState => {
+  const schema = objects.pauseStateSchema;
+  return schema.parse(data);
+};
+
+const validateLevelDefinition = (data: unknown): LevelDefinition => {
+  const schema = objects.levelDefinitionSchema;
+  return schema.parse(data);
+};
+
+const validateCustomLevel = (data: unknown): CustomLevel => {
+  const schema = objects.customLevelSchema;
+  return schema.parse(data);
+};
+
+const validateMatchResult = (data: unknown): MatchResult => {
+  const schema = objects.matchResultSchema;
+  return schema.parse(data);
+};
+
+const validatePagination = (data: unknown): Pagination => {
+  const schema = objects.paginationSchema;
+  return schema.parse(data);
+};
+
+const validateLeaderboardQuery = (data: unknown): LeaderboardQuery => {
+  const schema = objects.leaderboardQuerySchema;
+  return schema.parse(data);
+};
+
+const validateLeaderboard = (data: unknown): Leaderboard => {
+  const schema = objects.leaderboardSchema;
+  return schema.parse(data);
+};
+
+const validateReplayEvent = (data: unknown): ReplayEvent => {
+  const schema = objects.replayEventSchema;
+  return schema.parse(data);
+};
+
+const validateReplayQuery = (data: unknown): ReplayQuery => {
+  const schema = objects.replayQuerySchema;
+  return schema.parse(data);
+};
+
+const validateReplayStreamQuery = (data: unknown): ReplayStreamQuery => {
+  const schema = objects.replayStreamQuerySchema;
+  return schema.parse(data);
+};
+
+const validateHandshakeQuery = (data: unknown): HandshakeQuery => {
+  const schema = objects.handshakeQuerySchema;
+  return schema.parse(data);
+};
+
+const validateRelayMessage = (data: unknown): RelayMessage => {
+  const schema = objects.relayMessageSchema;
+  return schema.parse(data);
+};
+
+interface MatchSettings {
+  mode: GameMode;
+  seed?: number;
+  difficulty?: Difficulty;
+  solo?: boolean;
+  versus?: boolean;
+}
+interface MatchInputDTO extends Partial<MatchSettings> {
   level: number;
   map: string;
+  playersNumber?: number;
 }
-interface MatchDetails {
+interface MatchDetails extends Partial<MatchSettings> {
   id: string;
   host: string;
-  guest?: string | null;
+  players: string[];
+  playersNumber: number;
   level: number;
   map: string;
   started?: boolean;
 }
 interface BoardDTO {
+  rows: number;
+  cols: number;
   enemiesNumber: number;
   fruitsNumber: number;
   playersStartCoordinates: number[][];
@@ -153,10 +231,7 @@ interface BoardItemDTO {
   orientation?: Direction;
   color?: string;
 }
-interface PlayersPaths {
-  hostPath: PathResultWithDirection | null;
-  guestPath: PathResultWithDirection | null;
-}
+type PlayersPaths = Map<string, PathResultWithDirection>;
 interface Info {
   message: string;
 }
@@ -172,22 +247,39 @@ interface CellCoordinates {
   x: number;
   y: number;
 }
-interface MatchDTO {
+interface BoardBounds {
+  rows: number;
+  cols: number;
+}
+interface MatchDTO extends MatchSettings {
   id: string;
   level: number;
   map: string;
   hostId: string;
-  guestId: string;
+  playersIds: string[];
   board: BoardDTO;
   typeFruits: string[];
 }
-interface MatchStorage extends Omit<MatchDTO, 'board' | 'hostId' | 'guestId' | 'typeFruits'> {
-  host: PlayerStorage;
-  guest: PlayerStorage;
+interface MatchStorage extends Omit<MatchDTO, 'board' | 'hostId' | 'playersIds' | 'typeFruits'> {
+  players: PlayerStorage[];
   board: BoardStorage;
   timeSeconds: number;
   fruitGenerated: boolean;
   paused: boolean;
+  sequence?: number;
+  logIndex?: number;
+  pausesUsed?: Record<string, number>;
+  pausedBy?: string;
+  pauseSecondsLeft?: number;
+}
+
+interface MatchLogEvent {
+  index: number;
+  timestamp: number;
+  userId: string;
+  type: GameMessageInput['type'];
+  payload: string;
+  sequence: number;
 }
 
 interface PlayerStorage {
@@ -196,6 +288,10 @@ interface PlayerStorage {
   coordinates: CellCoordinates;
   direction: Direction;
   state: 'dead' | 'alive';
+  fruits?: number;
+  deaths?: number;
+  scoredAt?: number;
+  speed?: number;
 }
 
 interface BoardStorage {
@@ -224,7 +320,13 @@ interface GameMessageOutput {
     | 'paused'
     | 'update-special-fruit'
     | 'timeout'
-    | 'player-update';
+    | 'player-update'
+    | 'hello'
+    | 'ack'
+    | 'reject'
+    | 'server-restarting'
+    | 'player-disconnected'
+    | 'player-reconnected';
   payload:
     | PlayerMove
     | EndMatch
@@ -238,7 +340,15 @@ interface GameMessageOutput {
     | boolean
     | CellDTO
     | Info
+    | Hello
+    | InputAck
+    | InputReject
+    | ServerRestarting
+    | PlayerDisconnected
+    | Pick<PlayerDisconnected, 'id'>
+    | PauseState
     | Partial<UserQueue>;
+  seq?: number;
 }
 interface GameMessageInput {
   type:
@@ -250,16 +360,51 @@ interface GameMessageInput {
     | 'resume'
     | 'update-all'
     | 'set-name'
-    | 'set-state';
+    | 'set-state'
+    | 'resync';
   payload: Direction | string;
+  seq?: number;
+}
+interface InputAck {
+  inputSeq: number;
+  move: PlayerMove;
+}
+interface InputReject extends InputAck {
+  reason: InputRejectReason;
+}
+interface ServerRestarting {
+  reconnectInMs: number;
+}
+interface PlayerDisconnected {
+  id: string;
+  secondsLeft: number;
+}
+interface PauseState {
+  paused: boolean;
+  by?: string;
+  secondsLeft?: number;
+  pausesLeft?: Record<string, number>;
+  resumeVotes: string[];
 }
 interface PlayerState {
   id: string;
   state: 'dead' | 'alive';
   color?: string;
+  score?: number;
+}
+interface PlayerScore {
+  id: string;
+  fruits: number;
+  deaths: number;
+  scoredAt: number;
+}
+interface PlayerRanking extends PlayerScore {
+  position: number;
 }
 interface EndMatch {
-  result: 'win' | 'lose' | 'end game';
+  result: 'win' | 'lose' | 'draw' | 'end game';
+  winner?: string | null;
+  ranking?: PlayerRanking[];
 }
 interface UpdateEnemy {
   enemyId: string;
@@ -274,6 +419,7 @@ interface PlayerMove {
   state: 'alive' | 'dead';
   idItemConsumed?: string;
   numberOfFruits?: number;
+  score?: number;
 }
 interface UpdateTime {
   minutesLeft: number;
@@ -308,6 +454,8 @@ interface UpdateFruits {
 interface CustomMapKey {
   map: string;
   level: number;
+  playersNumber?: number;
+  versus?: boolean;
 }
 
 interface PathResult {
@@ -323,22 +471,214 @@ interface FrozenCells {
   cells: CellDTO[];
   direction: Direction;
 }
+
+interface LevelDefinition {
+  level: number;
+  map: string;
+  name?: string;
+  fruits: string[];
+  enemy: EnemiesTypes;
+  enemiesSpeedOffsetMs?: number;
+  grid: string[];
+}
+
+interface LevelLayout {
+  playersStartCoordinates: number[][];
+  enemiesCoordinates: number[][];
+  enemiesTypes?: (EnemiesTypes | null)[];
+  fruitsCoordinates: number[][];
+  freezedCells: number[][];
+  rocksCoordinates: number[][];
+}
+
+interface CustomLevel extends Omit<LevelDefinition, 'grid'>, LevelLayout, BoardBounds {}
+
+interface PlayerResult extends PlayerRanking {
+  result: MatchOutcome;
+}
+
+interface MatchResult {
+  id?: string;
+  matchId: string;
+  level: number;
+  map: string;
+  mode: GameMode;
+  versus: boolean;
+  result: MatchOutcome;
+  winner: string | null;
+  durationSeconds: number;
+  enemiesFaced: number;
+  players: PlayerResult[];
+  playedAt?: string;
+}
+
+interface Pagination {
+  page: number;
+  pageSize: number;
+}
+
+interface MatchHistory extends Pagination {
+  results: MatchResult[];
+  total: number;
+}
+
+interface PlayerStats {
+  userId: string;
+  matches: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  fruits: number;
+  deaths: number;
+  playedSeconds: number;
+  highestLevel: number;
+}
+
+interface LeaderboardQuery {
+  level: number;
+  map?: string;
+  window: LeaderboardWindow;
+  scope: LeaderboardScope;
+  limit: number;
+}
+
+interface LeaderboardEntry {
+  rank: number;
+  players: string[];
+  score: number;
+}
+
+interface Leaderboard extends Omit<LeaderboardQuery, 'map' | 'limit'> {
+  map: string | null;
+  fastestClear: LeaderboardEntry[];
+  mostFruits: LeaderboardEntry[];
+  longestStreak: LeaderboardEntry[];
+}
+
+interface ReplayEvent {
+  timestamp: number;
+  source: ReplaySource;
+  userId?: string;
+  message: GameMessageInput | GameMessageOutput;
+}
+
+interface ReplayTimelineEvent extends Omit<ReplayEvent, 'timestamp'> {
+  offsetMs: number;
+}
+
+interface Replay {
+  matchId: string;
+  round: number;
+  startedAt: string;
+  durationMs: number;
+  events: ReplayTimelineEvent[];
+}
+
+interface ReplayQuery {
+  round?: number;
+}
+
+interface ReplayStreamQuery extends ReplayQuery {
+  speed: ReplaySpeed;
+}
+
+interface HandshakeQuery {
+  encoding?: MessageEncoding;
+  protocol?: number;
+}
+
+interface Hello {
+  protocolVersion: number;
+  supportedVersions: number[];
+  encoding: MessageEncoding;
+}
+
+interface RelayOpen {
+  kind: 'open';
+  connectionId: string;
+  nodeId: string;
+  route: string;
+  params: Record<string, string>;
+  encoding: MessageEncoding;
+}
+
+interface RelayFrame {
+  kind: 'frame';
+  connectionId: string;
+  data: string;
+  binary: boolean;
+}
+
+interface RelayClose {
+  kind: 'close';
+  connectionId: string;
+  code?: number;
+  reason?: string;
+}
 const enemiesConst = ['troll', 'cow', 'log-man', 'squid-blue', 'squid-green'];
 const enemiesStatesConst = ['walking', 'roling', 'stopped'];
 const directionsConst = ['up', 'down', 'left', 'right'];
+const gameModesConst = ['classic', 'procedural', 'endless'] as const;
+const difficultiesConst = ['easy', 'normal', 'hard'] as const;
+const messageEncodingsConst = ['json', 'msgpack'] as const;
+const inputRejectReasonsConst = [
+  'blocked',
+  'border',
+  'dead',
+  'paused',
+  'throttled',
+  'invalid',
+] as const;
+const levelSymbolsConst = {
+  empty: '.',
+  rock: 'R',
+  fruit: 'F',
+  frozen: '#',
+  enemy: 'E',
+  player: 'P',
+} as const;
+const enemySymbolsConst: Record<string, EnemiesTypes> = {
+  T: 'troll',
+  C: 'cow',
+  L: 'log-man',
+  B: 'squid-blue',
+  G: 'squid-green',
+};
 type Direction = (typeof directionsConst)[number];
 type PlayerType = 'HOST' | 'GUEST';
 type EnemyState = (typeof enemiesStatesConst)[number];
 type EnemiesTypes = (typeof enemiesConst)[number];
 type ItemsTypes = 'rock' | 'fruit' | 'specialfruit';
+type GameMode = (typeof gameModesConst)[number];
+type Difficulty = (typeof difficultiesConst)[number];
+type MatchOutcome = 'win' | 'lose' | 'draw';
+type LeaderboardWindow = 'daily' | 'weekly' | 'all-time';
+type LeaderboardScope = 'individual' | 'team';
+type ReplaySource = 'input' | 'output';
+type ReplaySpeed = 1 | 2 | 4;
+type MessageEncoding = (typeof messageEncodingsConst)[number];
+type InputRejectReason = (typeof inputRejectReasonsConst)[number];
+type RelayMessage = RelayOpen | RelayFrame | RelayClose;
+// Schemas of the WebSocket messages, published so the clients can validate and generate code
+const protocolSchemasConst = {
+  GameMessageInput: objects.gameMessageInputSchema,
+  GameMessageOutput: objects.gameMessageOutputSchema,
+  Info: objects.infoSchema,
+  Hello: objects.helloSchema,
+  HandshakeQuery: objects.handshakeQuerySchema,
+};
 export type {
   MatchInputDTO,
   MatchDetails,
+  MatchSettings,
+  GameMode,
+  Difficulty,
   BoardDTO,
   CellDTO,
   BoardItem,
   BoardItemDTO,
   CellCoordinates,
+  BoardBounds,
   MatchDTO,
   GameMessageOutput,
   GameMessageInput,
@@ -347,6 +687,8 @@ export type {
   EndMatch,
   UpdateEnemy,
   PlayerMove,
+  PlayerScore,
+  PlayerRanking,
   UpdateTime,
   ErrorMatch,
   UpdateAll,
@@ -361,16 +703,58 @@ export type {
   PlayersPaths,
   EnemyState,
   MatchStorage,
+  MatchLogEvent,
   BoardStorage,
   PlayerStorage,
   EnemiesTypes,
   ItemsTypes,
   Log,
+  LevelDefinition,
+  LevelLayout,
+  CustomLevel,
+  MatchOutcome,
+  PlayerResult,
+  MatchResult,
+  Pagination,
+  MatchHistory,
+  PlayerStats,
+  LeaderboardWindow,
+  LeaderboardScope,
+  LeaderboardQuery,
+  LeaderboardEntry,
+  Leaderboard,
+  ReplaySource,
+  ReplaySpeed,
+  ReplayEvent,
+  ReplayTimelineEvent,
+  Replay,
+  ReplayQuery,
+  ReplayStreamQuery,
+  MessageEncoding,
+  HandshakeQuery,
+  Hello,
+  InputAck,
+  InputReject,
+  InputRejectReason,
+  ServerRestarting,
+  PlayerDisconnected,
+  PauseState,
+  RelayOpen,
+  RelayFrame,
+  RelayClose,
+  RelayMessage,
 };
 export {
   enemiesConst,
   enemiesStatesConst,
   directionsConst,
+  gameModesConst,
+  difficultiesConst,
+  messageEncodingsConst,
+  inputRejectReasonsConst,
+  protocolSchemasConst,
+  levelSymbolsConst,
+  enemySymbolsConst,
   validateString,
   validateMatchInputDTO,
   validateCoordinates,
@@ -396,4 +780,17 @@ export {
   parseStringToCoordinates,
   validateBoardStorage,
   validateMatchStorage,
+  validateMatchLogEvent,
+  validatePauseState,
+  validateLevelDefinition,
+  validateCustomLevel,
+  validateMatchResult,
+  validatePagination,
+  validateLeaderboardQuery,
+  validateLeaderboard,
+  validateReplayEvent,
+  validateReplayQuery,
+  validateReplayStreamQuery,
+  validateHandshakeQuery,
+  validateRelayMessage,
 };
@@ -1,6 +1,8 @@
 import { isMainThread } from 'node:worker_threads';
 import type { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
 import Fastify from 'fastify';
+import type GameService from './app/game/services/GameService.js';
+import { container } from './plugins/diContainer.js';
 import { envOptions } from './plugins/env.js';
 import { registerPlugins } from './plugins/index.js';
 import { registerRoutes } from './routes/register.js';
@@ -34,8 +36,13 @@ const start = async () => {
 };
 
 // To close the server gracefully
+let closing = false;
 const closeGracefully = async (signal: string) => {
+  if (closing) return;
+  closing = true;
   server.log.info(`\nKilling server ;-; ${signal} I'm dying...\nR.I.P. Server`);
+  // The matches are handed off while the sockets of their players are still open
+  await container.resolve<GameService>('gameService').drainMatches();
   await server.close();
   process.exit(0);
 };
@@ -26,6 +26,7 @@ export default class CustomQueuesMap<_any1, _any2>
     this.map.clear();
   }
   private criteriaToKey(criteria: CustomMapKey): string {
-    return `${criteria.map}:${criteria.level}`;
+    const versus = criteria.versus ? 'versus' : 'coop';
+    return `${criteria.map}:${criteria.level}:${criteria.playersNumber ?? 2}:${versus}`;
   }
 }
@@ -49,6 +49,28 @@ export class Graph {
     }
   }
 
+  /**
+   * Retrieves every node that can be reached from the given node, including itself.
+   *
+   * @param {string} start The starting node.
+   * @return {Set<string>} The set of reachable nodes, empty if the node does not exist.
+   */
+  public getReachableNodes(start: string): Set<string> {
+    const visited = new Set<string>();
+    if (!this.adj.has(start)) return visited;
+    const pending = [start];
+    visited.add(start);
+    while (pending.length > 0) {
+      const node = pending.pop() as string;
+      for (const { to } of this.adj.get(node) ?? []) {
+        if (visited.has(to)) continue;
+        visited.add(to);
+        pending.push(to);
+      }
+    }
+    return visited;
+  }
+
   /**
    * Finds the shortest path between two nodes using Dijkstra's algorithm.
    *
@@ -0,0 +1,57 @@
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Source of the IDs of the items and characters of the boards.
+ */
+export interface IdGenerator {
+  next: () => string;
+}
+
+/**
+ * @class UuidGenerator
+ * Generates random UUIDs, used by the live matches.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export class UuidGenerator implements IdGenerator {
+  /**
+   * Retrieves a new random UUID.
+   *
+   * @return {string} The generated ID.
+   */
+  public next(): string {
+    return uuidv4();
+  }
+}
+
+/**
+ * @class SequentialIdGenerator
+ * Generates the IDs from a counter, so the same run always produces the same IDs.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export class SequentialIdGenerator implements IdGenerator {
+  private readonly prefix: string;
+  private counter = 0;
+
+  /**
+   * Creates a generator whose IDs start with the given prefix.
+   *
+   * @param {string} prefix The prefix of the IDs.
+   */
+  constructor(prefix = 'item') {
+    this.prefix = prefix;
+  }
+
+  /**
+   * Retrieves the next ID of the sequence.
+   *
+   * @return {string} The generated ID, e.g. item-1.
+   */
+  public next(): string {
+    this.counter += 1;
+    return `${this.prefix}-${this.counter}`;
+  }
+}
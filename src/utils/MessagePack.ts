@@ -0,0 +1,216 @@
+type Reader = { buffer: Buffer; offset: number };
+
+/**
+ * Encodes a value in MessagePack.
+ *
+ * @param {unknown} value The value to encode.
+ * @return {Buffer} The encoded value.
+ * @throws {TypeError} If the value cannot be represented in MessagePack.
+ */
+const encode = (value: unknown): Buffer => {
+  const chunks: Buffer[] = [];
+  write(value, chunks);
+  return Buffer.concat(chunks);
+};
+
+/**
+ * Decodes a single MessagePack value.
+ *
+ * @param {Uint8Array} data The encoded value.
+ * @return {unknown} The decoded value.
+ * @throws {RangeError} If the data is truncated, has trailing bytes or uses an unsupported type.
+ */
+const decode = (data: Uint8Array): unknown => {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  const reader: Reader = { buffer, offset: 0 };
+  const value = read(reader);
+  if (reader.offset !== buffer.length) throw new RangeError('Unexpected bytes after the value');
+  return value;
+};
+
+const write = (value: unknown, chunks: Buffer[]): void => {
+  if (value === null || value === undefined) {
+    chunks.push(Buffer.from([0xc0]));
+  } else if (typeof value === 'boolean') {
+    chunks.push(Buffer.from([value ? 0xc3 : 0xc2]));
+  } else if (typeof value === 'number') {
+    writeNumber(value, chunks);
+  } else if (typeof value === 'string') {
+    writeString(value, chunks);
+  } else if (value instanceof Uint8Array) {
+    chunks.push(header(value.length, [0xc4, 0xc5, 0xc6]), Buffer.from(value));
+  } else if (Array.isArray(value)) {
+    chunks.push(header(value.length, [0xdc, 0xdd], 0x90));
+    for (const item of value) write(item, chunks);
+  } else if (typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    chunks.push(header(entries.length, [0xde, 0xdf], 0x80));
+    for (const [key, item] of entries) {
+      writeString(key, chunks);
+      write(item, chunks);
+    }
+  } else {
+    throw new TypeError(`Cannot encode a ${typeof value} in MessagePack`);
+  }
+};
+
+const writeNumber = (value: number, chunks: Buffer[]): void => {
+  if (!Number.isInteger(value) || Math.abs(value) > 0xffffffff) {
+    const buffer = Buffer.alloc(9);
+    buffer[0] = 0xcb;
+    buffer.writeDoubleBE(value, 1);
+    chunks.push(buffer);
+  } else if (value >= 0) {
+    if (value < 0x80) chunks.push(Buffer.from([value]));
+    else chunks.push(unsigned(value));
+  } else if (value >= -32) {
+    chunks.push(Buffer.from([value & 0xff]));
+  } else if (value >= -0x80000000) {
+    chunks.push(signed(value));
+  } else {
+    const buffer = Buffer.alloc(9);
+    buffer[0] = 0xd3;
+    buffer.writeBigInt64BE(BigInt(value), 1);
+    chunks.push(buffer);
+  }
+};
+
+const unsigned = (value: number): Buffer => {
+  if (value <= 0xff) return Buffer.from([0xcc, value]);
+  const size = value <= 0xffff ? 2 : 4;
+  const buffer = Buffer.alloc(size + 1);
+  buffer[0] = size === 2 ? 0xcd : 0xce;
+  buffer.writeUIntBE(value, 1, size);
+  return buffer;
+};
+
+const signed = (value: number): Buffer => {
+  const size = value >= -0x80 ? 1 : value >= -0x8000 ? 2 : 4;
+  const buffer = Buffer.alloc(size + 1);
+  buffer[0] = size === 1 ? 0xd0 : size === 2 ? 0xd1 : 0xd2;
+  buffer.writeIntBE(value, 1, size);
+  return buffer;
+};
+
+const writeString = (value: string, chunks: Buffer[]): void => {
+  const bytes = Buffer.from(value, 'utf-8');
+  chunks.push(header(bytes.length, [0xd9, 0xda, 0xdb], 0xa0, 32), bytes);
+};
+
+/**
+ * Builds the header of a string, binary, array or map, using the fix type when the length fits
+ * in it and the 8, 16 or 32 bits types otherwise. Arrays and maps have no 8 bits type.
+ */
+const header = (length: number, types: number[], fixType?: number, fixLimit = 16): Buffer => {
+  if (fixType !== undefined && length < fixLimit) return Buffer.from([fixType | length]);
+  const sizes = types.length === 3 ? [1, 2, 4] : [2, 4];
+  const index = sizes.findIndex((size) => length < 2 ** (size * 8));
+  if (index === -1) throw new RangeError('The value is too long for MessagePack');
+  const buffer = Buffer.alloc(sizes[index] + 1);
+  buffer[0] = types[index];
+  buffer.writeUIntBE(length, 1, sizes[index]);
+  return buffer;
+};
+
+const read = (reader: Reader): unknown => {
+  const type = take(reader, 1)[0];
+  if (type < 0x80) return type;
+  if (type >= 0xe0) return type - 0x100;
+  if (type <= 0x8f) return readMap(reader, type & 0x0f);
+  if (type <= 0x9f) return readArray(reader, type & 0x0f);
+  if (type <= 0xbf) return take(reader, type & 0x1f).toString('utf-8');
+  switch (type) {
+    case 0xc0:
+      return null;
+    case 0xc2:
+      return false;
+    case 0xc3:
+      return true;
+    case 0xc4:
+    case 0xc5:
+    case 0xc6:
+      return Buffer.from(take(reader, readLength(reader, type - 0xc4)));
+    case 0xca:
+      return take(reader, 4).readFloatBE();
+    case 0xcb:
+      return take(reader, 8).readDoubleBE();
+    case 0xcc:
+    case 0xcd:
+    case 0xce:
+      return take(reader, 2 ** (type - 0xcc)).readUIntBE(0, 2 ** (type - 0xcc));
+    case 0xcf:
+      return Number(take(reader, 8).readBigUInt64BE());
+    case 0xd0:
+    case 0xd1:
+    case 0xd2:
+      return take(reader, 2 ** (type - 0xd0)).readIntBE(0, 2 ** (type - 0xd0));
+    case 0xd3:
+      return Number(take(reader, 8).readBigInt64BE());
+    case 0xd9:
+    case 0xda:
+    case 0xdb:
+      return take(reader, readLength(reader, type - 0xd9)).toString('utf-8');
+    case 0xdc:
+    case 0xdd:
+      return readArray(reader, readLength(reader, type - 0xdc + 1));
+    case 0xde:
+    case 0xdf:
+      return readMap(reader, readLength(reader, type - 0xde + 1));
+    default:
+      throw new RangeError(`Unsupported MessagePack type 0x${type.toString(16)}`);
+  }
+};
+
+const readLength = (reader: Reader, sizeIndex: number): number => {
+  const size = 2 ** sizeIndex;
+  return take(reader, size).readUIntBE(0, size);
+};
+
+const readArray = (reader: Reader, length: number): unknown[] => {
+  const array: unknown[] = [];
+  for (let i = 0; i < length; i++) array.push(read(reader));
+  return array;
+};
+
+const readMap = (reader: Reader, length: number): Record<string, unknown> => {
+  const map: Record<string, unknown> = {};
+  for (let i = 0; i < length; i++) {
+    const key = read(reader);
+    if (typeof key !== 'string' && typeof key !== 'number') {
+      throw new RangeError('MessagePack map keys must be strings or numbers');
+    }
+    // Defined as an own property so a __proto__ key cannot replace the prototype of the map
+    Object.defineProperty(map, key, {
+      value: read(reader),
+      enumerable: true,
+      writable: true,
+      configurable: true,
+    });
+  }
+  return map;
+};
+
+const take = (reader: Reader, length: number): Buffer => {
+  if (reader.offset + length > reader.buffer.length) {
+    throw new RangeError('Unexpected end of the MessagePack data');
+  }
+  const bytes = reader.buffer.subarray(reader.offset, reader.offset + length);
+  reader.offset += length;
+  return bytes;
+};
+
+/**
+ * Encoder and decoder of the MessagePack binary format (https://msgpack.org).
+ * It covers the JSON data model plus binary data: nil, booleans, numbers, strings, arrays, maps
+ * and bin, so any MessagePack library can talk to the server. Like JSON, undefined object values
+ * are left out, integers use the smallest type that fits them and other numbers are sent as
+ * float 64.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+const MessagePack = {
+  encode,
+  decode,
+};
+export default MessagePack;
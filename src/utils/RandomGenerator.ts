@@ -0,0 +1,39 @@
+import { randomInt } from 'node:crypto';
+
+/**
+ * Source of random numbers used by the game logic.
+ */
+export interface RandomGenerator {
+  next: () => number;
+  nextInt: (max: number) => number;
+}
+
+/**
+ * @class CryptoRandom
+ * Random generator backed by node:crypto, used by the live matches.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export class CryptoRandom implements RandomGenerator {
+  private static readonly RANGE = 2 ** 48 - 1;
+
+  /**
+   * Retrieves a random number.
+   *
+   * @return {number} A number in the range [0, 1).
+   */
+  public next(): number {
+    return randomInt(0, CryptoRandom.RANGE) / CryptoRandom.RANGE;
+  }
+
+  /**
+   * Retrieves a random integer.
+   *
+   * @param {number} max The exclusive upper bound.
+   * @return {number} An integer in the range [0, max).
+   */
+  public nextInt(max: number): number {
+    return randomInt(0, max);
+  }
+}
@@ -0,0 +1,70 @@
+import type { RandomGenerator } from './RandomGenerator.js';
+
+/**
+ * @class SeededRandom
+ * Deterministic pseudo random number generator (mulberry32).
+ * The same seed always produces the same sequence of numbers.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+export class SeededRandom implements RandomGenerator {
+  public static readonly MAX_SEED = 2147483647;
+  private state: number;
+
+  /**
+   * Creates a generator starting at the given seed.
+   *
+   * @param {number} seed The seed of the sequence.
+   */
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Generates a new random seed that can be stored and reused later.
+   *
+   * @return {number} A non negative integer seed.
+   */
+  public static randomSeed(): number {
+    return Math.floor(Math.random() * SeededRandom.MAX_SEED);
+  }
+
+  /**
+   * Retrieves the next number of the sequence.
+   *
+   * @return {number} A number in the range [0, 1).
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Retrieves the next integer of the sequence.
+   *
+   * @param {number} max The exclusive upper bound.
+   * @return {number} An integer in the range [0, max).
+   */
+  public nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Shuffles a copy of the given items.
+   *
+   * @param {T[]} items The items to shuffle.
+   * @return {T[]} A new array with the items in a random order.
+   */
+  public shuffle<T>(items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = this.nextInt(i + 1);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+}
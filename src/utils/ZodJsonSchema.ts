@@ -0,0 +1,117 @@
+import { z } from 'zod';
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Converts a zod schema into JSON Schema.
+ *
+ * @param {z.ZodTypeAny} schema The zod schema.
+ * @return {JsonSchema} The equivalent JSON Schema.
+ */
+const convert = (schema: z.ZodTypeAny): JsonSchema => {
+  const converted = convertType(schema);
+  return schema.description ? { ...converted, description: schema.description } : converted;
+};
+
+const convertType = (schema: z.ZodTypeAny): JsonSchema => {
+  if (schema instanceof z.ZodString) return convertString(schema);
+  if (schema instanceof z.ZodNumber) return convertNumber(schema);
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (schema instanceof z.ZodNull) return { type: 'null' };
+  if (schema instanceof z.ZodLiteral) return { const: schema.value };
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: [...schema.options] };
+  if (schema instanceof z.ZodObject) return convertObject(schema);
+  if (schema instanceof z.ZodArray) return convertArray(schema);
+  if (schema instanceof z.ZodTuple) {
+    const items = schema.items.map((item: z.ZodTypeAny) => convert(item));
+    return { type: 'array', items, minItems: items.length, maxItems: items.length };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: convert(schema.valueSchema) };
+  }
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    const options: z.ZodTypeAny[] = [...schema.options];
+    return { anyOf: options.map((option) => convert(option)) };
+  }
+  if (schema instanceof z.ZodOptional) return convert(schema.unwrap());
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [convert(schema.unwrap()), { type: 'null' }] };
+  }
+  if (schema instanceof z.ZodDefault) {
+    return {
+      ...convert(schema.removeDefault()),
+      default: schema._def.defaultValue(),
+    };
+  }
+  if (schema instanceof z.ZodEffects) return convert(schema.innerType());
+  return {};
+};
+
+const convertString = (schema: z.ZodString): JsonSchema => {
+  const converted: JsonSchema = { type: 'string' };
+  for (const check of schema._def.checks) {
+    if (check.kind === 'min') converted.minLength = check.value;
+    else if (check.kind === 'max') converted.maxLength = check.value;
+    else if (check.kind === 'length') {
+      converted.minLength = check.value;
+      converted.maxLength = check.value;
+    } else if (check.kind === 'regex') converted.pattern = check.regex.source;
+    else if (check.kind === 'datetime') converted.format = 'date-time';
+    else if (check.kind === 'uuid' || check.kind === 'email') converted.format = check.kind;
+  }
+  return converted;
+};
+
+const convertNumber = (schema: z.ZodNumber): JsonSchema => {
+  const converted: JsonSchema = { type: schema.isInt ? 'integer' : 'number' };
+  for (const check of schema._def.checks) {
+    if (check.kind === 'min') {
+      converted[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+    } else if (check.kind === 'max') {
+      converted[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+    } else if (check.kind === 'multipleOf') {
+      converted.multipleOf = check.value;
+    }
+  }
+  return converted;
+};
+
+const convertObject = (schema: z.AnyZodObject): JsonSchema => {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const [key, value] of Object.entries<z.ZodTypeAny>(schema.shape)) {
+    properties[key] = convert(value);
+    if (!value.isOptional()) required.push(key);
+  }
+  return required.length > 0
+    ? { type: 'object', properties, required }
+    : { type: 'object', properties };
+};
+
+const convertArray = (schema: z.ZodArray<z.ZodTypeAny>): JsonSchema => {
+  const converted: JsonSchema = { type: 'array', items: convert(schema.element) };
+  const { minLength, maxLength, exactLength } = schema._def;
+  if (minLength) converted.minItems = minLength.value;
+  if (maxLength) converted.maxItems = maxLength.value;
+  if (exactLength) {
+    converted.minItems = exactLength.value;
+    converted.maxItems = exactLength.value;
+  }
+  return converted;
+};
+
+/**
+ * Converts the zod schemas into JSON Schema (draft-07), so the clients can validate and generate
+ * code from the same contract the server validates with.
+ * Transforms and refinements cannot be expressed in JSON Schema, so only the schema they wrap is
+ * converted, and the types without an equivalent accept any value.
+ *
+ * @since 19/10/2026
+ * @author Santiago Avellaneda, Andres Serrato and Miguel Motta
+ */
+const ZodJsonSchema = {
+  convert,
+};
+export default ZodJsonSchema;
+
+export type { JsonSchema };
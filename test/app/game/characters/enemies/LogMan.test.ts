@@ -38,10 +38,11 @@ describe('LogMan tests', () => {
             ]
         };
         
-        mockBoard.getPlayersPaths.mockReturnValue({
-            hostPath: null,
-            guestPath: mockGuestPath
-        });
+        mockBoard.getPlayersPaths.mockReturnValue(
+            new Map([
+                ['guest', mockGuestPath],
+            ])
+        );
         
         // biome-ignore lint/complexity/useLiteralKeys: <explanation>
         logMan["rollToDirection"] = vi.fn().mockResolvedValue(undefined);
@@ -57,10 +58,7 @@ describe('LogMan tests', () => {
         // biome-ignore lint/complexity/useLiteralKeys: <explanation>
         logMan["orientation"] = "left";
         
-        mockBoard.getPlayersPaths.mockReturnValue({
-            hostPath: null,
-            guestPath: null
-        });
+        mockBoard.getPlayersPaths.mockReturnValue(new Map());
         
         // biome-ignore lint/complexity/useLiteralKeys: <explanation>
         logMan["rollToDirection"] = vi.fn().mockResolvedValue(undefined);
@@ -138,7 +136,12 @@ describe('LogMan tests', () => {
         };
         
         // biome-ignore lint/complexity/useLiteralKeys: <explanation>
-        const result = logMan["calculateBestStraightPath"](mockHostPath, mockGuestPath);
+        const result = logMan["calculateBestStraightPath"](
+            new Map([
+                ['host', mockHostPath],
+                ['guest', mockGuestPath],
+            ])
+        );
         
         expect(result).toBeDefined();
         expect(result?.direction).toBe('down');
@@ -230,10 +233,11 @@ describe('LogMan tests', () => {
             ]
         };
         
-        mockBoard.getPlayersPaths.mockReturnValue({
-            hostPath: mockHostPath,
-            guestPath: null
-        });
+        mockBoard.getPlayersPaths.mockReturnValue(
+            new Map([
+                ['host', mockHostPath],
+            ])
+        );
         
         // biome-ignore lint/complexity/useLiteralKeys: <explanation>
         logMan["rollToDirection"] = vi.fn().mockResolvedValue(undefined);
@@ -269,10 +273,12 @@ describe('LogMan tests', () => {
             ]
         };
         
-        mockBoard.getPlayersPaths.mockReturnValue({
-            hostPath: mockHostPath,
-            guestPath: mockGuestPath
-        });
+        mockBoard.getPlayersPaths.mockReturnValue(
+            new Map([
+                ['host', mockHostPath],
+                ['guest', mockGuestPath],
+            ])
+        );
         
         // biome-ignore lint/complexity/useLiteralKeys: <explanation>
         logMan["rollToDirection"] = vi.fn().mockResolvedValue(undefined);
@@ -6,6 +6,7 @@ import type Character from '../../../../../src/app/game/characters/Character.js'
 import { mockDeep } from 'vitest-mock-extended';
 import type Board from '../../../../../src/app/game/match/boards/Board.js';
 import type { BoardItemDTO, Direction } from '../../../../../src/schemas/zod.js';
+import { SeededRandom } from '../../../../../src/utils/SeededRandom.js';
 const mockCell = mockDeep<Cell>();
 const mockBoard = mockDeep<Board>();
 
@@ -143,6 +144,7 @@ describe('Troll', () => {
   })
 
   it('should move random direction', async () => {
+    mockBoard.getRandom.mockReturnValue(new SeededRandom(1));
     const troll = new Troll(mockCell, mockBoard, 'troll-id');
     const directions:Direction[] = ['down'];
     // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import Player from '../../../../../src/app/game/characters/players/Player.js';
-import Level1Board from '../../../../../src/app/game/match/boards/levels/Level1Board.js';
+import BoardFactory from '../../../../../src/app/game/match/boards/BoardFactory.js';
 import Cell from '../../../../../src/app/game/match/boards/CellBoard.js';
+import Fruit from '../../../../../src/app/game/match/boards/Fruit.js';
 import CharacterError from '../../../../../src/errors/CharacterError.js';
 import { mockDeep, mockReset } from 'vitest-mock-extended';
 import type Match from '../../../../../src/app/game/match/Match.js';
@@ -37,7 +38,7 @@ describe('Player', () => {
     });
 
     it('should create a player', () => {
-        const board = new Level1Board(match, 'map', 1);
+        const board = BoardFactory.createBoard(match, 'desert', 1);
         const cell = new Cell(1, 1);
         const player = new Player(cell, board, 'id-player-test-1');
         expect(player).toBeDefined();
@@ -46,7 +47,7 @@ describe('Player', () => {
     })
 
     it('player should not kill', () => {
-        const board = new Level1Board(match,'map', 1);
+        const board = BoardFactory.createBoard(match, 'desert', 1);
         board.initialize();
         const cell = new Cell(1, 1);
         const player = new Player(cell, board, 'id-player-test-2');
@@ -54,7 +55,7 @@ describe('Player', () => {
     })
 
     it('player should die', () => {
-        const board = new Level1Board(match,'map', 1);
+        const board = BoardFactory.createBoard(match, 'desert', 1);
         board.initialize();
         const cell = new Cell(1, 1);
         const player = new Player(cell, board, 'id-player-test-3');
@@ -63,12 +64,12 @@ describe('Player', () => {
     });
 
     it('player should move left',async () => {
-        const board = new Level1Board(match,'map', 1);
+        const board = BoardFactory.createBoard(match, 'desert', 1);
         board.initialize();
         const host = 'host';
         const guest = 'guest';
-        await board.startGame(host, guest);
-        const player = board.getHost();
+        await board.startGame([host, guest]);
+        const player = board.getPlayer(host);
         expect(player?.getCoordinates()).toStrictEqual({ x: 9, y: 1 });
         expect(board.getBoard()[9][1].getCharacter()).toBe(player);
         expect(board.getBoard()[9][0].getCharacter()).toBeNull();
@@ -79,12 +80,12 @@ describe('Player', () => {
     })
 
     it('player should move right',async () => {
-        const board = new Level1Board(match,'map', 1);
+        const board = BoardFactory.createBoard(match, 'desert', 1);
         board.initialize();
         const host = 'host';
         const guest = 'guest';
-        await board.startGame(host, guest);
-        const player = board.getHost();
+        await board.startGame([host, guest]);
+        const player = board.getPlayer(host);
         expect(player?.getCoordinates()).toStrictEqual({ x: 9, y: 1 });
         expect(board.getBoard()[9][1].getCharacter()).toBe(player);
         expect(board.getBoard()[9][2].getCharacter()).toBeNull();
@@ -95,12 +96,12 @@ describe('Player', () => {
     })
 
     it('player should move up',async () => {
-        const board = new Level1Board(match,'map', 1);
+        const board = BoardFactory.createBoard(match, 'desert', 1);
         board.initialize();
         const host = 'host';
         const guest = 'guest';
-        await board.startGame(host, guest);
-        const player = board.getHost();
+        await board.startGame([host, guest]);
+        const player = board.getPlayer(host);
         expect(player?.getCoordinates()).toStrictEqual({ x: 9, y: 1 });
         expect(board.getBoard()[9][1].getCharacter()).toBe(player);
         expect(board.getBoard()[8][1].getCharacter()).toBeNull();
@@ -111,12 +112,12 @@ describe('Player', () => {
     })
 
     it('player should move down',async () => {
-        const board = new Level1Board(match,'map', 1);
+        const board = BoardFactory.createBoard(match, 'desert', 1);
         board.initialize();
         const host = 'host';
         const guest = 'guest';
-        await board.startGame(host, guest);
-        const player = board.getHost();
+        await board.startGame([host, guest]);
+        const player = board.getPlayer(host);
         expect(player?.getCoordinates()).toStrictEqual({ x: 9, y: 1 });
         expect(board.getBoard()[9][1].getCharacter()).toBe(player);
         expect(board.getBoard()[10][1].getCharacter()).toBeNull();
@@ -127,12 +128,12 @@ describe('Player', () => {
     })
 
     it('should not move out the limits', async () => {
-        const board = new Level1Board(match,'map', 1);
+        const board = BoardFactory.createBoard(match, 'desert', 1);
         board.initialize();
         const host = 'host';
         const guest = 'guest';
-        await board.startGame(host, guest);
-        const player = board.getHost();
+        await board.startGame([host, guest]);
+        const player = board.getPlayer(host);
         expect(player?.getCoordinates()).toStrictEqual({ x: 9, y: 1 });
         expect(board.getBoard()[9][1].getCharacter()).toBe(player);
         await player?.moveLeft();
@@ -140,13 +141,13 @@ describe('Player', () => {
     })
 
     it('should not move other player cell', async () => {
-        const board = new Level1Board(match,'map', 1);
+        const board = BoardFactory.createBoard(match, 'desert', 1);
         board.initialize();
         const host = 'host';
         const guest = 'guest';
-        await board.startGame(host, guest);
-        const player = board.getHost();
-        const player2 = board.getGuest();
+        await board.startGame([host, guest]);
+        const player = board.getPlayer(host);
+        const player2 = board.getPlayer(guest);
         board.getBoard()[9][2].setCharacter(player2);
         expect(player?.getCoordinates()).toStrictEqual({ x: 9, y: 1 });
         expect(board.getBoard()[9][1].getCharacter()).toBe(player);
@@ -160,7 +161,7 @@ describe('Player', () => {
 
     describe('color methods', () => {
         it('should get player color', () => {
-            const board = new Level1Board(match, 'map', 1);
+            const board = BoardFactory.createBoard(match, 'desert', 1);
             const cell = new Cell(1, 1);
             const player = new Player(cell, board, 'id-player-test');
             
@@ -173,7 +174,7 @@ describe('Player', () => {
 
     describe('orientation methods', () => {
         it('should get and change orientation', () => {
-            const board = new Level1Board(match, 'map', 1);
+            const board = BoardFactory.createBoard(match, 'desert', 1);
             const cell = new Cell(1, 1);
             const player = new Player(cell, board, 'id-player-test');
             
@@ -190,7 +191,7 @@ describe('Player', () => {
         });
 
         it('should return update data when changing orientation', () => {
-            const board = new Level1Board(match, 'map', 1);
+            const board = BoardFactory.createBoard(match, 'desert', 1);
             const cell = new Cell(1, 1);
             const player = new Player(cell, board, 'id-player-test');
             
@@ -204,7 +205,7 @@ describe('Player', () => {
 
     describe('state methods', () => {
         it('should get character state', () => {
-            const board = new Level1Board(match, 'map', 1);
+            const board = BoardFactory.createBoard(match, 'desert', 1);
             const cell = new Cell(1, 1);
             const player = new Player(cell, board, 'id-player-test');
             
@@ -229,7 +230,7 @@ describe('Player', () => {
 
     describe('reborn method', () => {
         it('should reborn a dead player', () => {
-            const board = new Level1Board(match, 'map', 1);
+            const board = BoardFactory.createBoard(match, 'desert', 1);
             const cell = new Cell(1, 1);
             const player = new Player(cell, board, 'id-player-test');
             
@@ -243,7 +244,7 @@ describe('Player', () => {
 
     describe('pathfinding methods', () => {
         it('should get shortest path to character', () => {
-            const board = new Level1Board(match, 'map', 1);
+            const board = BoardFactory.createBoard(match, 'desert', 1);
             const sourceCell = new Cell(1, 1);
             const targetCell = new Cell(3, 3);
             const player = new Player(sourceCell, board, 'id-player-test');
@@ -271,7 +272,7 @@ describe('Player', () => {
         });
 
         it('should get shortest direction to character', () => {
-            const board = new Level1Board(match, 'map', 1);
+            const board = BoardFactory.createBoard(match, 'desert', 1);
             const sourceCell = new Cell(1, 1);
             const targetCell = new Cell(2, 1);
             const player = new Player(sourceCell, board, 'id-player-test');
@@ -294,7 +295,7 @@ describe('Player', () => {
         });
 
         it('should return null when no path exists', () => {
-            const board = new Level1Board(match, 'map', 1);
+            const board = BoardFactory.createBoard(match, 'desert', 1);
             const sourceCell = new Cell(1, 1);
             const targetCell = new Cell(2, 1);
             const player = new Player(sourceCell, board, 'id-player-test');
@@ -313,7 +314,7 @@ describe('Player', () => {
 
     describe('BoardItem methods', () => {
         it('should not block cells', () => {
-            const board = new Level1Board(match, 'map', 1);
+            const board = BoardFactory.createBoard(match, 'desert', 1);
             const cell = new Cell(1, 1);
             const player = new Player(cell, board, 'id-player-test');
             
@@ -321,7 +322,7 @@ describe('Player', () => {
         });
 
         it('should handle pick method', async () => {
-            const board = new Level1Board(match, 'map', 1);
+            const board = BoardFactory.createBoard(match, 'desert', 1);
             const cell = new Cell(1, 1);
             const player = new Player(cell, board, 'id-player-test');
             
@@ -332,7 +333,7 @@ describe('Player', () => {
 
     describe('get DTO', () => {
         it('should return the DTO of the player', () => {
-            const board = new Level1Board(match, 'map', 1);
+            const board = BoardFactory.createBoard(match, 'desert', 1);
             const cell = new Cell(1, 1);
             const player = new Player(cell, board, 'id-player-test');
             
@@ -346,7 +347,7 @@ describe('Player', () => {
         });
 
         it('should return player storage', () => {
-            const board = new Level1Board(match, 'map', 1);
+            const board = BoardFactory.createBoard(match, 'desert', 1);
             const cell = new Cell(1, 1);
             const player = new Player(cell, board, 'id-player-test');
             
@@ -357,10 +358,75 @@ describe('Player', () => {
                 color: 'brown',
                 coordinates: { x: 1, y: 1 },
                 direction: 'down',
-                state: 'alive'
+                state: 'alive',
+                fruits: 0,
+                deaths: 0,
+                scoredAt: 0
             });
         });
     })
 
+    describe('score', () => {
+        it('should count the fruits picked by the player', async () => {
+            const board = BoardFactory.createBoard(match, 'desert', 1);
+            board.initialize();
+            await board.startGame(['host', 'guest']);
+            match.getElapsedSeconds.mockReturnValue(12);
+            const cell = board.getBoard()[9][0];
+            cell.setItem(new Fruit(cell, 'banana', board));
+            const player = board.getPlayer('host');
+
+            const update = await player?.moveLeft();
+
+            expect(update).toEqual(expect.objectContaining({ idItemConsumed: expect.any(String), score: 1 }));
+            expect(player?.getScore()).toEqual({ id: 'host', fruits: 1, deaths: 0, scoredAt: 12 });
+        });
+
+        it('should count each death of the player once', () => {
+            const board = BoardFactory.createBoard(match, 'desert', 1);
+            const player = new Player(new Cell(1, 1), board, 'id-player-test');
+            player.die();
+            player.die();
+            player.reborn();
+            player.die();
+            expect(player.getScore().deaths).toBe(2);
+        });
+
+        it('should restore the score from the storage', () => {
+            const board = BoardFactory.createBoard(match, 'desert', 1);
+            const player = new Player(new Cell(1, 1), board, 'id-player-test');
+            player.loadScore({ ...player.getPlayerStorage(), fruits: 4, deaths: 1, scoredAt: 30 });
+            expect(player.getScore()).toEqual({ id: 'id-player-test', fruits: 4, deaths: 1, scoredAt: 30 });
+        });
+    });
+
+    describe('speed', () => {
+        it('should not move faster than its speed', async () => {
+            const board = BoardFactory.createBoard(match, 'desert', 1);
+            board.initialize();
+            await board.startGame(['host', 'guest']);
+            const now = vi.spyOn(board, 'now').mockReturnValue(1000);
+            const player = board.getPlayer('host') as Player;
+            player.setSpeed(4);
+
+            await player.moveLeft();
+            await expect(player.moveRight()).rejects.toThrow(CharacterError.TOO_FAST);
+            now.mockReturnValue(1249);
+            await expect(player.moveRight()).rejects.toThrow(CharacterError.TOO_FAST);
+            now.mockReturnValue(1250);
+            await player.moveRight();
+
+            expect(player.getCoordinates()).toStrictEqual({ x: 9, y: 1 });
+        });
+
+        it('should keep its own speed in the storage', () => {
+            const board = BoardFactory.createBoard(match, 'desert', 1);
+            const player = new Player(new Cell(1, 1), board, 'id-player-test');
+            player.setSpeed(6);
+            expect(player.getSpeed()).toBe(6);
+            expect(player.getPlayerStorage().speed).toBe(6);
+        });
+    });
+
     
 });
\ No newline at end of file
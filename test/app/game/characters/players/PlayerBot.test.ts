@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mockDeep } from 'vitest-mock-extended';
+import PlayerBot from '../../../../../src/app/game/characters/players/PlayerBot.js';
+import LevelBoard from '../../../../../src/app/game/match/boards/LevelBoard.js';
+import type Match from '../../../../../src/app/game/match/Match.js';
+import type { PlayerMove } from '../../../../../src/schemas/zod.js';
+
+vi.mock('../../../../../src/server.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+    config: {
+        ENEMIES_SPEED_MS: 1000,
+    },
+}));
+
+const botId = PlayerBot.getBotId('match');
+
+const createBoard = (grid: string[]): LevelBoard => {
+    const board = new LevelBoard(mockDeep<Match>(), 'desert', 1, {
+        level: 1,
+        map: 'desert',
+        fruits: ['banana'],
+        enemy: 'troll',
+        grid,
+    });
+    board.initialize();
+    // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+    board['setUpPlayers'](['host', botId]);
+    return board;
+};
+
+describe('PlayerBot', () => {
+    it('should identify the bot players', () => {
+        expect(PlayerBot.getBotId('match1')).toBe('bot-match1');
+        expect(PlayerBot.isBot('bot-match1')).toBe(true);
+        expect(PlayerBot.isBot('user1')).toBe(false);
+    });
+
+    it('should walk towards the closest fruit', async () => {
+        const board = createBoard(['P.......', '........', '..F....P']);
+        const bot = new PlayerBot(board, botId);
+
+        const update = await bot.play();
+
+        expect(update?.type).toBe('update-move');
+        expect((update?.payload as PlayerMove).coordinates).toEqual({ x: 2, y: 6 });
+        expect(board.getPlayer(botId)?.getOrientation()).toBe('left');
+    });
+
+    it('should prefer a longer path that keeps away from the enemies', async () => {
+        const board = createBoard(['PRRRRRRRRRRR', 'F.E..P.....F', 'RRRRRRRRRRRR']);
+        const bot = new PlayerBot(board, botId);
+
+        await bot.play();
+
+        expect(board.getPlayer(botId)?.getCoordinates()).toEqual({ x: 1, y: 6 });
+    });
+
+    it('should collect the fruits until the board is cleared', async () => {
+        const board = createBoard(['P.......', '........', '..F..F.P']);
+        const bot = new PlayerBot(board, botId);
+
+        for (let turn = 0; turn < 10 && board.getFruitsNumber() > 0; turn++) await bot.play();
+
+        expect(board.getFruitsNumber()).toBe(0);
+    });
+
+    it('should break the ice when every path to a fruit is frozen', async () => {
+        const board = createBoard(['P.....', 'RRRRRR', 'F#P...']);
+        const bot = new PlayerBot(board, botId);
+
+        const rotation = await bot.play();
+        expect(rotation?.type).toBe('update-move');
+        expect(board.getPlayer(botId)?.getOrientation()).toBe('left');
+
+        const power = await bot.play();
+        expect(power?.type).toBe('update-frozen-cells');
+        expect(board.getBoard()[2][1].isFrozen()).toBe(false);
+    });
+
+    it('should run away from a close enemy when no fruit can be reached', async () => {
+        const board = createBoard(['PRFR', 'RRRR', '.EP.']);
+        const bot = new PlayerBot(board, botId);
+
+        await bot.play();
+
+        expect(board.getPlayer(botId)?.getCoordinates()).toEqual({ x: 2, y: 3 });
+    });
+
+    it('should not play when the bot is dead', async () => {
+        const board = createBoard(['P.......', '........', '..F....P']);
+        board.getPlayer(botId)?.die();
+        const bot = new PlayerBot(board, botId);
+
+        expect(await bot.play()).toBeNull();
+        expect(board.getPlayer(botId)?.getCoordinates()).toEqual({ x: 2, y: 7 });
+    });
+});
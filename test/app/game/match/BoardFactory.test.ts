@@ -2,11 +2,9 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { mockDeep } from 'vitest-mock-extended';
 import type Match from '../../../../src/app/game/match/Match.js';
 import BoardFactory from '../../../../src/app/game/match/boards/BoardFactory.js';
-import Level1Board from '../../../../src/app/game/match/boards/levels/Level1Board.js';
-import Level2Board from '../../../../src/app/game/match/boards/levels/Level2Board.js';
-import Level3Board from '../../../../src/app/game/match/boards/levels/Level3Board.js';
-import Level4Board from '../../../../src/app/game/match/boards/levels/Level4Board.js';
-import Level5Board from '../../../../src/app/game/match/boards/levels/Level5Board.js';
+import LevelBoard from '../../../../src/app/game/match/boards/LevelBoard.js';
+import LevelRegistry from '../../../../src/app/game/match/boards/LevelRegistry.js';
+import ProceduralBoard from '../../../../src/app/game/match/boards/ProceduralBoard.js';
 const mockMatch = mockDeep<Match>();
 vi.mock('../../../../src/server.js', () => {
     return {
@@ -24,52 +22,66 @@ vi.mock('../../../../src/server.js', () => {
 
 describe('Board Factory tests', () => {
     beforeEach(() => {
-        vi.clearAllMocks();
+        vi.restoreAllMocks();
     });
 
-    it('should create a Level1Board instance for level 1', () => {
-        const board1 = BoardFactory.createBoard(mockMatch, 'map1', 1);
-        // biome-ignore lint/complexity/useLiteralKeys: <explanation>
-        expect(board1["level"]).toBe(1);
-        expect(board1).toBeInstanceOf(Level1Board);
+    it('should create a LevelBoard with the definition of each registered level', () => {
+        for (const map of ['desert', 'ice', 'jungle']) {
+            for (let level = 1; level <= 5; level++) {
+                const board = BoardFactory.createBoard(mockMatch, map, level);
+                // biome-ignore lint/complexity/useLiteralKeys: <explanation>
+                expect(board["level"]).toBe(level);
+                // biome-ignore lint/complexity/useLiteralKeys: <explanation>
+                expect(board["map"]).toBe(map);
+                expect(board).toBeInstanceOf(LevelBoard);
+                // biome-ignore lint/complexity/useLiteralKeys: <explanation>
+                expect((board as LevelBoard)["definition"]).toBe(LevelRegistry.getLevel(map, level));
+            }
+        }
     });
 
-    it('should create a Level2Board instance for level 2', () => {
-        const board2 = BoardFactory.createBoard(mockMatch, 'map2', 2);
-        // biome-ignore lint/complexity/useLiteralKeys: <explanation>
-        expect(board2["level"]).toBe(2);
-        expect(board2).toBeInstanceOf(Level2Board);
+    it('should throw an error for an unknown level of a classic board', () => {
+        for( let i = 6; i < 100; i++ ) {
+            expect(() => BoardFactory.createBoard(mockMatch, 'ice', i)).toThrow(
+                'The requested level was not found'
+            );
+        }
     });
 
-    it('should create a Level3Board instance for level 3', () => {
-        const board3 = BoardFactory.createBoard(mockMatch, 'map3', 3);
-        // biome-ignore lint/complexity/useLiteralKeys: <explanation>
-        expect(board3["level"]).toBe(3);
-        expect(board3).toBeInstanceOf(Level3Board);
+    it('should use the level 1 definition of the map as the theme of an unknown procedural level', () => {
+        for (const i of [6, 50, 99]) {
+            const board = BoardFactory.createBoard(mockMatch, 'ice', i, { mode: 'endless', seed: 42 });
+            // biome-ignore lint/complexity/useLiteralKeys: <explanation>
+            expect(board["level"]).toBe(i);
+            expect(board).toBeInstanceOf(ProceduralBoard);
+            // biome-ignore lint/complexity/useLiteralKeys: <explanation>
+            expect((board as ProceduralBoard)["theme"]).toBe(LevelRegistry.getLevel('ice', 1));
+        }
     });
 
-    it('should create a Level4Board instance for level 4', () => {
-        const board4 = BoardFactory.createBoard(mockMatch, 'map4', 4);
-        // biome-ignore lint/complexity/useLiteralKeys: <explanation>
-        expect(board4["level"]).toBe(4);
-        expect(board4).toBeInstanceOf(Level4Board);
+    it('should create a ProceduralBoard for procedural and endless matches with a seed', () => {
+        for (const mode of ['procedural', 'endless'] as const) {
+            const board = BoardFactory.createBoard(mockMatch, 'jungle', 2, { mode, seed: 42 });
+            expect(board).toBeInstanceOf(ProceduralBoard);
+            expect((board as ProceduralBoard).getSeed()).toBe(42);
+        }
     });
 
-    it('should create a Level5Board instance for level 5', () => {
-        const board5 = BoardFactory.createBoard(mockMatch, 'map5', 5);
-        // biome-ignore lint/complexity/useLiteralKeys: <explanation>
-        expect(board5["level"]).toBe(5);
-        expect(board5).toBeInstanceOf(Level5Board);
+    it('should create a LevelBoard for classic matches even if a seed is given', () => {
+        const board = BoardFactory.createBoard(mockMatch, 'jungle', 2, { mode: 'classic', seed: 42 });
+        expect(board).toBeInstanceOf(LevelBoard);
     });
 
-    it('should create a Level1Board instance for an unknown level', () => {
-        for( let i = 6; i < 100; i++ ) {
-            const board = BoardFactory.createBoard(mockMatch, 'map1', i);
-            // biome-ignore lint/complexity/useLiteralKeys: <explanation>
-            expect(board["level"]).toBe(i);
-            expect(board).toBeInstanceOf(Level1Board);
-        }
+    it('should throw an error for an unknown map', () => {
+        expect(() => BoardFactory.createBoard(mockMatch, 'volcano', 1)).toThrow(
+            'The requested map was not found'
+        );
     });
 
-
-});
\ No newline at end of file
+    it('should throw an error when no level is registered for the map', () => {
+        vi.spyOn(LevelRegistry, 'getLevel').mockReturnValue(undefined);
+        expect(() => BoardFactory.createBoard(mockMatch, 'desert', 1)).toThrow(
+            'The requested level was not found'
+        );
+    });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import MatchJournal from '../../../../src/app/game/match/MatchJournal.js';
+
+describe('MatchJournal', () => {
+  it('should number the inputs one after the other', () => {
+    const journal = new MatchJournal();
+
+    expect(journal.getIndex()).toBe(0);
+    expect(journal.nextIndex()).toBe(1);
+    expect(journal.nextIndex()).toBe(2);
+    expect(journal.getIndex()).toBe(2);
+  });
+
+  it('should keep counting from a restored index', () => {
+    const journal = new MatchJournal(7);
+
+    expect(journal.nextIndex()).toBe(8);
+  });
+
+  it('should run the inputs and the snapshots one at a time', async () => {
+    const journal = new MatchJournal();
+    const steps: string[] = [];
+    let finishInput = () => {};
+    const input = journal.runExclusive(async () => {
+      steps.push('input started');
+      await new Promise<void>((resolve) => {
+        finishInput = resolve;
+      });
+      journal.nextIndex();
+      steps.push('input logged');
+    });
+    const snapshot = journal.runExclusive(async () => {
+      steps.push(`snapshot at ${journal.getIndex()}`);
+    });
+
+    await new Promise((resolve) => setImmediate(resolve));
+    finishInput();
+    await Promise.all([input, snapshot]);
+
+    expect(steps).toEqual(['input started', 'input logged', 'snapshot at 1']);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import MatchPauses from '../../../../src/app/game/match/MatchPauses.js';
+import { config } from '../../../../src/server.js';
+
+vi.mock('../../../../src/server.js', () => ({
+  config: {
+    PAUSES_PER_PLAYER: 2,
+    PAUSE_RESUME_VOTE: false,
+  },
+}));
+
+describe('MatchPauses', () => {
+  afterEach(() => {
+    // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+    (config as any).PAUSES_PER_PLAYER = 2;
+    // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+    (config as any).PAUSE_RESUME_VOTE = false;
+  });
+
+  it('should count the pauses left of every player', () => {
+    const pauses = new MatchPauses(['host1', 'guest1']);
+
+    pauses.pause('host1');
+
+    expect(pauses.getPausesLeft('host1')).toBe(1);
+    expect(pauses.getPausesLeft('guest1')).toBe(2);
+    expect(pauses.getUsed()).toEqual({ host1: 1 });
+  });
+
+  it('should start from the pauses already taken', () => {
+    const pauses = new MatchPauses(['host1', 'guest1'], { host1: 2 });
+
+    expect(() => pauses.pause('host1')).toThrow('The player has no pauses left');
+    expect(pauses.getUsed()).toEqual({ host1: 2 });
+  });
+
+  it('should not limit the pauses when the limit is not positive', () => {
+    // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+    (config as any).PAUSES_PER_PLAYER = 0;
+    const pauses = new MatchPauses(['host1', 'guest1']);
+
+    for (let pause = 0; pause < 5; pause++) pauses.pause('host1');
+
+    expect(pauses.getPausesLeft('host1')).toBeNull();
+    expect(pauses.getState()).toEqual({ by: 'host1', resumeVotes: [] });
+  });
+
+  it('should let any player resume when the players do not vote', () => {
+    const pauses = new MatchPauses(['host1', 'guest1']);
+    pauses.pause('host1');
+
+    expect(pauses.voteResume('guest1')).toBe(true);
+  });
+
+  it('should resume once every player voted', () => {
+    // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+    (config as any).PAUSE_RESUME_VOTE = true;
+    const pauses = new MatchPauses(['host1', 'guest1']);
+    pauses.pause('host1');
+
+    expect(pauses.voteResume('guest1')).toBe(false);
+    expect(pauses.voteResume('guest1')).toBe(false);
+    expect(pauses.getState().resumeVotes).toEqual(['guest1']);
+    expect(pauses.voteResume('host1')).toBe(true);
+  });
+
+  it('should forget the votes and who paused once the match resumes', () => {
+    // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+    (config as any).PAUSE_RESUME_VOTE = true;
+    const pauses = new MatchPauses(['host1', 'guest1']);
+    pauses.pause('host1');
+    pauses.voteResume('guest1');
+
+    pauses.resume();
+
+    expect(pauses.getState()).toEqual({
+      pausesLeft: { host1: 1, guest1: 2 },
+      resumeVotes: [],
+    });
+  });
+});
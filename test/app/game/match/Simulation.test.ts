@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mockDeep } from 'vitest-mock-extended';
+import Match from '../../../../src/app/game/match/Match.js';
+import Simulation from '../../../../src/app/game/match/Simulation.js';
+import { tickScheduler } from '../../../../src/app/game/match/TickScheduler.js';
+import type GameService from '../../../../src/app/game/services/GameService.js';
+import type { UpdateAll } from '../../../../src/schemas/zod.js';
+
+vi.mock('../../../../src/server.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+  config: {
+    TICK_RATE_MS: 100,
+    TIMER_SPEED_MS: 1000,
+    ENEMIES_SPEED_MS: 500,
+    BOT_SPEED_MS: 500,
+    MATCH_TIME_SECONDS: 300,
+    TIME_TO_GENERATE_FRUIT: 0,
+  },
+}));
+
+const runMatch = async (seed: number, ticks: number): Promise<UpdateAll> => {
+  const simulation = Simulation.deterministic(seed);
+  const match = new Match(
+    mockDeep<GameService>(),
+    'match-id',
+    1,
+    'desert',
+    ['host-id', 'guest-id'],
+    false,
+    false,
+    300,
+    { mode: 'classic' },
+    simulation
+  );
+  match.initialize();
+  await match.startGame();
+  await simulation.step(ticks);
+  const update = match.getMatchUpdate();
+  await match.stopGame();
+  return update;
+};
+
+describe('Simulation', () => {
+  it('should share the game loop of the process in the live simulation', () => {
+    expect(Simulation.live()).toBe(Simulation.live());
+    expect(Simulation.live().getScheduler()).toBe(tickScheduler);
+  });
+
+  it('should generate sequential ids for the items of the board', async () => {
+    const update = await runMatch(1, 0);
+    const ids = update.cells.flatMap(({ item, character }) =>
+      [item?.id, character?.id].filter((id) => id?.startsWith('item-'))
+    );
+    expect(ids).toContain('item-1');
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should step the match clock by hand', async () => {
+    const update = await runMatch(1, 50);
+    expect(update.time).toEqual({ minutesLeft: 4, secondsLeft: 55 });
+  });
+
+  it('should reproduce the same match for the same seed', async () => {
+    const first = await runMatch(42, 120);
+    const second = await runMatch(42, 120);
+    expect(second).toEqual(first);
+  });
+
+  it('should not run the ticks on its own', async () => {
+    const simulation = Simulation.deterministic(1);
+    const task = vi.fn().mockResolvedValue(undefined);
+    const taskId = simulation.getScheduler().schedule(100, task);
+
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    expect(task).not.toHaveBeenCalled();
+
+    await simulation.advance(300);
+    expect(task).toHaveBeenCalledTimes(3);
+    simulation.getScheduler().cancel(taskId);
+  });
+
+  it('should only move its clock forward with the ticks', async () => {
+    const simulation = Simulation.deterministic(1);
+    expect(simulation.getScheduler().now()).toBe(0);
+
+    await simulation.advance(300);
+    expect(simulation.getScheduler().now()).toBe(300);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import TickScheduler from '../../../../src/app/game/match/TickScheduler.js';
+import { logger } from '../../../../src/server.js';
+
+vi.mock('../../../../src/server.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+  config: {
+    TICK_RATE_MS: 100,
+  },
+}));
+
+describe('TickScheduler', () => {
+  let scheduler: TickScheduler;
+  const taskIds: number[] = [];
+
+  beforeEach(() => {
+    scheduler = new TickScheduler();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    for (const taskId of taskIds.splice(0)) scheduler.cancel(taskId);
+  });
+
+  it('should run each task at its own rate', async () => {
+    const fast = vi.fn().mockResolvedValue(undefined);
+    const slow = vi.fn().mockResolvedValue(undefined);
+    taskIds.push(scheduler.schedule(100, fast), scheduler.schedule(300, slow));
+
+    for (let i = 0; i < 6; i++) await scheduler.tick();
+
+    expect(fast).toHaveBeenCalledTimes(6);
+    expect(slow).toHaveBeenCalledTimes(2);
+  });
+
+  it('should run the due tasks of a group in the order they were scheduled', async () => {
+    const calls: string[] = [];
+    taskIds.push(
+      scheduler.schedule(
+        100,
+        async () => {
+          await Promise.resolve();
+          calls.push('first');
+        },
+        'match'
+      ),
+      scheduler.schedule(
+        100,
+        async () => {
+          calls.push('second');
+        },
+        'match'
+      )
+    );
+
+    await scheduler.tick();
+
+    expect(calls).toEqual(['first', 'second']);
+  });
+
+  it('should not run a task cancelled by a previous task of the same tick', async () => {
+    const cancelled = vi.fn().mockResolvedValue(undefined);
+    let cancelledId = 0;
+    taskIds.push(
+      scheduler.schedule(100, async () => scheduler.cancel(cancelledId), 'match'),
+      (cancelledId = scheduler.schedule(100, cancelled, 'match'))
+    );
+
+    await scheduler.tick();
+
+    expect(cancelled).not.toHaveBeenCalled();
+  });
+
+  it('should keep running the other tasks when a task fails', async () => {
+    const next = vi.fn().mockResolvedValue(undefined);
+    taskIds.push(
+      scheduler.schedule(100, vi.fn().mockRejectedValue(new Error('boom')), 'match'),
+      scheduler.schedule(100, next, 'match')
+    );
+
+    await scheduler.tick();
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(logger.error).toHaveBeenCalled();
+  });
+
+  it('should drop a tick that fires while the previous one is still running', async () => {
+    let release: () => void = () => undefined;
+    const task = vi.fn(() => new Promise<void>((resolve) => (release = resolve)));
+    taskIds.push(scheduler.schedule(100, task));
+
+    const running = scheduler.tick();
+    await scheduler.tick();
+    release();
+    await running;
+
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not hold the other groups while a group is still running', async () => {
+    let release: () => void = () => undefined;
+    const slow = vi.fn(() => new Promise<void>((resolve) => (release = resolve)));
+    const other = vi.fn().mockResolvedValue(undefined);
+    taskIds.push(scheduler.schedule(100, slow, 'slow'), scheduler.schedule(100, other, 'other'));
+
+    const running = scheduler.tick();
+    // Lets the tasks of the other group finish while the slow one is still running
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await scheduler.tick();
+    await scheduler.tick();
+    release();
+    await running;
+
+    expect(slow).toHaveBeenCalledTimes(1);
+    expect(other).toHaveBeenCalledTimes(3);
+  });
+
+  it('should follow the wall clock when the loop falls behind', () => {
+    vi.useFakeTimers();
+    try {
+      const task = vi.fn().mockResolvedValue(undefined);
+      taskIds.push(scheduler.schedule(1000, task));
+
+      // The loop is held for a whole second, so its ticks never fire in the meantime
+      vi.setSystemTime(Date.now() + 1000);
+      vi.advanceTimersByTime(100);
+
+      expect(task).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should only keep the loop running while there are tasks', () => {
+    vi.useFakeTimers();
+    try {
+      const task = vi.fn().mockResolvedValue(undefined);
+      const taskId = scheduler.schedule(100, task);
+      expect(vi.getTimerCount()).toBe(1);
+
+      vi.advanceTimersByTime(200);
+      expect(task).toHaveBeenCalledTimes(1);
+
+      scheduler.cancel(taskId);
+      expect(scheduler.size()).toBe(0);
+      expect(vi.getTimerCount()).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
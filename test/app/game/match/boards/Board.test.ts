@@ -1,5 +1,6 @@
 import type Cell from '../../../../../src/app/game/match/boards/CellBoard.js';
-import Level1Board from '../../../../../src/app/game/match/boards/levels/Level1Board.js';
+import type Board from '../../../../../src/app/game/match/boards/Board.js';
+import BoardFactory from '../../../../../src/app/game/match/boards/BoardFactory.js';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { mockDeep, mockReset } from 'vitest-mock-extended';
 import type Match from '../../../../../src/app/game/match/Match.js';
@@ -10,7 +11,8 @@ import type {
   CellDTO,
   PathResultWithDirection,
 } from '../../../../../src/schemas/zod.js';
-import type { Worker } from 'node:worker_threads';
+import type Enemy from '../../../../../src/app/game/characters/enemies/Enemy.js';
+import { tickScheduler } from '../../../../../src/app/game/match/TickScheduler.js';
 vi.mock('../../../../../src/server.js', () => ({
   logger: {
     info: vi.fn(),
@@ -19,6 +21,7 @@ vi.mock('../../../../../src/server.js', () => ({
     debug: vi.fn(),
   },
   config: {
+    TICK_RATE_MS: 1000,
     game: {
       board: { rows: 5, cols: 5 },
       fruits: { number: 3 },
@@ -35,7 +38,7 @@ vi.mock('../../../../../src/utils/Graph.js', () => ({
 
 describe('Board', () => {
   const match = mockDeep<Match>();
-  let board: Level1Board;
+  let board: Board;
   const hostId = 'host-id';
   const guestId = 'guest-id';
   let hostMock: Player;
@@ -43,15 +46,14 @@ describe('Board', () => {
 
   beforeEach(() => {
     mockReset(match);
-    board = new Level1Board(match, 'desert', 1);
+    board = BoardFactory.createBoard(match, 'desert', 1);
 
     vi.spyOn(board, 'initialize').mockImplementation(() => undefined);
 
     hostMock = mockDeep<Player>();
     guestMock = mockDeep<Player>();
 
-    Object.defineProperty(board, 'host', { value: hostMock, writable: true });
-    Object.defineProperty(board, 'guest', { value: guestMock, writable: true });
+    Object.defineProperty(board, 'players', { value: [hostMock, guestMock], writable: true });
 
     hostMock.getId = vi.fn(() => hostId);
     guestMock.getId = vi.fn(() => guestId);
@@ -124,7 +126,7 @@ describe('Board', () => {
       vi.spyOn(board as any, 'loadCells').mockImplementation(() => {});
 
       // Call the method
-      board.loadBoard(boardStorage, hostStorage, guestStorage);
+      board.loadBoard(boardStorage, [hostStorage, guestStorage]);
 
       // Assertions
       // biome-ignore lint/complexity/useLiteralKeys: Testing purposes
@@ -145,10 +147,8 @@ describe('Board', () => {
       expect(board['generateBoard']).toHaveBeenCalled();
       // biome-ignore lint/complexity/useLiteralKeys: Testing purposes
       expect(board['setUpPlayers']).toHaveBeenCalledWith(
-        hostId,
-        guestId,
-        hostStorage,
-        guestStorage
+        [hostId, guestId],
+        [hostStorage, guestStorage]
       );
       // biome-ignore lint/complexity/useLiteralKeys: Testing purposes
       expect(board['loadCells']).toHaveBeenCalledWith(boardStorage.board);
@@ -156,23 +156,19 @@ describe('Board', () => {
   });
 
   describe('getPlayersStorage', () => {
-    it('should return storage data for both players', () => {
+    it('should return storage data for all the players', () => {
       // Call method
       const result = board.getPlayersStorage();
 
       // Assertions
       expect(hostMock.getPlayerStorage).toHaveBeenCalled();
       expect(guestMock.getPlayerStorage).toHaveBeenCalled();
-      expect(result).toEqual({
-        hostStorage: hostMock.getPlayerStorage(),
-        guestStorage: guestMock.getPlayerStorage(),
-      });
+      expect(result).toEqual([hostMock.getPlayerStorage(), guestMock.getPlayerStorage()]);
     });
 
     it('should throw an error if players are not defined', () => {
       // Remove players
-      Object.defineProperty(board, 'host', { value: null });
-      Object.defineProperty(board, 'guest', { value: null });
+      Object.defineProperty(board, 'players', { value: [] });
 
       // Expect error
       expect(() => board.getPlayersStorage()).toThrow();
@@ -238,8 +234,7 @@ describe('Board', () => {
     });
 
     it('should throw an error if players are not defined', async () => {
-      Object.defineProperty(board, 'host', { value: null });
-      Object.defineProperty(board, 'guest', { value: null });
+      Object.defineProperty(board, 'players', { value: [] });
 
       await expect(board.getBoardStorage()).rejects.toThrow();
     });
@@ -265,9 +260,19 @@ describe('Board', () => {
       expect(board.checkLose()).toBe(false);
     });
 
+    it('should return false while any of four players is alive', () => {
+      const players = [hostMock, guestMock, mockDeep<Player>(), mockDeep<Player>()];
+      for (const player of players) player.isAlive = vi.fn(() => false);
+      players[3].isAlive = vi.fn(() => true);
+      Object.defineProperty(board, 'players', { value: players });
+
+      expect(board.checkLose()).toBe(false);
+      players[3].isAlive = vi.fn(() => false);
+      expect(board.checkLose()).toBe(true);
+    });
+
     it('should throw error if players are not defined', () => {
-      Object.defineProperty(board, 'host', { value: null });
-      Object.defineProperty(board, 'guest', { value: null });
+      Object.defineProperty(board, 'players', { value: [] });
 
       expect(() => board.checkLose()).toThrow();
     });
@@ -299,6 +304,8 @@ describe('Board', () => {
 
       // Assertions
       expect(result).toEqual({
+        rows: 16,
+        cols: 16,
         enemiesNumber: 4,
         fruitsNumber: 10,
         playersStartCoordinates: [
@@ -383,7 +390,7 @@ describe('Board', () => {
 
       // Call protected method using type assertion
       // biome-ignore lint/complexity/useLiteralKeys: Testing purposes
-      const result = (board as unknown as Level1Board)['getUpdateFruits']();
+      const result = (board as unknown as Board)['getUpdateFruits']();
 
       // Assertions
       expect(result).toEqual({
@@ -487,8 +494,7 @@ describe('Board', () => {
 
     it('should throw error if players are not defined', () => {
       const mockCell = mockDeep<Cell>();
-      Object.defineProperty(board, 'host', { value: null });
-      Object.defineProperty(board, 'guest', { value: null });
+      Object.defineProperty(board, 'players', { value: [] });
 
       expect(() => board.getBestDirectionToPlayers(mockCell, true)).toThrow();
     });
@@ -517,17 +523,19 @@ describe('Board', () => {
         ],
       };
 
-      vi.spyOn(board, 'getPlayersPaths').mockReturnValue({
-        hostPath,
-        guestPath,
-      });
+      vi.spyOn(board, 'getPlayersPaths').mockReturnValue(
+        new Map([
+          [hostId, hostPath],
+          [guestId, guestPath],
+        ])
+      );
 
       const result = board.getBestPathToPlayers(mockCell, true);
 
       expect(result).toBe(hostPath);
     });
 
-    it('should return guest path when host path is null', () => {
+    it('should return guest path when the host has no path', () => {
       const mockCell = mockDeep<Cell>();
 
       const guestPath: PathResultWithDirection = {
@@ -540,23 +548,17 @@ describe('Board', () => {
         ],
       };
 
-      vi.spyOn(board, 'getPlayersPaths').mockReturnValue({
-        hostPath: null,
-        guestPath,
-      });
+      vi.spyOn(board, 'getPlayersPaths').mockReturnValue(new Map([[guestId, guestPath]]));
 
       const result = board.getBestPathToPlayers(mockCell, true);
 
       expect(result).toBe(guestPath);
     });
 
-    it('should return null when both paths are null', () => {
+    it('should return null when no player has a path', () => {
       const mockCell = mockDeep<Cell>();
 
-      vi.spyOn(board, 'getPlayersPaths').mockReturnValue({
-        hostPath: null,
-        guestPath: null,
-      });
+      vi.spyOn(board, 'getPlayersPaths').mockReturnValue(new Map());
 
       const result = board.getBestPathToPlayers(mockCell, true);
 
@@ -564,22 +566,63 @@ describe('Board', () => {
     });
   });
 
-  describe('stopGame', () => {
-    it('should terminate all worker threads', async () => {
-      const mockWorker1 = mockDeep<Worker>();
-      mockWorker1.terminate.mockResolvedValue(0);
-      const mockWorker2 = mockDeep<Worker>();
-      mockWorker2.terminate.mockResolvedValue(0);
+  describe('enemies on the game loop', () => {
+    const createEnemy = (id: string): Enemy => {
+      const enemy = mockDeep<Enemy>();
+      enemy.getId.mockReturnValue(id);
+      return enemy;
+    };
 
+    beforeEach(() => {
       // biome-ignore lint/complexity/useLiteralKeys: Testing purposes
-      board['workers'] = [mockWorker1, mockWorker2];
+      board['ENEMIES_SPEED'] = 1000;
+      const enemies = new Map(['enemy-c', 'enemy-a', 'enemy-b'].map((id) => [id, createEnemy(id)]));
+      Object.defineProperty(board, 'enemies', { value: enemies, writable: true });
+      match.isPaused.mockResolvedValue(false);
+    });
 
+    it('should move the enemies in the order of their IDs on every tick', async () => {
+      const moved: string[] = [];
+      // biome-ignore lint/suspicious/noExplicitAny: Testing purposes
+      vi.spyOn(board as any, 'handleEnemyMovement').mockImplementation(async (enemy) => {
+        moved.push((enemy as Enemy).getId());
+      });
+      // biome-ignore lint/complexity/useLiteralKeys: Testing purposes
+      await board['startEnemies']();
+
+      await tickScheduler.tick();
+      await board.stopGame();
+
+      expect(moved).toEqual(['enemy-a', 'enemy-b', 'enemy-c']);
+    });
+
+    it('should not move the enemies while the match is paused', async () => {
+      match.isPaused.mockResolvedValue(true);
+      // biome-ignore lint/suspicious/noExplicitAny: Testing purposes
+      const movement = vi.spyOn(board as any, 'handleEnemyMovement');
+      // biome-ignore lint/complexity/useLiteralKeys: Testing purposes
+      await board['startEnemies']();
+
+      await tickScheduler.tick();
       await board.stopGame();
 
-      expect(mockWorker1.terminate).toHaveBeenCalled();
-      expect(mockWorker2.terminate).toHaveBeenCalled();
+      expect(movement).not.toHaveBeenCalled();
+    });
+
+    it('should stop moving the enemies once a move ends the game', async () => {
+      // biome-ignore lint/suspicious/noExplicitAny: Testing purposes
+      const movement = vi.spyOn(board as any, 'handleEnemyMovement').mockImplementation(() =>
+        board.stopGame()
+      );
+      // biome-ignore lint/complexity/useLiteralKeys: Testing purposes
+      await board['startEnemies']();
+
+      await tickScheduler.tick();
+
+      expect(movement).toHaveBeenCalledTimes(1);
       // biome-ignore lint/complexity/useLiteralKeys: Testing purposes
-      expect(board['workers']).toEqual([]);
+      expect(board['enemiesTask']).toBeNull();
+      expect(tickScheduler.size()).toBe(0);
     });
   });
 
@@ -671,8 +714,7 @@ describe('revivePlayers', () => {
   });
   
   it('should throw error if players are not defined', () => {
-    Object.defineProperty(board, 'host', { value: null });
-    Object.defineProperty(board, 'guest', { value: null });
+    Object.defineProperty(board, 'players', { value: [] });
     
     expect(() => board.revivePlayers()).toThrow();
   });
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
 import Cell from '../../../../../src/app/game/match/boards/CellBoard.js';
-import Level1Board from '../../../../../src/app/game/match/boards/levels/Level1Board.js';
+import BoardFactory from '../../../../../src/app/game/match/boards/BoardFactory.js';
 import Fruit from '../../../../../src/app/game/match/boards/Fruit.js';
 import Troll from '../../../../../src/app/game/characters/enemies/Troll.js';
 import { mockDeep, mockReset } from 'vitest-mock-extended';
@@ -21,7 +21,7 @@ vi.mock('../../../../../src/server.js', () => ({
 
 describe('Cell', () => {
   const match = mockDeep<Match>();
-  const board = new Level1Board(match, 'desert', 1);
+  const board = BoardFactory.createBoard(match, 'desert', 1);
 
   beforeEach(() => {
     mockReset(match);
@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import Fruit from "../../../../../src/app/game/match/boards/Fruit.js";
 import Cell from "../../../../../src/app/game/match/boards/CellBoard.js";
-import type Level1Board from "../../../../../src/app/game/match/boards/levels/Level1Board.js";
+import type LevelBoard from "../../../../../src/app/game/match/boards/LevelBoard.js";
 import { mockDeep, mockReset } from "vitest-mock-extended";
 
 vi.mock('../../../../../src/server.js', () => {
@@ -27,7 +27,7 @@ vi.mock('../../../../../src/server.js', () => {
 });
 
 describe('Fruit', () => {
-    const board = mockDeep<Level1Board>();
+    const board = mockDeep<LevelBoard>();
     beforeEach(() => {
         mockReset(board);
     })
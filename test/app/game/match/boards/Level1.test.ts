@@ -1,5 +1,6 @@
 import Cell from '../../../../../src/app/game/match/boards/CellBoard.js';
-import Level1Board from '../../../../../src/app/game/match/boards/levels/Level1Board.js';
+import type Board from '../../../../../src/app/game/match/boards/Board.js';
+import BoardFactory from '../../../../../src/app/game/match/boards/BoardFactory.js';
 import Fruit from '../../../../../src/app/game/match/boards/Fruit.js';
 import { describe, it, expect, vi } from 'vitest';
 import Troll from '../../../../../src/app/game/characters/enemies/Troll.js';
@@ -35,7 +36,7 @@ describe('Board', () => {
   });
 
   it('should generate the board', async () => {
-    const board = new Level1Board(match, 'desert', 1);
+    const board = BoardFactory.createBoard(match, 'desert', 1);
     await board.initialize();
     const cellsBoard = board.getBoard();
     expect(cellsBoard).toHaveLength(16);
@@ -48,7 +49,7 @@ describe('Board', () => {
   });
 
   it('should generate the enemies', async () => {
-    const board = new Level1Board(match, 'desert', 1);
+    const board = BoardFactory.createBoard(match, 'desert', 1);
     await board.initialize();
     const enemies = board.getEnemies();
     expect(enemies).toHaveLength(4);
@@ -63,7 +64,7 @@ describe('Board', () => {
   });
 
   it('should remove a fruit', async () => {
-    const board = new Level1Board(match, 'desert', 1);
+    const board = BoardFactory.createBoard(match, 'desert', 1);
     await board.initialize();
     expect(board.getBoard()[4][10].getItem()).toBeInstanceOf(Fruit);
     await board.removeFruit({ x: 4, y: 10 });
@@ -72,14 +73,14 @@ describe('Board', () => {
   });
 
   it('should set up players', async () => {
-    const board = new Level1Board(match, 'desert', 1);
+    const board = BoardFactory.createBoard(match, 'desert', 1);
     await board.initialize();
     const host = 'host';
     const guest = 'guest';
-    await board.startGame(host, guest);
-    expect(board.getBoard()[9][1].getCharacter()).toBe(board.getHost());
+    await board.startGame([host, guest]);
+    expect(board.getBoard()[9][1].getCharacter()).toBe(board.getPlayer(host));
     expect(board.getBoard()[9][1].getCharacter() !== null).toBeTruthy();
     expect(board.getBoard()[9][14].getCharacter() !== null).toBeTruthy();
-    expect(board.getBoard()[9][14].getCharacter()).toBe(board.getGuest());
+    expect(board.getBoard()[9][14].getCharacter()).toBe(board.getPlayer(guest));
   });
 });
\ No newline at end of file
@@ -1,4 +1,5 @@
-import Level2Board from '../../../../../src/app/game/match/boards/levels/Level2Board.js';
+import type Board from '../../../../../src/app/game/match/boards/Board.js';
+import BoardFactory from '../../../../../src/app/game/match/boards/BoardFactory.js';
 import type Match from '../../../../../src/app/game/match/Match.js';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { mockDeep } from 'vitest-mock-extended';
@@ -20,8 +21,8 @@ vi.mock('../../../../../src/server.js', () => {
 );
 
 const { match, map, level } = { match: mockDeep<Match>(), map: 'desert', level: 2 };
-let boardMock:Level2Board;
-describe('Level2Board', () => {
+let boardMock: Board;
+describe('Level 2 board', () => {
 
     beforeEach( () => {
         vi.clearAllMocks();
@@ -29,7 +30,7 @@ describe('Level2Board', () => {
 
     describe('created correctly as expected', () => {
         it('should set up fruits', () => {
-            boardMock = new Level2Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             boardMock.initialize();
             const fruits = boardMock.getFruitsNumber();
@@ -37,7 +38,7 @@ describe('Level2Board', () => {
         });
 
         it('should set up rocks', () => {
-            boardMock = new Level2Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const rocks = boardMock["ROCKS"]
@@ -45,7 +46,7 @@ describe('Level2Board', () => {
         });
 
         it('should set up enemies', () => {
-            boardMock = new Level2Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const enemiesCoordinates = boardMock["enemiesCoordinates"];
@@ -59,15 +60,15 @@ describe('Level2Board', () => {
         })
 
         it('should set up players', () => {
-            boardMock = new Level2Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const players = boardMock["playersStartCoordinates"]
-            expect(players).toEqual([[9, 1], [9, 14]]);
+            expect(players).toEqual([[9, 1], [9, 14], [10, 5], [10, 10]]);
         });
 
         it('should set up fruits type', () => {
-            boardMock = new Level2Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const fruitsType = boardMock["FRUIT_TYPE"]
@@ -78,7 +79,7 @@ describe('Level2Board', () => {
         })
 
         it('should set up enemies speed', () => {
-            boardMock = new Level2Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const enemiesSpeed = boardMock["ENEMIES_SPEED"]
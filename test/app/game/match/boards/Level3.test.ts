@@ -1,4 +1,5 @@
-import Level3Board from '../../../../../src/app/game/match/boards/levels/Level3Board.js';
+import type Board from '../../../../../src/app/game/match/boards/Board.js';
+import BoardFactory from '../../../../../src/app/game/match/boards/BoardFactory.js';
 import type Match from '../../../../../src/app/game/match/Match.js';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { mockDeep } from 'vitest-mock-extended';
@@ -18,9 +19,9 @@ vi.mock('../../../../../src/server.js', () => {
     };
 });
 
-const { match, map, level } = { match: mockDeep<Match>(), map: 'forest', level: 3 };
-let boardMock:Level3Board;
-describe('Level3Board', () => {
+const { match, map, level } = { match: mockDeep<Match>(), map: 'desert', level: 3 };
+let boardMock: Board;
+describe('Level 3 board', () => {
 
     beforeEach( () => {
         vi.clearAllMocks();
@@ -28,25 +29,25 @@ describe('Level3Board', () => {
 
     describe('created correctly as expected', () => {
         it('should set up fruits', () => {
-            boardMock = new Level3Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             boardMock.initialize();
             const fruits = boardMock.getFruitsNumber();
-            // Count based on the coordinates in Level3Board loadContext
+            // Count based on the coordinates in the level 3 definition
             expect(fruits).toBeGreaterThan(0);
         });
 
         it('should set up rocks', () => {
-            boardMock = new Level3Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const rocks = boardMock["ROCKS"];
-            // Based on rocksCoordinates length from Level3Board
+            // Based on rocksCoordinates length from the level 3 definition
             expect(rocks).toBeGreaterThan(0);
         });
 
         it('should set up enemies', () => {
-            boardMock = new Level3Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const enemiesCoordinates = boardMock["enemiesCoordinates"];
@@ -60,15 +61,15 @@ describe('Level3Board', () => {
         });
 
         it('should set up players', () => {
-            boardMock = new Level3Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const players = boardMock["playersStartCoordinates"];
-            expect(players).toEqual([[10, 2], [10, 13]]);
+            expect(players).toEqual([[10, 2], [10, 13], [11, 1], [11, 14]]);
         });
 
         it('should set up fruits type', () => {
-            boardMock = new Level3Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const fruitsType = boardMock["FRUIT_TYPE"];
@@ -79,25 +80,25 @@ describe('Level3Board', () => {
         });
 
         it('should set up enemies speed', () => {
-            boardMock = new Level3Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const enemiesSpeed = boardMock["ENEMIES_SPEED"];
-            // In Level3Board, speed is config.ENEMIES_SPEED_MS + 500
+            // In the level 3 definition, speed is config.ENEMIES_SPEED_MS + 500
             expect(enemiesSpeed).toEqual(1500);
         });
 
         it('should set up fruit rounds', () => {
-            boardMock = new Level3Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const fruitsRounds = boardMock["remainingFruitRounds"];
-            // fruitsRounds equals FRUIT_TYPE.length in Level3Board
+            // fruitsRounds equals FRUIT_TYPE.length in the level 3 definition
             expect(fruitsRounds).toEqual(3 - 1);
         });
 
         it('should handle enemy movement', async () => {
-            boardMock = new Level3Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             const enemy = boardMock.getBoard()[2][7].getCharacter() as LogMan;
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
@@ -112,20 +113,18 @@ describe('Level3Board', () => {
         });
 
         it('should call stopGame when checkWin is true', async () => {
-            boardMock = new Level3Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             const enemyMock = mockDeep<LogMan>();
             
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             boardMock["checkLose"] = vi.fn().mockReturnValue(false);
-            // biome-ignore lint/complexity/useLiteralKeys: <explanation>
-            boardMock["checkWin"] = vi.fn().mockReturnValue(true);
+            match.checkWin.mockReturnValue(true);
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             boardMock["stopGame"] = vi.fn().mockResolvedValue(undefined);            
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             await boardMock["handleEnemyMovement"](enemyMock as unknown as LogMan);
-            // biome-ignore lint/complexity/useLiteralKeys: <explanation>
-            expect(boardMock["checkWin"]).toHaveBeenCalled();
+            expect(match.checkWin).toHaveBeenCalled();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             expect(boardMock["stopGame"]).toHaveBeenCalled();
         });
@@ -1,4 +1,5 @@
-import Level4Board from '../../../../../src/app/game/match/boards/levels/Level4Board.js';
+import type Board from '../../../../../src/app/game/match/boards/Board.js';
+import BoardFactory from '../../../../../src/app/game/match/boards/BoardFactory.js';
 import type Match from '../../../../../src/app/game/match/Match.js';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { mockDeep } from 'vitest-mock-extended';
@@ -18,35 +19,35 @@ vi.mock('../../../../../src/server.js', () => {
     };
 });
 
-const { match, map, level } = { match: mockDeep<Match>(), map: 'island', level: 4 };
-let boardMock: Level4Board;
+const { match, map, level } = { match: mockDeep<Match>(), map: 'desert', level: 4 };
+let boardMock: Board;
 
-describe('Level4Board', () => {
+describe('Level 4 board', () => {
     beforeEach(() => {
         vi.clearAllMocks();
     });
 
     describe('created correctly as expected', () => {
         it('should set up fruits', () => {
-            boardMock = new Level4Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             boardMock.initialize(); // Called twice to match pattern in other tests
             const fruits = boardMock.getFruitsNumber();
-            // Count based on the coordinates in Level4Board loadContext
+            // Count based on the coordinates in the level 4 definition
             expect(fruits).toBeGreaterThan(0);
         });
 
         it('should set up rocks', () => {
-            boardMock = new Level4Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const rocks = boardMock["ROCKS"];
-            // Based on rocksCoordinates length from Level4Board
+            // Based on rocksCoordinates length from the level 4 definition
             expect(rocks).toBeGreaterThan(0);
         });
 
         it('should set up enemies', () => {
-            boardMock = new Level4Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const enemiesCoordinates = boardMock["enemiesCoordinates"];
@@ -61,15 +62,15 @@ describe('Level4Board', () => {
         });
 
         it('should set up players', () => {
-            boardMock = new Level4Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const players = boardMock["playersStartCoordinates"];
-            expect(players).toEqual([[7, 1], [7, 14]]);
+            expect(players).toEqual([[7, 1], [7, 14], [8, 2], [8, 13]]);
         });
 
         it('should set up freezed cells', () => {
-            boardMock = new Level4Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const freezedCells = boardMock["freezedCells"];
@@ -80,7 +81,7 @@ describe('Level4Board', () => {
         });
 
         it('should set up fruits type', () => {
-            boardMock = new Level4Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const fruitsType = boardMock["FRUITS_CONTAINER"]
@@ -88,16 +89,16 @@ describe('Level4Board', () => {
         });
 
         it('should set up enemies speed', () => {
-            boardMock = new Level4Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const enemiesSpeed = boardMock["ENEMIES_SPEED"];
-            // In Level4Board, speed is directly config.ENEMIES_SPEED_MS
+            // In the level 4 definition, speed is directly config.ENEMIES_SPEED_MS
             expect(enemiesSpeed).toEqual(1000);
         });
 
         it('should set up fruit rounds', () => {
-            boardMock = new Level4Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const fruitsRounds = boardMock["remainingFruitRounds"];
@@ -106,7 +107,7 @@ describe('Level4Board', () => {
         });
 
         it('should handle enemy movement', async () => {
-            boardMock = new Level4Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             const enemy = boardMock.getBoard()[4][4].getCharacter() as SquidGreen;
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
@@ -123,7 +124,7 @@ describe('Level4Board', () => {
 
 
         it('should call stopGame when checkLose is true', async () => {
-            boardMock = new Level4Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             const enemyMock = mockDeep<SquidGreen>();
             
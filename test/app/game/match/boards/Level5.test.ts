@@ -1,4 +1,5 @@
-import Level5Board from '../../../../../src/app/game/match/boards/levels/Level5Board.js';
+import type Board from '../../../../../src/app/game/match/boards/Board.js';
+import BoardFactory from '../../../../../src/app/game/match/boards/BoardFactory.js';
 import type Match from '../../../../../src/app/game/match/Match.js';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { mockDeep } from 'vitest-mock-extended';
@@ -18,30 +19,30 @@ vi.mock('../../../../../src/server.js', () => {
     };
 });
 
-const { match, map, level } = { match: mockDeep<Match>(), map: 'mountain', level: 5 };
-let boardMock: Level5Board;
+const { match, map, level } = { match: mockDeep<Match>(), map: 'desert', level: 5 };
+let boardMock: Board;
 
-describe('Level5Board', () => {
+describe('Level 5 board', () => {
     beforeEach(() => {
         vi.clearAllMocks();
     });
 
     describe('created correctly as expected', () => {
         it('should set up fruits', () => {
-            boardMock = new Level5Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             boardMock.initialize(); // Called twice to match pattern in other tests
             const fruits = boardMock.getFruitsNumber();
-            // Count based on the coordinates in Level5Board loadContext
+            // Count based on the coordinates in the level 5 definition
             expect(fruits).toBeGreaterThan(0);
         });
 
         it('should have no rocks', () => {
-            boardMock = new Level5Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const rocks = boardMock["ROCKS"];
-            // Level5Board has an empty rocksCoordinates array
+            // The level 5 definition has an empty rocksCoordinates array
             expect(rocks).toEqual(0);
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const rocksCoordinates = boardMock["rocksCoordinates"];
@@ -49,7 +50,7 @@ describe('Level5Board', () => {
         });
 
         it('should set up enemies', () => {
-            boardMock = new Level5Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const enemiesCoordinates = boardMock["enemiesCoordinates"];
@@ -66,19 +67,19 @@ describe('Level5Board', () => {
         });
 
         it('should set up players', () => {
-            boardMock = new Level5Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const players = boardMock["playersStartCoordinates"];
-            expect(players).toEqual([[9, 1], [9, 14]]);
+            expect(players).toEqual([[9, 1], [9, 14], [10, 2], [10, 13]]);
         });
 
         it('should set up freezed cells', () => {
-            boardMock = new Level5Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const freezedCells = boardMock["freezedCells"];
-            // Check specific freezed cell positions from Level5Board
+            // Check specific freezed cell positions from the level 5 definition
             expect(freezedCells).toContainEqual([0, 6]);
             expect(freezedCells).toContainEqual([1, 7]);
             expect(freezedCells).toContainEqual([12, 3]);
@@ -86,7 +87,7 @@ describe('Level5Board', () => {
         });
 
         it('should set up enemies speed', () => {
-            boardMock = new Level5Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const enemiesSpeed = boardMock["ENEMIES_SPEED"];
@@ -94,7 +95,7 @@ describe('Level5Board', () => {
         });
 
         it('should set up fruit rounds', () => {
-            boardMock = new Level5Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             // biome-ignore lint/complexity/useLiteralKeys: <explanation>
             const fruitsRounds = boardMock["remainingFruitRounds"];
@@ -103,7 +104,7 @@ describe('Level5Board', () => {
         });
 
         it('should call stopGame when checkLose is true', async () => {
-            boardMock = new Level5Board(match, map, level);
+            boardMock = BoardFactory.createBoard(match, map, level);
             boardMock.initialize();
             const enemyMock = mockDeep<SquidBlue>();
             
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mockDeep } from 'vitest-mock-extended';
+import LevelBoard from '../../../../../src/app/game/match/boards/LevelBoard.js';
+import Cow from '../../../../../src/app/game/characters/enemies/Cow.js';
+import SquidBlue from '../../../../../src/app/game/characters/enemies/SquidBlue.js';
+import Troll from '../../../../../src/app/game/characters/enemies/Troll.js';
+import type Match from '../../../../../src/app/game/match/Match.js';
+import type { LevelDefinition, PlayerStorage } from '../../../../../src/schemas/zod.js';
+
+vi.mock('../../../../../src/server.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+    config: {
+        ENEMIES_SPEED_MS: 1000,
+    },
+}));
+
+const definition: LevelDefinition = {
+    level: 1,
+    map: 'volcano',
+    fruits: ['grape'],
+    enemy: 'troll',
+    grid: [
+        'P..........E........',
+        '....FF......R.......',
+        '..........#.........',
+        '...................P',
+    ],
+};
+
+const mixedDefinition: LevelDefinition = {
+    level: 1,
+    map: 'volcano',
+    fruits: ['grape'],
+    enemy: 'troll',
+    grid: [
+        'P......C',
+        '..E.....',
+        '....F...',
+        '.B.....P',
+    ],
+};
+
+const getPlayerStorage = (id: string, x: number, y: number): PlayerStorage => ({
+    id,
+    color: 'white',
+    coordinates: { x, y },
+    direction: 'down',
+    state: 'alive',
+});
+
+describe('LevelBoard', () => {
+    it('should create a board with the dimensions of the level grid', () => {
+        const board = new LevelBoard(mockDeep<Match>(), 'volcano', 1, definition);
+        board.initialize();
+        expect(board.getBoard()).toHaveLength(4);
+        for (const row of board.getBoard()) expect(row).toHaveLength(20);
+        expect(board.getBounds()).toEqual({ rows: 4, cols: 20 });
+    });
+
+    it('should expose the dimensions in the board DTO', () => {
+        const board = new LevelBoard(mockDeep<Match>(), 'volcano', 1, definition);
+        board.initialize();
+        const boardDTO = board.getBoardDTO();
+        expect(boardDTO.rows).toBe(4);
+        expect(boardDTO.cols).toBe(20);
+        expect(boardDTO.playersStartCoordinates).toEqual([[0, 0], [3, 19]]);
+    });
+
+    it('should connect the cells at the edges of the board', () => {
+        const board = new LevelBoard(mockDeep<Match>(), 'volcano', 1, definition);
+        board.initialize();
+        const corner = board.getBoard()[3][19];
+        expect(corner.getUpCell()).toBe(board.getBoard()[2][19]);
+        expect(corner.getLeftCell()).toBe(board.getBoard()[3][18]);
+        expect(corner.getDownCell()).toBeNull();
+        expect(corner.getRightCell()).toBeNull();
+    });
+
+    it('should reject stored coordinates outside the board', async () => {
+        const board = new LevelBoard(mockDeep<Match>(), 'volcano', 1, definition);
+        board.initialize();
+        // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+        board['setUpPlayers'](['host', 'guest']);
+        const boardStorage = await board.getBoardStorage();
+        const restored = new LevelBoard(mockDeep<Match>(), 'volcano', 1, definition);
+        expect(() =>
+            restored.loadBoard(boardStorage, [getPlayerStorage('host', 0, 0), getPlayerStorage('guest', 4, 0)])
+        ).toThrow();
+        expect(() =>
+            restored.loadBoard(boardStorage, [getPlayerStorage('host', 0, 0), getPlayerStorage('guest', 3, 19)])
+        ).not.toThrow();
+    });
+
+    it('should spawn the type of each enemy of a mixed roster', () => {
+        const board = new LevelBoard(mockDeep<Match>(), 'volcano', 1, mixedDefinition);
+        board.initialize();
+        expect(board.getBoard()[0][7].getCharacter()).toBeInstanceOf(Cow);
+        expect(board.getBoard()[1][2].getCharacter()).toBeInstanceOf(Troll);
+        expect(board.getBoard()[3][1].getCharacter()).toBeInstanceOf(SquidBlue);
+        expect(board.getEnemies().size).toBe(3);
+    });
+
+    it('should restore the type of each enemy of a mixed roster', async () => {
+        const board = new LevelBoard(mockDeep<Match>(), 'volcano', 1, mixedDefinition);
+        board.initialize();
+        // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+        board['setUpPlayers'](['host', 'guest']);
+        const boardStorage = await board.getBoardStorage();
+        const playersStorage = board.getPlayersStorage();
+
+        const restored = new LevelBoard(mockDeep<Match>(), 'volcano', 1, mixedDefinition);
+        restored.loadBoard(boardStorage, playersStorage);
+        expect(restored.getBoard()[0][7].getCharacter()).toBeInstanceOf(Cow);
+        expect(restored.getBoard()[1][2].getCharacter()).toBeInstanceOf(Troll);
+        expect(restored.getBoard()[3][1].getCharacter()).toBeInstanceOf(SquidBlue);
+        expect([...restored.getEnemies().keys()].sort()).toEqual([...board.getEnemies().keys()].sort());
+    });
+
+    it('should only send the cells of the new fruits when a round starts', () => {
+        const board = new LevelBoard(mockDeep<Match>(), 'volcano', 1, {
+            ...definition,
+            fruits: ['grape', 'banana'],
+        });
+        board.initialize();
+        // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+        board['setUpFruits']();
+
+        // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+        const update = board['getUpdateFruits']();
+
+        expect(update.fruitType).toBe('banana');
+        expect(update.cells.map(({ coordinates }) => coordinates)).toEqual([
+            { x: 1, y: 4 },
+            { x: 1, y: 5 },
+        ]);
+        expect(update.cells.every(({ item }) => item?.type === 'fruit')).toBe(true);
+    });
+});
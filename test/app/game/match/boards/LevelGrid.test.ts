@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+import LevelGrid from '../../../../../src/app/game/match/boards/LevelGrid.js';
+import LevelRegistry from '../../../../../src/app/game/match/boards/LevelRegistry.js';
+import type { LevelDefinition } from '../../../../../src/schemas/zod.js';
+
+vi.mock('../../../../../src/server.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+    config: {
+        ENEMIES_SPEED_MS: 1000,
+    },
+}));
+
+describe('LevelGrid', () => {
+    it('should parse the grid into coordinates in row-major order', () => {
+        const layout = LevelGrid.toLayout(['P.R', 'F#E', '..P']);
+        expect(layout).toEqual({
+            playersStartCoordinates: [[0, 0], [2, 2]],
+            enemiesCoordinates: [[1, 2]],
+            enemiesTypes: [null],
+            fruitsCoordinates: [[1, 0]],
+            freezedCells: [[1, 1]],
+            rocksCoordinates: [[0, 2]],
+        });
+    });
+
+    it('should draw the coordinates back into the same grid', () => {
+        const definition = LevelRegistry.getLevel('desert', 3) as LevelDefinition;
+        const grid = LevelGrid.toGrid(LevelGrid.toLayout(definition.grid), { rows: 16, cols: 16 });
+        expect(grid).toEqual(definition.grid);
+    });
+
+    it('should build the definition of a custom level', () => {
+        const { grid, ...metadata } = LevelRegistry.getLevel('ice', 2) as LevelDefinition;
+        const definition = LevelGrid.toDefinition({
+            ...metadata,
+            ...LevelGrid.toLayout(grid),
+            rows: 16,
+            cols: 16,
+        });
+        expect(definition).toEqual({ ...metadata, grid });
+    });
+
+    it('should draw grids of any rectangular size', () => {
+        const layout = LevelGrid.toLayout(['P.R', 'F#E', '..P']);
+        const grid = LevelGrid.toGrid(layout, { rows: 4, cols: 5 });
+        expect(grid).toEqual(['P.R..', 'F#E..', '..P..', '.....']);
+    });
+
+    it('should parse the type of each enemy spawn', () => {
+        const layout = LevelGrid.toLayout(['PTC', 'LEB', 'G.P']);
+        expect(layout.enemiesCoordinates).toEqual([[0, 1], [0, 2], [1, 0], [1, 1], [1, 2], [2, 0]]);
+        expect(layout.enemiesTypes).toEqual([
+            'troll',
+            'cow',
+            'log-man',
+            null,
+            'squid-blue',
+            'squid-green',
+        ]);
+    });
+
+    it('should draw each enemy spawn with the symbol of its type', () => {
+        const grid = ['PTC', 'LEB', 'G.P'];
+        expect(LevelGrid.toGrid(LevelGrid.toLayout(grid), { rows: 3, cols: 3 })).toEqual(grid);
+    });
+});
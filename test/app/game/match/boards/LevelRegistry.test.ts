@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import LevelRegistry from '../../../../../src/app/game/match/boards/LevelRegistry.js';
+import type { LevelDefinition } from '../../../../../src/schemas/zod.js';
+
+describe('LevelRegistry', () => {
+    it('should load the bundled maps', () => {
+        expect(LevelRegistry.getMaps()).toEqual(['desert', 'ice', 'jungle']);
+    });
+
+    it('should load the bundled levels of each map', () => {
+        for (const map of LevelRegistry.getMaps()) {
+            const levels = LevelRegistry.getLevels(map).map((definition) => definition.level);
+            expect(levels).toEqual([1, 2, 3, 4, 5]);
+        }
+    });
+
+    it('should retrieve a level definition by map and level', () => {
+        const definition = LevelRegistry.getLevel('desert', 3);
+        expect(definition?.map).toBe('desert');
+        expect(definition?.enemy).toBe('log-man');
+        expect(definition?.fruits).toEqual(['banana', 'grape', 'orange']);
+        expect(definition?.enemiesSpeedOffsetMs).toBe(500);
+        expect(definition?.grid).toHaveLength(16);
+    });
+
+    it('should define a different layout, fruits and enemy for each map variant', () => {
+        const desert = LevelRegistry.getLevel('desert', 1);
+        for (const map of ['ice', 'jungle']) {
+            const variant = LevelRegistry.getLevel(map, 1);
+            expect(variant?.grid).not.toEqual(desert?.grid);
+            expect(variant?.fruits).not.toEqual(desert?.fruits);
+        }
+        expect(LevelRegistry.getLevel('ice', 1)?.enemy).not.toBe(desert?.enemy);
+    });
+
+    it('should check if a map and level are registered', () => {
+        expect(LevelRegistry.hasMap('jungle')).toBe(true);
+        expect(LevelRegistry.hasMap('volcano')).toBe(false);
+        expect(LevelRegistry.hasLevel('desert', 1)).toBe(true);
+        expect(LevelRegistry.hasLevel('desert', 99)).toBe(false);
+        expect(LevelRegistry.getLevel('volcano', 1)).toBeUndefined();
+    });
+
+    it('should count the player start cells of a level', () => {
+        expect(LevelRegistry.getPlayersCapacity('desert', 1)).toBe(4);
+        expect(LevelRegistry.getPlayersCapacity('volcano', 1)).toBe(0);
+    });
+
+    it('should register and unregister custom levels', () => {
+        const definition = { ...(LevelRegistry.getLevel('desert', 1) as LevelDefinition), map: 'volcano', level: 7 };
+        LevelRegistry.register(definition);
+        expect(LevelRegistry.hasMap('volcano')).toBe(true);
+        expect(LevelRegistry.getLevel('volcano', 7)).toBe(definition);
+        expect(LevelRegistry.isBuiltIn('volcano', 7)).toBe(false);
+        LevelRegistry.unregister('volcano', 7);
+        expect(LevelRegistry.hasMap('volcano')).toBe(false);
+    });
+
+    it('should not replace or remove the bundled levels', () => {
+        const definition = LevelRegistry.getLevel('desert', 1) as LevelDefinition;
+        expect(LevelRegistry.isBuiltIn('desert', 1)).toBe(true);
+        expect(() => LevelRegistry.register({ ...definition, fruits: ['grape'] })).toThrow(
+            'The level is already defined'
+        );
+        LevelRegistry.unregister('desert', 1);
+        expect(LevelRegistry.getLevel('desert', 1)).toBe(definition);
+    });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import LevelValidator from '../../../../../src/app/game/match/boards/LevelValidator.js';
+import type { LevelLayout } from '../../../../../src/schemas/zod.js';
+
+vi.mock('../../../../../src/server.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+    config: {
+        ENEMIES_SPEED_MS: 1000,
+    },
+}));
+
+const bounds = { rows: 16, cols: 16 };
+
+const getLayout = (layout: Partial<LevelLayout> = {}): LevelLayout => ({
+    playersStartCoordinates: [[9, 1], [9, 14]],
+    enemiesCoordinates: [[2, 4], [14, 12]],
+    fruitsCoordinates: [[4, 5], [4, 6], [11, 5]],
+    freezedCells: [[0, 0]],
+    rocksCoordinates: [[7, 7]],
+    ...layout,
+});
+
+describe('LevelValidator', () => {
+    it('should accept a playable level', () => {
+        expect(() => LevelValidator.validate(getLayout(), bounds)).not.toThrow();
+    });
+
+    it('should accept fruits behind frozen cells because players can break them', () => {
+        const layout = getLayout({
+            fruitsCoordinates: [[0, 1]],
+            freezedCells: [[0, 0], [0, 2], [1, 1]],
+        });
+        expect(() => LevelValidator.validate(layout, bounds)).not.toThrow();
+    });
+
+    it('should reject coordinates out of the board', () => {
+        expect(() => LevelValidator.validate(getLayout({ rocksCoordinates: [[16, 0]] }), bounds)).toThrow(
+            'The level has coordinates out of the board'
+        );
+        expect(() =>
+            LevelValidator.validate(getLayout({ fruitsCoordinates: [[3, -1]] }), bounds)
+        ).toThrow('The level has coordinates out of the board');
+    });
+
+    it('should reject enemies spawning on a rock', () => {
+        const layout = getLayout({ rocksCoordinates: [[2, 4]] });
+        expect(() => LevelValidator.validate(layout, bounds)).toThrow('An enemy cannot spawn on a rock');
+    });
+
+    it('should reject overlapping cells', () => {
+        const layout = getLayout({ fruitsCoordinates: [[9, 1]] });
+        expect(() => LevelValidator.validate(layout, bounds)).toThrow('The level has overlapping cells');
+    });
+
+    it('should reject players that cannot reach each other', () => {
+        const wall = Array.from({ length: 16 }, (_, row) => [row, 8]);
+        expect(() => LevelValidator.validate(getLayout({ rocksCoordinates: wall }), bounds)).toThrow(
+            'The players cannot reach each other'
+        );
+    });
+
+    it('should reject fruits that no player can reach', () => {
+        const layout = getLayout({
+            fruitsCoordinates: [[0, 15]],
+            rocksCoordinates: [[0, 14], [1, 15]],
+        });
+        expect(() => LevelValidator.validate(layout, bounds)).toThrow(
+            'There is a fruit that no player can reach'
+        );
+    });
+
+    it('should validate against the dimensions of the board', () => {
+        const layout = getLayout({
+            playersStartCoordinates: [[0, 0], [7, 19]],
+            enemiesCoordinates: [[4, 10]],
+            fruitsCoordinates: [[2, 18]],
+            freezedCells: [],
+            rocksCoordinates: [],
+        });
+        expect(() => LevelValidator.validate(layout, { rows: 8, cols: 20 })).not.toThrow();
+        expect(() => LevelValidator.validate(layout, bounds)).toThrow(
+            'The level has coordinates out of the board'
+        );
+    });
+});
@@ -1,7 +1,9 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import Match from '../../../../../src/app/game/match/Match.js';
-import Level1Board from '../../../../../src/app/game/match/boards/levels/Level1Board.js';
+import { tickScheduler } from '../../../../../src/app/game/match/TickScheduler.js';
+import LevelBoard from '../../../../../src/app/game/match/boards/LevelBoard.js';
 import { mockDeep } from 'vitest-mock-extended';
+import { config } from '../../../../../src/server.js';
 import type GameService from '../../../../../src/app/game/services/GameService.js';
 import type Player from '../../../../../src/app/game/characters/players/Player.js';
 import type {
@@ -9,6 +11,7 @@ import type {
   CellDTO,
   GameMessageOutput,
   MatchStorage,
+  PlayerScore,
   PlayerState,
   PlayerStorage,
 } from '../../../../../src/schemas/zod.js';
@@ -23,31 +26,34 @@ vi.mock('../../../../../src/server.js', () => ({
   config: {
     MATCH_TIME_SECONDS: 300,
     NODE_ENV: 'development',
+    TICK_RATE_MS: 500,
+    TIMER_SPEED_MS: 1000,
+    BOT_SPEED_MS: 500,
   },
 }));
 
-vi.mock('../../../../../src/app/game/match/boards/levels/Level1Board.js', () => ({
+vi.mock('../../../../../src/app/game/match/boards/LevelBoard.js', () => ({
   default: vi.fn().mockImplementation(() => ({
     initialize: vi.fn(),
     startGame: vi.fn(),
     stopGame: vi.fn(),
     loadBoard: vi.fn(),
-    getPlayersStorage: vi.fn().mockReturnValue({
-      hostStorage: {
+    getPlayersStorage: vi.fn().mockReturnValue([
+      {
         id: 'host-id',
         coordinates: { x: 1, y: 1 },
         color: 'blue',
         direction: 'down',
         state: 'alive',
       },
-      guestStorage: {
+      {
         id: 'guest-id',
         coordinates: { x: 2, y: 2 },
         color: 'red',
         direction: 'up',
         state: 'alive',
       },
-    }),
+    ]),
     getBoardStorage: vi.fn().mockResolvedValue({
       fruitType: ['strawberry'],
       fruitsContainer: ['strawberry', 'banana'],
@@ -64,40 +70,33 @@ vi.mock('../../../../../src/app/game/match/boards/levels/Level1Board.js', () =>
     cellsBoardDTO: vi.fn().mockReturnValue([]),
     getFruitTypes: vi.fn().mockReturnValue(['strawberry', 'banana']),
     getBoardDTO: vi.fn().mockReturnValue({}),
-    getHost: vi.fn(),
-    getGuest: vi.fn(),
+    getPlayer: vi.fn(),
+    getPlayers: vi.fn().mockReturnValue([]),
+    getEnemies: vi.fn().mockReturnValue(new Map([['enemy-1', {}], ['enemy-2', {}]])),
   })),
 }));
 
-// Mock Worker
-vi.mock('node:worker_threads', () => {
-  const EventEmitter = require('node:events');
-
-  class MockWorker extends EventEmitter {
-    terminate = vi.fn().mockResolvedValue(undefined);
-
-    constructor() {
-      super();
-      setTimeout(() => {
-        this.emit('message', { type: 'tick' });
-      }, 10);
-    }
-  }
-
-  return { Worker: vi.fn().mockImplementation(() => new MockWorker()) };
-});
-
 describe('Match', () => {
   let gameServiceMock: GameService;
   let match: Match;
 
   beforeEach(() => {
     gameServiceMock = mockDeep<GameService>();
-    match = new Match(gameServiceMock, 'match-id', 1, 'map-1', 'host-id', 'guest-id');
+    match = new Match(gameServiceMock, 'match-id', 1, 'desert', ['host-id', 'guest-id']);
+  });
+
+  afterEach(async () => {
+    await match.stopGame();
   });
 
   it('should initialize the match', () => {
-    expect(Level1Board).toHaveBeenCalledWith(match, 'map-1', 1);
+    expect(LevelBoard).toHaveBeenCalledWith(
+      match,
+      'desert',
+      1,
+      expect.objectContaining({ level: 1 }),
+      match.getSimulation()
+    );
     expect(match.isRunning()).toBe(true);
   });
 
@@ -105,9 +104,9 @@ describe('Match', () => {
     expect(match.getId()).toBe('match-id');
   });
 
-  it('should return the host and guest IDs', () => {
+  it('should return the host and players IDs', () => {
     expect(match.getHost()).toBe('host-id');
-    expect(match.getGuest()).toBe('guest-id');
+    expect(match.getPlayersIds()).toEqual(['host-id', 'guest-id']);
   });
 
   it('should start the game', async () => {
@@ -130,11 +129,12 @@ describe('Match', () => {
     expect(dto).toEqual({
       id: 'match-id',
       level: 1,
-      map: 'map-1',
+      map: 'desert',
       hostId: 'host-id',
-      guestId: 'guest-id',
+      playersIds: ['host-id', 'guest-id'],
       typeFruits: ['strawberry', 'banana'],
       board: {},
+      mode: 'classic',
     });
   });
 
@@ -142,9 +142,9 @@ describe('Match', () => {
     const hostMock = mockDeep<Player>();
     const guestMock = mockDeep<Player>();
     // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
-    (match as any).board.getHost.mockReturnValue(hostMock);
-    // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
-    (match as any).board.getGuest.mockReturnValue(guestMock);
+    (match as any).board.getPlayer.mockImplementation((id: string) =>
+      id === 'host-id' ? hostMock : guestMock
+    );
 
     expect(match.getPlayer('host-id')).toBe(hostMock);
     expect(match.getPlayer('guest-id')).toBe(guestMock);
@@ -155,12 +155,20 @@ describe('Match', () => {
     await match.notifyPlayers(updateData as unknown as GameMessageOutput);
     expect(gameServiceMock.updatePlayers).toHaveBeenCalledWith(
       'match-id',
-      'host-id',
-      'guest-id',
+      ['host-id', 'guest-id'],
       updateData
     );
   });
 
+  it('should not notify the players about the inputs it replays', async () => {
+    const updateData = { type: 'update' };
+    await match.replay(() => match.notifyPlayers(updateData as unknown as GameMessageOutput));
+    await match.notifyPlayers(updateData as unknown as GameMessageOutput);
+
+    expect(gameServiceMock.updatePlayers).toHaveBeenCalledTimes(1);
+    expect(match.getSequence()).toBe(1);
+  });
+
   it('should retrieve the match update', () => {
     const mockTime = { minutesLeft: 5, secondsLeft: 0 };
     const mockPlayers: PlayerState[] = [
@@ -180,7 +188,7 @@ describe('Match', () => {
     // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
     (match as any).board.cellsBoardDTO.mockReturnValue(mockBoard);
     // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
-    vi.spyOn(match as any, 'getPlayers').mockReturnValue(mockPlayers);
+    vi.spyOn(match as any, 'getPlayersStates').mockReturnValue(mockPlayers);
 
     const update = match.getMatchUpdate();
 
@@ -194,7 +202,7 @@ describe('Match', () => {
     // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
     expect((match as any).board.cellsBoardDTO).toHaveBeenCalled();
     // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
-    expect((match as any).getPlayers).toHaveBeenCalled();
+    expect((match as any).getPlayersStates).toHaveBeenCalled();
   });
 
   it('should return the time left in the match', () => {
@@ -244,14 +252,13 @@ describe('Match', () => {
         state: 'alive',
       };
 
-      match.loadBoard(boardStorage, hostStorage, guestStorage);
+      match.loadBoard(boardStorage, [hostStorage, guestStorage]);
 
       // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
-      expect((match as any).board.loadBoard).toHaveBeenCalledWith(
-        boardStorage,
+      expect((match as any).board.loadBoard).toHaveBeenCalledWith(boardStorage, [
         hostStorage,
-        guestStorage
-      );
+        guestStorage,
+      ]);
     });
   });
 
@@ -260,21 +267,23 @@ describe('Match', () => {
       const expectedStorage: MatchStorage = {
         id: 'match-id',
         level: 1,
-        map: 'map-1',
-        host: {
-          id: 'host-id',
-          coordinates: { x: 1, y: 1 },
-          color: 'blue',
-          direction: 'down',
-          state: 'alive',
-        },
-        guest: {
-          id: 'guest-id',
-          coordinates: { x: 2, y: 2 },
-          color: 'red',
-          direction: 'up',
-          state: 'alive',
-        },
+        map: 'desert',
+        players: [
+          {
+            id: 'host-id',
+            coordinates: { x: 1, y: 1 },
+            color: 'blue',
+            direction: 'down',
+            state: 'alive',
+          },
+          {
+            id: 'guest-id',
+            coordinates: { x: 2, y: 2 },
+            color: 'red',
+            direction: 'up',
+            state: 'alive',
+          },
+        ],
         board: {
           fruitType: ['strawberry'],
           fruitsContainer: ['strawberry', 'banana'],
@@ -289,6 +298,9 @@ describe('Match', () => {
         timeSeconds: 300,
         fruitGenerated: false,
         paused: false,
+        sequence: 0,
+        pausesUsed: {},
+        mode: 'classic',
       };
 
       const result = await match.getMatchStorage();
@@ -296,6 +308,21 @@ describe('Match', () => {
     });
   });
 
+  describe('sequence', () => {
+    it('should number the updates one after the other', () => {
+      expect(match.getSequence()).toBe(0);
+      expect(match.nextSequence()).toBe(1);
+      expect(match.nextSequence()).toBe(2);
+      expect(match.getSequence()).toBe(2);
+    });
+
+    it('should keep counting from a restored sequence', async () => {
+      match.restoreSequence(41);
+      expect(match.nextSequence()).toBe(42);
+      expect((await match.getMatchStorage()).sequence).toBe(42);
+    });
+  });
+
   describe('pause and resume', () => {
     it('should pause the match', async () => {
       await match.pauseMatch();
@@ -328,11 +355,492 @@ describe('Match', () => {
       Object.defineProperty(match, 'timeSeconds', { value: 0, writable: true });
 
       await match.startGame();
+      await tickScheduler.tick();
+      await tickScheduler.tick();
+
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      expect((match as any).clockTask).toBeNull();
+      expect(gameServiceMock.updateTimeMatch).not.toHaveBeenCalled();
+    });
+
+    it('should update the time at the speed of the timer', async () => {
+      await match.startGame();
+
+      await tickScheduler.tick();
+      expect(gameServiceMock.updateTimeMatch).not.toHaveBeenCalled();
+      await tickScheduler.tick();
+      expect(gameServiceMock.updateTimeMatch).toHaveBeenCalledWith(
+        'match-id',
+        { minutesLeft: 4, secondsLeft: 59 }
+      );
+    });
+
+    it('should not update the time while the match is paused', async () => {
+      await match.startGame();
+      await match.pauseMatch();
+
+      await tickScheduler.tick();
+      await tickScheduler.tick();
+
+      expect(gameServiceMock.updateTimeMatch).not.toHaveBeenCalled();
+    });
+
+    it('should remove the clock from the game loop when the game stops', async () => {
+      await match.startGame();
+      const tasks = tickScheduler.size();
+
+      await match.stopGame();
+
+      expect(tickScheduler.size()).toBe(tasks - 1);
+    });
+  });
+
+  describe('snapshots', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      (config as any).SNAPSHOT_INTERVAL_MS = 1000;
+    });
+
+    afterEach(async () => {
+      await match.stopGame();
+      vi.useRealTimers();
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      delete (config as any).SNAPSHOT_INTERVAL_MS;
+    });
+
+    it('should save a snapshot of the match at the interval of the snapshots', async () => {
+      await match.startGame();
+
+      vi.advanceTimersByTime(999);
+      expect(gameServiceMock.snapshotMatch).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(1);
+      expect(gameServiceMock.snapshotMatch).toHaveBeenCalledWith('match-id');
+    });
+
+    it('should not wait for a snapshot to keep the game loop running', async () => {
+      vi.mocked(gameServiceMock.snapshotMatch).mockReturnValue(new Promise(() => undefined));
+      await match.startGame();
+      vi.advanceTimersByTime(1000);
+
+      await tickScheduler.tick();
+      await tickScheduler.tick();
+
+      expect(gameServiceMock.snapshotMatch).toHaveBeenCalledTimes(1);
+      expect(gameServiceMock.updateTimeMatch).toHaveBeenCalledWith('match-id', {
+        minutesLeft: 4,
+        secondsLeft: 59,
+      });
+    });
+
+    it('should stop saving snapshots when the game stops', async () => {
+      await match.startGame();
+      await match.stopGame();
+
+      vi.advanceTimersByTime(2000);
+
+      expect(gameServiceMock.snapshotMatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('disconnections', () => {
+    beforeEach(() => {
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      (config as any).RECONNECT_GRACE_SECONDS = 2;
+    });
+
+    afterEach(() => {
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      delete (config as any).RECONNECT_GRACE_SECONDS;
+    });
+
+    const getMessages = () =>
+      vi.mocked(gameServiceMock.updatePlayers).mock.calls.map(([, , message]) => message);
+
+    it('should pause the match and tell the other players the seconds left', async () => {
+      await match.startGame();
+
+      await match.disconnectPlayer('guest-id');
+
+      expect(await match.isPaused()).toBe(true);
+      expect(match.hasDisconnectedPlayers()).toBe(true);
+      expect(getMessages()).toEqual([
+        { type: 'paused', payload: { paused: true, resumeVotes: [] } },
+        { type: 'player-disconnected', payload: { id: 'guest-id', secondsLeft: 2 } },
+      ]);
+    });
+
+    it('should count down every second', async () => {
+      await match.startGame();
+      await match.disconnectPlayer('guest-id');
+
+      await tickScheduler.tick();
+      await tickScheduler.tick();
+
+      expect(getMessages().at(-1)).toEqual({
+        type: 'player-disconnected',
+        payload: { id: 'guest-id', secondsLeft: 1 },
+      });
+      expect(match.checkLose()).toBe(false);
+    });
+
+    it('should make the player forfeit when the seconds run out', async () => {
+      await match.startGame();
+      await match.disconnectPlayer('guest-id');
+
+      for (let tick = 0; tick < 4; tick++) await tickScheduler.tick();
+
+      expect(getMessages().at(-1)).toEqual({
+        type: 'player-disconnected',
+        payload: { id: 'guest-id', secondsLeft: 0 },
+      });
+      expect(match.checkLose()).toBe(true);
+      expect(match.checkWin()).toBe(false);
+      expect(match.hasDisconnectedPlayers()).toBe(false);
+    });
+
+    it('should resume the match when the player reconnects in time', async () => {
+      await match.startGame();
+      await match.disconnectPlayer('guest-id');
+
+      await match.reconnectPlayer('guest-id');
+      for (let tick = 0; tick < 4; tick++) await tickScheduler.tick();
+
+      expect(await match.isPaused()).toBe(false);
+      expect(match.checkLose()).toBe(false);
+      expect(getMessages().slice(-2)).toEqual([
+        { type: 'player-reconnected', payload: { id: 'guest-id' } },
+        { type: 'paused', payload: { paused: false, resumeVotes: [] } },
+      ]);
+    });
+
+    it('should wait for every disconnected player before resuming', async () => {
+      await match.startGame();
+      await match.disconnectPlayer('host-id');
+      await match.disconnectPlayer('guest-id');
+
+      await match.reconnectPlayer('host-id');
+
+      expect(await match.isPaused()).toBe(true);
+      await match.reconnectPlayer('guest-id');
+      expect(await match.isPaused()).toBe(false);
+    });
+
+    it('should keep a match paused by a player paused after the reconnection', async () => {
+      await match.startGame();
+      await match.pauseMatch();
+      await match.disconnectPlayer('guest-id');
+
+      await match.reconnectPlayer('guest-id');
+
+      expect(await match.isPaused()).toBe(true);
+    });
+
+    it('should let the versus opponent of the player that forfeits win', async () => {
+      const versusMatch = new Match(gameServiceMock, 'match-id', 1, 'desert', ['a', 'b'], false, false, 300, {
+        mode: 'classic',
+        versus: true,
+      });
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      (versusMatch as any).board.getPlayers.mockReturnValue([
+        { getScore: () => ({ id: 'a', fruits: 1, deaths: 0, scoredAt: 10 }) },
+        { getScore: () => ({ id: 'b', fruits: 3, deaths: 0, scoredAt: 20 }) },
+      ]);
+      await versusMatch.startGame();
+      await versusMatch.disconnectPlayer('b');
+
+      for (let tick = 0; tick < 4; tick++) await tickScheduler.tick();
+
+      expect(versusMatch.getVersusResult('a')).toEqual(
+        expect.objectContaining({ result: 'win', winner: 'a' })
+      );
+      expect(versusMatch.getVersusResult('b').result).toBe('lose');
+      await versusMatch.stopGame();
+    });
+
+    it('should ignore disconnections when the grace period is disabled', async () => {
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      (config as any).RECONNECT_GRACE_SECONDS = 0;
+      await match.startGame();
+
+      await match.disconnectPlayer('guest-id');
+
+      expect(await match.isPaused()).toBe(false);
+      expect(gameServiceMock.updatePlayers).not.toHaveBeenCalled();
+    });
+
+    it('should stop the countdowns when the game stops', async () => {
+      await match.startGame();
+      await match.disconnectPlayer('guest-id');
+
+      await match.stopGame();
+
+      expect(match.hasDisconnectedPlayers()).toBe(false);
+    });
+  });
+
+  describe('pause rules', () => {
+    beforeEach(() => {
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      (config as any).PAUSES_PER_PLAYER = 1;
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      (config as any).MAX_PAUSE_SECONDS = 2;
+    });
+
+    afterEach(() => {
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      delete (config as any).PAUSES_PER_PLAYER;
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      delete (config as any).MAX_PAUSE_SECONDS;
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      delete (config as any).PAUSE_RESUME_VOTE;
+    });
+
+    it('should spend a pause of the player that pauses the match', async () => {
+      await match.startGame();
+
+      const state = await match.requestPause('host-id');
+
+      expect(state).toEqual({
+        paused: true,
+        by: 'host-id',
+        secondsLeft: 2,
+        pausesLeft: { 'host-id': 0, 'guest-id': 1 },
+        resumeVotes: [],
+      });
+      expect((await match.getMatchStorage()).pausesUsed).toEqual({ 'host-id': 1 });
+    });
+
+    it('should not let a player pause once its pauses are spent', async () => {
+      await match.startGame();
+      await match.requestPause('host-id');
+      await match.requestResume('host-id');
+
+      await expect(match.requestPause('host-id')).rejects.toThrow('The player has no pauses left');
+      expect(await match.isPaused()).toBe(false);
+    });
+
+    it('should resume the match by itself when the pause lasts too long', async () => {
+      await match.startGame();
+      await match.requestPause('host-id');
+
+      for (let tick = 0; tick < 4; tick++) await tickScheduler.tick();
+
+      expect(await match.isPaused()).toBe(false);
+      expect(gameServiceMock.updatePlayers).toHaveBeenCalledWith('match-id', expect.any(Array), {
+        type: 'paused',
+        payload: { paused: false, pausesLeft: { 'host-id': 0, 'guest-id': 1 }, resumeVotes: [] },
+      });
+    });
+
+    it('should count down the seconds left of the pause', async () => {
+      await match.startGame();
+      await match.requestPause('host-id');
+
+      await tickScheduler.tick();
+      await tickScheduler.tick();
+
+      expect((await match.getPauseState()).secondsLeft).toBe(1);
+    });
+
+    it('should keep waiting for a disconnected player when the pause ends', async () => {
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      (config as any).RECONNECT_GRACE_SECONDS = 30;
+      await match.startGame();
+      await match.requestPause('host-id');
+      await match.disconnectPlayer('guest-id');
+
+      for (let tick = 0; tick < 4; tick++) await tickScheduler.tick();
+      expect(await match.isPaused()).toBe(true);
+      await match.reconnectPlayer('guest-id');
+
+      expect(await match.isPaused()).toBe(false);
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      delete (config as any).RECONNECT_GRACE_SECONDS;
+    });
+
+    it('should wait for every player to resume when they have to agree', async () => {
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      (config as any).PAUSE_RESUME_VOTE = true;
+      await match.startGame();
+      await match.requestPause('host-id');
+
+      const state = await match.requestResume('host-id');
 
-      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(state).toEqual(
+        expect.objectContaining({ paused: true, by: 'host-id', resumeVotes: ['host-id'] })
+      );
+      expect((await match.requestResume('guest-id')).paused).toBe(false);
+    });
 
+    it('should let unlimited pauses last until a player resumes', async () => {
       // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
-      expect((match as any).worker).toBeNull();
+      (config as any).PAUSES_PER_PLAYER = 0;
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      (config as any).MAX_PAUSE_SECONDS = 0;
+      await match.startGame();
+      await match.requestPause('host-id');
+      await match.requestResume('guest-id');
+
+      const state = await match.requestPause('host-id');
+      for (let tick = 0; tick < 4; tick++) await tickScheduler.tick();
+
+      expect(state).toEqual({ paused: true, by: 'host-id', resumeVotes: [] });
+      expect(await match.isPaused()).toBe(true);
+    });
+
+    it('should keep the pauses spent before a restore', async () => {
+      match.restorePauses({ 'host-id': 1 });
+
+      expect((await match.getPauseState()).pausesLeft).toEqual({ 'host-id': 0, 'guest-id': 1 });
+    });
+
+    it('should save the pause that is running with the seconds it has left', async () => {
+      await match.startGame();
+      await match.requestPause('host-id');
+      await tickScheduler.tick();
+      await tickScheduler.tick();
+      await match.stopGame();
+
+      const storage = await match.getMatchStorage();
+
+      expect(storage).toEqual(
+        expect.objectContaining({ paused: true, pausedBy: 'host-id', pauseSecondsLeft: 1 })
+      );
+    });
+
+    it('should go on counting down the pause of a restored match', async () => {
+      const restored = new Match(gameServiceMock, 'match-id', 1, 'desert', ['host-id', 'guest-id'], true);
+      restored.restorePauses({ 'host-id': 1 }, 'host-id', 1);
+      await restored.startGame();
+
+      expect(await restored.getPauseState()).toEqual(
+        expect.objectContaining({ paused: true, by: 'host-id', secondsLeft: 1 })
+      );
+      for (let tick = 0; tick < 2; tick++) await tickScheduler.tick();
+
+      expect(await restored.isPaused()).toBe(false);
+      await restored.stopGame();
+    });
+  });
+
+  describe('versus', () => {
+    const setScores = (versusMatch: Match, scores: PlayerScore[]) => {
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      (versusMatch as any).board.getPlayers.mockReturnValue(
+        scores.map((score) => ({ getScore: () => score }))
+      );
+    };
+
+    it('should only be a versus match when the settings say so', () => {
+      const versusMatch = new Match(gameServiceMock, 'match-id', 1, 'desert', ['a', 'b'], false, false, 300, {
+        mode: 'classic',
+        versus: true,
+      });
+      expect(match.isVersus()).toBe(false);
+      expect(versusMatch.isVersus()).toBe(true);
+    });
+
+    it('should count the elapsed seconds of the match', () => {
+      Object.defineProperty(match, 'timeSeconds', { value: 180 });
+      expect(match.getElapsedSeconds()).toBe(120);
+    });
+
+    it('should rank the players by fruits, then by time and then by deaths', () => {
+      setScores(match, [
+        { id: 'a', fruits: 3, deaths: 0, scoredAt: 50 },
+        { id: 'b', fruits: 5, deaths: 2, scoredAt: 90 },
+        { id: 'c', fruits: 3, deaths: 1, scoredAt: 40 },
+        { id: 'd', fruits: 3, deaths: 0, scoredAt: 40 },
+      ]);
+
+      expect(match.getRanking().map(({ id, position }) => [id, position])).toEqual([
+        ['b', 1],
+        ['d', 2],
+        ['c', 3],
+        ['a', 4],
+      ]);
+    });
+
+    it('should name the winner in the result of every player', () => {
+      setScores(match, [
+        { id: 'host-id', fruits: 2, deaths: 0, scoredAt: 10 },
+        { id: 'guest-id', fruits: 4, deaths: 1, scoredAt: 70 },
+      ]);
+
+      expect(match.getVersusResult('guest-id')).toEqual(
+        expect.objectContaining({ result: 'win', winner: 'guest-id' })
+      );
+      expect(match.getVersusResult('host-id')).toEqual(
+        expect.objectContaining({ result: 'lose', winner: 'guest-id' })
+      );
+    });
+
+    it('should draw when the leaders are tied on every criteria', () => {
+      setScores(match, [
+        { id: 'host-id', fruits: 4, deaths: 1, scoredAt: 70 },
+        { id: 'guest-id', fruits: 4, deaths: 1, scoredAt: 70 },
+        { id: 'third-id', fruits: 1, deaths: 0, scoredAt: 5 },
+      ]);
+
+      const result = match.getVersusResult('host-id');
+      expect(result).toEqual(expect.objectContaining({ result: 'draw', winner: null }));
+      expect(result.ranking?.map(({ position }) => position)).toEqual([1, 1, 3]);
+      expect(match.getVersusResult('third-id').result).toBe('lose');
+    });
+  });
+
+  describe('match result', () => {
+    const setScores = (resultMatch: Match, scores: PlayerScore[]) => {
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      (resultMatch as any).board.getPlayers.mockReturnValue(
+        scores.map((score) => ({ getScore: () => score }))
+      );
+    };
+
+    it('should give every player the result of a cooperative match', () => {
+      setScores(match, [
+        { id: 'host-id', fruits: 2, deaths: 1, scoredAt: 30 },
+        { id: 'guest-id', fruits: 5, deaths: 0, scoredAt: 60 },
+      ]);
+      Object.defineProperty(match, 'timeSeconds', { value: 210 });
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      (match as any).board.checkWin.mockReturnValue(true);
+
+      expect(match.getMatchResult()).toEqual({
+        matchId: 'match-id',
+        level: 1,
+        map: 'desert',
+        mode: 'classic',
+        versus: false,
+        result: 'win',
+        winner: null,
+        durationSeconds: 90,
+        enemiesFaced: 2,
+        players: [
+          { id: 'guest-id', fruits: 5, deaths: 0, scoredAt: 60, position: 1, result: 'win' },
+          { id: 'host-id', fruits: 2, deaths: 1, scoredAt: 30, position: 2, result: 'win' },
+        ],
+      });
+    });
+
+    it('should record the winner of a versus match', () => {
+      const versusMatch = new Match(gameServiceMock, 'match-id', 1, 'desert', ['a', 'b'], false, false, 300, {
+        mode: 'classic',
+        versus: true,
+      });
+      setScores(versusMatch, [
+        { id: 'a', fruits: 1, deaths: 0, scoredAt: 10 },
+        { id: 'b', fruits: 3, deaths: 2, scoredAt: 50 },
+      ]);
+
+      const result = versusMatch.getMatchResult();
+
+      expect(result).toEqual(expect.objectContaining({ versus: true, result: 'win', winner: 'b' }));
+      expect(result.players.map(({ id, result }) => [id, result])).toEqual([
+        ['b', 'win'],
+        ['a', 'lose'],
+      ]);
     });
   });
 
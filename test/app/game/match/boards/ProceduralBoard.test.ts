@@ -0,0 +1,150 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mockDeep } from 'vitest-mock-extended';
+import ProceduralBoard from '../../../../../src/app/game/match/boards/ProceduralBoard.js';
+import ProceduralGenerator from '../../../../../src/app/game/match/boards/ProceduralGenerator.js';
+import LevelValidator from '../../../../../src/app/game/match/boards/LevelValidator.js';
+import type Match from '../../../../../src/app/game/match/Match.js';
+import type { LevelDefinition, LevelLayout } from '../../../../../src/schemas/zod.js';
+
+vi.mock('../../../../../src/server.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+    config: {
+        ENEMIES_SPEED_MS: 1000,
+    },
+}));
+
+const theme: LevelDefinition = {
+    level: 1,
+    map: 'desert',
+    fruits: ['banana', 'grape'],
+    enemy: 'cow',
+    grid: Array.from({ length: 16 }, (_, i) =>
+        i === 8 ? '.P............P.' : '................'
+    ),
+};
+const bounds = { rows: 16, cols: 16 };
+
+const getFreeCells = (layout: LevelLayout): string[] => {
+    const rocks = new Set(layout.rocksCoordinates.map(([x, y]) => `${x},${y}`));
+    const cells: string[] = [];
+    for (let x = 0; x < bounds.rows; x++) {
+        for (let y = 0; y < bounds.cols; y++) {
+            if (!rocks.has(`${x},${y}`)) cells.push(`${x},${y}`);
+        }
+    }
+    return cells;
+};
+
+const getReachableCells = (layout: LevelLayout): Set<string> => {
+    const free = new Set(getFreeCells(layout));
+    const [x, y] = layout.playersStartCoordinates[0];
+    const visited = new Set([`${x},${y}`]);
+    const pending = [[x, y]];
+    while (pending.length > 0) {
+        const [i, j] = pending.pop() as number[];
+        for (const [a, b] of [[i - 1, j], [i + 1, j], [i, j - 1], [i, j + 1]]) {
+            const key = `${a},${b}`;
+            if (free.has(key) && !visited.has(key)) {
+                visited.add(key);
+                pending.push([a, b]);
+            }
+        }
+    }
+    return visited;
+};
+
+describe('ProceduralGenerator', () => {
+    it('should generate the same layout for the same seed', () => {
+        const first = ProceduralGenerator.generate(1234, 'normal', bounds);
+        const second = ProceduralGenerator.generate(1234, 'normal', bounds);
+        expect(first).toEqual(second);
+    });
+
+    it('should generate different layouts for different seeds', () => {
+        const first = ProceduralGenerator.generate(1234, 'normal', bounds);
+        const second = ProceduralGenerator.generate(4321, 'normal', bounds);
+        expect(first).not.toEqual(second);
+    });
+
+    it('should generate playable layouts where every free cell is connected', () => {
+        for (let seed = 0; seed < 30; seed++) {
+            for (const difficulty of ['easy', 'normal', 'hard'] as const) {
+                const layout = ProceduralGenerator.generate(seed, difficulty, bounds);
+                expect(() => LevelValidator.validate(layout, bounds)).not.toThrow();
+                expect(getReachableCells(layout).size).toBe(getFreeCells(layout).length);
+            }
+        }
+    });
+
+    it('should scale the enemies and rocks with the difficulty', () => {
+        const easy = ProceduralGenerator.generate(99, 'easy', bounds);
+        const hard = ProceduralGenerator.generate(99, 'hard', bounds);
+        expect(easy.enemiesCoordinates).toHaveLength(ProceduralGenerator.DIFFICULTIES.easy.enemies);
+        expect(hard.enemiesCoordinates).toHaveLength(ProceduralGenerator.DIFFICULTIES.hard.enemies);
+        expect(hard.rocksCoordinates.length).toBeGreaterThan(easy.rocksCoordinates.length);
+    });
+
+    it('should group the fruits in clusters', () => {
+        const layout = ProceduralGenerator.generate(7, 'normal', bounds);
+        const { fruitClusters, clusterSize } = ProceduralGenerator.DIFFICULTIES.normal;
+        expect(layout.fruitsCoordinates.length).toBeGreaterThan(fruitClusters);
+        expect(layout.fruitsCoordinates.length).toBeLessThanOrEqual(fruitClusters * clusterSize);
+    });
+});
+
+describe('ProceduralBoard', () => {
+    it('should build the board from the generated layout', () => {
+        const board = new ProceduralBoard(mockDeep<Match>(), 'desert', 1, theme, 1234, 'normal');
+        board.initialize();
+        const layout = ProceduralGenerator.generate(1234, 'normal', bounds);
+        expect(board.getBoardDTO().playersStartCoordinates).toEqual(layout.playersStartCoordinates);
+        expect(board.getEnemies().size).toBe(layout.enemiesCoordinates.length);
+        expect(board.getFruitsNumber()).toBe(layout.fruitsCoordinates.length);
+        for (const [x, y] of layout.rocksCoordinates) {
+            expect(board.getBoard()[x][y].getItem()?.getDTO().type).toBe('rock');
+        }
+        for (const [x, y] of layout.freezedCells) {
+            expect(board.getBoard()[x][y].isFrozen()).toBe(true);
+        }
+        for (const enemy of board.getEnemies().values()) expect(enemy.getDTO().type).toBe('cow');
+    });
+
+    it('should apply the speed offset of the difficulty to the enemies', () => {
+        const easy = new ProceduralBoard(mockDeep<Match>(), 'desert', 1, theme, 1, 'easy');
+        const hard = new ProceduralBoard(mockDeep<Match>(), 'desert', 1, theme, 1, 'hard');
+        easy.initialize();
+        hard.initialize();
+        // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+        expect(easy['ENEMIES_SPEED']).toBe(1200);
+        // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+        expect(hard['ENEMIES_SPEED']).toBe(800);
+    });
+
+    it('should rebuild the same layout when restored from the storage', async () => {
+        const board = new ProceduralBoard(mockDeep<Match>(), 'desert', 1, theme, 555, 'hard');
+        board.initialize();
+        // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+        board['setUpPlayers'](['host', 'guest']);
+        const boardStorage = await board.getBoardStorage();
+        const playersStorage = board.getPlayersStorage();
+
+        const restored = new ProceduralBoard(mockDeep<Match>(), 'desert', 1, theme, 555, 'hard');
+        restored.loadBoard(boardStorage, playersStorage);
+        const getLayout = (proceduralBoard: ProceduralBoard) =>
+            proceduralBoard.cellsBoardDTO().map(({ coordinates, item, character, frozen }) => ({
+                coordinates,
+                item: item?.type,
+                character: character?.type,
+                frozen,
+            }));
+        expect(getLayout(restored)).toEqual(getLayout(board));
+        expect(restored.getBoardDTO().playersStartCoordinates).toEqual(
+            board.getBoardDTO().playersStartCoordinates
+        );
+    });
+});
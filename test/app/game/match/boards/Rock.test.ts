@@ -17,6 +17,7 @@ vi.mock('../../../../../src/server.js', () => {
     };
 });
 const mockBoard = mockDeep<Board>();
+mockBoard.generateId.mockReturnValue('rock-id');
 describe('Rock tests',  () => {
     it('should not pick',async () => {
         const cell = new Cell(2,2);
@@ -1,5 +1,8 @@
 import type UserRepository from '../../../../src/schemas/UserRepository.js';
 import type MatchRepository from '../../../../src/schemas/MatchRepository.js';
+import type MatchResultRepository from '../../../../src/schemas/MatchResultRepository.js';
+import type LeaderboardRepository from '../../../../src/schemas/LeaderboardRepository.js';
+import type ReplayRepository from '../../../../src/schemas/ReplayRepository.js';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { mockDeep } from 'vitest-mock-extended';
 import { WebSocket } from 'ws';
@@ -8,6 +11,9 @@ import type { MatchStorage, MatchDetails, PlayerMove, UpdateEnemy, UpdateTime }
 import type Match from '../../../../src/app/game/match/Match.js';
 import type GameCacheRedis from '../../../../src/schemas/repositories/GameCacheRedis.js';
 import SocketConnections from '../../../../src/app/shared/SocketConnectionsServiceImpl.js';
+import type MatchOwnership from '../../../../src/app/shared/cluster/MatchOwnership.js';
+import CharacterError from '../../../../src/errors/CharacterError.js';
+import GameError from '../../../../src/errors/GameError.js';
 
 vi.mock('../../../../src/server.js', () => {
   return {
@@ -17,16 +23,32 @@ vi.mock('../../../../src/server.js', () => {
       warn: vi.fn(),
       debug: vi.fn(),
     },
-    config: {},
+    config: { SHUTDOWN_RECONNECT_MS: 2000 },
   };
 });
 const connections = new SocketConnections();
 const matchRepository = mockDeep<MatchRepository>();
 const userRepository = mockDeep<UserRepository>();
 const gameCache = mockDeep<GameCacheRedis>();
+const matchResultRepository = mockDeep<MatchResultRepository>();
+const leaderboardRepository = mockDeep<LeaderboardRepository>();
+const replayRepository = mockDeep<ReplayRepository>();
+const matchOwnership = mockDeep<MatchOwnership>();
+matchOwnership.acquire.mockResolvedValue(true);
 gameCache.getMatch.mockResolvedValue(null);
 gameCache.saveMatch.mockResolvedValue(undefined);
-const gameServiceImpl = new GameServiceImpl(matchRepository, userRepository, gameCache, connections);
+const createGameService = () =>
+  new GameServiceImpl(
+    matchRepository,
+    userRepository,
+    gameCache,
+    connections,
+    matchResultRepository,
+    leaderboardRepository,
+    replayRepository,
+    matchOwnership
+  );
+const gameServiceImpl = createGameService();
 beforeEach(() => {
   vi.clearAllMocks();
   connections.clearConnections();
@@ -72,15 +94,14 @@ describe('GameServiceImpl', () => {
         isPaused: vi.fn().mockResolvedValue(false),
         getPlayer: vi.fn().mockReturnValue(undefined),
         getHost: vi.fn().mockReturnValue('host1'),
-        getGuest: vi.fn().mockReturnValue('guest1'),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
         getMatchStorage: vi.fn().mockResolvedValue({
           id: matchId,
           level: 1,
           map: 'test-map',
           timeSeconds: 300,
           typeFruits: [],
-          host: { id: 'host1' },
-          guest: { id: 'guest1' },
+          players: [{ id: 'host1' }, { id: 'guest1' }],
           board: {},
         }),
       };
@@ -98,25 +119,26 @@ describe('GameServiceImpl', () => {
       const message = Buffer.from(JSON.stringify({ type: 'movement', payload: 'up' }));
       const mockPlayer = {
         isAlive: vi.fn().mockReturnValue(true),
+        canMoveNow: vi.fn().mockReturnValue(true),
         moveUp: vi.fn().mockResolvedValue({ id: 'host1', position: { x: 0, y: 1 } }),
       };
       const mockMatch = {
         isPaused: vi.fn().mockResolvedValue(false),
         getPlayer: vi.fn().mockReturnValue(mockPlayer),
         getHost: vi.fn().mockReturnValue('host1'),
-        getGuest: vi.fn().mockReturnValue('guest1'),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
         isRunning: vi.fn().mockReturnValue(true),
         checkWin: vi.fn().mockResolvedValue(false),
         stopGame: vi.fn(),
         getId: vi.fn().mockReturnValue(matchId),
+        nextSequence: vi.fn().mockReturnValue(1),
         getMatchStorage: vi.fn().mockResolvedValue({
           id: matchId,
           level: 1,
           map: 'test-map',
           timeSeconds: 300,
           typeFruits: [],
-          host: { id: 'host1' },
-          guest: { id: 'guest1' },
+          players: [{ id: 'host1' }, { id: 'guest1' }],
           board: {},
         }),
       };
@@ -135,11 +157,22 @@ describe('GameServiceImpl', () => {
 
       expect(mockPlayer.moveUp).toHaveBeenCalled();
       expect(mockSocketP1.send).toHaveBeenCalledWith(
-        JSON.stringify({ type: 'update-move', payload: { id: 'host1', position: { x: 0, y: 1 } }})
+        JSON.stringify({ type: 'update-move', payload: { id: 'host1', position: { x: 0, y: 1 } }, seq: 1 })
       );
       expect(mockSocketP2.send).toHaveBeenCalledWith(
-        JSON.stringify({ type: 'update-move', payload: { id: 'host1', position: { x: 0, y: 1 } }})
+        JSON.stringify({ type: 'update-move', payload: { id: 'host1', position: { x: 0, y: 1 } }, seq: 1 })
       );
+      expect(replayRepository.appendEvent).toHaveBeenCalledWith(matchId, {
+        source: 'input',
+        userId,
+        message: { type: 'movement', payload: 'up' },
+        timestamp: expect.any(Number),
+      });
+      expect(replayRepository.appendEvent).toHaveBeenCalledWith(matchId, {
+        source: 'output',
+        message: { type: 'update-move', payload: { id: 'host1', position: { x: 0, y: 1 } }, seq: 1 },
+        timestamp: expect.any(Number),
+      });
     });
 
     it('should move down', async () => {
@@ -148,25 +181,26 @@ describe('GameServiceImpl', () => {
       const message = Buffer.from(JSON.stringify({ type: 'movement', payload: 'down' }));
       const mockPlayer = {
         isAlive: vi.fn().mockReturnValue(true),
+        canMoveNow: vi.fn().mockReturnValue(true),
         moveDown: vi.fn().mockResolvedValue({ id: 'host1', position: { x: 0, y: 1 } }),
       };
       const mockMatch = {
         isPaused: vi.fn().mockResolvedValue(false),
         getPlayer: vi.fn().mockReturnValue(mockPlayer),
         getHost: vi.fn().mockReturnValue('host1'),
-        getGuest: vi.fn().mockReturnValue('guest1'),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
         isRunning: vi.fn().mockReturnValue(true),
         checkWin: vi.fn().mockResolvedValue(false),
         stopGame: vi.fn(),
         getId: vi.fn().mockReturnValue(matchId),
+        nextSequence: vi.fn().mockReturnValue(1),
         getMatchStorage: vi.fn().mockResolvedValue({
           id: matchId,
           level: 1,
           map: 'test-map',
           timeSeconds: 300,
           typeFruits: [],
-          host: { id: 'host1' },
-          guest: { id: 'guest1' },
+          players: [{ id: 'host1' }, { id: 'guest1' }],
           board: {},
         }),
       };
@@ -185,10 +219,10 @@ describe('GameServiceImpl', () => {
 
       expect(mockPlayer.moveDown).toHaveBeenCalled();
       expect(mockSocketP1.send).toHaveBeenCalledWith(
-        JSON.stringify({ type: 'update-move', payload: { id: 'host1', position: { x: 0, y: 1 } }})
+        JSON.stringify({ type: 'update-move', payload: { id: 'host1', position: { x: 0, y: 1 } }, seq: 1 })
       );
       expect(mockSocketP2.send).toHaveBeenCalledWith(
-        JSON.stringify({ type: 'update-move', payload: { id: 'host1', position: { x: 0, y: 1 } }})
+        JSON.stringify({ type: 'update-move', payload: { id: 'host1', position: { x: 0, y: 1 } }, seq: 1 })
       );
     });
 
@@ -198,25 +232,26 @@ describe('GameServiceImpl', () => {
       const message = Buffer.from(JSON.stringify({ type: 'movement', payload: 'right' }));
       const mockPlayer = {
         isAlive: vi.fn().mockReturnValue(true),
+        canMoveNow: vi.fn().mockReturnValue(true),
         moveRight: vi.fn().mockResolvedValue({ id: 'host1', position: { x: 0, y: 1 } }),
       };
       const mockMatch = {
         isPaused: vi.fn().mockResolvedValue(false),
         getPlayer: vi.fn().mockReturnValue(mockPlayer),
         getHost: vi.fn().mockReturnValue('host1'),
-        getGuest: vi.fn().mockReturnValue('guest1'),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
         isRunning: vi.fn().mockReturnValue(true),
         checkWin: vi.fn().mockResolvedValue(false),
         stopGame: vi.fn(),
         getId: vi.fn().mockReturnValue(matchId),
+        nextSequence: vi.fn().mockReturnValue(1),
         getMatchStorage: vi.fn().mockResolvedValue({
           id: matchId,
           level: 1,
           map: 'test-map',
           timeSeconds: 300,
           typeFruits: [],
-          host: { id: 'host1' },
-          guest: { id: 'guest1' },
+          players: [{ id: 'host1' }, { id: 'guest1' }],
           board: {},
         }),
       };
@@ -234,10 +269,10 @@ describe('GameServiceImpl', () => {
 
       expect(mockPlayer.moveRight).toHaveBeenCalled();
       expect(mockSocketP1.send).toHaveBeenCalledWith(
-        JSON.stringify({type: 'update-move', payload: { id: 'host1', position: { x: 0, y: 1 } }})
+        JSON.stringify({type: 'update-move', payload: { id: 'host1', position: { x: 0, y: 1 } }, seq: 1 })
       );
       expect(mockSocketP2.send).toHaveBeenCalledWith(
-        JSON.stringify({type: 'update-move', payload: { id: 'host1', position: { x: 0, y: 1 } }})
+        JSON.stringify({type: 'update-move', payload: { id: 'host1', position: { x: 0, y: 1 } }, seq: 1 })
       );
     });
 
@@ -247,25 +282,26 @@ describe('GameServiceImpl', () => {
       const message = Buffer.from(JSON.stringify({ type: 'movement', payload: 'left' }));
       const mockPlayer = {
         isAlive: vi.fn().mockReturnValue(true),
+        canMoveNow: vi.fn().mockReturnValue(true),
         moveLeft: vi.fn().mockResolvedValue({ id: 'host1', position: { x: 0, y: 1 } }),
       };
       const mockMatch = {
         isPaused: vi.fn().mockResolvedValue(false),
         getPlayer: vi.fn().mockReturnValue(mockPlayer),
         getHost: vi.fn().mockReturnValue('host1'),
-        getGuest: vi.fn().mockReturnValue('guest1'),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
         isRunning: vi.fn().mockReturnValue(true),
         checkWin: vi.fn().mockResolvedValue(false),
         stopGame: vi.fn(),
         getId: vi.fn().mockReturnValue(matchId),
+        nextSequence: vi.fn().mockReturnValue(1),
         getMatchStorage: vi.fn().mockResolvedValue({
           id: matchId,
           level: 1,
           map: 'test-map',
           timeSeconds: 300,
           typeFruits: [],
-          host: { id: 'host1' },
-          guest: { id: 'guest1' },
+          players: [{ id: 'host1' }, { id: 'guest1' }],
           board: {},
         }),
       };
@@ -283,10 +319,10 @@ describe('GameServiceImpl', () => {
 
       expect(mockPlayer.moveLeft).toHaveBeenCalled();
       expect(mockSocketP1.send).toHaveBeenCalledWith(
-        JSON.stringify({ type: 'update-move', payload: { id: 'host1', position: { x: 0, y: 1 } }})
+        JSON.stringify({ type: 'update-move', payload: { id: 'host1', position: { x: 0, y: 1 } }, seq: 1 })
       );
       expect(mockSocketP2.send).toHaveBeenCalledWith(
-        JSON.stringify({ type: 'update-move', payload: { id: 'host1', position: { x: 0, y: 1 } }})
+        JSON.stringify({ type: 'update-move', payload: { id: 'host1', position: { x: 0, y: 1 } }, seq: 1 })
       );
     });
 
@@ -308,19 +344,19 @@ describe('GameServiceImpl', () => {
         isPaused: vi.fn().mockResolvedValue(false),
         getPlayer: vi.fn().mockReturnValue(mockPlayer),
         getHost: vi.fn().mockReturnValue('host1'),
-        getGuest: vi.fn().mockReturnValue('guest1'),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
         isRunning: vi.fn().mockReturnValue(true),
         checkWin: vi.fn().mockResolvedValue(false),
         stopGame: vi.fn(),
         getId: vi.fn().mockReturnValue(matchId),
+        nextSequence: vi.fn().mockReturnValue(1),
         getMatchStorage: vi.fn().mockResolvedValue({
           id: matchId,
           level: 1,
           map: 'test-map',
           timeSeconds: 300,
           typeFruits: [],
-          host: { id: 'host1' },
-          guest: { id: 'guest1' },
+          players: [{ id: 'host1' }, { id: 'guest1' }],
           board: {},
         }),
       };
@@ -357,19 +393,19 @@ describe('GameServiceImpl', () => {
         isPaused: vi.fn().mockResolvedValue(false),
         getPlayer: vi.fn().mockReturnValue(mockPlayer),
         getHost: vi.fn().mockReturnValue('host1'),
-        getGuest: vi.fn().mockReturnValue('guest1'),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
         isRunning: vi.fn().mockReturnValue(true),
         checkWin: vi.fn().mockResolvedValue(false),
         stopGame: vi.fn(),
         getId: vi.fn().mockReturnValue(matchId),
+        nextSequence: vi.fn().mockReturnValue(1),
         getMatchStorage: vi.fn().mockResolvedValue({
           id: matchId,
           level: 1,
           map: 'test-map',
           timeSeconds: 300,
           typeFruits: [],
-          host: { id: 'host1' },
-          guest: { id: 'guest1' },
+          players: [{ id: 'host1' }, { id: 'guest1' }],
           board: {},
         }),
       };
@@ -407,19 +443,19 @@ describe('GameServiceImpl', () => {
         isPaused: vi.fn().mockResolvedValue(false),
         getPlayer: vi.fn().mockReturnValue(mockPlayer),
         getHost: vi.fn().mockReturnValue('host1'),
-        getGuest: vi.fn().mockReturnValue('guest1'),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
         isRunning: vi.fn().mockReturnValue(true),
         checkWin: vi.fn().mockResolvedValue(false),
         stopGame: vi.fn(),
         getId: vi.fn().mockReturnValue(matchId),
+        nextSequence: vi.fn().mockReturnValue(1),
         getMatchStorage: vi.fn().mockResolvedValue({
           id: matchId,
           level: 1,
           map: 'test-map',
           timeSeconds: 300,
           typeFruits: [],
-          host: { id: 'host1' },
-          guest: { id: 'guest1' },
+          players: [{ id: 'host1' }, { id: 'guest1' }],
           board: {},
         }),
       };
@@ -455,19 +491,19 @@ describe('GameServiceImpl', () => {
         isPaused: vi.fn().mockResolvedValue(false),
         getPlayer: vi.fn().mockReturnValue(mockPlayer),
         getHost: vi.fn().mockReturnValue('host1'),
-        getGuest: vi.fn().mockReturnValue('guest1'),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
         isRunning: vi.fn().mockReturnValue(true),
         checkWin: vi.fn().mockResolvedValue(false),
         stopGame: vi.fn(),
         getId: vi.fn().mockReturnValue(matchId),
+        nextSequence: vi.fn().mockReturnValue(1),
         getMatchStorage: vi.fn().mockResolvedValue({
           id: matchId,
           level: 1,
           map: 'test-map',
           timeSeconds: 300,
           typeFruits: [],
-          host: { id: 'host1' },
-          guest: { id: 'guest1' },
+          players: [{ id: 'host1' }, { id: 'guest1' }],
           board: {},
         }),
       };
@@ -512,20 +548,20 @@ describe('GameServiceImpl', () => {
         isPaused: vi.fn().mockResolvedValue(false),
         getPlayer: vi.fn().mockReturnValue(mockPlayer),
         getHost: vi.fn().mockReturnValue('host1'),
-        getGuest: vi.fn().mockReturnValue('guest1'),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
         isRunning: vi.fn().mockReturnValue(true),
         checkWin: vi.fn().mockResolvedValue(false),
         checkLose: vi.fn().mockReturnValue(false),
         stopGame: vi.fn(),
         getId: vi.fn().mockReturnValue(matchId),
+        nextSequence: vi.fn().mockReturnValue(1),
         getMatchStorage: vi.fn().mockResolvedValue({
           id: matchId,
           level: 1,
           map: 'test-map',
           timeSeconds: 300,
           typeFruits: [],
-          host: { id: 'host1' },
-          guest: { id: 'guest1' },
+          players: [{ id: 'host1' }, { id: 'guest1' }],
           board: {},
         }),
       };
@@ -553,11 +589,11 @@ describe('GameServiceImpl', () => {
       };
       
       expect(mockSocketP1.send).toHaveBeenCalledWith(
-        JSON.stringify({ type: 'update-frozen-cells', payload: expectedPayload })
+        JSON.stringify({ type: 'update-frozen-cells', payload: expectedPayload, seq: 1 })
       );
       
       expect(mockSocketP2.send).toHaveBeenCalledWith(
-        JSON.stringify({ type: 'update-frozen-cells', payload: expectedPayload })
+        JSON.stringify({ type: 'update-frozen-cells', payload: expectedPayload, seq: 1 })
       );
     });
 
@@ -567,25 +603,26 @@ describe('GameServiceImpl', () => {
       const message = Buffer.from(JSON.stringify({ type: 'unsupported message', payload: 'up' }));
       const mockPlayer = {
         isAlive: vi.fn().mockReturnValue(true),
+        canMoveNow: vi.fn().mockReturnValue(true),
         moveUp: vi.fn().mockResolvedValue({ id: 'host1', position: { x: 0, y: 1 } }),
       };
       const mockMatch = {
         isPaused: vi.fn().mockResolvedValue(false),
         getPlayer: vi.fn().mockReturnValue(mockPlayer),
         getHost: vi.fn().mockReturnValue('host1'),
-        getGuest: vi.fn().mockReturnValue('guest1'),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
         isRunning: vi.fn().mockReturnValue(true),
         checkWin: vi.fn().mockResolvedValue(false),
         stopGame: vi.fn(),
         getId: vi.fn().mockReturnValue(matchId),
+        nextSequence: vi.fn().mockReturnValue(1),
         getMatchStorage: vi.fn().mockResolvedValue({
           id: matchId,
           level: 1,
           map: 'test-map',
           timeSeconds: 300,
           typeFruits: [],
-          host: { id: 'host1' },
-          guest: { id: 'guest1' },
+          players: [{ id: 'host1' }, { id: 'guest1' }],
           board: {},
         }),
       };
@@ -629,14 +666,15 @@ describe('GameServiceImpl', () => {
         isRunning: vi.fn().mockReturnValue(true),
         checkLose: vi.fn().mockReturnValue(false),
         checkWin: vi.fn().mockReturnValue(false),
+        getId: vi.fn().mockReturnValue(matchId),
+        nextSequence: vi.fn().mockReturnValue(1),
         getMatchStorage: vi.fn().mockResolvedValue({
           id: matchId,
           level: 1,
           map: 'test-map',
           timeSeconds: 300,
           typeFruits: [],
-          host: { id: 'host1' },
-          guest: { id: 'guest1' },
+          players: [{ id: 'host1' }, { id: 'guest1' }],
           board: {},
         }),
       };
@@ -650,10 +688,58 @@ describe('GameServiceImpl', () => {
       // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
       gameServiceImpl['connections'].registerConnection(guestId, mockSocketP2 as unknown as WebSocket);
 
-      await gameServiceImpl.updatePlayers(matchId, hostId, guestId, { type: 'update-enemy', payload: data });
+      await gameServiceImpl.updatePlayers(matchId, [hostId, guestId], { type: 'update-enemy', payload: data });
 
-      expect(mockSocketP1.send).toHaveBeenCalledWith(JSON.stringify({ type: 'update-enemy', payload: data }));
-      expect(mockSocketP2.send).toHaveBeenCalledWith(JSON.stringify({ type: 'update-enemy', payload: data }));
+      expect(mockSocketP1.send).toHaveBeenCalledWith(JSON.stringify({ type: 'update-enemy', payload: data, seq: 1 }));
+      expect(mockSocketP2.send).toHaveBeenCalledWith(JSON.stringify({ type: 'update-enemy', payload: data, seq: 1 }));
+      expect(replayRepository.appendEvent).toHaveBeenCalledWith(matchId, {
+        source: 'output',
+        message: { type: 'update-enemy', payload: data, seq: 1 },
+        timestamp: expect.any(Number),
+      });
+    });
+
+    it('should keep notifying the players when the replay cannot be recorded', async () => {
+      const matchId = 'match1';
+      const mockMatch = {
+        isRunning: vi.fn().mockReturnValue(true),
+        checkLose: vi.fn().mockReturnValue(false),
+        checkWin: vi.fn().mockReturnValue(false),
+        getId: vi.fn().mockReturnValue(matchId),
+        nextSequence: vi.fn().mockReturnValue(1),
+      };
+      const mockSocket = { send: vi.fn(), readyState: WebSocket.OPEN };
+      replayRepository.appendEvent.mockRejectedValueOnce(new Error('Redis down'));
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameServiceImpl['matches'].set(matchId, mockMatch as unknown as Match);
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameServiceImpl['connections'].registerConnection('host1', mockSocket as unknown as WebSocket);
+
+      await gameServiceImpl.updatePlayers(matchId, ['host1'], { type: 'paused', payload: true });
+
+      expect(mockSocket.send).toHaveBeenCalledWith(JSON.stringify({ type: 'paused', payload: true, seq: 1 }));
+    });
+
+    it('should start a new round in the replay before the match starts', async () => {
+      const matchId = 'match1';
+      const mockMatch = {
+        isRunning: vi.fn().mockReturnValue(false),
+        startGame: vi.fn(),
+        getMatchUpdate: vi.fn().mockReturnValue({}),
+        getSequence: vi.fn().mockReturnValue(0),
+      };
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameServiceImpl['matches'].set(matchId, mockMatch as unknown as Match);
+
+      await gameServiceImpl.startMatch(matchId);
+
+      expect(replayRepository.startRound).toHaveBeenCalledWith(matchId);
+      expect(vi.mocked(replayRepository.startRound).mock.invocationCallOrder[0]).toBeLessThan(
+        mockMatch.startGame.mock.invocationCallOrder[0]
+      );
+      expect(vi.mocked(replayRepository.startRound).mock.invocationCallOrder[0]).toBeLessThan(
+        vi.mocked(replayRepository.appendEvent).mock.invocationCallOrder[0]
+      );
     });
 
     it('should throw an error if match is not found', async () => {
@@ -667,23 +753,28 @@ describe('GameServiceImpl', () => {
         enemyState: 'walking'
       };
 
-      await expect(gameServiceImpl.updatePlayers(matchId, hostId, guestId, {type: 'update-enemy' , payload: data})).rejects.toThrow(
+      await expect(gameServiceImpl.updatePlayers(matchId, [hostId, guestId], {type: 'update-enemy' , payload: data})).rejects.toThrow(
         'The requested match was not found'
       );
     });
   });
 
   describe('checkMatchDetails', () => {
-    it('should throw an error if host and guest are the same', () => {
-      const matchDetails = { host: 'player1', guest: 'player1', started: true };
+    it('should throw an error if a player is repeated', () => {
+      const matchDetails = {
+        host: 'player1',
+        players: ['player1', 'player1'],
+        playersNumber: 2,
+        started: true,
+      };
 
       expect(() =>
         gameServiceImpl.checkMatchDetails(matchDetails as unknown as MatchDetails)
       ).toThrow('The match cannot start');
     });
 
-    it('should throw an error if host or guest is missing', () => {
-      const matchDetails = { host: '', guest: 'player2', started: true };
+    it('should throw an error if the host is missing', () => {
+      const matchDetails = { host: '', players: ['', 'player2'], playersNumber: 2, started: true };
 
       expect(() =>
         gameServiceImpl.checkMatchDetails(matchDetails as unknown as MatchDetails)
@@ -691,12 +782,57 @@ describe('GameServiceImpl', () => {
     });
 
     it('should throw an error if match has not started', () => {
-      const matchDetails = { host: 'player1', guest: 'player2', started: false };
+      const matchDetails = {
+        host: 'player1',
+        players: ['player1', 'player2'],
+        playersNumber: 2,
+        started: false,
+      };
+
+      expect(() =>
+        gameServiceImpl.checkMatchDetails(matchDetails as unknown as MatchDetails)
+      ).toThrow('The match cannot start');
+    });
+
+    it('should throw an error if the match is waiting for more players', () => {
+      const matchDetails = {
+        host: 'player1',
+        players: ['player1', 'player2', 'player3'],
+        playersNumber: 4,
+        started: true,
+      };
 
       expect(() =>
         gameServiceImpl.checkMatchDetails(matchDetails as unknown as MatchDetails)
       ).toThrow('The match cannot start');
     });
+
+    it('should allow matches with every player joined', () => {
+      const matchDetails = {
+        host: 'player1',
+        players: ['player1', 'player2', 'player3', 'player4'],
+        playersNumber: 4,
+        started: true,
+      };
+
+      expect(() =>
+        gameServiceImpl.checkMatchDetails(matchDetails as unknown as MatchDetails)
+      ).not.toThrow();
+    });
+
+    it('should allow solo matches without a guest', () => {
+      const matchDetails = {
+        host: 'player1',
+        players: ['player1'],
+        playersNumber: 1,
+        started: true,
+        solo: true,
+      };
+
+      expect(() =>
+        gameServiceImpl.checkMatchDetails(matchDetails as unknown as MatchDetails)
+      ).not.toThrow();
+    });
   });
 
   describe('registerConnection', () => {
@@ -751,10 +887,11 @@ describe('GameServiceImpl', () => {
       const mockMatch = {
         isPaused: vi.fn().mockResolvedValue(false),
         getId: vi.fn().mockReturnValue(matchId),
+        nextSequence: vi.fn().mockReturnValue(1),
         setTime: vi.fn(),
         isRunning: vi.fn().mockReturnValue(true),
         getHost: vi.fn().mockReturnValue('host1'),
-        getGuest: vi.fn().mockReturnValue('guest1'),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
         checkWin: vi.fn().mockReturnValue(false),
         checkLose: vi.fn().mockReturnValue(false),
         getMatchStorage: vi.fn().mockResolvedValue({
@@ -763,18 +900,12 @@ describe('GameServiceImpl', () => {
           map: 'test-map',
           timeSeconds: 300,
           typeFruits: [],
-          host: { id: 'host1' },
-          guest: { id: 'guest1' },
+          players: [{ id: 'host1' }, { id: 'guest1' }],
           board: {},
         }),
       };
       type GameServiceImplWithPrivateMethods = typeof gameServiceImpl & {
-        notifyPlayers: (
-          matchId: string,
-          hostId: string,
-          guestId: string,
-          data: unknown
-        ) => Promise<void>;
+        notifyPlayers: (sockets: unknown[], data: unknown) => void;
       };
       const notifyPlayersSpy = vi.spyOn(
         gameServiceImpl as GameServiceImplWithPrivateMethods,
@@ -798,10 +929,11 @@ describe('GameServiceImpl', () => {
       const matchDetails: MatchDetails = {
         id: 'matchId',
         host: hostId,
-        guest: guestId,
+        players: [hostId, guestId],
+        playersNumber: 2,
         started: true,
         level: 1,
-        map: 'map - test',
+        map: 'desert',
       };
       // Mock the Match class
 
@@ -817,23 +949,136 @@ describe('GameServiceImpl', () => {
       expect(matchId).toBeDefined();
       // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
       expect(gameServiceImpl['matches'].has(matchId.getId())).toBe(true);
+      expect(matchOwnership.acquire).toHaveBeenCalledWith('matchId');
+    });
+
+    it('should generate a seed for endless matches created without one', async () => {
+      const matchDetails: MatchDetails = {
+        id: 'endlessMatch',
+        host: 'host1',
+        players: ['host1', 'guest1'],
+        playersNumber: 2,
+        level: 1,
+        map: 'desert',
+        mode: 'endless',
+      };
+      const match = await gameServiceImpl.createMatch(matchDetails);
+
+      expect(match.getSettings()).toEqual({
+        mode: 'endless',
+        seed: expect.any(Number),
+        difficulty: 'normal',
+      });
+    });
+
+    it('should keep classic matches without a seed', async () => {
+      const matchDetails: MatchDetails = {
+        id: 'classicMatch',
+        host: 'host1',
+        players: ['host1', 'guest1'],
+        playersNumber: 2,
+        level: 1,
+        map: 'desert',
+        seed: 10,
+      };
+      const match = await gameServiceImpl.createMatch(matchDetails);
+
+      expect(match.getSettings()).toEqual({ mode: 'classic' });
+    });
+
+    it('should create solo matches with a bot as the guest', async () => {
+      const matchDetails: MatchDetails = {
+        id: 'soloMatch',
+        host: 'host1',
+        players: ['host1'],
+        playersNumber: 1,
+        started: true,
+        level: 1,
+        map: 'desert',
+        solo: true,
+      };
+      const match = await gameServiceImpl.createMatch(matchDetails);
+
+      expect(match.getPlayersIds()).toEqual(['host1', 'bot-soloMatch']);
+      expect(match.getSettings()).toEqual({ mode: 'classic', solo: true });
+      expect(userRepository.updateUser).toHaveBeenCalledTimes(1);
+      expect(userRepository.updateUser).toHaveBeenCalledWith('host1', { matchId: 'soloMatch' });
+    });
+
+    it('should create matches with four players', async () => {
+      const players = ['host1', 'guest1', 'guest2', 'guest3'];
+      const matchDetails: MatchDetails = {
+        id: 'fourPlayersMatch',
+        host: 'host1',
+        players,
+        playersNumber: 4,
+        started: true,
+        level: 1,
+        map: 'desert',
+      };
+      const match = await gameServiceImpl.createMatch(matchDetails);
+
+      expect(match.getPlayersIds()).toEqual(players);
+      expect(userRepository.updateUser).toHaveBeenCalledTimes(4);
+      for (const player of players) {
+        expect(userRepository.updateUser).toHaveBeenCalledWith(player, {
+          matchId: 'fourPlayersMatch',
+        });
+      }
     });
 
-    it('should throw an error if the guest is not defined', async () => {
+    it('should throw an error if the guests have not joined', async () => {
       const hostId = 'host1';
-      const guestId = undefined;
       const matchDetails: MatchDetails = {
         id: 'matchId',
         host: hostId,
-        guest: guestId,
+        players: [hostId],
+        playersNumber: 2,
         started: true,
         level: 1,
-        map: 'map - test',
+        map: 'desert',
       };
       await expect(gameServiceImpl.createMatch(matchDetails)).rejects.toThrow(
         'The match cannot be created'
       );
     });
+
+    it('should not create a match run by another node', async () => {
+      const matchDetails: MatchDetails = {
+        id: 'ownedMatch',
+        host: 'host1',
+        players: ['host1', 'guest1'],
+        playersNumber: 2,
+        started: true,
+        level: 1,
+        map: 'desert',
+      };
+      matchOwnership.acquire.mockResolvedValueOnce(false);
+
+      await expect(gameServiceImpl.createMatch(matchDetails)).rejects.toThrow(
+        'The match is run by another node'
+      );
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      expect(gameServiceImpl['matches'].has('ownedMatch')).toBe(false);
+      expect(userRepository.updateUser).not.toHaveBeenCalledWith('host1', {
+        matchId: 'ownedMatch',
+      });
+    });
+
+    it('should release the match if it cannot be created', async () => {
+      const matchDetails: MatchDetails = {
+        id: 'invalidMatch',
+        host: 'host1',
+        players: ['host1', 'guest1'],
+        playersNumber: 2,
+        started: true,
+        level: 1,
+        map: 'unknown-map',
+      };
+
+      await expect(gameServiceImpl.createMatch(matchDetails)).rejects.toThrow('The requested map was not found');
+      expect(matchOwnership.release).toHaveBeenCalledWith('invalidMatch');
+    });
   });
   describe('getMatch', () => {
     it('should return a match by its ID', async () => {
@@ -854,6 +1099,23 @@ describe('GameServiceImpl', () => {
       expect(gameCache.getMatch).toHaveBeenCalledWith(matchId);
       expect(result).toBeUndefined();
     });
+    it('should not restore a match run by another node', async () => {
+      gameCache.getMatch.mockResolvedValueOnce({ id: 'match2' } as MatchStorage);
+      matchOwnership.acquire.mockResolvedValueOnce(false);
+
+      const result = await gameServiceImpl.getMatch('match2');
+
+      expect(matchOwnership.acquire).toHaveBeenCalledWith('match2');
+      expect(result).toBeUndefined();
+    });
+    it('should release a match that cannot be restored', async () => {
+      gameCache.getMatch.mockResolvedValueOnce({ id: 'match3' } as MatchStorage);
+
+      const result = await gameServiceImpl.getMatch('match3');
+
+      expect(matchOwnership.release).toHaveBeenCalledWith('match3');
+      expect(result).toBeUndefined();
+    });
   });
 
   describe('get match update', () => {
@@ -868,8 +1130,9 @@ describe('GameServiceImpl', () => {
       const mockMatch = {
         isPaused: vi.fn().mockResolvedValue(false),
         getId: vi.fn().mockReturnValue(matchId),
+        nextSequence: vi.fn().mockReturnValue(1),
         getHost: vi.fn().mockReturnValue('host1'),
-        getGuest: vi.fn().mockReturnValue('guest1'),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
         isRunning: vi.fn().mockReturnValue(true),
         checkWin: vi.fn().mockReturnValue(false),
         checkLose: vi.fn().mockReturnValue(false),
@@ -880,8 +1143,7 @@ describe('GameServiceImpl', () => {
           map: 'test-map',
           timeSeconds: 300,
           typeFruits: [],
-          host: { id: 'host1' },
-          guest: { id: 'guest1' },
+          players: [{ id: 'host1' }, { id: 'guest1' }],
           board: {},
         }),
       };
@@ -912,10 +1174,11 @@ describe('GameServiceImpl', () => {
       const mockMatch = {
         isPaused: vi.fn().mockResolvedValue(false),
         getId: vi.fn().mockReturnValue(matchId),
+        nextSequence: vi.fn().mockReturnValue(1),
         setTime: vi.fn(),
         isRunning: vi.fn().mockReturnValue(true),
         getHost: vi.fn().mockReturnValue('host1'),
-        getGuest: vi.fn().mockReturnValue('guest1'),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
         checkWin: vi.fn().mockReturnValue(false),
         checkLose: vi.fn().mockReturnValue(false),
         getMatchStorage: vi.fn().mockResolvedValue({
@@ -924,8 +1187,7 @@ describe('GameServiceImpl', () => {
           map: 'test-map',
           timeSeconds: 300,
           typeFruits: [],
-          host: { id: 'host1' },
-          guest: { id: 'guest1' },
+          players: [{ id: 'host1' }, { id: 'guest1' }],
           board: {},
         }),
       };
@@ -960,20 +1222,21 @@ describe('GameServiceImpl', () => {
       const mockMatch = {
         isPaused: vi.fn().mockResolvedValue(false),
         getId: vi.fn().mockReturnValue(matchId),
+        nextSequence: vi.fn().mockReturnValue(1),
         setTime: vi.fn(),
         isRunning: vi.fn().mockReturnValue(true),
         getHost: vi.fn().mockReturnValue('host1'),
-        getGuest: vi.fn().mockReturnValue('guest1'),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
         checkWin: vi.fn().mockReturnValue(false),
         checkLose: vi.fn().mockReturnValue(true),
+        isVersus: vi.fn().mockReturnValue(false),
         getMatchStorage: vi.fn().mockResolvedValue({
           id: matchId,
           level: 1,
           map: 'test-map',
           timeSeconds: 300,
           typeFruits: [],
-          host: { id: 'host1' },
-          guest: { id: 'guest1' },
+          players: [{ id: 'host1' }, { id: 'guest1' }],
           board: {},
         }),
       };
@@ -996,20 +1259,21 @@ describe('GameServiceImpl', () => {
       const mockMatch = {
         isPaused: vi.fn().mockResolvedValue(false),
         getId: vi.fn().mockReturnValue(matchId),
+        nextSequence: vi.fn().mockReturnValue(1),
         setTime: vi.fn(),
         isRunning: vi.fn().mockReturnValue(true),
         getHost: vi.fn().mockReturnValue('host1'),
-        getGuest: vi.fn().mockReturnValue('guest1'),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
         checkWin: vi.fn().mockReturnValue(true),
         checkLose: vi.fn().mockReturnValue(false),
+        isVersus: vi.fn().mockReturnValue(false),
         getMatchStorage: vi.fn().mockResolvedValue({
           id: matchId,
           level: 1,
           map: 'test-map',
           timeSeconds: 300,
           typeFruits: [],
-          host: { id: 'host1' },
-          guest: { id: 'guest1' },
+          players: [{ id: 'host1' }, { id: 'guest1' }],
           board: {},
         }),
       };
@@ -1025,6 +1289,386 @@ describe('GameServiceImpl', () => {
     });
   })
 
+  describe('game finished', () => {
+    const gameService = new GameServiceImpl(
+      matchRepository,
+      userRepository,
+      gameCache,
+      connections,
+      matchResultRepository,
+      leaderboardRepository,
+      replayRepository,
+      matchOwnership
+    );
+    const matchResult = {
+      matchId: 'match1',
+      level: 1,
+      map: 'desert',
+      mode: 'classic' as const,
+      versus: false,
+      result: 'win' as const,
+      winner: null,
+      durationSeconds: 90,
+      enemiesFaced: 4,
+      players: [{ id: 'host1', fruits: 3, deaths: 0, scoredAt: 80, position: 1, result: 'win' as const }],
+    };
+    const getFinishedMatch = (mode: 'classic' | 'endless', level = 1) => ({
+      getId: vi.fn().mockReturnValue('match1'),
+      nextSequence: vi.fn().mockReturnValue(1),
+      isRunning: vi.fn().mockReturnValue(true),
+      getHost: vi.fn().mockReturnValue('host1'),
+      getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
+      getLevel: vi.fn().mockReturnValue(level),
+      getMap: vi.fn().mockReturnValue('desert'),
+      getSettings: vi.fn().mockReturnValue({ mode }),
+      checkWin: vi.fn().mockReturnValue(true),
+      checkLose: vi.fn().mockReturnValue(false),
+      isVersus: vi.fn().mockReturnValue(false),
+      getMatchResult: vi.fn().mockReturnValue(matchResult),
+      stopGame: vi.fn(),
+    });
+
+    it('should save the result of the finished match', async () => {
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      vi.spyOn(gameService as any, 'removeMatchAfterDelay').mockImplementation(() => {});
+      const match = getFinishedMatch('classic');
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      await gameService['gameFinished'](match as unknown as Match, []);
+
+      expect(matchResultRepository.saveResult).toHaveBeenCalledWith(matchResult);
+      expect(leaderboardRepository.recordResult).toHaveBeenCalledWith(matchResult);
+    });
+
+    it('should release the finished match so any node can run its next round', async () => {
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      vi.spyOn(gameService as any, 'removeMatchAfterDelay').mockImplementation(() => {});
+      const match = getFinishedMatch('classic');
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      await gameService['gameFinished'](match as unknown as Match, []);
+
+      expect(matchOwnership.release).toHaveBeenCalledWith('match1');
+    });
+
+    it('should finish the match even if its result cannot be saved', async () => {
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      vi.spyOn(gameService as any, 'removeMatchAfterDelay').mockImplementation(() => {});
+      matchResultRepository.saveResult.mockRejectedValueOnce(new Error('Database down'));
+      const match = getFinishedMatch('classic');
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      const finished = await gameService['gameFinished'](match as unknown as Match, []);
+
+      expect(finished).toBe(true);
+      expect(leaderboardRepository.recordResult).not.toHaveBeenCalled();
+      expect(matchRepository.updateMatch).toHaveBeenCalledWith('match1', { level: 2 });
+    });
+
+    it('should pick a new seed for the next round of an endless match', async () => {
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      vi.spyOn(gameService as any, 'removeMatchAfterDelay').mockImplementation(() => {});
+      const match = getFinishedMatch('endless');
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      await gameService['gameFinished'](match as unknown as Match, []);
+
+      expect(matchRepository.updateMatch).toHaveBeenCalledWith('match1', {
+        level: 2,
+        seed: expect.any(Number),
+      });
+    });
+
+    it('should only increase the level of a classic match', async () => {
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      vi.spyOn(gameService as any, 'removeMatchAfterDelay').mockImplementation(() => {});
+      const match = getFinishedMatch('classic');
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      await gameService['gameFinished'](match as unknown as Match, []);
+
+      expect(matchRepository.updateMatch).toHaveBeenCalledWith('match1', { level: 2 });
+      expect(matchRepository.updateMatch).not.toHaveBeenCalledWith(
+        'match1',
+        expect.objectContaining({ seed: expect.anything() })
+      );
+    });
+
+    it('should start a classic match over from the first level after the last level of its map', async () => {
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      vi.spyOn(gameService as any, 'removeMatchAfterDelay').mockImplementation(() => {});
+      const match = getFinishedMatch('classic', 5);
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      await gameService['gameFinished'](match as unknown as Match, []);
+
+      expect(matchRepository.updateMatch).toHaveBeenCalledWith('match1', { level: 1 });
+    });
+
+    it('should send each player of a versus match its own result', async () => {
+      // biome-ignore lint/suspicious/noExplicitAny: For testing purposes
+      vi.spyOn(gameService as any, 'removeMatchAfterDelay').mockImplementation(() => {});
+      const hostSocket = mockDeep<WebSocket>();
+      const guestSocket = mockDeep<WebSocket>();
+      for (const socket of [hostSocket, guestSocket]) {
+        Object.defineProperty(socket, 'readyState', { value: WebSocket.OPEN });
+      }
+      connections.registerConnection('host1', hostSocket);
+      connections.registerConnection('guest1', guestSocket);
+      const ranking = [
+        { id: 'guest1', fruits: 5, deaths: 0, scoredAt: 40, position: 1 },
+        { id: 'host1', fruits: 3, deaths: 1, scoredAt: 20, position: 2 },
+      ];
+      const match = {
+        ...getFinishedMatch('classic'),
+        isVersus: vi.fn().mockReturnValue(true),
+        getVersusResult: vi.fn((id: string) => ({
+          result: id === 'guest1' ? 'win' : 'lose',
+          winner: 'guest1',
+          ranking,
+        })),
+      };
+
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      await gameService['gameFinished'](match as unknown as Match, [hostSocket, guestSocket]);
+
+      expect(hostSocket.send).toHaveBeenCalledWith(
+        JSON.stringify({ type: 'end', payload: { result: 'lose', winner: 'guest1', ranking }, seq: 1 })
+      );
+      expect(guestSocket.send).toHaveBeenCalledWith(
+        JSON.stringify({ type: 'end', payload: { result: 'win', winner: 'guest1', ranking }, seq: 1 })
+      );
+    });
+  });
+
+  describe('resync', () => {
+    const gameService = new GameServiceImpl(
+      matchRepository,
+      userRepository,
+      gameCache,
+      connections,
+      matchResultRepository,
+      leaderboardRepository,
+      replayRepository,
+      matchOwnership
+    );
+
+    it('should send the snapshot and its sequence only to the player that asked for it', async () => {
+      const updateAll = { players: [], cells: [], time: { minutesLeft: 4, secondsLeft: 0 } };
+      const mockMatch = {
+        isPaused: vi.fn().mockResolvedValue(true),
+        getPlayer: vi.fn().mockReturnValue({ isAlive: vi.fn().mockReturnValue(false) }),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
+        getMatchUpdate: vi.fn().mockReturnValue(updateAll),
+        getSequence: vi.fn().mockReturnValue(7),
+        nextSequence: vi.fn(),
+      };
+      const host = { send: vi.fn(), readyState: WebSocket.OPEN };
+      const guest = { send: vi.fn(), readyState: WebSocket.OPEN };
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameService['matches'].set('match1', mockMatch as unknown as Match);
+      connections.registerConnection('host1', host as unknown as WebSocket);
+      connections.registerConnection('guest1', guest as unknown as WebSocket);
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameService['gameFinished'] = vi.fn().mockResolvedValue(false);
+
+      const message = Buffer.from(JSON.stringify({ type: 'resync', payload: '' }));
+      await gameService.handleGameMessage('host1', 'match1', message);
+
+      expect(host.send).toHaveBeenCalledExactlyOnceWith(
+        JSON.stringify({ type: 'update-all', payload: updateAll, seq: 7 })
+      );
+      expect(guest.send).not.toHaveBeenCalled();
+      expect(mockMatch.nextSequence).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('input acknowledgements', () => {
+    const gameService = new GameServiceImpl(
+      matchRepository,
+      userRepository,
+      gameCache,
+      connections,
+      matchResultRepository,
+      leaderboardRepository,
+      replayRepository,
+      matchOwnership
+    );
+    const position: PlayerMove = {
+      id: 'host1',
+      coordinates: { x: 1, y: 1 },
+      direction: 'up',
+      state: 'alive',
+    };
+
+    const setUp = ({ paused = false, alive = true } = {}) => {
+      const player = {
+        isAlive: vi.fn().mockReturnValue(alive),
+        canMoveNow: vi.fn().mockReturnValue(true),
+        moveUp: vi.fn(),
+        getCharacterUpdate: vi.fn().mockReturnValue(position),
+      };
+      const mockMatch = {
+        isPaused: vi.fn().mockResolvedValue(paused),
+        getPauseState: vi.fn().mockResolvedValue({ paused, resumeVotes: [] }),
+        getPlayer: vi.fn().mockReturnValue(player),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
+        getMatchStorage: vi.fn().mockResolvedValue(null),
+        getId: vi.fn().mockReturnValue('match1'),
+        nextSequence: vi.fn().mockReturnValue(4),
+      };
+      const host = { send: vi.fn(), close: vi.fn(), readyState: WebSocket.OPEN };
+      const guest = { send: vi.fn(), close: vi.fn(), readyState: WebSocket.OPEN };
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameService['matches'].set('match1', mockMatch as unknown as Match);
+      connections.registerConnection('host1', host as unknown as WebSocket);
+      connections.registerConnection('guest1', guest as unknown as WebSocket);
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameService['gameFinished'] = vi.fn().mockResolvedValue(false);
+      return { player, host, guest };
+    };
+    const movement = (seq?: number) =>
+      Buffer.from(JSON.stringify({ type: 'movement', payload: 'up', seq }));
+
+    it('should acknowledge an input with the resulting move only to its sender', async () => {
+      const { player, host, guest } = setUp();
+      const moved = { ...position, coordinates: { x: 0, y: 1 } };
+      player.moveUp.mockResolvedValue(moved);
+
+      await gameService.handleGameMessage('host1', 'match1', movement(12));
+
+      expect(guest.send).toHaveBeenCalledExactlyOnceWith(
+        JSON.stringify({ type: 'update-move', payload: moved, seq: 4 })
+      );
+      expect(host.send).toHaveBeenLastCalledWith(
+        JSON.stringify({ type: 'ack', payload: { inputSeq: 12, move: moved } })
+      );
+    });
+
+    it('should reject the moves into blocked cells and borders with their reason', async () => {
+      const { player, host, guest } = setUp();
+      player.moveUp.mockRejectedValueOnce(new CharacterError(CharacterError.BLOCKED_CELL));
+      player.moveUp.mockRejectedValueOnce(new CharacterError(CharacterError.NULL_CELL));
+
+      await gameService.handleGameMessage('host1', 'match1', movement(1));
+      await gameService.handleGameMessage('host1', 'match1', movement(2));
+
+      expect(host.send.mock.calls).toEqual([
+        [JSON.stringify({ type: 'reject', payload: { inputSeq: 1, reason: 'blocked', move: position } })],
+        [JSON.stringify({ type: 'reject', payload: { inputSeq: 2, reason: 'border', move: position } })],
+      ]);
+      expect(guest.send).not.toHaveBeenCalled();
+    });
+
+    it('should reject the moves faster than the speed of the player', async () => {
+      const { player, host } = setUp();
+      player.moveUp.mockRejectedValue(new CharacterError(CharacterError.TOO_FAST));
+
+      await gameService.handleGameMessage('host1', 'match1', movement(3));
+
+      expect(host.send).toHaveBeenCalledExactlyOnceWith(
+        JSON.stringify({ type: 'reject', payload: { inputSeq: 3, reason: 'throttled', move: position } })
+      );
+    });
+
+    it('should reject the inputs of dead players and of paused matches', async () => {
+      const dead = setUp({ alive: false });
+      await gameService.handleGameMessage('host1', 'match1', movement(5));
+      expect(dead.host.send).toHaveBeenCalledExactlyOnceWith(
+        JSON.stringify({ type: 'reject', payload: { inputSeq: 5, reason: 'dead', move: position } })
+      );
+
+      const paused = setUp({ paused: true });
+      await gameService.handleGameMessage('host1', 'match1', movement(6));
+      expect(paused.host.send).toHaveBeenLastCalledWith(
+        JSON.stringify({ type: 'reject', payload: { inputSeq: 6, reason: 'paused', move: position } })
+      );
+    });
+
+    it('should keep the previous messages for the inputs without a sequence number', async () => {
+      const { player, host } = setUp();
+      player.moveUp.mockRejectedValue(new CharacterError(CharacterError.BLOCKED_CELL));
+
+      await gameService.handleGameMessage('host1', 'match1', movement());
+
+      expect(host.send).toHaveBeenCalledExactlyOnceWith(
+        JSON.stringify({ type: 'error', payload: { error: 'Invalid move' } })
+      );
+    });
+  });
+
+  describe('spectators', () => {
+    const getSocket = () => ({ send: vi.fn(), close: vi.fn(), readyState: WebSocket.OPEN });
+    const updateAll = { players: [], board: {}, enemies: [] };
+    const mockMatch = {
+      isRunning: vi.fn().mockReturnValue(true),
+      checkLose: vi.fn().mockReturnValue(false),
+      checkWin: vi.fn().mockReturnValue(false),
+      getMatchUpdate: vi.fn().mockReturnValue(updateAll),
+      getId: vi.fn().mockReturnValue('match1'),
+      getSequence: vi.fn().mockReturnValue(4),
+      nextSequence: vi.fn().mockReturnValue(5),
+    };
+
+    it('should send the spectator a snapshot and then the updates of the match', async () => {
+      const spectator = getSocket();
+      const player = getSocket();
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameServiceImpl['matches'].set('match1', mockMatch as unknown as Match);
+      connections.registerConnection('host1', player as unknown as WebSocket);
+
+      await gameServiceImpl.addSpectator('match1', spectator as unknown as WebSocket);
+      await gameServiceImpl.updatePlayers('match1', ['host1'], { type: 'paused', payload: true });
+
+      expect(spectator.send.mock.calls).toEqual([
+        [JSON.stringify({ type: 'update-all', payload: updateAll, seq: 4 })],
+        [JSON.stringify({ type: 'paused', payload: true, seq: 5 })],
+      ]);
+      expect(player.send).toHaveBeenCalledWith(JSON.stringify({ type: 'paused', payload: true, seq: 5 }));
+    });
+
+    it('should not treat the spectators as players', async () => {
+      const spectator = getSocket();
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameServiceImpl['matches'].set('match1', mockMatch as unknown as Match);
+
+      await gameServiceImpl.addSpectator('match1', spectator as unknown as WebSocket);
+
+      expect(connections.isConnected('match1')).toBe(false);
+      expect(gameServiceImpl.registerConnection('host1', getSocket() as unknown as WebSocket)).toBe(
+        false
+      );
+    });
+
+    it('should stop sending updates to a spectator that left', async () => {
+      const spectator = getSocket();
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameServiceImpl['matches'].set('match1', mockMatch as unknown as Match);
+      await gameServiceImpl.addSpectator('match1', spectator as unknown as WebSocket);
+
+      gameServiceImpl.removeSpectator('match1', spectator as unknown as WebSocket);
+      await gameServiceImpl.updatePlayers('match1', [], { type: 'paused', payload: true });
+
+      expect(spectator.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject spectators of a match that is not running', async () => {
+      await expect(
+        gameServiceImpl.addSpectator('unknown', getSocket() as unknown as WebSocket)
+      ).rejects.toThrow('The requested match was not found');
+    });
+
+    it('should not restore a cached match for a spectator', async () => {
+      gameCache.getMatch.mockResolvedValueOnce({
+        id: 'cached',
+        level: 1,
+        map: 'desert',
+        players: [{ id: 'host1' }],
+      } as unknown as MatchStorage);
+
+      await expect(
+        gameServiceImpl.addSpectator('cached', getSocket() as unknown as WebSocket)
+      ).rejects.toThrow('The match is waiting for its players to reconnect');
+      expect(matchOwnership.acquire).not.toHaveBeenCalled();
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      expect(gameServiceImpl['matches'].has('cached')).toBe(false);
+    });
+  });
+
   describe('save match', () => {
     it('should save the match', async () => {
       const matchId = 'match1';
@@ -1034,12 +1678,426 @@ describe('GameServiceImpl', () => {
         map: 'test-map',
         timeSeconds: 300,
         typeFruits: [],
-        host: { id: 'host1' },
-        guest: { id: 'guest1' },
+        players: [{ id: 'host1' }, { id: 'guest1' }],
         board: {},
       } as unknown as MatchStorage;
       await gameServiceImpl.saveMatch(matchId,matchStorage);
       expect(gameCache.saveMatch).toHaveBeenCalledWith(matchId, matchStorage);
     });
   })
-});
\ No newline at end of file
+
+  describe('input log and snapshots', () => {
+    // The journals of the inputs are kept by the service, so every test gets its own
+    let gameService: GameServiceImpl;
+    beforeEach(() => {
+      gameService = createGameService();
+    });
+    const getMatchStorage = (matchId: string) => ({
+      id: matchId,
+      level: 1,
+      map: 'test-map',
+      timeSeconds: 300,
+      players: [{ id: 'host1' }, { id: 'guest1' }],
+      board: {},
+    });
+    const setMatch = (matchId: string, player: object, running = true) => {
+      const mockMatch = {
+        isPaused: vi.fn().mockResolvedValue(false),
+        getPlayer: vi.fn().mockReturnValue(player),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
+        isRunning: vi.fn().mockReturnValue(running),
+        getId: vi.fn().mockReturnValue(matchId),
+        nextSequence: vi.fn().mockReturnValue(3),
+        getSequence: vi.fn().mockReturnValue(3),
+        getMatchStorage: vi.fn().mockResolvedValue(getMatchStorage(matchId)),
+      };
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameService['matches'].set(matchId, mockMatch as unknown as Match);
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameService['gameFinished'] = vi.fn().mockReturnValue(false);
+      for (const user of ['host1', 'guest1']) {
+        const socket = { send: vi.fn(), readyState: WebSocket.OPEN, close: vi.fn() };
+        connections.registerConnection(user, socket as unknown as WebSocket);
+      }
+      return mockMatch;
+    };
+
+    it('should log an applied input with the sequence of the match', async () => {
+      setMatch('match-log', {
+        isAlive: vi.fn().mockReturnValue(true),
+        canMoveNow: vi.fn().mockReturnValue(true),
+        moveUp: vi.fn().mockResolvedValue({ id: 'host1', position: { x: 0, y: 1 } }),
+      });
+
+      await gameService.handleGameMessage(
+        'host1',
+        'match-log',
+        Buffer.from(JSON.stringify({ type: 'movement', payload: 'up' }))
+      );
+
+      expect(gameCache.appendEvent).toHaveBeenCalledWith('match-log', {
+        index: 1,
+        timestamp: expect.any(Number),
+        userId: 'host1',
+        type: 'movement',
+        payload: 'up',
+        sequence: 3,
+      });
+    });
+
+    it('should log an input before applying it', async () => {
+      const player = {
+        isAlive: vi.fn().mockReturnValue(true),
+        canMoveNow: vi.fn().mockReturnValue(true),
+        moveUp: vi.fn().mockResolvedValue({ id: 'host1', position: { x: 0, y: 1 } }),
+      };
+      setMatch('match-ahead', player);
+
+      await gameService.handleGameMessage(
+        'host1',
+        'match-ahead',
+        Buffer.from(JSON.stringify({ type: 'movement', payload: 'up' }))
+      );
+
+      expect(vi.mocked(gameCache.appendEvent).mock.invocationCallOrder[0]).toBeLessThan(
+        player.moveUp.mock.invocationCallOrder[0]
+      );
+    });
+
+    it('should not log a move faster than the speed of the player', async () => {
+      const player = {
+        isAlive: vi.fn().mockReturnValue(true),
+        canMoveNow: vi.fn().mockReturnValue(false),
+        moveUp: vi.fn(),
+      };
+      setMatch('match-throttled', player);
+
+      await gameService.handleGameMessage(
+        'host1',
+        'match-throttled',
+        Buffer.from(JSON.stringify({ type: 'movement', payload: 'up' }))
+      );
+
+      expect(player.moveUp).not.toHaveBeenCalled();
+      expect(gameCache.appendEvent).not.toHaveBeenCalled();
+    });
+
+    it('should snapshot a running match with the index of its last logged input', async () => {
+      setMatch('match-snapshot', {
+        isAlive: vi.fn().mockReturnValue(true),
+        changeOrientation: vi.fn().mockReturnValue({ id: 'host1', orientation: 'left' }),
+      });
+      await gameService.handleGameMessage(
+        'host1',
+        'match-snapshot',
+        Buffer.from(JSON.stringify({ type: 'rotate', payload: 'left' }))
+      );
+
+      await gameService.snapshotMatch('match-snapshot');
+
+      expect(gameCache.saveMatch).toHaveBeenCalledWith('match-snapshot', {
+        ...getMatchStorage('match-snapshot'),
+        logIndex: 1,
+      });
+    });
+
+    it('should not snapshot a match that is not running', async () => {
+      setMatch('match-stopped', { isAlive: vi.fn().mockReturnValue(true) }, false);
+
+      await gameService.snapshotMatch('match-stopped');
+
+      expect(gameCache.saveMatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('drain matches', () => {
+    let gameService: GameServiceImpl;
+    beforeEach(() => {
+      gameService = createGameService();
+    });
+    const matchStorage = {
+      id: 'match1',
+      level: 1,
+      map: 'test-map',
+      timeSeconds: 300,
+      paused: true,
+      players: [{ id: 'host1' }, { id: 'guest1' }],
+      board: {},
+    };
+    const setMatch = (matchId: string, running: boolean) => {
+      const mockMatch = {
+        isRunning: vi.fn().mockReturnValue(running),
+        getId: vi.fn().mockReturnValue(matchId),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
+        pauseMatch: vi.fn().mockResolvedValue(undefined),
+        stopGame: vi.fn().mockResolvedValue(undefined),
+        nextSequence: vi.fn(),
+        getMatchStorage: vi.fn().mockResolvedValue({ ...matchStorage, id: matchId }),
+      };
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameService['matches'].set(matchId, mockMatch as unknown as Match);
+      return mockMatch;
+    };
+
+    it('should pause, stop and save every running match', async () => {
+      const mockMatch = setMatch('match1', true);
+
+      await gameService.drainMatches();
+
+      expect(mockMatch.pauseMatch).toHaveBeenCalled();
+      expect(mockMatch.stopGame).toHaveBeenCalled();
+      expect(gameCache.saveMatch).toHaveBeenCalledWith('match1', { ...matchStorage, logIndex: 0 });
+      expect(matchOwnership.release).toHaveBeenCalledWith('match1');
+      expect(await gameService.getMatch('match1')).toBeUndefined();
+    });
+
+    it('should tell the players and spectators to reconnect without a sequence number', async () => {
+      const mockMatch = setMatch('match1', true);
+      const hostSocket = { send: vi.fn(), readyState: WebSocket.OPEN, close: vi.fn() };
+      const spectatorSocket = { send: vi.fn(), readyState: WebSocket.OPEN, close: vi.fn() };
+      connections.registerConnection('host1', hostSocket as unknown as WebSocket);
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameService['spectators'].set('match1', new Set([spectatorSocket as unknown as WebSocket]));
+
+      await gameService.drainMatches();
+
+      const message = JSON.stringify({ type: 'server-restarting', payload: { reconnectInMs: 2000 } });
+      expect(hostSocket.send).toHaveBeenCalledWith(message);
+      expect(spectatorSocket.send).toHaveBeenCalledWith(message);
+      expect(mockMatch.nextSequence).not.toHaveBeenCalled();
+    });
+
+    it('should save the inputs applied before the shutdown', async () => {
+      setMatch('match1', true);
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameService['getJournal']('match1').nextIndex();
+
+      await gameService.drainMatches();
+
+      expect(gameCache.saveMatch).toHaveBeenCalledWith('match1', { ...matchStorage, logIndex: 1 });
+    });
+
+    it('should skip the matches that are not running', async () => {
+      const mockMatch = setMatch('match2', false);
+
+      await gameService.drainMatches();
+
+      expect(mockMatch.stopGame).not.toHaveBeenCalled();
+      expect(gameCache.saveMatch).not.toHaveBeenCalled();
+      expect(matchOwnership.release).not.toHaveBeenCalled();
+    });
+
+    it('should release the other matches if one of them cannot be saved', async () => {
+      setMatch('match1', true);
+      setMatch('match2', true);
+      gameCache.saveMatch.mockRejectedValueOnce(new Error('Redis is down'));
+
+      await gameService.drainMatches();
+
+      expect(matchOwnership.release).toHaveBeenCalledTimes(1);
+      expect(matchOwnership.release).toHaveBeenCalledWith('match2');
+    });
+
+    it('should stop a match whose lease was taken by another node and close its sockets', async () => {
+      const mockMatch = setMatch('match1', true);
+      const hostSocket = { send: vi.fn(), readyState: WebSocket.OPEN, close: vi.fn() };
+      const spectatorSocket = { send: vi.fn(), readyState: WebSocket.OPEN, close: vi.fn() };
+      connections.registerConnection('host1', hostSocket as unknown as WebSocket);
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameService['spectators'].set('match1', new Set([spectatorSocket as unknown as WebSocket]));
+      const abandonMatch = matchOwnership.onLost.mock.lastCall?.[0];
+
+      await abandonMatch?.('match1');
+
+      const message = JSON.stringify({ type: 'server-restarting', payload: { reconnectInMs: 0 } });
+      expect(mockMatch.stopGame).toHaveBeenCalled();
+      expect(gameCache.saveMatch).not.toHaveBeenCalled();
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      expect(gameService['matches'].has('match1')).toBe(false);
+      expect(hostSocket.send).toHaveBeenCalledWith(message);
+      expect(hostSocket.close).toHaveBeenCalledWith(1012, 'The match is run by another node');
+      expect(spectatorSocket.close).toHaveBeenCalledWith(1012, 'The match is run by another node');
+    });
+  });
+
+  describe('disconnections', () => {
+    let gameService: GameServiceImpl;
+    beforeEach(() => {
+      gameService = createGameService();
+    });
+    const setMatch = (matchId: string) => {
+      const mockMatch = {
+        isPaused: vi.fn().mockResolvedValue(true),
+        getPauseState: vi.fn().mockResolvedValue({ paused: true, resumeVotes: [] }),
+        hasDisconnectedPlayers: vi.fn().mockReturnValue(true),
+        getPlayer: vi.fn().mockReturnValue({ isAlive: vi.fn().mockReturnValue(true) }),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
+        isRunning: vi.fn().mockReturnValue(true),
+        getId: vi.fn().mockReturnValue(matchId),
+        nextSequence: vi.fn().mockReturnValue(3),
+        requestResume: vi.fn(),
+        disconnectPlayer: vi.fn().mockResolvedValue(undefined),
+        reconnectPlayer: vi.fn().mockResolvedValue(undefined),
+      };
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameService['matches'].set(matchId, mockMatch as unknown as Match);
+      return mockMatch;
+    };
+
+    it('should start the grace period of a player whose socket closed', async () => {
+      const mockMatch = setMatch('match1');
+      const socket = { send: vi.fn(), readyState: WebSocket.CLOSED, close: vi.fn() };
+      connections.registerConnection('guest1', socket as unknown as WebSocket);
+
+      await gameService.disconnectPlayer('match1', 'guest1', socket as unknown as WebSocket);
+
+      expect(connections.isConnected('guest1')).toBe(false);
+      expect(mockMatch.disconnectPlayer).toHaveBeenCalledWith('guest1');
+    });
+
+    it('should ignore a socket replaced by a new connection of the player', async () => {
+      const mockMatch = setMatch('match1');
+      const oldSocket = { send: vi.fn(), readyState: WebSocket.CLOSED, close: vi.fn() };
+      const newSocket = { send: vi.fn(), readyState: WebSocket.OPEN, close: vi.fn() };
+      connections.registerConnection('guest1', newSocket as unknown as WebSocket);
+
+      await gameService.disconnectPlayer('match1', 'guest1', oldSocket as unknown as WebSocket);
+
+      expect(connections.getConnection('guest1')).toBe(newSocket);
+      expect(mockMatch.disconnectPlayer).not.toHaveBeenCalled();
+    });
+
+    it('should end the grace period of a player that reconnects', async () => {
+      const mockMatch = setMatch('match1');
+
+      await gameService.reconnectPlayer('match1', 'guest1');
+
+      expect(mockMatch.reconnectPlayer).toHaveBeenCalledWith('guest1');
+    });
+
+    it('should not let a player resume while another one is disconnected', async () => {
+      const mockMatch = setMatch('match1');
+      const socket = { send: vi.fn(), readyState: WebSocket.OPEN, close: vi.fn() };
+      connections.registerConnection('host1', socket as unknown as WebSocket);
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameService['gameFinished'] = vi.fn().mockReturnValue(false);
+
+      await gameService.handleGameMessage(
+        'host1',
+        'match1',
+        Buffer.from(JSON.stringify({ type: 'resume', payload: '' }))
+      );
+
+      expect(mockMatch.requestResume).not.toHaveBeenCalled();
+      expect(socket.send).toHaveBeenCalledWith(
+        JSON.stringify({ type: 'paused', payload: { paused: true, resumeVotes: [] }, seq: 3 })
+      );
+    });
+
+    it('should send the pause of a match to its spectators and record it in the replay', async () => {
+      setMatch('match1');
+      const spectator = { send: vi.fn(), readyState: WebSocket.OPEN, close: vi.fn() };
+      connections.registerConnection('host1', { send: vi.fn(), readyState: WebSocket.OPEN, close: vi.fn() } as unknown as WebSocket);
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameService['spectators'].set('match1', new Set([spectator as unknown as WebSocket]));
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameService['gameFinished'] = vi.fn().mockReturnValue(false);
+
+      await gameService.handleGameMessage(
+        'host1',
+        'match1',
+        Buffer.from(JSON.stringify({ type: 'movement', payload: 'up' }))
+      );
+
+      const message = { type: 'paused', payload: { paused: true, resumeVotes: [] }, seq: 3 };
+      expect(spectator.send).toHaveBeenCalledWith(JSON.stringify(message));
+      expect(replayRepository.appendEvent).toHaveBeenCalledWith('match1', {
+        source: 'output',
+        message,
+        timestamp: expect.any(Number),
+      });
+    });
+  });
+
+  describe('pause rules', () => {
+    let gameService: GameServiceImpl;
+    beforeEach(() => {
+      gameService = createGameService();
+    });
+    const setMatch = (matchId: string) => {
+      const mockMatch = {
+        isPaused: vi.fn().mockResolvedValue(false),
+        hasDisconnectedPlayers: vi.fn().mockReturnValue(false),
+        getPlayer: vi.fn().mockReturnValue({ isAlive: vi.fn().mockReturnValue(true) }),
+        getPlayersIds: vi.fn().mockReturnValue(['host1', 'guest1']),
+        getId: vi.fn().mockReturnValue(matchId),
+        nextSequence: vi.fn().mockReturnValue(2),
+        getSequence: vi.fn().mockReturnValue(2),
+        requestPause: vi.fn(),
+        requestResume: vi.fn(),
+      };
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameService['matches'].set(matchId, mockMatch as unknown as Match);
+      // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+      gameService['gameFinished'] = vi.fn().mockReturnValue(false);
+      const sockets = ['host1', 'guest1'].map((user) => {
+        const socket = { send: vi.fn(), readyState: WebSocket.OPEN, close: vi.fn() };
+        connections.registerConnection(user, socket as unknown as WebSocket);
+        return socket;
+      });
+      return { mockMatch, sockets };
+    };
+    const send = (gameService: GameServiceImpl, matchId: string, type: string) =>
+      gameService.handleGameMessage('host1', matchId, Buffer.from(JSON.stringify({ type, payload: '' })));
+
+    it('should tell every player the state of the pause', async () => {
+      const { mockMatch, sockets } = setMatch('match-pause');
+      const pauseState = {
+        paused: true,
+        by: 'host1',
+        secondsLeft: 60,
+        pausesLeft: { host1: 2, guest1: 3 },
+        resumeVotes: [],
+      };
+      mockMatch.requestPause.mockResolvedValue(pauseState);
+
+      await send(gameService, 'match-pause', 'pause');
+
+      expect(mockMatch.requestPause).toHaveBeenCalledWith('host1');
+      for (const socket of sockets) {
+        expect(socket.send).toHaveBeenCalledWith(
+          JSON.stringify({ type: 'paused', payload: pauseState, seq: 2 })
+        );
+      }
+      expect(gameCache.appendEvent).toHaveBeenCalledWith(
+        'match-pause',
+        expect.objectContaining({ userId: 'host1', type: 'pause' })
+      );
+    });
+
+    it('should not apply a pause of a player without pauses left', async () => {
+      const { mockMatch, sockets } = setMatch('match-no-pauses');
+      mockMatch.requestPause.mockRejectedValue(new GameError(GameError.NO_PAUSES_LEFT));
+
+      await expect(send(gameService, 'match-no-pauses', 'pause')).rejects.toThrow(
+        'The player has no pauses left'
+      );
+
+      expect(sockets[1]?.send).not.toHaveBeenCalled();
+    });
+
+    it('should tell every player the votes to resume the match', async () => {
+      const { mockMatch, sockets } = setMatch('match-vote');
+      mockMatch.isPaused.mockResolvedValue(true);
+      const pauseState = { paused: true, by: 'guest1', resumeVotes: ['host1'] };
+      mockMatch.requestResume.mockResolvedValue(pauseState);
+
+      await send(gameService, 'match-vote', 'resume');
+
+      expect(mockMatch.requestResume).toHaveBeenCalledWith('host1');
+      expect(sockets[1]?.send).toHaveBeenCalledWith(
+        JSON.stringify({ type: 'paused', payload: pauseState, seq: 2 })
+      );
+    });
+  });
+});
@@ -0,0 +1,299 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mockDeep } from 'vitest-mock-extended';
+import { WebSocket } from 'ws';
+import type Match from '../../../../src/app/game/match/Match.js';
+import GameServiceImpl from '../../../../src/app/game/services/GameServiceImpl.js';
+import SocketConnections from '../../../../src/app/shared/SocketConnectionsServiceImpl.js';
+import type MatchOwnership from '../../../../src/app/shared/cluster/MatchOwnership.js';
+import type LeaderboardRepository from '../../../../src/schemas/LeaderboardRepository.js';
+import type MatchRepository from '../../../../src/schemas/MatchRepository.js';
+import type MatchResultRepository from '../../../../src/schemas/MatchResultRepository.js';
+import type ReplayRepository from '../../../../src/schemas/ReplayRepository.js';
+import type UserRepository from '../../../../src/schemas/UserRepository.js';
+import type GameCache from '../../../../src/schemas/repositories/GameCache.js';
+import {
+  type MatchLogEvent,
+  type MatchStorage,
+  validateMatchStorage,
+} from '../../../../src/schemas/zod.js';
+
+vi.mock('../../../../src/server.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+  config: {
+    TICK_RATE_MS: 50,
+    TIMER_SPEED_MS: 1000,
+    ENEMIES_SPEED_MS: 1000,
+    BOT_SPEED_MS: 500,
+    SNAPSHOT_INTERVAL_MS: 1000,
+    MATCH_TIME_SECONDS: 300,
+    TIME_TO_GENERATE_FRUIT: 0,
+    PLAYER_MOVES_PER_SECOND: 8,
+    MATCH_TIME_OUT_SECONDS: 60,
+    SHUTDOWN_RECONNECT_MS: 2000,
+    PAUSES_PER_PLAYER: 1,
+  },
+}));
+
+/**
+ * Cache shared by the nodes of the harness, the snapshots go through JSON like in Redis.
+ */
+class MemoryGameCache implements GameCache {
+  private readonly matches = new Map<string, string>();
+  private readonly logs = new Map<string, MatchLogEvent[]>();
+
+  public async saveMatch(matchId: string, matchStorage: MatchStorage): Promise<void> {
+    this.matches.set(matchId, JSON.stringify(matchStorage));
+    const logIndex = matchStorage.logIndex ?? 0;
+    this.logs.set(matchId, (this.logs.get(matchId) ?? []).filter(({ index }) => index > logIndex));
+  }
+
+  public async getMatch(matchId: string): Promise<MatchStorage | null> {
+    const flat = this.matches.get(matchId);
+    return flat ? validateMatchStorage(JSON.parse(flat)) : null;
+  }
+
+  public async removeMatch(matchId: string): Promise<void> {
+    this.matches.delete(matchId);
+    this.logs.delete(matchId);
+  }
+
+  public async appendEvent(matchId: string, event: MatchLogEvent): Promise<void> {
+    this.logs.set(matchId, [...(this.logs.get(matchId) ?? []), event]);
+  }
+
+  public async getEvents(matchId: string, afterIndex: number): Promise<MatchLogEvent[]> {
+    return (this.logs.get(matchId) ?? []).filter(({ index }) => index > afterIndex);
+  }
+}
+
+const createNode = (gameCache: GameCache) => {
+  const connections = new SocketConnections();
+  const matchOwnership = mockDeep<MatchOwnership>();
+  matchOwnership.acquire.mockResolvedValue(true);
+  const gameService = new GameServiceImpl(
+    mockDeep<MatchRepository>(),
+    mockDeep<UserRepository>(),
+    gameCache,
+    connections,
+    mockDeep<MatchResultRepository>(),
+    mockDeep<LeaderboardRepository>(),
+    mockDeep<ReplayRepository>(),
+    matchOwnership
+  );
+  for (const player of ['host1', 'guest1']) {
+    const socket = { send: vi.fn(), close: vi.fn(), readyState: WebSocket.OPEN };
+    connections.registerConnection(player, socket as unknown as WebSocket);
+  }
+  return gameService;
+};
+
+/**
+ * The state the players can see, plus the score of every player. The fruits get new IDs when a
+ * board is loaded, so only their type is compared.
+ */
+const getState = async (match: Match) => {
+  const { players, cells, time } = match.getMatchUpdate();
+  const storage = await match.getMatchStorage();
+  return {
+    players,
+    time,
+    sequence: match.getSequence(),
+    scores: storage.players,
+    cells: cells.map(({ coordinates, item, character, frozen }) => ({
+      coordinates,
+      frozen,
+      character,
+      item: item?.type ?? null,
+    })),
+  };
+};
+
+describe('Match recovery', () => {
+  let gameCache: MemoryGameCache;
+  let running: Match[];
+
+  const send = async (gameService: GameServiceImpl, userId: string, type: string, payload = '') => {
+    await gameService.handleGameMessage(
+      userId,
+      'match1',
+      Buffer.from(JSON.stringify({ type, payload }))
+    );
+    await vi.advanceTimersByTimeAsync(200);
+  };
+
+  const play = async (gameService: GameServiceImpl) => {
+    await send(gameService, 'host1', 'rotate', 'down');
+    await send(gameService, 'host1', 'exec-power');
+    for (const direction of ['down', 'right', 'up', 'left']) {
+      await send(gameService, 'host1', 'movement', direction);
+      await send(gameService, 'guest1', 'movement', direction);
+    }
+    await send(gameService, 'guest1', 'exec-power');
+  };
+
+  const startMatch = async (): Promise<{ node: GameServiceImpl; match: Match }> => {
+    const node = createNode(gameCache);
+    const match = await node.createMatch({
+      id: 'match1',
+      host: 'host1',
+      players: ['host1', 'guest1'],
+      playersNumber: 2,
+      level: 1,
+      map: 'desert',
+      started: true,
+    });
+    running.push(match);
+    await node.startMatch('match1');
+    return { node, match };
+  };
+
+  const crashAndRestore = async (match: Match): Promise<{ node: GameServiceImpl; match: Match }> => {
+    // The node stops without saving anything, another node restores the match from the cache
+    await match.stopGame();
+    const node = createNode(gameCache);
+    const restored = await node.getMatch('match1');
+    if (!restored) throw new Error('The match was not restored');
+    running.push(restored);
+    return { node, match: restored };
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    gameCache = new MemoryGameCache();
+    running = [];
+  });
+
+  afterEach(async () => {
+    for (const match of running) await match.stopGame();
+    vi.useRealTimers();
+  });
+
+  it('should restore the inputs applied after the last snapshot', async () => {
+    const { node, match } = await startMatch();
+    // The enemies move and the snapshot is taken on the same tick
+    await vi.advanceTimersByTimeAsync(1000);
+    await play(node);
+    const logged = await gameCache.getEvents('match1', 0);
+    const state = await getState(match);
+
+    const restored = await crashAndRestore(match);
+
+    expect(logged.length).toBeGreaterThan(0);
+    expect(await getState(restored.match)).toEqual(state);
+  });
+
+  it('should only replay the inputs that follow the snapshot', async () => {
+    const { node, match } = await startMatch();
+    await play(node);
+    const snapshot = await gameCache.getMatch('match1');
+    const logged = await gameCache.getEvents('match1', 0);
+    const state = await getState(match);
+
+    const restored = await crashAndRestore(match);
+
+    expect(snapshot?.logIndex).toBeGreaterThan(0);
+    expect(logged[0]?.index).toBe((snapshot?.logIndex ?? 0) + 1);
+    expect(await getState(restored.match)).toEqual(state);
+  });
+
+  it('should keep numbering the inputs after a restore', async () => {
+    const { node, match } = await startMatch();
+    await play(node);
+    const lastIndex = (await gameCache.getEvents('match1', 0)).at(-1)?.index ?? 0;
+    const restored = await crashAndRestore(match);
+
+    await send(restored.node, 'host1', 'rotate', 'up');
+
+    const logged = await gameCache.getEvents('match1', 0);
+    expect(logged.at(-1)?.index).toBe(lastIndex + 1);
+    expect(logged.at(-1)?.type).toBe('rotate');
+  });
+
+  it('should keep the pauses spent before the restore', async () => {
+    const { node, match } = await startMatch();
+    await send(node, 'host1', 'pause');
+    await send(node, 'guest1', 'resume');
+    await node.snapshotMatch('match1');
+    await send(node, 'guest1', 'pause');
+    await send(node, 'host1', 'resume');
+
+    const restored = await crashAndRestore(match);
+
+    expect(await restored.match.getPauseState()).toEqual({
+      paused: false,
+      pausesLeft: { host1: 0, guest1: 0 },
+      resumeVotes: [],
+    });
+  });
+
+  it('should replay an input that completes a round of fruits', async () => {
+    const { match } = await startMatch();
+    const { rows, cols } = match.getMatchDTO().board;
+    await match.stopGame();
+    const snapshot = await gameCache.getMatch('match1');
+    if (!snapshot) throw new Error('The match was not saved');
+    // Only one fruit is left, next to the host, so the replayed move completes the round
+    const { board, players } = snapshot;
+    const { x, y } = players.find(({ id }) => id === 'host1')?.coordinates ?? { x: 0, y: 0 };
+    const neighbors = { up: [x - 1, y], down: [x + 1, y], left: [x, y - 1], right: [x, y + 1] };
+    const [direction, [fruitX, fruitY]] = Object.entries(neighbors).find(
+      ([, [nx, ny]]) =>
+        nx >= 0 &&
+        ny >= 0 &&
+        nx < rows &&
+        ny < cols &&
+        !board.board.some(({ coordinates }) => coordinates.x === nx && coordinates.y === ny)
+    ) ?? ['', [0, 0]];
+    if (!direction) throw new Error('The host has no free cell around');
+    const fruit = board.board.find(({ item }) => item?.type === 'fruit')?.item;
+    const cells = board.board.map((cell) => ({
+      ...cell,
+      item: cell.item?.type === 'fruit' ? null : cell.item,
+    }));
+    cells.push({
+      coordinates: { x: fruitX, y: fruitY },
+      item: fruit ?? null,
+      character: null,
+      frozen: false,
+    });
+    await gameCache.saveMatch('match1', {
+      ...snapshot,
+      board: { ...board, board: cells, fruitsNumber: 1 },
+    });
+    await gameCache.appendEvent('match1', {
+      index: (snapshot.logIndex ?? 0) + 1,
+      timestamp: Date.now(),
+      userId: 'host1',
+      type: 'movement',
+      payload: direction,
+      sequence: snapshot.sequence ?? 0,
+    });
+
+    const getEvents = vi.spyOn(gameCache, 'getEvents');
+    const restored = await createNode(gameCache).getMatch('match1');
+    if (restored) running.push(restored);
+
+    // The fruits of the new round are not broadcast while the match is restored, nor restore it again
+    expect(getEvents).toHaveBeenCalledTimes(1);
+    expect((await restored?.getMatchStorage())?.board.currentRound).toBe(board.currentRound + 1);
+  });
+
+  it('should hand off a drained match paused and with every input', async () => {
+    const { node, match } = await startMatch();
+    await play(node);
+    const state = await getState(match);
+
+    await node.drainMatches();
+    const restored = await createNode(gameCache).getMatch('match1');
+    if (restored) running.push(restored);
+
+    expect(await gameCache.getEvents('match1', 0)).toEqual([]);
+    expect(await restored?.isPaused()).toBe(true);
+    expect(restored && (await getState(restored))).toEqual(state);
+  });
+});
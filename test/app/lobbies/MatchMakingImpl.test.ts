@@ -31,6 +31,8 @@ describe('MatchMaking', () => {
       const matchDetails: MatchDetails = {
           id: 'match1',
           host: 'user1',
+          players: ['user1'],
+          playersNumber: 2,
           level: 1,
           map: 'desert'
       };
@@ -42,7 +44,7 @@ describe('MatchMaking', () => {
       
       await matchMaking.searchMatch(matchDetails);
       
-      expect(mockGet).toHaveBeenCalledWith({ map: 'desert', level: 1 });
+      expect(mockGet).toHaveBeenCalledWith({ map: 'desert', level: 1, playersNumber: 2, versus: false });
       expect(mockAdd).toHaveBeenCalled();
       
       expect(matchRepository.updateMatch).not.toHaveBeenCalled();
@@ -53,6 +55,8 @@ describe('MatchMaking', () => {
       const matchDetails: MatchDetails = {
           id: 'match1',
           host: 'user2',
+          players: ['user2'],
+          playersNumber: 2,
           level: 2,
           map: 'forest'
       };
@@ -75,7 +79,9 @@ describe('MatchMaking', () => {
       
       await matchMaking.searchMatch(matchDetails);
       
-      expect(matchRepository.updateMatch).toHaveBeenCalledWith('match2', { host: 'user1', guest: 'user2' });
+      expect(matchRepository.updateMatch).toHaveBeenCalledWith('match2', { players: ['user1', 'user2'] });
+      expect(userRepository.updateUser).toHaveBeenCalledWith('user2', { matchId: 'match2', role: 'GUEST' });
+      expect(matchRepository.removeMatch).toHaveBeenCalledWith('match1');
       expect(webSocketService.notifyMatchFound).toHaveBeenCalledWith(mockMatch);
       expect(matchRepository.extendSession).toHaveBeenCalledWith('match2', 10);
     });
@@ -84,6 +90,8 @@ describe('MatchMaking', () => {
       const matchDetails: MatchDetails = {
           id: 'match1',
           host: 'user1',
+          players: ['user1'],
+          playersNumber: 2,
           level: 3,
           map: 'snow'
       };
@@ -114,6 +122,8 @@ describe('MatchMaking', () => {
       const matchDetails: MatchDetails = {
           id: 'match1',
           host: 'user1',
+          players: ['user1'],
+          playersNumber: 2,
           level: 4,
           map: 'jungle'
       };
@@ -141,11 +151,108 @@ describe('MatchMaking', () => {
       expect(webSocketService.notifyMatchFound).not.toHaveBeenCalled();
     });
   
+    it('should wait until enough users are queued for a four players match', async () => {
+      const matchDetails: MatchDetails = {
+          id: 'match4',
+          host: 'user4',
+          players: ['user4'],
+          playersNumber: 4,
+          level: 1,
+          map: 'desert'
+      };
+      const mockQueue = new AsyncQueue<UserQueue>();
+      await mockQueue.enqueue({ id: 'user1', matchId: 'match1', status: 'WAITING' });
+      await mockQueue.enqueue({ id: 'user2', matchId: 'match2', status: 'WAITING' });
+      // biome-ignore lint/complexity/useLiteralKeys: For Testing purposes
+      vi.spyOn(matchMaking['queue'], 'get').mockReturnValue(mockQueue);
+
+      await matchMaking.searchMatch(matchDetails);
+
+      expect(await mockQueue.size()).toBe(3);
+      expect(gameService.createMatch).not.toHaveBeenCalled();
+      expect(webSocketService.notifyMatchFound).not.toHaveBeenCalled();
+    });
+
+    it('should create a four players match hosted by the first queued user', async () => {
+      const matchDetails: MatchDetails = {
+          id: 'match4',
+          host: 'user4',
+          players: ['user4'],
+          playersNumber: 4,
+          level: 1,
+          map: 'desert'
+      };
+      const mockQueue = new AsyncQueue<UserQueue>();
+      await mockQueue.enqueue({ id: 'user1', matchId: 'match1', status: 'WAITING' });
+      await mockQueue.enqueue({ id: 'user2', matchId: 'match2', status: 'WAITING' });
+      await mockQueue.enqueue({ id: 'user3', matchId: 'match3', status: 'WAITING' });
+      // biome-ignore lint/complexity/useLiteralKeys: For Testing purposes
+      vi.spyOn(matchMaking['queue'], 'get').mockReturnValue(mockQueue);
+      const mockMatch = { id: 'match1' };
+      gameService.createMatch.mockResolvedValue(mockMatch as unknown as Match);
+
+      await matchMaking.searchMatch(matchDetails);
+
+      expect(gameService.createMatch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'match1',
+          host: 'user1',
+          players: ['user1', 'user2', 'user3', 'user4'],
+        })
+      );
+      expect(matchRepository.updateMatch).toHaveBeenCalledWith('match1', {
+        players: ['user1', 'user2', 'user3', 'user4'],
+      });
+      expect(webSocketService.notifyMatchFound).toHaveBeenCalledWith(mockMatch);
+      for (const ghostMatch of ['match2', 'match3', 'match4']) {
+        expect(matchRepository.removeMatch).toHaveBeenCalledWith(ghostMatch);
+      }
+      expect(await mockQueue.size()).toBe(0);
+    });
+
+    it('should join a guest and wait while the match is not full', async () => {
+      const matchDetails: MatchDetails = {
+          id: 'match1',
+          host: 'user1',
+          players: ['user1'],
+          playersNumber: 3,
+          level: 1,
+          map: 'desert'
+      };
+
+      const result = await matchMaking.joinMatch(matchDetails, 'user2');
+
+      expect(result).toBeNull();
+      expect(matchRepository.updateMatch).toHaveBeenCalledWith('match1', { players: ['user1', 'user2'] });
+      expect(gameService.createMatch).not.toHaveBeenCalled();
+    });
+
+    it('should create the match when the last guest joins', async () => {
+      const matchDetails: MatchDetails = {
+          id: 'match1',
+          host: 'user1',
+          players: ['user1', 'user2'],
+          playersNumber: 3,
+          level: 1,
+          map: 'desert'
+      };
+      const matchDTO = { id: 'match1' };
+      const mockMatch = { getMatchDTO: vi.fn().mockReturnValue(matchDTO) };
+      gameService.createMatch.mockResolvedValue(mockMatch as unknown as Match);
+
+      const result = await matchMaking.joinMatch(matchDetails, 'user3');
+
+      expect(result).toBe(matchDTO);
+      expect(gameService.createMatch).toHaveBeenCalledWith(
+        expect.objectContaining({ players: ['user1', 'user2', 'user3'] })
+      );
+    });
+
     it('should update a match correctly', async () => {
       // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
-      await matchMaking['updateMatch']('match1', 'host1', 'guest1');
+      await matchMaking['updateMatch']('match1', ['host1', 'guest1']);
   
-      expect(matchRepository.updateMatch).toHaveBeenCalledWith('match1', { host: 'host1', guest: 'guest1' });
+      expect(matchRepository.updateMatch).toHaveBeenCalledWith('match1', { players: ['host1', 'guest1'] });
       expect(matchRepository.extendSession).toHaveBeenCalledWith('match1', 10);
     });
   
@@ -161,6 +268,8 @@ describe('MatchMaking', () => {
       const matchDetails: MatchDetails = {
           id: 'match1',
           host: 'user1',
+          players: ['user1'],
+          playersNumber: 2,
           level: 0,
           map: ''
       };
@@ -179,6 +288,8 @@ describe('MatchMaking', () => {
       const matchDetails: MatchDetails = {
           id: 'match1',
           host: 'user1',
+          players: ['user1'],
+          playersNumber: 2,
           level: 5,
           map: 'cave'
       };
@@ -54,13 +54,13 @@ describe('WebSocketServiceImpl', () => {
     const guestSocket = mockDeep<WebSocket>() as unknown as WebSocket;
 
     match.getHost.mockReturnValue('host1');
-    match.getGuest.mockReturnValue('guest1');
+    match.getPlayersIds.mockReturnValue(['host1', 'guest1']);
     const matchMocked = {
       id: 'match1',
       level: 0,
       map: '',
       hostId: '',
-      guestId: '',
+      playersIds: [],
       board: {
         enemiesNumber: 0,
         fruitsNumber: 0,
@@ -91,10 +91,40 @@ describe('WebSocketServiceImpl', () => {
     expect(matchRepository.updateMatch).toHaveBeenCalledWith(match.getId(), { started: true });
   });
 
+  it('should start the match before closing the sockets of its players', async () => {
+    const match = mockDeep<Match>();
+    const hostSocket = mockDeep<WebSocket>() as unknown as WebSocket;
+    match.getId.mockReturnValue('match1');
+    match.getPlayersIds.mockReturnValue(['host1']);
+    webSocketServiceImpl.registerConnection('host1', hostSocket);
+
+    await webSocketServiceImpl.notifyMatchFound(match);
+
+    expect(matchRepository.updateMatch).toHaveBeenCalledWith('match1', { started: true });
+    expect(vi.mocked(matchRepository.updateMatch).mock.invocationCallOrder[0]).toBeLessThan(
+      vi.mocked(hostSocket.close).mock.invocationCallOrder[0]
+    );
+  });
+
+  it('should not notify the players of a match that could not be started', async () => {
+    const match = mockDeep<Match>();
+    const hostSocket = mockDeep<WebSocket>() as unknown as WebSocket;
+    match.getPlayersIds.mockReturnValue(['host1']);
+    matchRepository.updateMatch.mockRejectedValueOnce(new Error('Postgres is down'));
+    webSocketServiceImpl.registerConnection('host1', hostSocket);
+
+    await webSocketServiceImpl.notifyMatchFound(match);
+
+    expect(hostSocket.send).not.toHaveBeenCalled();
+    expect(vi.mocked(logger.warn)).toHaveBeenCalledWith(
+      'An error occurred on Web Socket Service While trying to notify match...'
+    );
+  });
+
   it('should log a warning if one of the players is not connected', async () => {
     const match = mockDeep<Match>();
     match.getHost.mockReturnValue('host1');
-    match.getGuest.mockReturnValue('guest1');
+    match.getPlayersIds.mockReturnValue(['host1', 'guest1']);
 
     await webSocketServiceImpl.notifyMatchFound(match);
 
@@ -109,7 +139,8 @@ describe('WebSocketServiceImpl', () => {
     const matchDetails = {
       id: matchId,
       host: 'host1',
-      guest: null,
+      players: ['host1'],
+      playersNumber: 2,
       started: false,
     } as MatchDetails;
     matchRepository.getMatchById.mockResolvedValue(matchDetails);
@@ -133,7 +164,13 @@ describe('WebSocketServiceImpl', () => {
   it('should throw an error if the match is already started', async () => {
     const matchId = 'match1';
     const guestId = 'guest1';
-    const matchDetails = { id: matchId, host: 'host1', guest: null, started: true } as MatchDetails;
+    const matchDetails = {
+      id: matchId,
+      host: 'host1',
+      players: ['host1'],
+      playersNumber: 2,
+      started: true,
+    } as MatchDetails;
     matchRepository.getMatchById.mockResolvedValue(matchDetails);
 
     await expect(webSocketServiceImpl.validateMatchToJoin(matchId, guestId)).rejects.toThrowError(
@@ -160,7 +197,13 @@ describe('WebSocketServiceImpl', () => {
   it('should validate match to publish', async () => {
     const matchId = 'match1';
     const hostId = 'host1';
-    const matchDetails = { id: matchId, host: hostId, guest: null, started: false } as MatchDetails;
+    const matchDetails = {
+      id: matchId,
+      host: hostId,
+      players: [hostId],
+      playersNumber: 2,
+      started: false,
+    } as MatchDetails;
     matchRepository.getMatchById.mockResolvedValue(matchDetails);
     // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
     webSocketServiceImpl['matchesHosted'].clear();
@@ -175,7 +218,13 @@ describe('WebSocketServiceImpl', () => {
   it('should throw an error if the match is already hosted', async () => {
     const matchId = 'match1';
     const hostId = 'host1';
-    const matchDetails = { id: matchId, host: hostId, guest: null, started: false } as MatchDetails;
+    const matchDetails = {
+      id: matchId,
+      host: hostId,
+      players: [hostId],
+      playersNumber: 2,
+      started: false,
+    } as MatchDetails;
     matchRepository.getMatchById.mockResolvedValue(matchDetails);
     // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
     webSocketServiceImpl['matchesHosted'].set(matchId, mockDeep<WebSocket>());
@@ -191,7 +240,8 @@ describe('WebSocketServiceImpl', () => {
     const matchDetails = {
       id: matchId,
       host: 'different host',
-      guest: null,
+      players: ['different host'],
+      playersNumber: 2,
       started: false,
     } as MatchDetails;
     matchRepository.getMatchById.mockResolvedValue(matchDetails);
@@ -204,7 +254,12 @@ describe('WebSocketServiceImpl', () => {
   });
 
   it('should join a game', async () => {
-    const matchDetails = { id: 'match1', host: 'host1', guest: null } as MatchDetails;
+    const matchDetails = {
+      id: 'match1',
+      host: 'host1',
+      players: ['host1'],
+      playersNumber: 2,
+    } as MatchDetails;
     const guestId = 'guest1';
     const guestSocket = mockDeep<WebSocket>() as unknown as WebSocket;
     const hostSocket = mockDeep<WebSocket>() as unknown as WebSocket;
@@ -226,7 +281,7 @@ describe('WebSocketServiceImpl', () => {
       level: 0,
       map: '',
       hostId: '',
-      guestId: '',
+      playersIds: [],
       board: {
         enemiesNumber: 0,
         fruitsNumber: 0,
@@ -245,6 +300,51 @@ describe('WebSocketServiceImpl', () => {
     );
   });
 
+  it('should tell the players who joined while the match is not full', async () => {
+    const matchDetails = {
+      id: 'match1',
+      host: 'host1',
+      players: ['host1', 'guest1', 'guest2'],
+      playersNumber: 4,
+    } as MatchDetails;
+    const hostSocket = mockDeep<WebSocket>();
+    const firstGuestSocket = mockDeep<WebSocket>();
+    const secondGuestSocket = mockDeep<WebSocket>();
+    for (const socket of [hostSocket, firstGuestSocket, secondGuestSocket]) {
+      Object.defineProperty(socket, 'readyState', {
+        configurable: true,
+        get: () => WebSocket.OPEN,
+      });
+    }
+    // biome-ignore lint/complexity/useLiteralKeys: For testing purposes
+    webSocketServiceImpl['matchesHosted'].set(matchDetails.id, hostSocket);
+    webSocketServiceImpl.registerConnection('guest1', firstGuestSocket);
+    matchMakingService.joinMatch.mockResolvedValue(null);
+
+    await webSocketServiceImpl.joinGame(matchDetails, 'guest2', secondGuestSocket);
+
+    const message = JSON.stringify({ message: 'player-joined', players: matchDetails.players });
+    expect(hostSocket.send).toHaveBeenCalledWith(message);
+    expect(firstGuestSocket.send).toHaveBeenCalledWith(message);
+    expect(secondGuestSocket.send).toHaveBeenCalledWith(message);
+    expect(matchRepository.updateMatch).not.toHaveBeenCalled();
+  });
+
+  it('should throw an error if the match is full', async () => {
+    const matchDetails = {
+      id: 'match1',
+      host: 'host1',
+      players: ['host1', 'guest1', 'guest2'],
+      playersNumber: 3,
+      started: false,
+    } as MatchDetails;
+    matchRepository.getMatchById.mockResolvedValue(matchDetails);
+
+    await expect(webSocketServiceImpl.validateMatchToJoin('match1', 'guest3')).rejects.toThrowError(
+      'The match has already started'
+    );
+  });
+
   it('should publish a match', () => {
     const matchId = 'match1';
     const socket = mockDeep<WebSocket>() as unknown as WebSocket;
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { mockDeep } from 'vitest-mock-extended';
+import type { IncomingMessage } from 'node:http';
+import WebSocket from 'ws';
+import { ZodError } from 'zod';
+import MessageCodecs from '../../../src/app/shared/codecs/MessageCodecs.js';
+import MessagePack from '../../../src/utils/MessagePack.js';
+
+const getRequest = (url: string, protocols?: string) =>
+  ({
+    url,
+    headers: protocols ? { 'sec-websocket-protocol': protocols } : {},
+  }) as unknown as IncomingMessage;
+
+const getSocket = (readyState: number = WebSocket.OPEN) => {
+  const socket = mockDeep<WebSocket>();
+  Object.defineProperty(socket, 'readyState', { get: () => readyState });
+  return socket;
+};
+
+describe('MessageCodecs', () => {
+  let codecs: MessageCodecs;
+
+  beforeEach(() => {
+    codecs = new MessageCodecs();
+  });
+
+  it('should negotiate the encoding from the query parameter or the subprotocols', () => {
+    expect(codecs.negotiate(getRequest('/game/user/match'))).toBe('json');
+    expect(codecs.negotiate(getRequest('/game/user/match?encoding=msgpack'))).toBe('msgpack');
+    expect(codecs.negotiate(getRequest('/game/user/match', 'token, msgpack'))).toBe('msgpack');
+    expect(codecs.negotiate(getRequest('/game/user/match?encoding=json', 'token, msgpack'))).toBe(
+      'json'
+    );
+  });
+
+  it('should reject an unknown encoding', () => {
+    expect(() => codecs.negotiate(getRequest('/game/user/match?encoding=xml'))).toThrow(ZodError);
+  });
+
+  it('should send and decode the messages with the codec bound to the socket', () => {
+    const socket = getSocket();
+    codecs.bind(socket, getRequest('/spectate/match?encoding=msgpack'));
+    const message = { type: 'update-time', payload: { minutesLeft: 1, secondsLeft: 2 }, seq: 3 };
+
+    codecs.send(socket, message);
+
+    expect(socket.send).toHaveBeenCalledWith(MessagePack.encode(message));
+    expect(codecs.decode(socket, MessagePack.encode({ type: 'movement', payload: 'up' }))).toEqual(
+      { type: 'movement', payload: 'up' }
+    );
+  });
+
+  it('should use JSON for the sockets without a codec', () => {
+    const socket = getSocket();
+    codecs.send(socket, { type: 'paused', payload: true });
+    expect(socket.send).toHaveBeenCalledWith(JSON.stringify({ type: 'paused', payload: true }));
+    expect(codecs.decode(undefined, Buffer.from('{"type":"resync"}'))).toEqual({ type: 'resync' });
+  });
+
+  it('should broadcast to the open sockets in the encoding of each one', () => {
+    const json = getSocket();
+    const msgpack = getSocket();
+    const closed = getSocket(WebSocket.CLOSED);
+    codecs.bind(msgpack, getRequest('/game/user/match', 'token, msgpack'));
+    const message = { type: 'paused', payload: false };
+
+    codecs.broadcast([json, undefined, msgpack, closed], message);
+
+    expect(json.send).toHaveBeenCalledWith(JSON.stringify(message));
+    expect(msgpack.send).toHaveBeenCalledWith(MessagePack.encode(message));
+    expect(closed.send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest';
+import MessageRateLimiter from '../../../src/app/shared/MessageRateLimiter.js';
+
+vi.mock('../../../src/server.js', () => ({
+  config: {
+    WS_MESSAGES_PER_SECOND: 10,
+    WS_MESSAGES_BURST: 2,
+    WS_MAX_DROPPED_MESSAGES: 2,
+  },
+}));
+
+describe('MessageRateLimiter', () => {
+  const createLimiter = () => {
+    let nowMs = 0;
+    const limiter = new MessageRateLimiter(undefined, undefined, undefined, () => nowMs);
+    return { limiter, advance: (ms: number) => (nowMs += ms) };
+  };
+
+  it('should accept a burst of messages and drop the next ones', () => {
+    const { limiter } = createLimiter();
+    expect([limiter.consume(), limiter.consume(), limiter.consume()]).toEqual([
+      'accepted',
+      'accepted',
+      'dropped',
+    ]);
+  });
+
+  it('should refill the messages at the sustained rate', () => {
+    const { limiter, advance } = createLimiter();
+    limiter.consume();
+    limiter.consume();
+
+    advance(99);
+    expect(limiter.consume()).toBe('dropped');
+    advance(1);
+    expect(limiter.consume()).toBe('accepted');
+  });
+
+  it('should ask to disconnect a socket that keeps flooding', () => {
+    const { limiter } = createLimiter();
+    const results = Array.from({ length: 5 }, () => limiter.consume());
+    expect(results).toEqual(['accepted', 'accepted', 'dropped', 'dropped', 'disconnect']);
+  });
+
+  it('should forgive the dropped messages once the bucket is full again', () => {
+    const { limiter, advance } = createLimiter();
+    for (let i = 0; i < 4; i++) limiter.consume();
+
+    advance(200);
+    for (let i = 0; i < 4; i++) expect(limiter.consume()).not.toBe('disconnect');
+  });
+
+  it('should accept every message without a positive rate', () => {
+    const limiter = new MessageRateLimiter(0, 1, 0);
+    expect([limiter.consume(), limiter.consume()]).toEqual(['accepted', 'accepted']);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import type { IncomingMessage } from 'node:http';
+import { ZodError } from 'zod';
+import Protocol from '../../../src/app/shared/Protocol.js';
+import WebSocketError from '../../../src/errors/WebSocketError.js';
+import { validateGameMessageOutput } from '../../../src/schemas/zod.js';
+
+const getRequest = (url: string) => ({ url, headers: {} }) as unknown as IncomingMessage;
+
+describe('Protocol', () => {
+  it('should negotiate the requested version or the current one', () => {
+    expect(Protocol.negotiateVersion(getRequest('/ws/game/user/match'))).toBe(Protocol.VERSION);
+    expect(Protocol.negotiateVersion(getRequest('/ws/game/user/match?protocol=1'))).toBe(1);
+  });
+
+  it('should reject the versions it does not support', () => {
+    expect(() => Protocol.negotiateVersion(getRequest('/ws/game/user/match?protocol=99'))).toThrow(
+      new WebSocketError(WebSocketError.UNSUPPORTED_PROTOCOL_VERSION)
+    );
+    expect(() => Protocol.negotiateVersion(getRequest('/ws/game/user/match?protocol=v1'))).toThrow(
+      ZodError
+    );
+  });
+
+  it('should greet the connections with a valid hello message', () => {
+    const hello = Protocol.getHello(1, 'msgpack');
+    expect(validateGameMessageOutput(hello)).toEqual({
+      type: 'hello',
+      payload: { protocolVersion: 1, supportedVersions: [1], encoding: 'msgpack' },
+    });
+  });
+
+  it('should publish the JSON Schema of the messages', () => {
+    const schema = Protocol.getJsonSchema() as {
+      protocolVersion: number;
+      definitions: Record<string, { properties: Record<string, { enum?: string[] }> }>;
+    };
+    expect(schema.protocolVersion).toBe(Protocol.VERSION);
+    expect(schema.definitions.GameMessageInput.properties.type.enum).toContain('movement');
+    expect(schema.definitions.GameMessageOutput.properties.type.enum).toContain('hello');
+    expect(schema.definitions.HandshakeQuery.properties.encoding.enum).toEqual([
+      'json',
+      'msgpack',
+    ]);
+  });
+
+  it('should describe every WebSocket endpoint in the AsyncAPI document', () => {
+    const document = Protocol.getAsyncApi() as {
+      asyncapi: string;
+      channels: Record<string, { parameters: object; publish?: object; subscribe: object }>;
+      components: { messages: Record<string, unknown> };
+    };
+    expect(document.asyncapi).toBe('2.6.0');
+    expect(document.channels['/ws/game/{userId}/{matchId}'].parameters).toEqual({
+      userId: { schema: { type: 'string' } },
+      matchId: { schema: { type: 'string' } },
+    });
+    expect(document.channels['/ws/game/{userId}/{matchId}'].publish).toEqual({
+      message: { $ref: '#/components/messages/GameMessageInput' },
+    });
+    expect(document.channels['/ws/spectate/{matchId}'].publish).toBeUndefined();
+    expect(Object.keys(document.components.messages)).toEqual([
+      'GameMessageInput',
+      'GameMessageOutput',
+      'Info',
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import { EventEmitter } from 'node:events';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mock, mockReset } from 'vitest-mock-extended';
+import type { FastifyRedis } from '@fastify/redis';
+import LevelGrid from '../../../../src/app/game/match/boards/LevelGrid.js';
+import LevelRegistry from '../../../../src/app/game/match/boards/LevelRegistry.js';
+import ClusterLevels from '../../../../src/app/shared/cluster/ClusterLevels.js';
+import LevelError from '../../../../src/errors/LevelError.js';
+import type LevelRepository from '../../../../src/schemas/LevelRepository.js';
+import type { CustomLevel, LevelDefinition } from '../../../../src/schemas/zod.js';
+
+vi.mock('../../../../src/server.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+  config: {
+    ENEMIES_SPEED_MS: 1000,
+  },
+}));
+
+// In-memory Redis pub/sub shared by the nodes of a test
+const createBroker = () => {
+  const subscribers = new Map<string, EventEmitter[]>();
+  const createRedis = () =>
+    ({
+      publish: vi.fn(async (channel: string, message: string) => {
+        const listeners = subscribers.get(channel) ?? [];
+        for (const subscriber of listeners) {
+          setImmediate(() => subscriber.emit('message', channel, message));
+        }
+        return listeners.length;
+      }),
+      duplicate: () => {
+        const subscriber = new EventEmitter() as EventEmitter & Record<string, unknown>;
+        subscriber.subscribe = async (channel: string) =>
+          subscribers.set(channel, [...(subscribers.get(channel) ?? []), subscriber]);
+        subscriber.quit = async () => {
+          for (const [channel, listeners] of subscribers) {
+            subscribers.set(
+              channel,
+              listeners.filter((listener) => listener !== subscriber)
+            );
+          }
+        };
+        return subscriber;
+      },
+    }) as unknown as FastifyRedis;
+  return { createRedis };
+};
+
+const getCustomLevel = (level: Partial<CustomLevel> = {}): CustomLevel => {
+  const { grid, ...metadata } = LevelRegistry.getLevel('desert', 1) as LevelDefinition;
+  return {
+    ...metadata,
+    ...LevelGrid.toLayout(grid),
+    rows: 16,
+    cols: 16,
+    map: 'volcano',
+    level: 1,
+    ...level,
+  };
+};
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('ClusterLevels', () => {
+  const levelRepository = mock<LevelRepository>();
+
+  beforeEach(() => {
+    mockReset(levelRepository);
+    LevelRegistry.unregister('volcano', 1);
+  });
+
+  it('should register the stored version of a level', async () => {
+    const customLevel = getCustomLevel({ fruits: ['grape'] });
+    levelRepository.getLevel.mockResolvedValue(customLevel);
+    const clusterLevels = new ClusterLevels(createBroker().createRedis(), levelRepository);
+
+    await clusterLevels.reload({ map: 'volcano', level: 1 });
+
+    expect(levelRepository.getLevel).toHaveBeenCalledWith('volcano', 1);
+    expect(LevelRegistry.getLevel('volcano', 1)).toEqual(LevelGrid.toDefinition(customLevel));
+  });
+
+  it('should unregister a level that is no longer stored', async () => {
+    LevelRegistry.register(LevelGrid.toDefinition(getCustomLevel()));
+    levelRepository.getLevel.mockRejectedValue(new LevelError(LevelError.LEVEL_NOT_FOUND));
+    const clusterLevels = new ClusterLevels(createBroker().createRedis(), levelRepository);
+
+    await clusterLevels.reload({ map: 'volcano', level: 1 });
+
+    expect(LevelRegistry.hasLevel('volcano', 1)).toBe(false);
+  });
+
+  it('should keep the level registered if the repository cannot be reached', async () => {
+    LevelRegistry.register(LevelGrid.toDefinition(getCustomLevel()));
+    levelRepository.getLevel.mockRejectedValue(new Error('Database down'));
+    const clusterLevels = new ClusterLevels(createBroker().createRedis(), levelRepository);
+
+    await expect(clusterLevels.reload({ map: 'volcano', level: 1 })).rejects.toThrow('Database down');
+    expect(LevelRegistry.hasLevel('volcano', 1)).toBe(true);
+  });
+
+  it('should reload a level on every node when its change is announced', async () => {
+    const broker = createBroker();
+    const customLevel = getCustomLevel();
+    levelRepository.getLevel.mockResolvedValue(customLevel);
+    const origin = new ClusterLevels(broker.createRedis(), levelRepository);
+    const other = new ClusterLevels(broker.createRedis(), levelRepository);
+    await origin.start();
+    await other.start();
+
+    await origin.announce({ map: 'volcano', level: 1 });
+    await flush();
+
+    expect(levelRepository.getLevel).toHaveBeenCalledTimes(2);
+    expect(LevelRegistry.getLevel('volcano', 1)).toEqual(LevelGrid.toDefinition(customLevel));
+    await origin.stop();
+    await other.stop();
+  });
+
+  it('should not reload the levels after it stops', async () => {
+    const broker = createBroker();
+    const origin = new ClusterLevels(broker.createRedis(), levelRepository);
+    const other = new ClusterLevels(broker.createRedis(), levelRepository);
+    await other.start();
+    await other.stop();
+
+    await origin.announce({ map: 'volcano', level: 1 });
+    await flush();
+
+    expect(levelRepository.getLevel).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,232 @@
+import { EventEmitter } from 'node:events';
+import { describe, it, expect, vi } from 'vitest';
+import { mockDeep } from 'vitest-mock-extended';
+import type { FastifyRedis } from '@fastify/redis';
+import WebSocket from 'ws';
+import type ClientSocket from '../../../../src/app/shared/ClientSocket.js';
+import ClusterRelay from '../../../../src/app/shared/cluster/ClusterRelay.js';
+import type MatchOwnership from '../../../../src/app/shared/cluster/MatchOwnership.js';
+
+vi.mock('../../../../src/server.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+class FakeSocket extends EventEmitter implements ClientSocket {
+  public readyState: number = WebSocket.OPEN;
+  public send = vi.fn();
+  public close = vi.fn();
+}
+
+// In-memory Redis pub/sub shared by the nodes of a test
+const createBroker = () => {
+  const subscribers = new Map<string, EventEmitter>();
+  // The reply of a publish may arrive some turns after its message is delivered
+  const createRedis = (replyDelay = 0) =>
+    ({
+      publish: vi.fn(async (channel: string, message: string) => {
+        const subscriber = subscribers.get(channel);
+        if (!subscriber) return 0;
+        setImmediate(() => subscriber.emit('message', channel, message));
+        for (let turn = 0; turn < replyDelay; turn++) {
+          await new Promise((resolve) => setImmediate(resolve));
+        }
+        return 1;
+      }),
+      duplicate: () => {
+        const subscriber = new EventEmitter() as EventEmitter & Record<string, unknown>;
+        subscriber.subscribe = async (channel: string) => subscribers.set(channel, subscriber);
+        subscriber.quit = async () => {
+          for (const [channel, value] of subscribers) {
+            if (value === subscriber) subscribers.delete(channel);
+          }
+        };
+        return subscriber;
+      },
+    }) as unknown as FastifyRedis;
+  return { createRedis };
+};
+
+const createNode = (
+  broker: ReturnType<typeof createBroker>,
+  nodeId: string,
+  owner: string | null
+) => {
+  const matchOwnership = mockDeep<MatchOwnership>();
+  matchOwnership.getNodeId.mockReturnValue(nodeId);
+  matchOwnership.getOwner.mockResolvedValue(owner);
+  const relay = new ClusterRelay(broker.createRedis(), matchOwnership);
+  const handler = vi.fn(async (_socket: ClientSocket, _request: { params: unknown }) => {});
+  relay.registerRoute('game', handler);
+  return { relay, matchOwnership, handler };
+};
+
+const request = { params: { userId: 'user1', matchId: 'match1' } };
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('ClusterRelay', () => {
+  it('should handle the sockets of the matches without owner', async () => {
+    const { relay, handler } = createNode(createBroker(), 'node-a', null);
+    const socket = new FakeSocket();
+
+    await relay.route('game', socket, request);
+
+    expect(handler).toHaveBeenCalledWith(socket, request);
+  });
+
+  it('should relay the sockets to the node that runs the match', async () => {
+    const broker = createBroker();
+    const owner = createNode(broker, 'node-a', 'node-a');
+    const proxy = createNode(broker, 'node-b', 'node-a');
+    await owner.relay.start();
+    await proxy.relay.start();
+    const received: Buffer[] = [];
+    owner.handler.mockImplementation(async (socket) => {
+      socket.on('message', (message: Buffer) => received.push(message));
+      socket.send('{"type":"update-all"}');
+    });
+    const client = new FakeSocket();
+
+    await proxy.relay.route('game', client, request);
+    await flush();
+    await flush();
+    client.emit('message', Buffer.from('{"type":"movement","payload":"up"}'), false);
+    await flush();
+
+    expect(proxy.handler).not.toHaveBeenCalled();
+    expect(owner.handler).toHaveBeenCalledWith(expect.anything(), { params: request.params });
+    expect(client.send).toHaveBeenCalledWith('{"type":"update-all"}');
+    expect(received.map((message) => message.toString())).toEqual([
+      '{"type":"movement","payload":"up"}',
+    ]);
+    await owner.relay.stop();
+    await proxy.relay.stop();
+  });
+
+  it('should hold the frames of the client until the owner answers', async () => {
+    const broker = createBroker();
+    const owner = createNode(broker, 'node-a', 'node-a');
+    const matchOwnership = mockDeep<MatchOwnership>();
+    matchOwnership.getNodeId.mockReturnValue('node-b');
+    matchOwnership.getOwner.mockResolvedValue('node-a');
+    const proxy = new ClusterRelay(broker.createRedis(5), matchOwnership);
+    proxy.registerRoute('game', vi.fn(async () => {}));
+    await owner.relay.start();
+    await proxy.start();
+    const received: Buffer[] = [];
+    owner.handler.mockImplementation(async (socket) => {
+      socket.on('message', (message: Buffer) => received.push(message));
+      socket.send('{"type":"hello"}');
+    });
+    const client = new FakeSocket();
+    // The client answers the hello as soon as it arrives
+    client.send.mockImplementationOnce(() =>
+      client.emit('message', Buffer.from('{"type":"movement","payload":"up"}'), false)
+    );
+
+    await proxy.route('game', client, request);
+    await flush();
+    await flush();
+
+    expect(client.send).toHaveBeenCalledWith('{"type":"hello"}');
+    expect(received.map((message) => message.toString())).toEqual([
+      '{"type":"movement","payload":"up"}',
+    ]);
+    await owner.relay.stop();
+    await proxy.stop();
+  });
+
+  it('should hold the frames of the client until the handler of the owner is ready', async () => {
+    const broker = createBroker();
+    const owner = createNode(broker, 'node-a', 'node-a');
+    const proxy = createNode(broker, 'node-b', 'node-a');
+    await owner.relay.start();
+    await proxy.relay.start();
+    let ready: () => void = () => {};
+    const loaded = new Promise<void>((resolve) => {
+      ready = resolve;
+    });
+    const received: Buffer[] = [];
+    const onClose = vi.fn();
+    owner.handler.mockImplementation(async (socket) => {
+      await loaded;
+      socket.on('message', (message: Buffer) => received.push(message));
+      socket.on('close', onClose);
+    });
+    const client = new FakeSocket();
+
+    await proxy.relay.route('game', client, request);
+    await flush();
+    client.emit('message', Buffer.from('{"type":"movement","payload":"up"}'), false);
+    client.emit('close', 1001, Buffer.from('Going away'));
+    await flush();
+    ready();
+    await flush();
+
+    expect(received.map((message) => message.toString())).toEqual([
+      '{"type":"movement","payload":"up"}',
+    ]);
+    expect(onClose).toHaveBeenCalledWith(1001, Buffer.from('Going away'));
+    await owner.relay.stop();
+    await proxy.relay.stop();
+  });
+
+  it('should relay binary frames and close the client when the owner closes its socket', async () => {
+    const broker = createBroker();
+    const owner = createNode(broker, 'node-a', 'node-a');
+    const proxy = createNode(broker, 'node-b', 'node-a');
+    await owner.relay.start();
+    await proxy.relay.start();
+    owner.handler.mockImplementation(async (socket) => {
+      socket.send(Buffer.from([0x81, 0xa1, 0x61]));
+      socket.close(1008, 'Too many messages');
+    });
+    const client = new FakeSocket();
+
+    await proxy.relay.route('game', client, request);
+    await flush();
+    await flush();
+
+    expect(client.send).toHaveBeenCalledWith(Buffer.from([0x81, 0xa1, 0x61]));
+    expect(client.close).toHaveBeenCalledWith(1008, 'Too many messages');
+    await owner.relay.stop();
+    await proxy.relay.stop();
+  });
+
+  it('should tell the owner when the client disconnects', async () => {
+    const broker = createBroker();
+    const owner = createNode(broker, 'node-a', 'node-a');
+    const proxy = createNode(broker, 'node-b', 'node-a');
+    await owner.relay.start();
+    await proxy.relay.start();
+    const onClose = vi.fn();
+    owner.handler.mockImplementation(async (socket) => {
+      socket.on('close', onClose);
+    });
+    const client = new FakeSocket();
+
+    await proxy.relay.route('game', client, request);
+    await flush();
+    client.emit('close', 1001, Buffer.from('Going away'));
+    await flush();
+
+    expect(onClose).toHaveBeenCalledWith(1001, Buffer.from('Going away'));
+    await owner.relay.stop();
+    await proxy.relay.stop();
+  });
+
+  it('should evict the match of a node that is gone and handle its socket', async () => {
+    const node = createNode(createBroker(), 'node-b', 'node-a');
+    await node.relay.start();
+    const socket = new FakeSocket();
+
+    await node.relay.route('game', socket, request);
+
+    expect(node.matchOwnership.evict).toHaveBeenCalledWith('match1', 'node-a');
+    expect(node.handler).toHaveBeenCalledWith(socket, request);
+    await node.relay.stop();
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockDeep } from 'vitest-mock-extended';
+import MatchOwnership from '../../../../src/app/shared/cluster/MatchOwnership.js';
+import type MatchOwnerRepository from '../../../../src/schemas/MatchOwnerRepository.js';
+import { logger } from '../../../../src/server.js';
+
+vi.mock('../../../../src/server.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+  config: {
+    NODE_ID: 'node-a',
+    MATCH_OWNER_TTL_SECONDS: 15,
+  },
+}));
+
+describe('MatchOwnership', () => {
+  const matchOwnerRepository = mockDeep<MatchOwnerRepository>();
+  let matchOwnership: MatchOwnership;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    matchOwnership = new MatchOwnership(matchOwnerRepository);
+  });
+
+  it('should acquire the matches that no other node owns', async () => {
+    matchOwnerRepository.claim.mockResolvedValueOnce('node-a').mockResolvedValueOnce('node-b');
+
+    expect(await matchOwnership.acquire('match1')).toBe(true);
+    expect(await matchOwnership.acquire('match2')).toBe(false);
+    expect(matchOwnerRepository.claim).toHaveBeenCalledWith('match1', 'node-a', 15);
+  });
+
+  it('should renew the leases of its matches and forget the lost ones', async () => {
+    matchOwnerRepository.claim.mockResolvedValue('node-a');
+    await matchOwnership.acquire('match1');
+    await matchOwnership.acquire('match2');
+    matchOwnerRepository.renew.mockImplementation(async (matchId) => matchId === 'match1');
+
+    await matchOwnership.renew();
+    await matchOwnership.renew();
+
+    expect(matchOwnerRepository.renew).toHaveBeenCalledTimes(3);
+    expect(matchOwnerRepository.renew).toHaveBeenLastCalledWith('match1', 'node-a', 15);
+    expect(logger.warn).toHaveBeenCalledWith('The match match2 is no longer owned by the node node-a');
+  });
+
+  it('should tell its listeners about the matches whose lease was lost', async () => {
+    const onLost = vi.fn().mockResolvedValue(undefined);
+    matchOwnership.onLost(onLost);
+    matchOwnerRepository.claim.mockResolvedValue('node-a');
+    await matchOwnership.acquire('match1');
+    await matchOwnership.acquire('match2');
+    matchOwnerRepository.renew.mockImplementation(async (matchId) => matchId === 'match1');
+
+    await matchOwnership.renew();
+
+    expect(onLost).toHaveBeenCalledExactlyOnceWith('match2');
+  });
+
+  it('should stop renewing the released matches', async () => {
+    matchOwnerRepository.claim.mockResolvedValue('node-a');
+    await matchOwnership.acquire('match1');
+
+    await matchOwnership.release('match1');
+    await matchOwnership.renew();
+
+    expect(matchOwnerRepository.release).toHaveBeenCalledWith('match1', 'node-a');
+    expect(matchOwnerRepository.renew).not.toHaveBeenCalled();
+  });
+
+  it('should evict a match only from the node that stopped', async () => {
+    await matchOwnership.evict('match1', 'node-b');
+
+    expect(matchOwnerRepository.release).toHaveBeenCalledWith('match1', 'node-b');
+  });
+});
@@ -6,6 +6,7 @@ import type UserRepository from '../../src/schemas/UserRepository.js';
 import type MatchRepository from '../../src/schemas/MatchRepository.js';
 import { logger } from '../../src/server.js';
 import GameError from '../../src/errors/GameError.js';
+import WebSocketError from '../../src/errors/WebSocketError.js';
 import type { FastifyRequest } from 'fastify';
 import type GameService from '../../src/app/game/services/GameService.js';
 vi.mock('../../src/server.js', () => ({
@@ -14,6 +15,11 @@ vi.mock('../../src/server.js', () => ({
     warn: vi.fn(),
     error: vi.fn(),
   },
+  config: {
+    WS_MESSAGES_PER_SECOND: 1,
+    WS_MESSAGES_BURST: 2,
+    WS_MAX_DROPPED_MESSAGES: 1,
+  },
 }));
 
 const gameService = mockDeep<GameService>();
@@ -38,7 +44,8 @@ describe('GameController', () => {
     matchRepository.getMatchById.mockResolvedValue({
       id: 'match1',
       host: 'user1',
-      guest: 'user2',
+      players: ['user1', 'user2'],
+      playersNumber: 2,
       level: 0,
       map: '',
     });
@@ -48,6 +55,33 @@ describe('GameController', () => {
     expect(logger.info).toHaveBeenCalledWith('The User: user1 is connected to the match match1');
   });
 
+  it('should create a solo match when the host connects for the first time', async () => {
+    const socket = mockDeep<WebSocket>() as unknown as WebSocket;
+    const request = {
+      params: { userId: 'user1', matchId: 'match1' },
+    } as unknown as FastifyRequest;
+    const matchDetails = {
+      id: 'match1',
+      host: 'user1',
+      players: ['user1'],
+      playersNumber: 1,
+      level: 1,
+      map: 'desert',
+      started: true,
+      solo: true,
+    };
+
+    userRepository.userExists.mockResolvedValue(true);
+    matchRepository.matchExists.mockResolvedValue(true);
+    matchRepository.getMatchById.mockResolvedValue(matchDetails);
+    gameService.registerConnection.mockReturnValue(false);
+    gameService.getMatch.mockResolvedValue(undefined);
+
+    await gameController.handleGameConnection(socket, request);
+    expect(gameService.createMatch).toHaveBeenCalledWith(matchDetails);
+    expect(gameService.startMatch).toHaveBeenCalledWith('match1');
+  });
+
   it('should handle a WebSocket connection and reconnect a match', async () => {
     const socket = mockDeep<WebSocket>() as unknown as WebSocket;
     const request = {
@@ -59,7 +93,8 @@ describe('GameController', () => {
     matchRepository.getMatchById.mockResolvedValue({
       id: 'match1',
       host: 'user1',
-      guest: 'user2',
+      players: ['user1', 'user2'],
+      playersNumber: 2,
       level: 0,
       map: '',
     });
@@ -95,7 +130,8 @@ describe('GameController', () => {
     matchRepository.getMatchById.mockResolvedValue({
       id: 'match1',
       host: 'user1',
-      guest: 'user2',
+      players: ['user1', 'user2'],
+      playersNumber: 2,
       level: 0,
       map: '',
     });
@@ -112,13 +148,89 @@ describe('GameController', () => {
       matchDetails: {
         id: 'match1',
         host: 'user1',
-        guest: 'user2',
+        players: ['user1', 'user2'],
+        playersNumber: 2,
         level: 0,
         map: '',
       },
     });
   });
 
+  it('should drop the messages of a flooding socket and then close it', async () => {
+    const socket = mockDeep<WebSocket>();
+    const request = {
+      params: { userId: 'user1', matchId: 'match1' },
+    } as unknown as FastifyRequest;
+    userRepository.userExists.mockResolvedValue(true);
+    matchRepository.matchExists.mockResolvedValue(true);
+    matchRepository.getMatchById.mockResolvedValue({
+      id: 'match1',
+      host: 'user1',
+      players: ['user1', 'user2'],
+      playersNumber: 2,
+      level: 0,
+      map: '',
+    });
+    await gameController.handleGameConnection(socket as unknown as WebSocket, request);
+    const onMessage = socket.on.mock.calls.find(([event]) => event === 'message')?.[1] as (
+      message: Buffer
+    ) => Promise<void>;
+    socket.send.mockClear();
+
+    for (let i = 0; i < 4; i++) await onMessage(Buffer.from('{}'));
+
+    expect(gameService.handleGameMessage).toHaveBeenCalledTimes(2);
+    expect(socket.send.mock.calls.map(([data]) => JSON.parse(data as string))).toEqual([
+      { error: `429, ${WebSocketError.MESSAGE_RATE_LIMITED}` },
+      { error: `429, ${WebSocketError.CONNECTION_RATE_LIMITED}` },
+    ]);
+    expect(socket.close).toHaveBeenCalledWith(1008, WebSocketError.CONNECTION_RATE_LIMITED);
+  });
+
+  it('should give a player that reconnects its grace period back', async () => {
+    const socket = mockDeep<WebSocket>();
+    const request = {
+      params: { userId: 'user1', matchId: 'match1' },
+    } as unknown as FastifyRequest;
+    userRepository.userExists.mockResolvedValue(true);
+    matchRepository.matchExists.mockResolvedValue(true);
+    matchRepository.getMatchById.mockResolvedValue({
+      id: 'match1',
+      host: 'user1',
+      players: ['user1', 'user2'],
+      playersNumber: 2,
+      level: 0,
+      map: '',
+    });
+
+    await gameController.handleGameConnection(socket as unknown as WebSocket, request);
+
+    expect(gameService.reconnectPlayer).toHaveBeenCalledWith('match1', 'user1');
+  });
+
+  it('should disconnect the player from its match when the socket closes', async () => {
+    const socket = mockDeep<WebSocket>();
+    const request = {
+      params: { userId: 'user1', matchId: 'match1' },
+    } as unknown as FastifyRequest;
+    userRepository.userExists.mockResolvedValue(true);
+    matchRepository.matchExists.mockResolvedValue(true);
+    matchRepository.getMatchById.mockResolvedValue({
+      id: 'match1',
+      host: 'user1',
+      players: ['user1', 'user2'],
+      playersNumber: 2,
+      level: 0,
+      map: '',
+    });
+    await gameController.handleGameConnection(socket as unknown as WebSocket, request);
+    const onClose = socket.on.mock.calls.find(([event]) => event === 'close')?.[1] as () => Promise<void>;
+
+    await onClose();
+
+    expect(gameService.disconnectPlayer).toHaveBeenCalledWith('match1', 'user1', socket);
+  });
+
   it('should log and send an error when handleError is called', () => {
     const socket = mockDeep<WebSocket>() as unknown as WebSocket;
     const error = new GameError(GameError.USER_NOT_FOUND);
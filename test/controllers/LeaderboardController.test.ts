@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mock, mockReset } from 'vitest-mock-extended';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { ZodError } from 'zod';
+import LeaderboardController from '../../src/controllers/rest/LeaderboardController.js';
+import type LeaderboardRepository from '../../src/schemas/LeaderboardRepository.js';
+import type { Leaderboard } from '../../src/schemas/zod.js';
+
+const mockLeaderboardRepository = mock<LeaderboardRepository>();
+
+const getReply = () => {
+  const res = { send: vi.fn(), status: vi.fn() };
+  res.status.mockReturnValue(res);
+  return res as unknown as FastifyReply & { send: ReturnType<typeof vi.fn> };
+};
+
+describe('LeaderboardController', () => {
+  let leaderboardController: LeaderboardController;
+
+  beforeEach(() => {
+    mockReset(mockLeaderboardRepository);
+    leaderboardController = new LeaderboardController(mockLeaderboardRepository);
+  });
+
+  it('should send the leaderboards of the level with the requested filters', async () => {
+    const leaderboard: Leaderboard = {
+      level: 2,
+      map: 'desert',
+      window: 'weekly',
+      scope: 'team',
+      fastestClear: [{ rank: 1, players: ['ana', 'bob'], score: 80 }],
+      mostFruits: [],
+      longestStreak: [],
+    };
+    mockLeaderboardRepository.getLeaderboard.mockResolvedValue(leaderboard);
+    const req = {
+      params: { level: '2' },
+      query: { map: 'desert', window: 'weekly', scope: 'team', limit: '5' },
+    } as unknown as FastifyRequest;
+    const res = getReply();
+
+    await leaderboardController.handleGetLeaderboard(req, res);
+
+    expect(mockLeaderboardRepository.getLeaderboard).toHaveBeenCalledWith({
+      level: 2,
+      map: 'desert',
+      window: 'weekly',
+      scope: 'team',
+      limit: 5,
+    });
+    expect(res.send).toHaveBeenCalledWith(leaderboard);
+  });
+
+  it('should default to the individual all-time leaderboards of every map', async () => {
+    const req = { params: { level: '1' }, query: {} } as unknown as FastifyRequest;
+
+    await leaderboardController.handleGetLeaderboard(req, getReply());
+
+    expect(mockLeaderboardRepository.getLeaderboard).toHaveBeenCalledWith({
+      level: 1,
+      window: 'all-time',
+      scope: 'individual',
+      limit: 10,
+    });
+  });
+
+  it('should reject an unknown time window', async () => {
+    const req = {
+      params: { level: '1' },
+      query: { window: 'monthly' },
+    } as unknown as FastifyRequest;
+
+    await expect(leaderboardController.handleGetLeaderboard(req, getReply())).rejects.toThrow(
+      ZodError
+    );
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mock, mockReset } from 'vitest-mock-extended';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import LevelController from '../../src/controllers/rest/LevelController.js';
+import LevelRegistry from '../../src/app/game/match/boards/LevelRegistry.js';
+import LevelGrid from '../../src/app/game/match/boards/LevelGrid.js';
+import type ClusterLevels from '../../src/app/shared/cluster/ClusterLevels.js';
+import type LevelRepository from '../../src/schemas/LevelRepository.js';
+import type { CustomLevel, LevelDefinition } from '../../src/schemas/zod.js';
+
+vi.mock('../../src/server.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+  config: {
+    ENEMIES_SPEED_MS: 1000,
+  },
+}));
+
+const mockLevelRepository = mock<LevelRepository>();
+const mockClusterLevels = mock<ClusterLevels>();
+
+const getCustomLevel = (level: Partial<CustomLevel> = {}): CustomLevel => {
+  const { grid, ...metadata } = LevelRegistry.getLevel('desert', 1) as LevelDefinition;
+  return {
+    ...metadata,
+    ...LevelGrid.toLayout(grid),
+    rows: 16,
+    cols: 16,
+    map: 'volcano',
+    level: 1,
+    ...level,
+  };
+};
+
+const getReply = () => {
+  const res = { send: vi.fn(), status: vi.fn() };
+  res.status.mockReturnValue(res);
+  return res as unknown as FastifyReply & { send: ReturnType<typeof vi.fn> };
+};
+
+describe('LevelController', () => {
+  let levelController: LevelController;
+
+  beforeEach(() => {
+    mockReset(mockLevelRepository);
+    mockReset(mockClusterLevels);
+    vi.clearAllMocks();
+    LevelRegistry.unregister('volcano', 1);
+    levelController = new LevelController(mockLevelRepository, mockClusterLevels);
+  });
+
+  describe('handleCreateLevel', () => {
+    it('should store, register and return the key of a playable level', async () => {
+      const customLevel = getCustomLevel();
+      const req = { body: customLevel } as unknown as FastifyRequest;
+      const res = getReply();
+
+      await levelController.handleCreateLevel(req, res);
+
+      expect(mockLevelRepository.createLevel).toHaveBeenCalledWith(customLevel);
+      expect(LevelRegistry.getLevel('volcano', 1)).toEqual(LevelGrid.toDefinition(customLevel));
+      expect(mockClusterLevels.announce).toHaveBeenCalledWith({ map: 'volcano', level: 1 });
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.send).toHaveBeenCalledWith({ map: 'volcano', level: 1 });
+    });
+
+    it('should reject a level that already exists', async () => {
+      const req = { body: getCustomLevel({ map: 'desert' }) } as unknown as FastifyRequest;
+
+      await expect(levelController.handleCreateLevel(req, getReply())).rejects.toThrow(
+        'The level already exists'
+      );
+      expect(mockLevelRepository.createLevel).not.toHaveBeenCalled();
+      expect(mockClusterLevels.announce).not.toHaveBeenCalled();
+    });
+
+    it('should reject a level that is not playable', async () => {
+      const customLevel = getCustomLevel({ rocksCoordinates: [[2, 4]] });
+      const req = { body: customLevel } as unknown as FastifyRequest;
+
+      await expect(levelController.handleCreateLevel(req, getReply())).rejects.toThrow(
+        'An enemy cannot spawn on a rock'
+      );
+      expect(mockLevelRepository.createLevel).not.toHaveBeenCalled();
+      expect(LevelRegistry.hasLevel('volcano', 1)).toBe(false);
+    });
+
+    it('should reject an invalid body', async () => {
+      const req = { body: { map: 'volcano', level: 1 } } as unknown as FastifyRequest;
+
+      await expect(levelController.handleCreateLevel(req, getReply())).rejects.toThrow();
+      expect(mockLevelRepository.createLevel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleUpdateLevel', () => {
+    it('should update the level using the key from the params', async () => {
+      const { map, level, ...body } = getCustomLevel({ fruits: ['grape'] });
+      const req = {
+        params: { map: 'volcano', level: '1' },
+        body,
+      } as unknown as FastifyRequest;
+      const res = getReply();
+
+      await levelController.handleUpdateLevel(req, res);
+
+      expect(mockLevelRepository.updateLevel).toHaveBeenCalledWith({ ...body, map, level });
+      expect(LevelRegistry.getLevel('volcano', 1)?.fruits).toEqual(['grape']);
+      expect(mockClusterLevels.announce).toHaveBeenCalledWith({ map: 'volcano', level: 1 });
+      expect(res.send).toHaveBeenCalledWith({ message: 'Level updated successfully' });
+    });
+
+    it('should not register the level if it does not exist', async () => {
+      const req = {
+        params: { map: 'volcano', level: '1' },
+        body: getCustomLevel(),
+      } as unknown as FastifyRequest;
+      mockLevelRepository.updateLevel.mockRejectedValue(new Error('The requested level was not found'));
+
+      await expect(levelController.handleUpdateLevel(req, getReply())).rejects.toThrow(
+        'The requested level was not found'
+      );
+      expect(LevelRegistry.hasLevel('volcano', 1)).toBe(false);
+      expect(mockClusterLevels.announce).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleGetLevels', () => {
+    it('should list the custom levels of a map', async () => {
+      const levels = [getCustomLevel()];
+      mockLevelRepository.getLevels.mockResolvedValue(levels);
+      const req = { query: { map: 'volcano' } } as unknown as FastifyRequest;
+      const res = getReply();
+
+      await levelController.handleGetLevels(req, res);
+
+      expect(mockLevelRepository.getLevels).toHaveBeenCalledWith('volcano');
+      expect(res.send).toHaveBeenCalledWith(levels);
+    });
+
+    it('should list all the custom levels without a map filter', async () => {
+      mockLevelRepository.getLevels.mockResolvedValue([]);
+      const req = { query: {} } as unknown as FastifyRequest;
+
+      await levelController.handleGetLevels(req, getReply());
+
+      expect(mockLevelRepository.getLevels).toHaveBeenCalledWith(undefined);
+    });
+  });
+
+  describe('handleGetLevel', () => {
+    it('should return the requested custom level', async () => {
+      const customLevel = getCustomLevel();
+      mockLevelRepository.getLevel.mockResolvedValue(customLevel);
+      const req = { params: { map: 'volcano', level: '1' } } as unknown as FastifyRequest;
+      const res = getReply();
+
+      await levelController.handleGetLevel(req, res);
+
+      expect(mockLevelRepository.getLevel).toHaveBeenCalledWith('volcano', 1);
+      expect(res.send).toHaveBeenCalledWith(customLevel);
+    });
+  });
+
+  describe('handleDeleteLevel', () => {
+    it('should delete and unregister the custom level', async () => {
+      LevelRegistry.register(LevelGrid.toDefinition(getCustomLevel()));
+      const req = { params: { map: 'volcano', level: '1' } } as unknown as FastifyRequest;
+      const res = getReply();
+
+      await levelController.handleDeleteLevel(req, res);
+
+      expect(mockLevelRepository.removeLevel).toHaveBeenCalledWith('volcano', 1);
+      expect(LevelRegistry.hasLevel('volcano', 1)).toBe(false);
+      expect(mockClusterLevels.announce).toHaveBeenCalledWith({ map: 'volcano', level: 1 });
+      expect(res.send).toHaveBeenCalledWith({ message: 'Level deleted successfully' });
+    });
+  });
+
+  describe('loadCustomLevels', () => {
+    it('should register the stored custom levels', async () => {
+      mockLevelRepository.getLevels.mockResolvedValue([getCustomLevel()]);
+
+      await levelController.loadCustomLevels();
+
+      expect(LevelRegistry.hasLevel('volcano', 1)).toBe(true);
+    });
+  });
+});
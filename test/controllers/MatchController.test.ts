@@ -5,6 +5,7 @@ import MatchController from '../../src/controllers/rest/MatchController.js';
 import type MatchRepository from '../../src/schemas/MatchRepository.js';
 import type UserRepository from '../../src/schemas/UserRepository.js';
 import { validateMatchInputDTO, validateString } from '../../src/schemas/zod.js';
+import LevelRegistry from '../../src/app/game/match/boards/LevelRegistry.js';
 const mockMatchRepository = mock<MatchRepository>();
 const mockUserRepository = mock<UserRepository>();
 
@@ -16,6 +17,10 @@ vi.mock('../../src/schemas/repositories/UserRepositoryRedis', () => ({
   default: { getInstance: () => mockUserRepository },
 }));
 
+vi.mock('../../src/app/game/match/boards/LevelRegistry.js', () => ({
+  default: { hasMap: vi.fn(), hasLevel: vi.fn(), getPlayersCapacity: vi.fn() },
+}));
+
 vi.mock('../../src/schemas/zod', () => ({
   validateMatchInputDTO: vi.fn(),
   validateString: vi.fn(),
@@ -28,6 +33,7 @@ describe('MatchController', () => {
     mockReset(mockMatchRepository);
     mockReset(mockUserRepository);
     vi.clearAllMocks();
+    vi.mocked(LevelRegistry.getPlayersCapacity).mockReturnValue(4);
     matchController = new MatchController(mockUserRepository, mockMatchRepository);
   });
 
@@ -59,6 +65,8 @@ describe('MatchController', () => {
   
       vi.mocked(validateString).mockReturnValue('user123');
       vi.mocked(validateMatchInputDTO).mockReturnValue({ level: 1, map: 'test-map' }); 
+      vi.mocked(LevelRegistry.hasMap).mockReturnValue(true);
+      vi.mocked(LevelRegistry.hasLevel).mockReturnValue(true);
       mockUserRepository.getUserById.mockResolvedValue({
         matchId: null,
         id: '',
@@ -76,6 +84,8 @@ describe('MatchController', () => {
         expect.objectContaining({
           id: expect.any(String),
           host: 'user123',
+          players: ['user123'],
+          playersNumber: 2,
           level: 1, 
           map: 'test-map', 
         })
@@ -86,6 +96,215 @@ describe('MatchController', () => {
       expect(res.send).toHaveBeenCalledWith({ matchId: expect.any(String) });
     });
 
+    it('should create a procedural match with a generated seed for any level of the map', async () => {
+      const req = {
+        params: { userId: 'user123' },
+        body: { level: 42, map: 'ice', mode: 'procedural' },
+      } as unknown as FastifyRequest;
+      const res = { send: vi.fn() } as unknown as FastifyReply;
+
+      vi.mocked(validateString).mockReturnValue('user123');
+      vi.mocked(validateMatchInputDTO).mockReturnValue({ level: 42, map: 'ice', mode: 'procedural' });
+      vi.mocked(LevelRegistry.hasMap).mockReturnValue(true);
+      vi.mocked(LevelRegistry.hasLevel).mockReturnValue(false);
+      mockUserRepository.getUserById.mockResolvedValue({
+        matchId: null,
+        id: '',
+        status: 'READY'
+      });
+
+      await matchController.handleCreateMatch(req, res);
+
+      expect(mockMatchRepository.createMatch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          level: 42,
+          map: 'ice',
+          mode: 'procedural',
+          seed: expect.any(Number),
+          difficulty: 'normal',
+        })
+      );
+    });
+
+    it('should keep the seed and difficulty requested for an endless match', async () => {
+      const req = {
+        params: { userId: 'user123' },
+        body: { level: 1, map: 'ice', mode: 'endless', seed: 7, difficulty: 'hard' },
+      } as unknown as FastifyRequest;
+      const res = { send: vi.fn() } as unknown as FastifyReply;
+
+      vi.mocked(validateString).mockReturnValue('user123');
+      vi.mocked(validateMatchInputDTO).mockReturnValue({
+        level: 1,
+        map: 'ice',
+        mode: 'endless',
+        seed: 7,
+        difficulty: 'hard',
+      });
+      vi.mocked(LevelRegistry.hasMap).mockReturnValue(true);
+      mockUserRepository.getUserById.mockResolvedValue({
+        matchId: null,
+        id: '',
+        status: 'READY'
+      });
+
+      await matchController.handleCreateMatch(req, res);
+
+      expect(mockMatchRepository.createMatch).toHaveBeenCalledWith(
+        expect.objectContaining({ mode: 'endless', seed: 7, difficulty: 'hard' })
+      );
+    });
+
+    it('should start solo matches right away', async () => {
+      const req = {
+        params: { userId: 'user123' },
+        body: { level: 1, map: 'desert', solo: true },
+      } as unknown as FastifyRequest;
+      const res = { send: vi.fn() } as unknown as FastifyReply;
+
+      vi.mocked(validateString).mockReturnValue('user123');
+      vi.mocked(validateMatchInputDTO).mockReturnValue({ level: 1, map: 'desert', solo: true });
+      vi.mocked(LevelRegistry.hasMap).mockReturnValue(true);
+      vi.mocked(LevelRegistry.hasLevel).mockReturnValue(true);
+      mockUserRepository.getUserById.mockResolvedValue({
+        matchId: null,
+        id: '',
+        status: 'READY'
+      });
+
+      await matchController.handleCreateMatch(req, res);
+
+      expect(mockMatchRepository.createMatch).toHaveBeenCalledWith(
+        expect.objectContaining({ host: 'user123', solo: true, started: true, playersNumber: 1 })
+      );
+    });
+
+    it('should create a match waiting for four players', async () => {
+      const req = {
+        params: { userId: 'user123' },
+        body: { level: 1, map: 'desert', playersNumber: 4 },
+      } as unknown as FastifyRequest;
+      const res = { send: vi.fn() } as unknown as FastifyReply;
+
+      vi.mocked(validateString).mockReturnValue('user123');
+      vi.mocked(validateMatchInputDTO).mockReturnValue({ level: 1, map: 'desert', playersNumber: 4 });
+      vi.mocked(LevelRegistry.hasMap).mockReturnValue(true);
+      vi.mocked(LevelRegistry.hasLevel).mockReturnValue(true);
+      mockUserRepository.getUserById.mockResolvedValue({
+        matchId: null,
+        id: '',
+        status: 'READY'
+      });
+
+      await matchController.handleCreateMatch(req, res);
+
+      expect(LevelRegistry.getPlayersCapacity).toHaveBeenCalledWith('desert', 1);
+      const matchDetails = mockMatchRepository.createMatch.mock.calls[0][0];
+      expect(matchDetails).toEqual(
+        expect.objectContaining({ players: ['user123'], playersNumber: 4 })
+      );
+      expect(matchDetails.started).toBeUndefined();
+    });
+
+    it('should reject a versus match without rivals', async () => {
+      const req = {
+        params: { userId: 'user123' },
+        body: { level: 1, map: 'desert', playersNumber: 1, versus: true },
+      } as unknown as FastifyRequest;
+      const res = { send: vi.fn() } as unknown as FastifyReply;
+
+      vi.mocked(validateString).mockReturnValue('user123');
+      vi.mocked(validateMatchInputDTO).mockReturnValue({
+        level: 1,
+        map: 'desert',
+        playersNumber: 1,
+        versus: true,
+      });
+      vi.mocked(LevelRegistry.hasMap).mockReturnValue(true);
+      vi.mocked(LevelRegistry.hasLevel).mockReturnValue(true);
+      mockUserRepository.getUserById.mockResolvedValue({
+        matchId: null,
+        id: '',
+        status: 'READY'
+      });
+
+      await expect(matchController.handleCreateMatch(req, res)).rejects.toThrow(
+        'A versus match needs at least two players'
+      );
+      expect(mockMatchRepository.createMatch).not.toHaveBeenCalled();
+    });
+
+    it('should reject more players than the start cells of the level', async () => {
+      const req = {
+        params: { userId: 'user123' },
+        body: { level: 1, map: 'desert', playersNumber: 4 },
+      } as unknown as FastifyRequest;
+      const res = { send: vi.fn() } as unknown as FastifyReply;
+
+      vi.mocked(validateString).mockReturnValue('user123');
+      vi.mocked(validateMatchInputDTO).mockReturnValue({ level: 1, map: 'desert', playersNumber: 4 });
+      vi.mocked(LevelRegistry.hasMap).mockReturnValue(true);
+      vi.mocked(LevelRegistry.hasLevel).mockReturnValue(true);
+      vi.mocked(LevelRegistry.getPlayersCapacity).mockReturnValue(2);
+      mockUserRepository.getUserById.mockResolvedValue({
+        matchId: null,
+        id: '',
+        status: 'READY'
+      });
+
+      await expect(matchController.handleCreateMatch(req, res)).rejects.toThrow(
+        'The level does not have enough start cells for the players'
+      );
+      expect(mockMatchRepository.createMatch).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown map', async () => {
+      const req = {
+        params: { userId: 'user123' },
+        body: { level: 1, map: 'volcano' },
+      } as unknown as FastifyRequest;
+      const res = { send: vi.fn() } as unknown as FastifyReply;
+
+      vi.mocked(validateString).mockReturnValue('user123');
+      vi.mocked(validateMatchInputDTO).mockReturnValue({ level: 1, map: 'volcano' });
+      vi.mocked(LevelRegistry.hasMap).mockReturnValue(false);
+      mockUserRepository.getUserById.mockResolvedValue({
+        matchId: null,
+        id: '',
+        status: 'READY'
+      });
+
+      await expect(matchController.handleCreateMatch(req, res)).rejects.toThrow(
+        'The map is invalid'
+      );
+      expect(LevelRegistry.hasMap).toHaveBeenCalledWith('volcano');
+      expect(mockMatchRepository.createMatch).not.toHaveBeenCalled();
+    });
+
+    it('should reject a level that is not available for the map', async () => {
+      const req = {
+        params: { userId: 'user123' },
+        body: { level: 42, map: 'ice' },
+      } as unknown as FastifyRequest;
+      const res = { send: vi.fn() } as unknown as FastifyReply;
+
+      vi.mocked(validateString).mockReturnValue('user123');
+      vi.mocked(validateMatchInputDTO).mockReturnValue({ level: 42, map: 'ice' });
+      vi.mocked(LevelRegistry.hasMap).mockReturnValue(true);
+      vi.mocked(LevelRegistry.hasLevel).mockReturnValue(false);
+      mockUserRepository.getUserById.mockResolvedValue({
+        matchId: null,
+        id: '',
+        status: 'READY'
+      });
+
+      await expect(matchController.handleCreateMatch(req, res)).rejects.toThrow(
+        'The level is not available for the map'
+      );
+      expect(LevelRegistry.hasLevel).toHaveBeenCalledWith('ice', 42);
+      expect(mockMatchRepository.createMatch).not.toHaveBeenCalled();
+    });
+
     it('should update the level and map of an existing match', async () => {
       const req = {
         params: { matchId: 'match123' },
@@ -11,6 +11,8 @@ import type MatchMakingService from '../../src/app/lobbies/services/MatchMakingS
 import { logger } from '../../src/server.js';
 import type WebSocketService from '../../src/app/lobbies/services/WebSocketService.js';
 import SocketConnections from '../../src/app/shared/SocketConnectionsServiceImpl.js';
+import type MatchOwnership from '../../src/app/shared/cluster/MatchOwnership.js';
+import type GameService from '../../src/app/game/services/GameService.js';
 
 vi.mock('../../src/server.js', () => ({
   logger: {
@@ -32,6 +34,8 @@ vi.mock('../../src/schemas/zod.js', () => ({
 const userRepository = mockDeep<UserRepository>();
 const matchRepository = mockDeep<MatchRepository>();
 const matchMakingService = mockDeep<MatchMakingService>();
+const matchOwnership = mockDeep<MatchOwnership>();
+const gameService = mockDeep<GameService>();
 const connections = new SocketConnections();
 const mockWebSocketService: WebSocketService = new WebsocketServiceImpl(matchRepository, connections);
 mockWebSocketService.setMatchMakingService(matchMakingService);
@@ -39,7 +43,13 @@ mockWebSocketService.registerConnection = vi.fn();
 mockWebSocketService.matchMaking = vi.fn();
 mockWebSocketService.removeConnection = vi.fn();
 mockWebSocketService.joinGame = vi.fn();
-const controller = new MatchMakingController(mockWebSocketService, matchRepository, userRepository);
+const controller = new MatchMakingController(
+  mockWebSocketService,
+  matchRepository,
+  userRepository,
+  matchOwnership,
+  gameService
+);
 
 describe('MatchMakingController', () => {
   type MockWebSocket = {
@@ -56,7 +66,8 @@ describe('MatchMakingController', () => {
   const validMatchDetails = {
     id: 'match123',
     host: 'user123',
-    guest: null,
+    players: ['user123'],
+    playersNumber: 2,
     level: 2,
     map: 'desert',
     started: false,
@@ -174,6 +185,8 @@ describe('MatchMakingController', () => {
       mockWebSocketService.validateMatchToPublish = vi.fn().mockResolvedValue(undefined);
       mockWebSocketService.publishMatch = vi.fn();
       mockWebSocketService.removePublishedMatch = vi.fn();
+      matchOwnership.acquire.mockResolvedValue(true);
+      matchOwnership.release.mockResolvedValue();
     });
 
     it('should publish a match successfully', async () => {
@@ -186,6 +199,7 @@ describe('MatchMakingController', () => {
         'user123'
       );
       expect(mockWebSocketService.publishMatch).toHaveBeenCalledWith('match123', mockSocket);
+      expect(matchOwnership.acquire).toHaveBeenCalledWith('match123');
       expect(mockSocket.on).toHaveBeenCalledWith('message', expect.any(Function));
       expect(mockSocket.on).toHaveBeenCalledWith('close', expect.any(Function));
       expect(mockSocket.on).toHaveBeenCalledWith('error', expect.any(Function));
@@ -243,6 +257,36 @@ describe('MatchMakingController', () => {
       }
     });
 
+    it('should release the match when the host leaves before it starts', async () => {
+      await controller.handlePublishMatch(mockSocket as unknown as WebSocket, mockRequest);
+
+      closeHandler?.();
+
+      await vi.waitFor(() => expect(matchOwnership.release).toHaveBeenCalledWith('match123'));
+    });
+
+    it('should keep the match when the host leaves after it started', async () => {
+      await controller.handlePublishMatch(mockSocket as unknown as WebSocket, mockRequest);
+      matchRepository.getMatchById.mockResolvedValue({ ...validMatchDetails, started: true });
+
+      closeHandler?.();
+
+      await vi.waitFor(() => expect(matchRepository.getMatchById).toHaveBeenCalledTimes(2));
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(matchOwnership.release).not.toHaveBeenCalled();
+    });
+
+    it('should keep a match this node created even if its start is not saved yet', async () => {
+      await controller.handlePublishMatch(mockSocket as unknown as WebSocket, mockRequest);
+      gameService.hasMatch.mockReturnValueOnce(true);
+
+      closeHandler?.();
+
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(gameService.hasMatch).toHaveBeenCalledWith('match123');
+      expect(matchOwnership.release).not.toHaveBeenCalled();
+    });
+
     it('should handle error on socket error event', async () => {
       await controller.handlePublishMatch(mockSocket as unknown as WebSocket, mockRequest);
 
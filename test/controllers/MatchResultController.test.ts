@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mock, mockReset } from 'vitest-mock-extended';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { ZodError } from 'zod';
+import MatchResultController from '../../src/controllers/rest/MatchResultController.js';
+import type MatchResultRepository from '../../src/schemas/MatchResultRepository.js';
+import type { MatchHistory, PlayerStats } from '../../src/schemas/zod.js';
+
+const mockMatchResultRepository = mock<MatchResultRepository>();
+
+const getReply = () => {
+  const res = { send: vi.fn(), status: vi.fn() };
+  res.status.mockReturnValue(res);
+  return res as unknown as FastifyReply & { send: ReturnType<typeof vi.fn> };
+};
+
+describe('MatchResultController', () => {
+  let matchResultController: MatchResultController;
+
+  beforeEach(() => {
+    mockReset(mockMatchResultRepository);
+    matchResultController = new MatchResultController(mockMatchResultRepository);
+  });
+
+  describe('handleGetHistory', () => {
+    it('should send the requested page of the history', async () => {
+      const history: MatchHistory = { results: [], page: 2, pageSize: 5, total: 7 };
+      mockMatchResultRepository.getHistory.mockResolvedValue(history);
+      const req = {
+        params: { userId: 'user1' },
+        query: { page: '2', pageSize: '5' },
+      } as unknown as FastifyRequest;
+      const res = getReply();
+
+      await matchResultController.handleGetHistory(req, res);
+
+      expect(mockMatchResultRepository.getHistory).toHaveBeenCalledWith('user1', {
+        page: 2,
+        pageSize: 5,
+      });
+      expect(res.send).toHaveBeenCalledWith(history);
+    });
+
+    it('should use the first page by default', async () => {
+      const req = { params: { userId: 'user1' }, query: {} } as unknown as FastifyRequest;
+
+      await matchResultController.handleGetHistory(req, getReply());
+
+      expect(mockMatchResultRepository.getHistory).toHaveBeenCalledWith('user1', {
+        page: 1,
+        pageSize: 20,
+      });
+    });
+
+    it('should reject an invalid page', async () => {
+      const req = {
+        params: { userId: 'user1' },
+        query: { page: '0', pageSize: '500' },
+      } as unknown as FastifyRequest;
+
+      await expect(matchResultController.handleGetHistory(req, getReply())).rejects.toThrow(
+        ZodError
+      );
+      expect(mockMatchResultRepository.getHistory).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleGetStats', () => {
+    it('should send the statistics of the user', async () => {
+      const stats: PlayerStats = {
+        userId: 'user1',
+        matches: 3,
+        wins: 2,
+        losses: 1,
+        draws: 0,
+        fruits: 40,
+        deaths: 2,
+        playedSeconds: 500,
+        highestLevel: 3,
+      };
+      mockMatchResultRepository.getStats.mockResolvedValue(stats);
+      const req = { params: { userId: 'user1' } } as unknown as FastifyRequest;
+      const res = getReply();
+
+      await matchResultController.handleGetStats(req, res);
+
+      expect(mockMatchResultRepository.getStats).toHaveBeenCalledWith('user1');
+      expect(res.send).toHaveBeenCalledWith(stats);
+    });
+  });
+});
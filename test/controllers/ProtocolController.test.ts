@@ -0,0 +1,27 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import Protocol from '../../src/app/shared/Protocol.js';
+import ProtocolController from '../../src/controllers/rest/ProtocolController.js';
+
+const getReply = () => {
+  const res = { send: vi.fn(), status: vi.fn() };
+  res.status.mockReturnValue(res);
+  return res as unknown as FastifyReply & { send: ReturnType<typeof vi.fn> };
+};
+
+describe('ProtocolController', () => {
+  const protocolController = new ProtocolController();
+  const req = {} as FastifyRequest;
+
+  it('should send the JSON Schema of the messages', async () => {
+    const res = getReply();
+    await protocolController.handleGetJsonSchema(req, res);
+    expect(res.send).toHaveBeenCalledWith(Protocol.getJsonSchema());
+  });
+
+  it('should send the AsyncAPI document', async () => {
+    const res = getReply();
+    await protocolController.handleGetAsyncApi(req, res);
+    expect(res.send).toHaveBeenCalledWith(Protocol.getAsyncApi());
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mock, mockReset } from 'vitest-mock-extended';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import ReplayController from '../../src/controllers/rest/ReplayController.js';
+import ReplayError from '../../src/errors/ReplayError.js';
+import type ReplayRepository from '../../src/schemas/ReplayRepository.js';
+import type { Replay } from '../../src/schemas/zod.js';
+
+const mockReplayRepository = mock<ReplayRepository>();
+
+const getReply = () => {
+  const res = { send: vi.fn(), status: vi.fn() };
+  res.status.mockReturnValue(res);
+  return res as unknown as FastifyReply & { send: ReturnType<typeof vi.fn> };
+};
+
+describe('ReplayController', () => {
+  let replayController: ReplayController;
+
+  beforeEach(() => {
+    mockReset(mockReplayRepository);
+    replayController = new ReplayController(mockReplayRepository);
+  });
+
+  it('should send the timeline of the match', async () => {
+    const replay: Replay = {
+      matchId: 'match1',
+      round: 1,
+      startedAt: new Date(0).toISOString(),
+      durationMs: 0,
+      events: [{ offsetMs: 0, source: 'output', message: { type: 'paused', payload: true } }],
+    };
+    mockReplayRepository.getReplay.mockResolvedValue(replay);
+    const req = { params: { matchId: 'match1' } } as unknown as FastifyRequest;
+    const res = getReply();
+
+    await replayController.handleGetReplay(req, res);
+
+    expect(mockReplayRepository.getReplay).toHaveBeenCalledWith('match1', undefined);
+    expect(res.send).toHaveBeenCalledWith(replay);
+  });
+
+  it('should send the requested round of the match', async () => {
+    mockReplayRepository.getReplay.mockResolvedValue(null);
+    const req = {
+      params: { matchId: 'match1' },
+      query: { round: '2' },
+    } as unknown as FastifyRequest;
+
+    await expect(replayController.handleGetReplay(req, getReply())).rejects.toThrow(
+      new ReplayError(ReplayError.REPLAY_NOT_FOUND)
+    );
+    expect(mockReplayRepository.getReplay).toHaveBeenCalledWith('match1', 2);
+  });
+
+  it('should reject an invalid round', async () => {
+    const req = {
+      params: { matchId: 'match1' },
+      query: { round: '0' },
+    } as unknown as FastifyRequest;
+
+    await expect(replayController.handleGetReplay(req, getReply())).rejects.toThrow();
+    expect(mockReplayRepository.getReplay).not.toHaveBeenCalled();
+  });
+
+  it('should reject a match without a replay', async () => {
+    mockReplayRepository.getReplay.mockResolvedValue(null);
+    const req = { params: { matchId: 'match1' } } as unknown as FastifyRequest;
+
+    await expect(replayController.handleGetReplay(req, getReply())).rejects.toThrow(
+      new ReplayError(ReplayError.REPLAY_NOT_FOUND)
+    );
+  });
+});
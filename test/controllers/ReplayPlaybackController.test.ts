@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mock, mockDeep, mockReset } from 'vitest-mock-extended';
+import type { FastifyRequest } from 'fastify';
+import { WebSocket } from 'ws';
+import ReplayPlaybackController from '../../src/controllers/websockets/ReplayPlaybackController.js';
+import type ReplayRepository from '../../src/schemas/ReplayRepository.js';
+import type { Replay } from '../../src/schemas/zod.js';
+
+vi.mock('../../src/server.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const mockReplayRepository = mock<ReplayRepository>();
+
+const replay: Replay = {
+  matchId: 'match1',
+  round: 1,
+  startedAt: new Date(0).toISOString(),
+  durationMs: 4_000,
+  events: [
+    { offsetMs: 0, source: 'output', message: { type: 'paused', payload: false } },
+    { offsetMs: 1_000, source: 'input', userId: 'host1', message: { type: 'pause', payload: '' } },
+    { offsetMs: 2_000, source: 'output', message: { type: 'paused', payload: true } },
+    {
+      offsetMs: 3_000,
+      source: 'output',
+      userId: 'host1',
+      message: { type: 'end', payload: { result: 'win' } },
+    },
+    { offsetMs: 4_000, source: 'output', message: { type: 'end', payload: { result: 'end game' } } },
+  ],
+};
+
+const getSocket = () => {
+  const socket = mockDeep<WebSocket>();
+  let readyState: number = WebSocket.OPEN;
+  Object.defineProperty(socket, 'readyState', { get: () => readyState });
+  socket.close.mockImplementation(() => {
+    readyState = WebSocket.CLOSED;
+  });
+  return socket;
+};
+
+const getRequest = (query: Record<string, string> = {}) =>
+  ({ params: { matchId: 'match1' }, query }) as unknown as FastifyRequest;
+
+describe('ReplayPlaybackController', () => {
+  let replayPlaybackController: ReplayPlaybackController;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockReset(mockReplayRepository);
+    mockReplayRepository.getReplay.mockResolvedValue(replay);
+    replayPlaybackController = new ReplayPlaybackController(mockReplayRepository);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should stream the broadcast messages at their recorded pace', async () => {
+    const socket = getSocket();
+
+    const playback = replayPlaybackController.handleReplayConnection(socket, getRequest());
+    await vi.advanceTimersByTimeAsync(0);
+    expect(socket.send).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(socket.send).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(socket.send).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2_000);
+    await playback;
+
+    expect(socket.send.mock.calls.map(([message]) => message)).toEqual([
+      JSON.stringify({ type: 'paused', payload: false }),
+      JSON.stringify({ type: 'paused', payload: true }),
+      JSON.stringify({ type: 'end', payload: { result: 'end game' } }),
+    ]);
+    expect(socket.close).toHaveBeenCalled();
+  });
+
+  it('should play the replay faster at 4x', async () => {
+    const socket = getSocket();
+
+    const playback = replayPlaybackController.handleReplayConnection(
+      socket,
+      getRequest({ speed: '4' })
+    );
+    await vi.advanceTimersByTimeAsync(1_000);
+    await playback;
+
+    expect(socket.send).toHaveBeenCalledTimes(3);
+  });
+
+  it('should play the requested round of the match', async () => {
+    const socket = getSocket();
+
+    const playback = replayPlaybackController.handleReplayConnection(
+      socket,
+      getRequest({ round: '2' })
+    );
+    await vi.advanceTimersByTimeAsync(4_000);
+    await playback;
+
+    expect(mockReplayRepository.getReplay).toHaveBeenCalledWith('match1', 2);
+  });
+
+  it('should stop when the viewer leaves', async () => {
+    const socket = getSocket();
+
+    const playback = replayPlaybackController.handleReplayConnection(socket, getRequest());
+    await vi.advanceTimersByTimeAsync(0);
+    socket.close();
+    await vi.advanceTimersByTimeAsync(4_000);
+    await playback;
+
+    expect(socket.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject an unsupported speed', async () => {
+    const socket = getSocket();
+
+    await replayPlaybackController.handleReplayConnection(socket, getRequest({ speed: '3' }));
+
+    expect(socket.send).toHaveBeenCalledWith(JSON.stringify({ error: 'Bad Request' }));
+    expect(mockReplayRepository.getReplay).not.toHaveBeenCalled();
+  });
+
+  it('should report a match without a replay', async () => {
+    mockReplayRepository.getReplay.mockResolvedValue(null);
+    const socket = getSocket();
+
+    await replayPlaybackController.handleReplayConnection(socket, getRequest());
+
+    expect(socket.send).toHaveBeenCalledWith(
+      JSON.stringify({ error: '404, The requested replay was not found' })
+    );
+    expect(socket.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mockDeep, mockReset } from 'vitest-mock-extended';
+import type { FastifyRequest } from 'fastify';
+import type { WebSocket } from 'ws';
+import SpectatorController from '../../src/controllers/websockets/SpectatorController.js';
+import type GameService from '../../src/app/game/services/GameService.js';
+import MatchError from '../../src/errors/MatchError.js';
+
+vi.mock('../../src/server.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const gameService = mockDeep<GameService>();
+
+const getSocket = () => {
+  const handlers = new Map<string, (...args: unknown[]) => void>();
+  const socket = mockDeep<WebSocket>();
+  socket.on.mockImplementation((event: string | symbol, handler: (...args: unknown[]) => void) => {
+    handlers.set(String(event), handler);
+    return socket;
+  });
+  return { socket, emit: (event: string, ...args: unknown[]) => handlers.get(event)?.(...args) };
+};
+
+const request = { params: { matchId: 'match1' } } as unknown as FastifyRequest;
+
+describe('SpectatorController', () => {
+  let spectatorController: SpectatorController;
+
+  beforeEach(() => {
+    mockReset(gameService);
+    spectatorController = new SpectatorController(gameService);
+  });
+
+  it('should add the spectator to the match', async () => {
+    const { socket } = getSocket();
+
+    await spectatorController.handleSpectatorConnection(socket, request);
+
+    expect(gameService.addSpectator).toHaveBeenCalledWith('match1', socket);
+    expect(socket.close).not.toHaveBeenCalled();
+  });
+
+  it('should reject the commands of a spectator', async () => {
+    const { socket, emit } = getSocket();
+    await spectatorController.handleSpectatorConnection(socket, request);
+
+    emit('message', Buffer.from(JSON.stringify({ type: 'movement', payload: 'up' })));
+
+    expect(socket.send).toHaveBeenCalledWith(
+      JSON.stringify({ error: '403, Spectators cannot send game commands' })
+    );
+    expect(gameService.handleGameMessage).not.toHaveBeenCalled();
+  });
+
+  it('should remove the spectator when the socket closes', async () => {
+    const { socket, emit } = getSocket();
+    await spectatorController.handleSpectatorConnection(socket, request);
+
+    emit('close');
+
+    expect(gameService.removeSpectator).toHaveBeenCalledWith('match1', socket);
+  });
+
+  it('should close the socket when the match is not running', async () => {
+    gameService.addSpectator.mockRejectedValue(new MatchError(MatchError.MATCH_NOT_FOUND));
+    const { socket } = getSocket();
+
+    await spectatorController.handleSpectatorConnection(socket, request);
+
+    expect(socket.send).toHaveBeenCalledWith(
+      JSON.stringify({ error: `404, ${MatchError.MATCH_NOT_FOUND}` })
+    );
+    expect(socket.close).toHaveBeenCalled();
+  });
+});
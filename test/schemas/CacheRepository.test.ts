@@ -3,7 +3,7 @@ import { mockDeep } from 'vitest-mock-extended';
 import type { FastifyRedis } from '@fastify/redis';
 import GameCacheRedis from '../../src/schemas/repositories/GameCacheRedis.js';
 import { validateMatchStorage } from '../../src/schemas/zod.js';
-import type { MatchStorage } from '../../src/schemas/zod.js';
+import type { MatchLogEvent, MatchStorage } from '../../src/schemas/zod.js';
 
 const redis = mockDeep<FastifyRedis>();
 const gameCache = new GameCacheRedis(redis);
@@ -36,20 +36,22 @@ describe('GameCacheRedis tests', () => {
     level: 1,
     map: 'testmap',
     timeSeconds: 300,
-    host: {
-      id: 'host1',
-      color: 'red',
-      coordinates: { x: 0, y: 0 },
-      direction: 'up',
-      state: 'alive',
-    },
-    guest: {
-      id: 'guest1',
-      color: 'blue',
-      coordinates: { x: 1, y: 1 },
-      direction: 'down',
-      state: 'alive',
-    },
+    players: [
+      {
+        id: 'host1',
+        color: 'red',
+        coordinates: { x: 0, y: 0 },
+        direction: 'up',
+        state: 'alive',
+      },
+      {
+        id: 'guest1',
+        color: 'blue',
+        coordinates: { x: 1, y: 1 },
+        direction: 'down',
+        state: 'alive',
+      },
+    ],
     board: {
       fruitType: ['apple', 'banana'],
       fruitsContainer: ['apple', 'banana'],
@@ -63,6 +65,7 @@ describe('GameCacheRedis tests', () => {
     },
     fruitGenerated: true,
     paused: false,
+    mode: 'classic',
   };
 
   beforeEach(() => {
@@ -87,20 +90,22 @@ describe('GameCacheRedis tests', () => {
         map: 'testmap',
         timeSeconds: '300',
         typeFruits: JSON.stringify(['apple', 'banana']),
-        host: JSON.stringify({
-          id: 'host1',
-          color: 'red',
-          coordinates: { x: 0, y: 0 },
-          direction: 'up',
-          state: 'alive',
-        }),
-        guest: JSON.stringify({
-          id: 'guest1',
-          color: 'blue',
-          coordinates: { x: 1, y: 1 },
-          direction: 'down',
-          state: 'alive',
-        }),
+        players: JSON.stringify([
+          {
+            id: 'host1',
+            color: 'red',
+            coordinates: { x: 0, y: 0 },
+            direction: 'up',
+            state: 'alive',
+          },
+          {
+            id: 'guest1',
+            color: 'blue',
+            coordinates: { x: 1, y: 1 },
+            direction: 'down',
+            state: 'alive',
+          },
+        ]),
         board: JSON.stringify({ cells: [] }),
         fruitGenerated: JSON.stringify(true),
         paused: JSON.stringify(false),
@@ -119,20 +124,22 @@ describe('GameCacheRedis tests', () => {
         level: 1,
         map: 'testmap',
         timeSeconds: 300,
-        host: {
-          id: 'host1',
-          color: 'red',
-          coordinates: { x: 0, y: 0 },
-          direction: 'up',
-          state: 'alive',
-        },
-        guest: {
-          id: 'guest1',
-          color: 'blue',
-          coordinates: { x: 1, y: 1 },
-          direction: 'down',
-          state: 'alive',
-        },
+        players: [
+          {
+            id: 'host1',
+            color: 'red',
+            coordinates: { x: 0, y: 0 },
+            direction: 'up',
+            state: 'alive',
+          },
+          {
+            id: 'guest1',
+            color: 'blue',
+            coordinates: { x: 1, y: 1 },
+            direction: 'down',
+            state: 'alive',
+          },
+        ],
         board: { cells: [] },
         fruitGenerated: true,
         paused: false,
@@ -146,20 +153,22 @@ describe('GameCacheRedis tests', () => {
         map: 'testmap',
         timeSeconds: '300',
         typeFruits: JSON.stringify(['apple', 'banana']),
-        host: JSON.stringify({
-          id: 'host1',
-          color: 'red',
-          coordinates: { x: 0, y: 0 },
-          direction: 'up',
-          state: 'alive',
-        }),
-        guest: JSON.stringify({
-          id: 'guest1',
-          color: 'blue',
-          coordinates: { x: 1, y: 1 },
-          direction: 'down',
-          state: 'alive',
-        }),
+        players: JSON.stringify([
+          {
+            id: 'host1',
+            color: 'red',
+            coordinates: { x: 0, y: 0 },
+            direction: 'up',
+            state: 'alive',
+          },
+          {
+            id: 'guest1',
+            color: 'blue',
+            coordinates: { x: 1, y: 1 },
+            direction: 'down',
+            state: 'alive',
+          },
+        ]),
         board: JSON.stringify({ cells: [] }),
         fruitGenerated: JSON.stringify(true),
         paused: JSON.stringify(false),
@@ -194,6 +203,59 @@ describe('GameCacheRedis tests', () => {
       expect(hsetArgs).toContain('1');
     });
 
+    it('should store the settings, the sequence, the log index and the pauses of the match', async () => {
+      redis.hset.mockResolvedValueOnce(0);
+      redis.expire.mockResolvedValueOnce(1);
+
+      await gameCache.saveMatch('match1', {
+        ...mockMatchStorage,
+        sequence: 12,
+        logIndex: 3,
+        pausesUsed: { host1: 2 },
+        pausedBy: 'host1',
+        pauseSecondsLeft: 20,
+      });
+
+      const hsetArgs = redis.hset.mock.calls[0][1] as unknown as string[];
+      const flat = Object.fromEntries(
+        hsetArgs.flatMap((value, index) => (index % 2 === 0 ? [[value, hsetArgs[index + 1]]] : []))
+      );
+      expect(JSON.parse(flat.settings)).toEqual({ mode: 'classic' });
+      expect(flat.sequence).toBe('12');
+      expect(flat.logIndex).toBe('3');
+      expect(JSON.parse(flat.pausesUsed)).toEqual({ host1: 2 });
+      expect(flat.pausedBy).toBe('host1');
+      expect(flat.pauseSecondsLeft).toBe('20');
+    });
+
+    it('should clear the pause of an older snapshot when no pause is running', async () => {
+      redis.hset.mockResolvedValueOnce(0);
+      redis.expire.mockResolvedValueOnce(1);
+
+      await gameCache.saveMatch('match1', mockMatchStorage);
+
+      const hsetArgs = redis.hset.mock.calls[0][1] as unknown as string[];
+      expect(hsetArgs).toEqual(expect.arrayContaining(['pausedBy', '', 'pauseSecondsLeft', '']));
+    });
+
+    it('should drop the events of the log contained in the snapshot', async () => {
+      redis.hset.mockResolvedValueOnce(0);
+      redis.expire.mockResolvedValueOnce(1);
+
+      await gameCache.saveMatch('match1', { ...mockMatchStorage, logIndex: 3 });
+
+      expect(redis.zremrangebyscore).toHaveBeenCalledWith('match-log:match1', '-inf', 3);
+    });
+
+    it('should keep the log when the snapshot contains no event', async () => {
+      redis.hset.mockResolvedValueOnce(0);
+      redis.expire.mockResolvedValueOnce(1);
+
+      await gameCache.saveMatch('match1', mockMatchStorage);
+
+      expect(redis.zremrangebyscore).not.toHaveBeenCalled();
+    });
+
     it('should handle error when setting expiration', async () => {
       redis.hset.mockResolvedValueOnce(0);
       redis.expire.mockRejectedValueOnce(new Error('Redis error'));
@@ -204,4 +266,115 @@ describe('GameCacheRedis tests', () => {
       expect(redis.expire).toHaveBeenCalledWith('match:match1', 15 * 60);
     });
   });
-});
\ No newline at end of file
+
+  describe('getMatch settings', () => {
+    it('should restore the settings, the sequence, the log index and the pauses of the match', async () => {
+      redis.hgetall.mockResolvedValueOnce({
+        id: 'match1',
+        level: '1',
+        map: 'testmap',
+        timeSeconds: '300',
+        players: JSON.stringify([]),
+        board: JSON.stringify({}),
+        fruitGenerated: 'false',
+        paused: 'false',
+        settings: JSON.stringify({ mode: 'procedural', seed: 7, difficulty: 'hard' }),
+        sequence: '12',
+        logIndex: '3',
+        pausesUsed: JSON.stringify({ host1: 2 }),
+        pausedBy: 'host1',
+        pauseSecondsLeft: '20',
+      });
+      redis.expire.mockResolvedValueOnce(1);
+
+      await gameCache.getMatch('match1');
+
+      expect(validateMatchStorage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          mode: 'procedural',
+          seed: 7,
+          difficulty: 'hard',
+          sequence: 12,
+          logIndex: 3,
+          pausesUsed: { host1: 2 },
+          pausedBy: 'host1',
+          pauseSecondsLeft: 20,
+        })
+      );
+    });
+  });
+
+  describe('save and restore', () => {
+    it('should restore a procedural match with the settings it was saved with', async () => {
+      const procedural: MatchStorage = {
+        ...mockMatchStorage,
+        mode: 'endless',
+        seed: 1234,
+        difficulty: 'hard',
+        versus: true,
+        sequence: 0,
+        logIndex: 0,
+        pausesUsed: {},
+      };
+      vi.mocked(validateMatchStorage).mockImplementation((data) => data as MatchStorage);
+      redis.hset.mockResolvedValueOnce(0);
+      redis.expire.mockResolvedValue(1);
+
+      await gameCache.saveMatch('match1', procedural);
+      const entries = redis.hset.mock.calls[0][1] as unknown as string[];
+      redis.hgetall.mockResolvedValueOnce(
+        Object.fromEntries(
+          entries.flatMap((value, index) => (index % 2 === 0 ? [[value, entries[index + 1]]] : []))
+        )
+      );
+
+      expect(await gameCache.getMatch('match1')).toEqual(procedural);
+    });
+  });
+
+  describe('removeMatch', () => {
+    it('should remove the match and its log', async () => {
+      redis.del.mockResolvedValueOnce(2);
+
+      await gameCache.removeMatch('match1');
+
+      expect(redis.del).toHaveBeenCalledWith('match:match1', 'match-log:match1');
+    });
+  });
+
+  describe('match log', () => {
+    const event: MatchLogEvent = {
+      index: 4,
+      timestamp: 1000,
+      userId: 'host1',
+      type: 'movement',
+      payload: 'up',
+      sequence: 9,
+    };
+
+    it('should append an event scored by its index', async () => {
+      redis.zadd.mockResolvedValueOnce('1');
+      redis.expire.mockResolvedValueOnce(1);
+
+      await gameCache.appendEvent('match1', event);
+
+      expect(redis.zadd).toHaveBeenCalledWith('match-log:match1', 4, JSON.stringify(event));
+      expect(redis.expire).toHaveBeenCalledWith('match-log:match1', 15 * 60);
+    });
+
+    it('should retrieve the events after an index in order', async () => {
+      redis.zrangebyscore.mockResolvedValueOnce([JSON.stringify(event)]);
+
+      const events = await gameCache.getEvents('match1', 3);
+
+      expect(redis.zrangebyscore).toHaveBeenCalledWith('match-log:match1', '(3', '+inf');
+      expect(events).toEqual([event]);
+    });
+
+    it('should reject an event that is not valid', async () => {
+      redis.zrangebyscore.mockResolvedValueOnce([JSON.stringify({ ...event, index: 0 })]);
+
+      await expect(gameCache.getEvents('match1', 0)).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mockDeep } from 'vitest-mock-extended';
+import type { FastifyRedis } from '@fastify/redis';
+import LeaderboardRepositoryRedis from '../../src/schemas/repositories/LeaderboardRepositoryRedis.js';
+import type MatchResultRepository from '../../src/schemas/MatchResultRepository.js';
+import type { LeaderboardQuery, MatchResult, PlayerResult } from '../../src/schemas/zod.js';
+
+vi.mock('../../src/server.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+  config: {},
+}));
+
+/**
+ * Keeps the sorted sets and hashes in memory, supporting the commands used by the leaderboards.
+ */
+const createRedis = () => {
+  const sets = new Map<string, Map<string, number>>();
+  const values = new Map<string, string>();
+  const getSet = (key: string) => {
+    if (!sets.has(key)) sets.set(key, new Map());
+    return sets.get(key) as Map<string, number>;
+  };
+  const range = (key: string, stop: number, ascending: boolean) =>
+    [...getSet(key).entries()]
+      .sort(([, a], [, b]) => (ascending ? a - b : b - a))
+      .slice(0, stop + 1)
+      .flatMap(([member, score]) => [member, String(score)]);
+  const set = vi.fn(async (key: string, value: string, ..._expiry: unknown[]) => {
+    values.set(key, value);
+  });
+  return {
+    zadd: vi.fn(async (key: string, flag: 'LT' | 'GT', score: number, member: string) => {
+      const current = getSet(key).get(member);
+      const better = flag === 'LT' ? score < (current ?? Infinity) : score > (current ?? -Infinity);
+      if (better) getSet(key).set(member, score);
+    }),
+    zincrby: vi.fn(async (key: string, increment: number, member: string) => {
+      getSet(key).set(member, (getSet(key).get(member) ?? 0) + increment);
+    }),
+    hincrby: vi.fn(async (key: string, field: string, increment: number) => {
+      const value = (getSet(key).get(field) ?? 0) + increment;
+      getSet(key).set(field, value);
+      return value;
+    }),
+    hset: vi.fn(async (key: string, field: string, value: number) => {
+      getSet(key).set(field, value);
+    }),
+    zrange: vi.fn(async (key: string, _start: number, stop: number) => range(key, stop, true)),
+    zrevrange: vi.fn(async (key: string, _start: number, stop: number) => range(key, stop, false)),
+    exists: vi.fn(async (key: string) => (values.has(key) || sets.has(key) ? 1 : 0)),
+    set,
+    del: vi.fn(async (...keys: string[]) => {
+      for (const key of keys) sets.delete(key);
+    }),
+    expire: vi.fn(),
+    // The queued commands run together on exec, like a MULTI
+    multi: vi.fn(() => {
+      const queued: (() => void)[] = [];
+      const transaction = {
+        rename: (key: string, destination: string) => {
+          queued.push(() => {
+            sets.set(destination, getSet(key));
+            sets.delete(key);
+          });
+          return transaction;
+        },
+        del: (key: string) => {
+          queued.push(() => sets.delete(key));
+          return transaction;
+        },
+        set: (key: string, value: string, ...expiry: unknown[]) => {
+          queued.push(() => set(key, value, ...expiry));
+          return transaction;
+        },
+        exec: async () => {
+          for (const command of queued) command();
+          return [];
+        },
+      };
+      return transaction;
+    }),
+  };
+};
+
+const getPlayer = (id: string, fruits: number, result: PlayerResult['result']): PlayerResult => ({
+  id,
+  fruits,
+  deaths: 0,
+  scoredAt: 0,
+  position: 1,
+  result,
+});
+
+const getResult = (result: Partial<MatchResult> = {}): MatchResult => ({
+  matchId: 'match1',
+  level: 1,
+  map: 'desert',
+  mode: 'classic',
+  versus: false,
+  result: 'win',
+  winner: null,
+  durationSeconds: 100,
+  enemiesFaced: 3,
+  players: [getPlayer('ana', 4, 'win'), getPlayer('bob', 2, 'win')],
+  ...result,
+});
+
+const query = (filters: Partial<LeaderboardQuery> = {}): LeaderboardQuery => ({
+  level: 1,
+  map: 'desert',
+  window: 'all-time',
+  scope: 'individual',
+  limit: 10,
+  ...filters,
+});
+
+describe('LeaderboardRepositoryRedis', () => {
+  const matchResultRepository = mockDeep<MatchResultRepository>();
+  let redis: ReturnType<typeof createRedis>;
+  let leaderboardRepository: LeaderboardRepositoryRedis;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    matchResultRepository.getLevelResults.mockResolvedValue([]);
+    redis = createRedis();
+    leaderboardRepository = new LeaderboardRepositoryRedis(
+      redis as unknown as FastifyRedis,
+      matchResultRepository
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should rebuild a board that is not cached from the stored results', async () => {
+    matchResultRepository.getLevelResults.mockResolvedValue([
+      getResult({ durationSeconds: 120 }),
+      getResult({ durationSeconds: 90, players: [getPlayer('ana', 6, 'win')] }),
+    ]);
+
+    const leaderboard = await leaderboardRepository.getLeaderboard(query());
+
+    expect(matchResultRepository.getLevelResults).toHaveBeenCalledWith(1, 'desert', undefined);
+    expect(leaderboard).toEqual({
+      level: 1,
+      map: 'desert',
+      window: 'all-time',
+      scope: 'individual',
+      fastestClear: [
+        { rank: 1, players: ['ana'], score: 90 },
+        { rank: 2, players: ['bob'], score: 120 },
+      ],
+      mostFruits: [
+        { rank: 1, players: ['ana'], score: 10 },
+        { rank: 2, players: ['bob'], score: 2 },
+      ],
+      longestStreak: [
+        { rank: 1, players: ['ana'], score: 2 },
+        { rank: 2, players: ['bob'], score: 1 },
+      ],
+    });
+  });
+
+  it('should add the new results to the cached boards', async () => {
+    await leaderboardRepository.getLeaderboard(query());
+    await leaderboardRepository.recordResult(getResult());
+
+    const leaderboard = await leaderboardRepository.getLeaderboard(query());
+
+    expect(matchResultRepository.getLevelResults).toHaveBeenCalledTimes(1);
+    expect(leaderboard.mostFruits.map(({ players }) => players)).toEqual([['ana'], ['bob']]);
+  });
+
+  it('should count the results once when two requests rebuild the same board', async () => {
+    matchResultRepository.getLevelResults.mockResolvedValue([getResult()]);
+
+    await Promise.all([
+      leaderboardRepository.getLeaderboard(query()),
+      leaderboardRepository.getLeaderboard(query()),
+    ]);
+    const leaderboard = await leaderboardRepository.getLeaderboard(query());
+
+    expect(leaderboard.mostFruits).toEqual([
+      { rank: 1, players: ['ana'], score: 4 },
+      { rank: 2, players: ['bob'], score: 2 },
+    ]);
+  });
+
+  it('should count a result recorded during a rebuild once', async () => {
+    let load: (results: MatchResult[]) => void = () => {};
+    matchResultRepository.getLevelResults.mockReturnValueOnce(
+      new Promise((resolve) => {
+        load = resolve;
+      })
+    );
+
+    const rebuilt = leaderboardRepository.getLeaderboard(query());
+    await leaderboardRepository.recordResult(getResult());
+    load([getResult()]);
+    const leaderboard = await rebuilt;
+
+    expect(leaderboard.mostFruits).toEqual([
+      { rank: 1, players: ['ana'], score: 4 },
+      { rank: 2, players: ['bob'], score: 2 },
+    ]);
+  });
+
+  it('should keep the longest win streak after a loss', async () => {
+    const won = getResult({ players: [getPlayer('ana', 1, 'win')] });
+    const lost = getResult({ result: 'lose', players: [getPlayer('ana', 1, 'lose')] });
+    matchResultRepository.getLevelResults.mockResolvedValue([won, won, lost, won]);
+
+    const leaderboard = await leaderboardRepository.getLeaderboard(query());
+
+    expect(leaderboard.longestStreak[0]).toEqual({ rank: 1, players: ['ana'], score: 2 });
+  });
+
+  it('should only count the clears of the cooperative matches', async () => {
+    matchResultRepository.getLevelResults.mockResolvedValue([
+      getResult({ versus: true, winner: 'ana', durationSeconds: 30 }),
+    ]);
+
+    const leaderboard = await leaderboardRepository.getLeaderboard(query());
+
+    expect(leaderboard.fastestClear).toEqual([]);
+    expect(leaderboard.mostFruits).toHaveLength(2);
+  });
+
+  it('should rank the teams of the cooperative matches without the bots', async () => {
+    matchResultRepository.getLevelResults.mockResolvedValue([
+      getResult(),
+      getResult({ players: [getPlayer('carl', 3, 'win'), getPlayer('bot-match2', 9, 'win')] }),
+      getResult({ versus: true, winner: 'ana' }),
+    ]);
+
+    const leaderboard = await leaderboardRepository.getLeaderboard(query({ scope: 'team' }));
+
+    expect(leaderboard.mostFruits).toEqual([
+      { rank: 1, players: ['ana', 'bob'], score: 6 },
+      { rank: 2, players: ['carl'], score: 3 },
+    ]);
+  });
+
+  it('should read the results of every map since the start of the week', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-22T15:30:00.000Z'));
+
+    const leaderboard = await leaderboardRepository.getLeaderboard(
+      query({ map: undefined, window: 'weekly' })
+    );
+
+    expect(matchResultRepository.getLevelResults).toHaveBeenCalledWith(
+      1,
+      undefined,
+      new Date('2026-10-19T00:00:00.000Z')
+    );
+    expect(leaderboard.map).toBeNull();
+    expect(redis.set).toHaveBeenCalledWith(
+      'leaderboard:1:*:weekly:2026-10-19:built',
+      '1',
+      'EX',
+      8 * 24 * 60 * 60
+    );
+  });
+
+  it('should record a result in the boards of its map and of every map', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-22T15:30:00.000Z'));
+
+    await leaderboardRepository.recordResult(getResult());
+
+    const keys = redis.zincrby.mock.calls.map(([key]) => key);
+    expect(new Set(keys)).toEqual(
+      new Set([
+        'leaderboard:1:desert:daily:2026-10-22:individual:most-fruits',
+        'leaderboard:1:desert:weekly:2026-10-19:individual:most-fruits',
+        'leaderboard:1:desert:all-time:individual:most-fruits',
+        'leaderboard:1:*:daily:2026-10-22:individual:most-fruits',
+        'leaderboard:1:*:weekly:2026-10-19:individual:most-fruits',
+        'leaderboard:1:*:all-time:individual:most-fruits',
+        'leaderboard:1:desert:daily:2026-10-22:team:most-fruits',
+        'leaderboard:1:desert:weekly:2026-10-19:team:most-fruits',
+        'leaderboard:1:desert:all-time:team:most-fruits',
+        'leaderboard:1:*:daily:2026-10-22:team:most-fruits',
+        'leaderboard:1:*:weekly:2026-10-19:team:most-fruits',
+        'leaderboard:1:*:all-time:team:most-fruits',
+      ])
+    );
+  });
+});
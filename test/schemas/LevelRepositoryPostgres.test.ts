@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockDeep } from 'vitest-mock-extended';
+import type { PrismaClient, CustomLevel as CustomLevelModel } from '@prisma/client';
+import LevelRepositoryPostgres from '../../src/schemas/repositories/LevelRepositoryPostgres.js';
+import LevelError from '../../src/errors/LevelError.js';
+import type { CustomLevel } from '../../src/schemas/zod.js';
+
+const mockCustomLevel: CustomLevel = {
+  level: 1,
+  map: 'volcano',
+  name: 'Lava lake',
+  fruits: ['grape', 'banana'],
+  enemy: 'troll',
+  rows: 16,
+  cols: 16,
+  playersStartCoordinates: [[9, 1], [9, 14]],
+  enemiesCoordinates: [[2, 4]],
+  fruitsCoordinates: [[4, 5]],
+  freezedCells: [],
+  rocksCoordinates: [[7, 7]],
+};
+
+const mockCustomLevelModel: CustomLevelModel = {
+  id: 'level123',
+  ...mockCustomLevel,
+  name: 'Lava lake',
+  enemiesSpeedOffsetMs: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+describe('LevelRepositoryPostgres', () => {
+  const mockPrisma = mockDeep<PrismaClient>();
+  let levelRepository: LevelRepositoryPostgres;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    levelRepository = new LevelRepositoryPostgres(mockPrisma);
+  });
+
+  describe('getLevels', () => {
+    it('should return the custom levels of a map', async () => {
+      mockPrisma.customLevel.findMany.mockResolvedValue([mockCustomLevelModel]);
+
+      const result = await levelRepository.getLevels('volcano');
+
+      expect(mockPrisma.customLevel.findMany).toHaveBeenCalledWith({
+        where: { map: 'volcano' },
+        orderBy: [{ map: 'asc' }, { level: 'asc' }],
+      });
+      expect(result).toEqual([mockCustomLevel]);
+    });
+
+    it('should return all the custom levels without a map', async () => {
+      mockPrisma.customLevel.findMany.mockResolvedValue([]);
+
+      await levelRepository.getLevels();
+
+      expect(mockPrisma.customLevel.findMany).toHaveBeenCalledWith({
+        where: undefined,
+        orderBy: [{ map: 'asc' }, { level: 'asc' }],
+      });
+    });
+  });
+
+  describe('getLevel', () => {
+    it('should return the custom level when found', async () => {
+      mockPrisma.customLevel.findUnique.mockResolvedValue(mockCustomLevelModel);
+
+      const result = await levelRepository.getLevel('volcano', 1);
+
+      expect(mockPrisma.customLevel.findUnique).toHaveBeenCalledWith({
+        where: { map_level: { map: 'volcano', level: 1 } },
+      });
+      expect(result).toEqual(mockCustomLevel);
+    });
+
+    it('should throw error when the level is not found', async () => {
+      mockPrisma.customLevel.findUnique.mockResolvedValue(null);
+
+      await expect(levelRepository.getLevel('volcano', 1)).rejects.toThrow(LevelError);
+    });
+  });
+
+  describe('createLevel', () => {
+    it('should create the custom level', async () => {
+      await levelRepository.createLevel(mockCustomLevel);
+
+      expect(mockPrisma.customLevel.create).toHaveBeenCalledWith({ data: mockCustomLevel });
+    });
+  });
+
+  describe('updateLevel', () => {
+    it('should update the custom level when found', async () => {
+      mockPrisma.customLevel.count.mockResolvedValue(1);
+
+      await levelRepository.updateLevel(mockCustomLevel);
+
+      expect(mockPrisma.customLevel.update).toHaveBeenCalled();
+      const updateCall = mockPrisma.customLevel.update.mock.calls[0][0];
+      expect(updateCall.where).toEqual({ map_level: { map: 'volcano', level: 1 } });
+      expect(updateCall.data.fruits).toEqual(['grape', 'banana']);
+      expect(updateCall.data.enemiesSpeedOffsetMs).toBeNull();
+    });
+
+    it('should throw error when the level is not found', async () => {
+      mockPrisma.customLevel.count.mockResolvedValue(0);
+
+      await expect(levelRepository.updateLevel(mockCustomLevel)).rejects.toThrow(LevelError);
+      expect(mockPrisma.customLevel.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeLevel', () => {
+    it('should delete the custom level when found', async () => {
+      mockPrisma.customLevel.count.mockResolvedValue(1);
+
+      await levelRepository.removeLevel('volcano', 1);
+
+      expect(mockPrisma.customLevel.delete).toHaveBeenCalledWith({
+        where: { map_level: { map: 'volcano', level: 1 } },
+      });
+    });
+
+    it('should throw error when the level is not found', async () => {
+      mockPrisma.customLevel.count.mockResolvedValue(0);
+
+      await expect(levelRepository.removeLevel('volcano', 1)).rejects.toThrow(LevelError);
+      expect(mockPrisma.customLevel.delete).not.toHaveBeenCalled();
+    });
+  });
+});
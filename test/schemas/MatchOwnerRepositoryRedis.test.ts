@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockDeep } from 'vitest-mock-extended';
+import type { FastifyRedis } from '@fastify/redis';
+import MatchOwnerRepositoryRedis from '../../src/schemas/repositories/MatchOwnerRepositoryRedis.js';
+
+const redis = mockDeep<FastifyRedis>();
+const matchOwnerRepository = new MatchOwnerRepositoryRedis(redis);
+
+describe('MatchOwnerRepositoryRedis', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should claim the match with a lease and return its owner', async () => {
+    redis.eval.mockResolvedValue('node-b');
+
+    const owner = await matchOwnerRepository.claim('match1', 'node-a', 15);
+
+    expect(owner).toBe('node-b');
+    expect(redis.eval).toHaveBeenCalledWith(
+      expect.stringContaining("'SET', KEYS[1], ARGV[1], 'EX', ARGV[2]"),
+      1,
+      'match-owner:match1',
+      'node-a',
+      15
+    );
+  });
+
+  it('should only renew the leases still owned by the node', async () => {
+    redis.eval.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+    expect(await matchOwnerRepository.renew('match1', 'node-a', 15)).toBe(true);
+    expect(await matchOwnerRepository.renew('match1', 'node-a', 15)).toBe(false);
+  });
+
+  it('should release the match only for its owner', async () => {
+    await matchOwnerRepository.release('match1', 'node-a');
+
+    expect(redis.eval).toHaveBeenCalledWith(
+      expect.stringContaining("~= ARGV[1] then return 0"),
+      1,
+      'match-owner:match1',
+      'node-a'
+    );
+  });
+
+  it('should return the owner of the match', async () => {
+    redis.get.mockResolvedValue(null);
+
+    expect(await matchOwnerRepository.getOwner('match1')).toBeNull();
+    expect(redis.get).toHaveBeenCalledWith('match-owner:match1');
+  });
+});
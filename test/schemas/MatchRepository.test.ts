@@ -39,7 +39,7 @@ describe('MatchRepositoryRedis', () => {
       const matchData = {
         id: 'match123',
         host: 'user1',
-        guest: 'user2',
+        players: JSON.stringify(['user1', 'user2']),
         level: '1',
         map: 'desert',
       };
@@ -68,7 +68,7 @@ describe('MatchRepositoryRedis', () => {
   describe('updateMatch', () => {
     it('should update match data', async () => {
       vi.mocked(redis.hgetall).mockResolvedValue({ id: 'match123', host: 'user1' });
-      const matchData = { guest: 'user2' };
+      const matchData = { started: true };
 
       await matchRepository.updateMatch('match123', matchData);
       expect(redis.hgetall).toHaveBeenCalledWith('matches:match123');
@@ -76,10 +76,19 @@ describe('MatchRepositoryRedis', () => {
       expect(redis.expire).toHaveBeenCalledWith('matches:match123', 600); // 10 minutes
     });
 
+    it('should store the players as JSON', async () => {
+      vi.mocked(redis.hgetall).mockResolvedValue({ id: 'match123', host: 'user1' });
+
+      await matchRepository.updateMatch('match123', { players: ['user1', 'user2'] });
+      expect(redis.hset).toHaveBeenCalledWith('matches:match123', {
+        players: JSON.stringify(['user1', 'user2']),
+      });
+    });
+
     it('should throw error when match not found', async () => {
       vi.mocked(redis.hgetall).mockResolvedValue({});
 
-      await expect(matchRepository.updateMatch('match123', { guest: 'user2' })).rejects.toThrow(
+      await expect(matchRepository.updateMatch('match123', { started: true })).rejects.toThrow(
         MatchError
       );
       expect(redis.hgetall).toHaveBeenCalledWith('matches:match123');
@@ -109,7 +118,8 @@ describe('MatchRepositoryRedis', () => {
       const match = {
         id: 'match123',
         host: 'user1',
-        guest: 'user2',
+        players: ['user1', 'user2'],
+        playersNumber: 2,
         level: 1,
         map: 'desert',
       };
@@ -121,8 +131,10 @@ describe('MatchRepositoryRedis', () => {
         'match123',
         'host',
         'user1',
-        'guest',
-        'user2',
+        'players',
+        JSON.stringify(['user1', 'user2']),
+        'playersNumber',
+        2,
         'level',
         1,
         'map',
@@ -131,11 +143,12 @@ describe('MatchRepositoryRedis', () => {
       expect(redis.expire).toHaveBeenCalledWith('matches:match123', 600); // 10 minutes
     });
 
-    it('should handle empty guest field', async () => {
+    it('should store a match waiting for its guests', async () => {
       const match = {
         id: 'match123',
         host: 'user1',
-        guest: '',
+        players: ['user1'],
+        playersNumber: 4,
         level: 1,
         map: 'desert',
       };
@@ -147,8 +160,10 @@ describe('MatchRepositoryRedis', () => {
         'match123',
         'host',
         'user1',
-        'guest',
-        '',
+        'players',
+        JSON.stringify(['user1']),
+        'playersNumber',
+        4,
         'level',
         1,
         'map',
@@ -11,6 +11,10 @@ const mockMatch: Match & { players: User[] } = {
   level: 1,
   map: 'default',
   started: false,
+  mode: 'classic',
+  seed: null,
+  difficulty: 'normal',
+  playersNumber: 2,
   expiredAt: new Date(Date.now() + 1200000),
   createdAt: new Date(),
   updatedAt: new Date(),
@@ -45,10 +49,13 @@ const mockMatch: Match & { players: User[] } = {
 const mockMatchDetails: MatchDetails = {
   id: 'match123',
   host: 'user123',
-  guest: 'user456',
+  players: ['user123', 'user456'],
+  playersNumber: 2,
   level: 1,
   map: 'default',
   started: false,
+  mode: 'classic',
+  difficulty: 'normal',
 };
 
 describe('MatchRepositoryPostgres', () => {
@@ -173,6 +180,37 @@ describe('MatchRepositoryPostgres', () => {
     });
   });
 
+  describe('procedural matches', () => {
+    it('should keep the seed of a procedural match', async () => {
+      mockPrisma.match.findUnique.mockResolvedValue({
+        ...mockMatch,
+        mode: 'endless',
+        seed: 1234,
+        difficulty: 'hard',
+      });
+
+      const result = await matchRepository.getMatchById('match123');
+
+      expect(result).toEqual({
+        ...mockMatchDetails,
+        mode: 'endless',
+        seed: 1234,
+        difficulty: 'hard',
+      });
+    });
+
+    it('should update the seed of the next round', async () => {
+      mockPrisma.match.count.mockResolvedValue(1);
+
+      await matchRepository.updateMatch('match123', { level: 2, seed: 99 });
+
+      expect(mockPrisma.match.update).toHaveBeenCalledWith({
+        where: { id: 'match123' },
+        data: expect.objectContaining({ level: 2, seed: 99 }),
+      });
+    });
+  });
+
   describe('createMatch', () => {
     it('should create a match with expiration time', async () => {
       await matchRepository.createMatch(mockMatchDetails);
@@ -183,6 +221,11 @@ describe('MatchRepositoryPostgres', () => {
           level: 1,
           map: 'default',
           started: false,
+          mode: 'classic',
+          difficulty: 'normal',
+          solo: false,
+          versus: false,
+          playersNumber: 2,
           expiredAt: expect.any(Date),
         },
       });
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockDeep } from 'vitest-mock-extended';
+import type { PrismaClient, MatchResult as MatchResultModel } from '@prisma/client';
+import MatchResultRepositoryPostgres from '../../src/schemas/repositories/MatchResultRepositoryPostgres.js';
+import type { MatchResult } from '../../src/schemas/zod.js';
+
+const playedAt = new Date('2026-10-19T10:00:00.000Z');
+
+const mockMatchResult: MatchResult = {
+  matchId: 'match1',
+  level: 2,
+  map: 'desert',
+  mode: 'classic',
+  versus: true,
+  result: 'win',
+  winner: 'user1',
+  durationSeconds: 120,
+  enemiesFaced: 4,
+  players: [
+    { id: 'user1', fruits: 6, deaths: 1, scoredAt: 100, position: 1, result: 'win' },
+    { id: 'user2', fruits: 2, deaths: 3, scoredAt: 40, position: 2, result: 'lose' },
+  ],
+};
+
+const getModel = (result: Partial<MatchResult> = {}): MatchResultModel => {
+  const { players, ...match } = { ...mockMatchResult, ...result };
+  return {
+    id: 'result1',
+    ...match,
+    players: players.map(({ id }) => id),
+    scores: players,
+    createdAt: playedAt,
+  } as MatchResultModel;
+};
+
+describe('MatchResultRepositoryPostgres', () => {
+  const mockPrisma = mockDeep<PrismaClient>();
+  let matchResultRepository: MatchResultRepositoryPostgres;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    matchResultRepository = new MatchResultRepositoryPostgres(mockPrisma);
+  });
+
+  describe('saveResult', () => {
+    it('should store the players and their scores', async () => {
+      await matchResultRepository.saveResult(mockMatchResult);
+
+      const { players, ...match } = mockMatchResult;
+      expect(mockPrisma.matchResult.create).toHaveBeenCalledWith({
+        data: { ...match, players: ['user1', 'user2'], scores: players },
+      });
+    });
+  });
+
+  describe('getHistory', () => {
+    it('should return the requested page of the matches of the user', async () => {
+      mockPrisma.matchResult.findMany.mockResolvedValue([getModel()]);
+      mockPrisma.matchResult.count.mockResolvedValue(11);
+
+      const history = await matchResultRepository.getHistory('user1', { page: 3, pageSize: 5 });
+
+      expect(mockPrisma.matchResult.findMany).toHaveBeenCalledWith({
+        where: { players: { has: 'user1' } },
+        orderBy: { createdAt: 'desc' },
+        skip: 10,
+        take: 5,
+      });
+      expect(history).toEqual({
+        results: [{ ...mockMatchResult, id: 'result1', playedAt: playedAt.toISOString() }],
+        page: 3,
+        pageSize: 5,
+        total: 11,
+      });
+    });
+  });
+
+  describe('getLevelResults', () => {
+    it('should return the results of a map since the given date, the oldest first', async () => {
+      mockPrisma.matchResult.findMany.mockResolvedValue([getModel()]);
+      const since = new Date('2026-10-19T00:00:00.000Z');
+
+      const results = await matchResultRepository.getLevelResults(2, 'desert', since);
+
+      expect(mockPrisma.matchResult.findMany).toHaveBeenCalledWith({
+        where: { level: 2, map: 'desert', createdAt: { gte: since } },
+        orderBy: { createdAt: 'asc' },
+      });
+      expect(results).toHaveLength(1);
+    });
+
+    it('should return the results of every map', async () => {
+      mockPrisma.matchResult.findMany.mockResolvedValue([]);
+
+      await matchResultRepository.getLevelResults(2);
+
+      expect(mockPrisma.matchResult.findMany).toHaveBeenCalledWith({
+        where: { level: 2 },
+        orderBy: { createdAt: 'asc' },
+      });
+    });
+  });
+
+  describe('getStats', () => {
+    it('should add up the matches of the user', async () => {
+      mockPrisma.matchResult.findMany.mockResolvedValue([
+        getModel(),
+        getModel({
+          level: 3,
+          versus: false,
+          result: 'lose',
+          winner: null,
+          durationSeconds: 300,
+          players: [
+            { id: 'user1', fruits: 4, deaths: 2, scoredAt: 200, position: 1, result: 'lose' },
+          ],
+        }),
+      ]);
+
+      const stats = await matchResultRepository.getStats('user1');
+
+      expect(stats).toEqual({
+        userId: 'user1',
+        matches: 2,
+        wins: 1,
+        losses: 1,
+        draws: 0,
+        fruits: 10,
+        deaths: 3,
+        playedSeconds: 420,
+        highestLevel: 3,
+      });
+    });
+
+    it('should return empty statistics for a user without matches', async () => {
+      mockPrisma.matchResult.findMany.mockResolvedValue([]);
+
+      const stats = await matchResultRepository.getStats('user3');
+
+      expect(stats).toEqual(expect.objectContaining({ userId: 'user3', matches: 0, wins: 0 }));
+    });
+  });
+});
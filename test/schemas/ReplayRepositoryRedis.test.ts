@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockDeep } from 'vitest-mock-extended';
+import type { FastifyRedis } from '@fastify/redis';
+import ReplayRepositoryRedis from '../../src/schemas/repositories/ReplayRepositoryRedis.js';
+import type { ReplayEvent } from '../../src/schemas/zod.js';
+
+const redis = mockDeep<FastifyRedis>();
+
+// In-memory Redis with the list, counter and rename commands of the replays
+const createFakeRedis = () => {
+  const store = new Map<string, string | string[]>();
+  const rename = (from: string, to: string) => {
+    store.set(to, store.get(from) as string[]);
+    store.delete(from);
+  };
+  const fake = {
+    rpush: vi.fn(async (key: string, value: string) => {
+      const list = (store.get(key) as string[] | undefined) ?? [];
+      store.set(key, [...list, value]);
+      return list.length + 1;
+    }),
+    expire: vi.fn(async () => 1),
+    exists: vi.fn(async (key: string) => (store.has(key) ? 1 : 0)),
+    incr: vi.fn(async (key: string) => {
+      const value = Number(store.get(key) ?? 0) + 1;
+      store.set(key, String(value));
+      return value;
+    }),
+    get: vi.fn(async (key: string) => (store.get(key) as string | undefined) ?? null),
+    lrange: vi.fn(async (key: string) => (store.get(key) as string[] | undefined) ?? []),
+    multi: () => {
+      const commands: (() => void)[] = [];
+      const transaction = {
+        rename: (from: string, to: string) => {
+          commands.push(() => rename(from, to));
+          return transaction;
+        },
+        expire: () => transaction,
+        exec: async () => {
+          for (const command of commands) command();
+          return [];
+        },
+      };
+      return transaction;
+    },
+  };
+  return fake as unknown as FastifyRedis;
+};
+const replayRepository = new ReplayRepositoryRedis(redis);
+
+const events: ReplayEvent[] = [
+  {
+    timestamp: 1_000,
+    source: 'output',
+    message: { type: 'update-time', payload: { minutesLeft: 5, secondsLeft: 0 } },
+  },
+  { timestamp: 1_250, source: 'input', userId: 'host1', message: { type: 'movement', payload: 'up' } },
+  {
+    timestamp: 3_000,
+    source: 'output',
+    message: { type: 'paused', payload: true },
+  },
+];
+
+describe('ReplayRepositoryRedis', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should append the events to the replay of the match', async () => {
+    await replayRepository.appendEvent('match1', events[1]);
+
+    expect(redis.rpush).toHaveBeenCalledWith('replay:match1', JSON.stringify(events[1]));
+    expect(redis.expire).toHaveBeenCalledWith('replay:match1', 7 * 24 * 60 * 60);
+  });
+
+  it('should return the timeline relative to the first event', async () => {
+    redis.lrange.mockResolvedValue(events.map((event) => JSON.stringify(event)));
+
+    const replay = await replayRepository.getReplay('match1');
+
+    expect(redis.lrange).toHaveBeenCalledWith('replay:match1', 0, -1);
+    expect(replay).toEqual({
+      matchId: 'match1',
+      round: 1,
+      startedAt: new Date(1_000).toISOString(),
+      durationMs: 2_000,
+      events: [
+        { offsetMs: 0, source: 'output', message: events[0].message },
+        { offsetMs: 250, source: 'input', userId: 'host1', message: events[1].message },
+        { offsetMs: 2_000, source: 'output', message: events[2].message },
+      ],
+    });
+  });
+
+  it('should return null when nothing was recorded', async () => {
+    redis.lrange.mockResolvedValue([]);
+
+    expect(await replayRepository.getReplay('match2')).toBeNull();
+  });
+
+  it('should keep each round of a match that goes on to the next level on its own', async () => {
+    const repository = new ReplayRepositoryRedis(createFakeRedis());
+
+    await repository.startRound('match1');
+    await repository.appendEvent('match1', events[0]);
+    await repository.appendEvent('match1', events[1]);
+    await repository.startRound('match1');
+    await repository.appendEvent('match1', events[2]);
+
+    const first = await repository.getReplay('match1', 1);
+    const second = await repository.getReplay('match1', 2);
+    expect(first?.round).toBe(1);
+    expect(first?.events.map(({ message }) => message)).toEqual([events[0].message, events[1].message]);
+    expect(second?.round).toBe(2);
+    expect(second?.events.map(({ message }) => message)).toEqual([events[2].message]);
+    expect(second?.durationMs).toBe(0);
+    expect(await repository.getReplay('match1')).toEqual(second);
+    expect(await repository.getReplay('match1', 3)).toBeNull();
+  });
+});
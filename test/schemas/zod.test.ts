@@ -17,7 +17,9 @@ import {
   validateGameMesssageInput,
   validateUpdateFruits,
   validateInfo,
-  validateUpdateEnemy
+  validateUpdateEnemy,
+  validateLevelDefinition,
+  validateCustomLevel
 } from '../../src/schemas/zod.js';
 
 describe('validateMatchInputDTO', () => {
@@ -29,6 +31,24 @@ describe('validateMatchInputDTO', () => {
     expect(validateMatchInputDTO(validData)).toEqual(validData);
   });
 
+  it('should validate a procedural match input DTO', () => {
+    const validData = {
+      level: 1,
+      map: 'desert',
+      mode: 'endless',
+      seed: 1234,
+      difficulty: 'hard',
+    };
+    expect(validateMatchInputDTO(validData)).toEqual(validData);
+  });
+
+  it('should throw error for an unknown mode, difficulty or invalid seed', () => {
+    expect(() => validateMatchInputDTO({ level: 1, map: 'desert', mode: 'arcade' })).toThrow();
+    expect(() => validateMatchInputDTO({ level: 1, map: 'desert', difficulty: 'extreme' })).toThrow();
+    expect(() => validateMatchInputDTO({ level: 1, map: 'desert', seed: -1 })).toThrow();
+    expect(() => validateMatchInputDTO({ level: 1, map: 'desert', seed: 1.5 })).toThrow();
+  });
+
   it('should throw error for negative level', () => {
     const invalidData = {
       level: -1,
@@ -63,7 +83,8 @@ describe('validateMatchDetails', () => {
     const validData = {
       id: 'match1',
       host: 'Alice',
-      guest: null,
+      players: ['Alice'],
+      playersNumber: 2,
       level: 1,
       map: 'desert'
     };
@@ -74,22 +95,52 @@ describe('validateMatchDetails', () => {
     const inputData = {
       id: 'match2',
       host: 'Bob',
-      guest: 'Charlie',
+      players: JSON.stringify(['Bob', 'Charlie']),
+      playersNumber: '4',
       level: '3',
       map: 'city'
     };
     const expectedOutput = {
       ...inputData,
+      players: ['Bob', 'Charlie'],
+      playersNumber: 4,
       level: 3
     };
     expect(validateMatchDetails(inputData)).toEqual(expectedOutput);
   });
 
+  it('should validate procedural match details converting the stored seed to number', () => {
+    const inputData = {
+      id: 'match6',
+      host: 'Bob',
+      players: ['Bob', 'Charlie'],
+      level: '2',
+      map: 'ice',
+      mode: 'endless',
+      seed: '1234',
+      difficulty: 'easy'
+    };
+    expect(validateMatchDetails(inputData)).toEqual({
+      ...inputData,
+      playersNumber: 2,
+      level: 2,
+      seed: 1234
+    });
+    expect(validateMatchDetails({ ...inputData, seed: null }).seed).toBeUndefined();
+  });
+
+  it('should validate solo match details converting the stored flag to boolean', () => {
+    const inputData = { id: 'match7', host: 'Bob', players: ['Bob'], level: 1, map: 'ice' };
+    expect(validateMatchDetails({ ...inputData, solo: 'true' }).solo).toBe(true);
+    expect(validateMatchDetails({ ...inputData, solo: 'false' }).solo).toBe(false);
+    expect(validateMatchDetails({ ...inputData, solo: null }).solo).toBeUndefined();
+  });
+
   it('should throw error when level is negative', () => {
     const invalidData = {
       id: 'match3',
       host: 'Dave',
-      guest: null,
+      players: ['Dave'],
       level: -1,
       map: 'desert'
     };
@@ -100,7 +151,7 @@ describe('validateMatchDetails', () => {
     const invalidData = {
       id: 'match4',
       host: 'Eve',
-      guest: null,
+      players: ['Eve'],
       level: 1,
       map: ''
     };
@@ -118,11 +169,11 @@ describe('validateMatchDetails', () => {
     expect(() => validateMatchDetails(123)).toThrow();
   });
 
-  it('should throw error for invalid guest type', () => {
+  it('should throw error for invalid players type', () => {
     const invalidData = {
       id: 'match6',
       host: 'George',
-      guest: 123,
+      players: [123],
       level: 1,
       map: 'forest'
     };
@@ -337,6 +388,17 @@ describe('validateBoardItemDTO', () => {
   });
 });
 
+describe('validateCoordinates with bounds', () => {
+  it('should validate coordinates inside the board', () => {
+    expect(validateCoordinates({ x: 9, y: 19 }, { rows: 10, cols: 20 })).toEqual({ x: 9, y: 19 });
+  });
+
+  it('should throw error for coordinates outside the board', () => {
+    expect(() => validateCoordinates({ x: 10, y: 0 }, { rows: 10, cols: 20 })).toThrow();
+    expect(() => validateCoordinates({ x: 0, y: 20 }, { rows: 10, cols: 20 })).toThrow();
+  });
+});
+
 describe('validateCoordinates', () => {
   it('should validate correct coordinates', () => {
     const validData = { x: 1, y: 2 };
@@ -545,4 +607,160 @@ describe('validateInfo', () => {
     };
     expect(() => validateInfo(invalidData)).toThrow();
   });
-});
\ No newline at end of file
+});
+describe('validateLevelDefinition', () => {
+  const grid = [
+    'P..............P',
+    ...Array.from({ length: 14 }, () => '..R..F..#..E....'),
+    '................',
+  ];
+
+  it('should validate a correct level definition', () => {
+    const validData = {
+      level: 6,
+      map: 'desert',
+      fruits: ['grape', 'banana'],
+      enemy: 'troll',
+      grid,
+    };
+    expect(validateLevelDefinition(validData)).toEqual(validData);
+  });
+
+  it('should throw error for unknown grid symbols', () => {
+    const invalidData = {
+      level: 6,
+      map: 'desert',
+      fruits: ['grape'],
+      enemy: 'troll',
+      grid: grid.map((row, index) => (index === 1 ? 'X'.repeat(16) : row)),
+    };
+    expect(() => validateLevelDefinition(invalidData)).toThrow();
+  });
+
+  it('should validate rectangular grids', () => {
+    const validData = {
+      level: 6,
+      map: 'desert',
+      fruits: ['grape'],
+      enemy: 'troll',
+      grid: ['P......F......P.', '....E...........', '................'],
+    };
+    expect(validateLevelDefinition(validData)).toEqual(validData);
+  });
+
+  it('should validate grids with typed enemy spawns', () => {
+    const validData = {
+      level: 6,
+      map: 'desert',
+      fruits: ['grape'],
+      enemy: 'troll',
+      grid: ['P..T...F..C...P.', '..L.E..B..G.....'],
+    };
+    expect(validateLevelDefinition(validData)).toEqual(validData);
+  });
+
+  it('should throw error for rows with a wrong length', () => {
+    const invalidData = {
+      level: 6,
+      map: 'desert',
+      fruits: ['grape'],
+      enemy: 'troll',
+      grid: grid.map((row, index) => (index === 1 ? '....' : row)),
+    };
+    expect(() => validateLevelDefinition(invalidData)).toThrow();
+  });
+
+  it('should throw error when the grid does not have any player start', () => {
+    const invalidData = {
+      level: 6,
+      map: 'desert',
+      fruits: ['grape'],
+      enemy: 'troll',
+      grid: grid.map((row, index) => (index === 0 ? '................' : row)),
+    };
+    expect(() => validateLevelDefinition(invalidData)).toThrow();
+  });
+
+  it('should throw error for a missing map', () => {
+    const invalidData = {
+      level: 6,
+      fruits: ['grape'],
+      enemy: 'troll',
+      grid,
+    };
+    expect(() => validateLevelDefinition(invalidData)).toThrow();
+  });
+
+  it('should throw error for unknown enemies', () => {
+    const invalidData = {
+      level: 6,
+      map: 'desert',
+      fruits: ['grape'],
+      enemy: 'dragon',
+      grid,
+    };
+    expect(() => validateLevelDefinition(invalidData)).toThrow();
+  });
+});
+
+describe('validateCustomLevel', () => {
+  const customLevel = {
+    level: 1,
+    map: 'volcano',
+    fruits: ['grape'],
+    enemy: 'cow',
+    playersStartCoordinates: [[9, 1], [9, 14]],
+    enemiesCoordinates: [[2, 4]],
+    fruitsCoordinates: [[4, 5]],
+    freezedCells: [],
+    rocksCoordinates: [[7, 7]],
+  };
+
+  it('should validate a correct custom level with the default dimensions', () => {
+    expect(validateCustomLevel(customLevel)).toEqual({ ...customLevel, rows: 16, cols: 16 });
+  });
+
+  it('should validate a custom level with custom dimensions', () => {
+    const rectangularLevel = { ...customLevel, rows: 10, cols: 24 };
+    expect(validateCustomLevel(rectangularLevel)).toEqual(rectangularLevel);
+  });
+
+  it('should throw error when there are more than four player starts', () => {
+    expect(() =>
+      validateCustomLevel({
+        ...customLevel,
+        playersStartCoordinates: [[9, 1], [9, 14], [10, 1], [10, 14], [11, 1]]
+      })
+    ).toThrow();
+  });
+
+  it('should throw error when the number of players is out of range', () => {
+    const inputData = { id: 'match8', host: 'Bob', players: ['Bob'], level: 1, map: 'ice' };
+    expect(() => validateMatchDetails({ ...inputData, playersNumber: 0 })).toThrow();
+    expect(() => validateMatchDetails({ ...inputData, playersNumber: 5 })).toThrow();
+  });
+
+  it('should throw error for malformed coordinates', () => {
+    expect(() => validateCustomLevel({ ...customLevel, rocksCoordinates: [[7]] })).toThrow();
+  });
+
+  it('should throw error when there are no fruits', () => {
+    expect(() => validateCustomLevel({ ...customLevel, fruitsCoordinates: [] })).toThrow();
+  });
+
+  it('should validate the type of each enemy spawn', () => {
+    const mixedLevel = {
+      ...customLevel,
+      rows: 16,
+      cols: 16,
+      enemiesCoordinates: [[2, 4], [3, 4]],
+      enemiesTypes: ['troll', null],
+    };
+    expect(validateCustomLevel(mixedLevel)).toEqual(mixedLevel);
+  });
+
+  it('should throw error when the enemy types do not match the spawns', () => {
+    expect(() => validateCustomLevel({ ...customLevel, enemiesTypes: [] })).toThrow();
+    expect(() => validateCustomLevel({ ...customLevel, enemiesTypes: ['dragon'] })).toThrow();
+  });
+});
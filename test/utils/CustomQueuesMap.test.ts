@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import CustomQueuesMap from '../../src/utils/CustomQueuesMap.js';
+import type { CustomMapKey } from '../../src/schemas/zod.js';
+
+describe('CustomQueuesMap', () => {
+  let queues: CustomQueuesMap<CustomMapKey, string>;
+
+  beforeEach(() => {
+    queues = new CustomQueuesMap<CustomMapKey, string>();
+  });
+
+  it('should retrieve the value added for the same criteria', () => {
+    queues.add({ map: 'desert', level: 1, playersNumber: 2 }, 'queue');
+    expect(queues.get({ map: 'desert', level: 1, playersNumber: 2 })).toBe('queue');
+    expect(queues.size()).toBe(1);
+  });
+
+  it('should keep a different queue for each number of players', () => {
+    queues.add({ map: 'desert', level: 1, playersNumber: 2 }, 'pairs');
+    queues.add({ map: 'desert', level: 1, playersNumber: 4 }, 'quartets');
+    expect(queues.get({ map: 'desert', level: 1, playersNumber: 2 })).toBe('pairs');
+    expect(queues.get({ map: 'desert', level: 1, playersNumber: 4 })).toBe('quartets');
+    expect(queues.get({ map: 'desert', level: 1 })).toBe('pairs');
+  });
+
+  it('should keep the versus queues apart from the cooperative ones', () => {
+    queues.add({ map: 'desert', level: 1, playersNumber: 2 }, 'coop');
+    queues.add({ map: 'desert', level: 1, playersNumber: 2, versus: true }, 'versus');
+    expect(queues.get({ map: 'desert', level: 1, playersNumber: 2, versus: false })).toBe('coop');
+    expect(queues.get({ map: 'desert', level: 1, playersNumber: 2, versus: true })).toBe('versus');
+  });
+
+  it('should remove and clear the values', () => {
+    queues.add({ map: 'desert', level: 1 }, 'queue');
+    queues.add({ map: 'ice', level: 2 }, 'other');
+    queues.remove({ map: 'desert', level: 1 });
+    expect(queues.get({ map: 'desert', level: 1 })).toBeUndefined();
+    queues.clear();
+    expect(queues.size()).toBe(0);
+  });
+});
@@ -116,4 +116,30 @@ describe('Graph', () => {
       expect(result.distance).toBe(2);
     });
   });
-});
\ No newline at end of file
+
+  describe('Reachable nodes', () => {
+    test('should return every node connected to the start node', () => {
+      const graph = new Graph();
+      graph.addEdge('A', 'B');
+      graph.addEdge('B', 'C');
+      graph.addEdge('D', 'E');
+      graph.addNode('F');
+
+      expect(graph.getReachableNodes('A')).toEqual(new Set(['A', 'B', 'C']));
+      expect(graph.getReachableNodes('E')).toEqual(new Set(['D', 'E']));
+      expect(graph.getReachableNodes('F')).toEqual(new Set(['F']));
+    });
+
+    test('should follow the direction of directional edges', () => {
+      const graph = new Graph();
+      graph.addEdge('A', 'B', 1, false);
+
+      expect(graph.getReachableNodes('A')).toEqual(new Set(['A', 'B']));
+      expect(graph.getReachableNodes('B')).toEqual(new Set(['B']));
+    });
+
+    test('should return an empty set for an unknown node', () => {
+      expect(new Graph().getReachableNodes('A').size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, test, expect } from 'vitest';
+import { SequentialIdGenerator, UuidGenerator } from '../../src/utils/IdGenerator.js';
+
+describe('IdGenerator', () => {
+  test('should generate sequential ids with the prefix', () => {
+    const ids = new SequentialIdGenerator('enemy');
+    expect([ids.next(), ids.next(), ids.next()]).toEqual(['enemy-1', 'enemy-2', 'enemy-3']);
+  });
+
+  test('should restart the sequence for every generator', () => {
+    expect(new SequentialIdGenerator().next()).toBe('item-1');
+    expect(new SequentialIdGenerator().next()).toBe('item-1');
+  });
+
+  test('should generate unique uuids', () => {
+    const ids = new UuidGenerator();
+    const first = ids.next();
+    expect(first).toMatch(/^[0-9a-f-]{36}$/);
+    expect(ids.next()).not.toBe(first);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import MessagePack from '../../src/utils/MessagePack.js';
+
+describe('MessagePack', () => {
+  it('should encode the values with the smallest type of the format', () => {
+    expect(MessagePack.encode(null)).toEqual(Buffer.from([0xc0]));
+    expect(MessagePack.encode(true)).toEqual(Buffer.from([0xc3]));
+    expect(MessagePack.encode(5)).toEqual(Buffer.from([0x05]));
+    expect(MessagePack.encode(-3)).toEqual(Buffer.from([0xfd]));
+    expect(MessagePack.encode(200)).toEqual(Buffer.from([0xcc, 0xc8]));
+    expect(MessagePack.encode(-200)).toEqual(Buffer.from([0xd1, 0xff, 0x38]));
+    expect(MessagePack.encode('up')).toEqual(Buffer.from([0xa2, 0x75, 0x70]));
+    expect(MessagePack.encode([1, 2])).toEqual(Buffer.from([0x92, 0x01, 0x02]));
+    expect(MessagePack.encode({ x: 1 })).toEqual(Buffer.from([0x81, 0xa1, 0x78, 0x01]));
+  });
+
+  it('should decode what it encodes', () => {
+    const message = {
+      type: 'update-all',
+      seq: 70000,
+      payload: {
+        board: [{ coordinates: [3, 15], item: { type: 'fruit', id: 'ñandú' }, frozen: false }],
+        time: -1.5,
+        players: Array.from({ length: 20 }, (_, i) => `player-${i}`),
+        text: 'x'.repeat(300),
+        big: 2 ** 40,
+        negative: -70000,
+      },
+    };
+    expect(MessagePack.decode(MessagePack.encode(message))).toEqual(message);
+  });
+
+  it('should leave out the undefined values like JSON', () => {
+    expect(MessagePack.decode(MessagePack.encode({ type: 'resync', payload: undefined }))).toEqual({
+      type: 'resync',
+    });
+  });
+
+  it('should reject truncated data, trailing bytes and unsupported types', () => {
+    expect(() => MessagePack.decode(Buffer.from([0x92, 0x01]))).toThrow(RangeError);
+    expect(() => MessagePack.decode(Buffer.from([0x01, 0x02]))).toThrow(RangeError);
+    expect(() => MessagePack.decode(Buffer.from([0xd4, 0x01, 0x02]))).toThrow(RangeError);
+  });
+
+  it('should not let a map key replace the prototype of the decoded object', () => {
+    const decoded = MessagePack.decode(
+      Buffer.from([0x81, 0xa9, ...Buffer.from('__proto__'), 0x81, 0xa1, 0x78, 0x01])
+    ) as Record<string, unknown>;
+    expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+    expect(decoded.__proto__).toEqual({ x: 1 });
+  });
+});
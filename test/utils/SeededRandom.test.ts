@@ -0,0 +1,46 @@
+import { describe, test, expect } from 'vitest';
+import { SeededRandom } from '../../src/utils/SeededRandom.js';
+
+describe('SeededRandom', () => {
+  test('should produce the same sequence for the same seed', () => {
+    const first = new SeededRandom(42);
+    const second = new SeededRandom(42);
+    const firstSequence = Array.from({ length: 20 }, () => first.next());
+    const secondSequence = Array.from({ length: 20 }, () => second.next());
+    expect(firstSequence).toEqual(secondSequence);
+  });
+
+  test('should produce different sequences for different seeds', () => {
+    const first = new SeededRandom(1);
+    const second = new SeededRandom(2);
+    expect(first.next()).not.toBe(second.next());
+  });
+
+  test('should generate numbers in range', () => {
+    const random = new SeededRandom(7);
+    for (let i = 0; i < 1000; i++) {
+      const value = random.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+      const integer = random.nextInt(5);
+      expect(Number.isInteger(integer)).toBe(true);
+      expect(integer).toBeGreaterThanOrEqual(0);
+      expect(integer).toBeLessThan(5);
+    }
+  });
+
+  test('should shuffle a copy without losing items', () => {
+    const items = [1, 2, 3, 4, 5, 6, 7, 8];
+    const shuffled = new SeededRandom(3).shuffle(items);
+    expect(items).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect([...shuffled].sort()).toEqual(items);
+    expect(new SeededRandom(3).shuffle(items)).toEqual(shuffled);
+  });
+
+  test('should generate valid random seeds', () => {
+    const seed = SeededRandom.randomSeed();
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThanOrEqual(SeededRandom.MAX_SEED);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import ZodJsonSchema from '../../src/utils/ZodJsonSchema.js';
+
+describe('ZodJsonSchema', () => {
+  it('should convert the objects with their required and optional properties', () => {
+    const schema = z.object({
+      id: z.string().nonempty(),
+      score: z.number().int().nonnegative().optional(),
+      direction: z.enum(['up', 'down']),
+      winner: z.string().nullable(),
+    });
+
+    expect(ZodJsonSchema.convert(schema)).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'string', minLength: 1 },
+        score: { type: 'integer', minimum: 0 },
+        direction: { type: 'string', enum: ['up', 'down'] },
+        winner: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+      },
+      required: ['id', 'direction', 'winner'],
+    });
+  });
+
+  it('should convert the arrays, unions, literals and defaults', () => {
+    expect(ZodJsonSchema.convert(z.array(z.number().lt(4)).min(1).max(3))).toEqual({
+      type: 'array',
+      items: { type: 'number', exclusiveMaximum: 4 },
+      minItems: 1,
+      maxItems: 3,
+    });
+    expect(ZodJsonSchema.convert(z.union([z.literal(1), z.boolean()]))).toEqual({
+      anyOf: [{ const: 1 }, { type: 'boolean' }],
+    });
+    expect(ZodJsonSchema.convert(z.enum(['json', 'msgpack']).default('json'))).toEqual({
+      type: 'string',
+      enum: ['json', 'msgpack'],
+      default: 'json',
+    });
+  });
+
+  it('should convert the schema wrapped by a transform', () => {
+    const schema = z.preprocess(
+      (val) => (typeof val === 'string' ? Number(val) : val),
+      z.number().int().positive().optional()
+    );
+    expect(ZodJsonSchema.convert(z.object({ protocol: schema }))).toEqual({
+      type: 'object',
+      properties: { protocol: { type: 'integer', exclusiveMinimum: 0 } },
+    });
+  });
+});